@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { connect, type AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createApp } from './app.js';
+import { loadConfig } from './config.js';
+import ProxyService from './proxy.js';
+import StreamHub from './stream-hub.js';
+import { createUpstreams } from './upstreams.js';
+import { FrameReader, OPCODES, encodeFrame, type Frame } from './websocket.js';
+
+/**
+ * Raw WebSocket handshake; resolves with the response head and the frames that follow
+ */
+function openStream(port: number, path: string, origin = 'http://localhost:5173') {
+  const socket = connect(port, '127.0.0.1');
+  const reader = new FrameReader();
+  const frames: Frame[] = [];
+  let head = '';
+
+  const opened = new Promise<string>((resolve) => {
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      if (head) {
+        frames.push(...reader.push(chunk));
+        return;
+      }
+      buffer = Buffer.concat([buffer, chunk]);
+      const end = buffer.indexOf('\r\n\r\n');
+      if (end < 0) return;
+      head = buffer.subarray(0, end).toString();
+      frames.push(...reader.push(buffer.subarray(end + 4)));
+      resolve(head);
+    });
+  });
+
+  socket.write(
+    `GET ${path} HTTP/1.1\r\nHost: localhost\r\nOrigin: ${origin}\r\nUpgrade: websocket\r\n` +
+      'Connection: Upgrade\r\nSec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n'
+  );
+  return { socket, frames, opened };
+}
+
+async function until(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('API server', () => {
+  let server: Server;
+  let baseUrl: string;
+  let staticDir: string;
+  let vendor: ReturnType<typeof vi.fn<[], Promise<Response>>>;
+
+  async function start(env: NodeJS.ProcessEnv, hub?: StreamHub) {
+    const config = loadConfig({ AIS_HUB_API_KEY: 'server-key', STATIC_DIR: staticDir, ...env });
+    const proxy = new ProxyService(createUpstreams(config), { fetch: vendor as typeof fetch });
+    server = createApp(config, { proxy, hub });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(async () => {
+    staticDir = await mkdtemp(join(tmpdir(), 'maritime-static-'));
+    await writeFile(join(staticDir, 'index.html'), '<!doctype html><title>Maritime Monitor</title>');
+    await writeFile(join(staticDir, 'app.js'), 'console.log(1)');
+    vendor = vi.fn(async () => new Response('{"result":[]}', { status: 200 }));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(staticDir, { recursive: true, force: true });
+  });
+
+  it('proxies vendor endpoints under /api', async () => {
+    await start({});
+
+    const response = await fetch(`${baseUrl}/api/aishub/vessels?xmin=103&xmax=104&ymin=1&ymax=2`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('x-cache')).toBe('MISS');
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(await response.json()).toEqual({ result: [] });
+  });
+
+  it('reports upstream configuration and usage without exposing keys', async () => {
+    await start({});
+
+    const body = await (await fetch(`${baseUrl}/api/health`)).text();
+
+    expect(JSON.parse(body).upstreams).toContainEqual(
+      expect.objectContaining({ id: 'openweather', configured: false })
+    );
+    expect(body).not.toContain('server-key');
+  });
+
+  it('only allows the configured origins', async () => {
+    await start({ ALLOWED_ORIGINS: 'https://maritime.example' });
+
+    const allowed = await fetch(`${baseUrl}/api/health`, { headers: { Origin: 'https://maritime.example' } });
+    const other = await fetch(`${baseUrl}/api/health`, { headers: { Origin: 'https://evil.example' } });
+
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://maritime.example');
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('serves the built client, falling back to index.html and staying inside its directory', async () => {
+    await start({});
+
+    const script = await fetch(`${baseUrl}/app.js`);
+    expect(script.headers.get('content-type')).toContain('text/javascript');
+    expect(await script.text()).toBe('console.log(1)');
+
+    expect(await (await fetch(`${baseUrl}/vessels/123`)).text()).toContain('<title>Maritime Monitor');
+    expect((await fetch(`${baseUrl}/missing.css`)).status).toBe(404);
+    expect(await (await fetch(`${baseUrl}/..%2f..%2fetc%2fpasswd`)).text()).toContain('<!doctype html>');
+    expect((await fetch(`${baseUrl}/api/health`, { method: 'POST' })).status).toBe(405);
+  });
+
+  it('pushes the ingested stream over a WebSocket, resuming from a sequence', async () => {
+    const hub = new StreamHub({ epoch: 'e1' });
+    hub.publish('incidents', [
+      {
+        id: 'recaap_1',
+        type: 'Singapore Strait',
+        description: 'Boarding',
+        location: '1.2, 103.8',
+        latitude: 1.2,
+        longitude: 103.8,
+        date: new Date('2026-02-28T00:00:00Z'),
+        severity: 'high',
+        status: 'reported',
+        source: 'ReCAAP ISC',
+        timestamp: new Date('2026-02-28T00:00:00Z'),
+      },
+    ]);
+    await start({ ALLOWED_ORIGINS: 'http://localhost:5173' }, hub);
+    const port = (server.address() as AddressInfo).port;
+
+    const fresh = openStream(port, '/api/stream');
+    expect(await fresh.opened).toContain('Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+    await until(() => fresh.frames.length === 3);
+    expect(fresh.frames.map((f) => JSON.parse(f.payload.toString()).type)).toEqual([
+      'snapshot',
+      'snapshot',
+      'snapshot',
+    ]);
+
+    const resumed = openStream(port, '/api/stream?epoch=e1&since=0');
+    await resumed.opened;
+    await until(() => resumed.frames.length === 1);
+    expect(JSON.parse(resumed.frames[0].payload.toString())).toMatchObject({ type: 'delta', seq: 1 });
+
+    // Keepalive: pings are answered, and a close is echoed
+    resumed.socket.write(encodeFrame(OPCODES.ping, 'hi', Buffer.from([1, 2, 3, 4])));
+    await until(() => resumed.frames.length === 2);
+    expect(resumed.frames[1]).toMatchObject({ opcode: OPCODES.pong });
+    expect(resumed.frames[1].payload.toString()).toBe('hi');
+
+    fresh.socket.write(encodeFrame(OPCODES.close, Buffer.alloc(0), Buffer.from([1, 2, 3, 4])));
+    await until(() => hub.getStats().clients === 1);
+    expect(hub.getStats().clients).toBe(1);
+    resumed.socket.destroy();
+    fresh.socket.destroy();
+
+    const foreign = openStream(port, '/api/stream', 'https://evil.example');
+    expect(await foreign.opened).toContain('403');
+    foreign.socket.destroy();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * API Server
+ * HTTP front for the vendor proxy, plus the built client when a static
+ * directory is configured (one container serves both).
+ *
+ * Routes:
+ *   GET /api/health                   upstream configuration, rate limit usage, cache stats
+ *   GET /api/stream?epoch=&since=     WebSocket push of ingested data (see stream-hub.ts)
+ *   GET /api/history/<query>          stored positions and incidents (see history-api.ts)
+ *   GET /api/<upstream>/<endpoint>    proxied vendor call (see upstreams.ts)
+ *   GET /*                            static files, index.html for unknown paths
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import type { Duplex } from 'node:stream';
+import ProxyService, { type ProxyResponse } from './proxy.js';
+import type HistoryStore from './history-store.js';
+import { handleHistoryRequest, type HistoryResponse } from './history-api.js';
+import type StreamHub from './stream-hub.js';
+import { acceptWebSocket } from './websocket.js';
+import { createUpstreams } from './upstreams.js';
+import type { ServerConfig } from './config.js';
+
+interface HttpResponse {
+  status: number;
+  body: string | Buffer;
+  headers: Record<string, string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+// Optional parts wired in by main.ts when ingestion is on
+export interface AppServices {
+  proxy?: ProxyService;
+  hub?: StreamHub;
+  history?: HistoryStore;
+}
+
+export function createApp(config: ServerConfig, services: AppServices = {}): Server {
+  const { hub, history } = services;
+  const proxy =
+    services.proxy || new ProxyService(createUpstreams(config), { maxEntries: config.cacheMaxEntries });
+
+  const server = createServer((req, res) => {
+    handleRequest(config, { proxy, hub, history }, req, res).catch((error) => {
+      console.error('[Server] Unhandled error:', error);
+      send(res, json(500, { error: 'Internal error' }));
+    });
+  });
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex) => handleUpgrade(config, hub, req, socket));
+  return server;
+}
+
+async function handleRequest(
+  config: ServerConfig,
+  { proxy, hub, history }: AppServices & { proxy: ProxyService },
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const isApi = url.pathname === '/api' || url.pathname.startsWith('/api/');
+  if (isApi) applyCors(config, req, res);
+
+  if (req.method === 'OPTIONS' && isApi) {
+    res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET', 'Access-Control-Max-Age': '86400' });
+    res.end();
+    return;
+  }
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    send(res, json(405, { error: 'Method not allowed' }));
+    return;
+  }
+
+  if (url.pathname === '/api/health') {
+    send(
+      res,
+      json(200, {
+        status: 'ok',
+        upstreams: proxy.getUpstreamStatus(),
+        cache: proxy.getStats(),
+        stream: hub?.getStats() ?? null,
+        history: history?.getStats() ?? null,
+      })
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/history/') && history) {
+    send(res, handleHistoryRequest(history, url.pathname.slice('/api/history/'.length), url.searchParams));
+    return;
+  }
+
+  if (isApi) {
+    const [, , upstream = '', endpoint = ''] = url.pathname.replace(/\/+$/, '').split('/');
+    send(res, await proxy.handle(upstream, endpoint, url.searchParams));
+    return;
+  }
+
+  if (!config.staticDir) {
+    send(res, json(404, { error: 'Not found' }));
+    return;
+  }
+  send(res, await serveStatic(config.staticDir, url.pathname));
+}
+
+/**
+ * WebSocket upgrade for /api/stream. Browsers do not apply CORS to
+ * WebSockets, so the origin is checked here.
+ */
+function handleUpgrade(
+  config: ServerConfig,
+  hub: StreamHub | undefined,
+  req: IncomingMessage,
+  socket: Duplex
+): void {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const origin = req.headers.origin;
+  const allowed =
+    !origin || config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin);
+
+  if (!hub || url.pathname !== '/api/stream' || !allowed) {
+    socket.end(`HTTP/1.1 ${allowed ? '404 Not Found' : '403 Forbidden'}\r\nConnection: close\r\n\r\n`);
+    return;
+  }
+
+  const connection = acceptWebSocket(req, socket);
+  if (!connection) return;
+
+  const epoch = url.searchParams.get('epoch');
+  const since = parseInt(url.searchParams.get('since') || '', 10);
+  hub.attach(connection, epoch && !isNaN(since) ? { epoch, seq: since } : undefined);
+}
+
+/**
+ * A file under `root`, or index.html so client-side routes load the app
+ */
+async function serveStatic(root: string, pathname: string): Promise<HttpResponse> {
+  const base = resolve(root);
+  const path = resolve(join(base, normalize(decodeURIComponent(pathname))));
+  const inside = path === base || path.startsWith(base + sep);
+  const file = inside && extname(path) ? path : join(base, 'index.html');
+
+  try {
+    return {
+      status: 200,
+      body: await readFile(file),
+      headers: { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' },
+    };
+  } catch {
+    return json(404, { error: 'Not found' });
+  }
+}
+
+function applyCors(config: ServerConfig, req: IncomingMessage, res: ServerResponse): void {
+  const origin = req.headers.origin;
+  if (config.allowedOrigins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+}
+
+function json(status: number, body: unknown): HttpResponse {
+  return { status, body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } };
+}
+
+function send(res: ServerResponse, response: HttpResponse | ProxyResponse | HistoryResponse): void {
+  res.writeHead(response.status, response.headers);
+  res.end(res.req.method === 'HEAD' ? undefined : response.body);
+}
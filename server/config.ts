@@ -0,0 +1,51 @@
+/**
+ * Server Configuration
+ * Read from the environment. Vendor keys live only here, never in the client bundle.
+ */
+
+export interface ServerConfig {
+  port: number;
+  staticDir: string | null; // built client to serve alongside the API; null for API only
+  allowedOrigins: string[]; // CORS; '*' allows any
+  cacheMaxEntries: number;
+  ingest: {
+    enabled: boolean; // poll vendors on the server and push to /api/stream
+    vesselsMs: number;
+    weatherMs: number;
+    incidentsMs: number;
+  };
+  history: {
+    path: string | null; // SQLite file for ingested positions and incidents; null disables
+    retentionDays: number;
+  };
+  keys: {
+    aishub: string;
+    openweather: string;
+  };
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    port: parseInt(env.PORT || '3000', 10) || 3000,
+    staticDir: env.STATIC_DIR || null,
+    allowedOrigins: (env.ALLOWED_ORIGINS || '*')
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    cacheMaxEntries: parseInt(env.CACHE_MAX_ENTRIES || '2000', 10) || 2000,
+    ingest: {
+      enabled: env.INGEST !== 'off',
+      vesselsMs: parseInt(env.INGEST_VESSELS_MS || '60000', 10) || 60000,
+      weatherMs: parseInt(env.INGEST_WEATHER_MS || '600000', 10) || 600000,
+      incidentsMs: parseInt(env.INGEST_INCIDENTS_MS || '1800000', 10) || 1800000,
+    },
+    history: {
+      path: env.HISTORY_DB === 'off' ? null : env.HISTORY_DB || 'data/history.db',
+      retentionDays: parseInt(env.HISTORY_RETENTION_DAYS || '30', 10) || 30,
+    },
+    keys: {
+      aishub: env.AIS_HUB_API_KEY || '',
+      openweather: env.OPENWEATHER_API_KEY || '',
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import HistoryStore from './history-store.js';
+import { handleHistoryRequest } from './history-api.js';
+import type { Vessel } from '../src/types/maritime';
+
+const NOW = new Date('2026-03-03T12:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+function report(minutesAgo: number, longitude: number): Vessel {
+  return {
+    imo: '',
+    mmsi: '111111111',
+    name: 'OCEAN PIONEER',
+    type: 'tanker',
+    flagState: 'SG',
+    position: { latitude: 1.2, longitude },
+    heading: 90,
+    speed: 10,
+    timestamp: new Date(NOW - minutesAgo * MINUTE),
+    source: 'AIS Hub',
+  };
+}
+
+describe('handleHistoryRequest', () => {
+  let store: HistoryStore;
+  const request = (endpoint: string, query: string) => {
+    const response = handleHistoryRequest(store, endpoint, new URLSearchParams(query), NOW);
+    return { status: response.status, body: JSON.parse(response.body) };
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    store = new HistoryStore(':memory:');
+    store.recordVessels([report(90, 103.5)]);
+    store.recordVessels([report(30, 103.8)]);
+    store.recordVessels([report(5, 104)]);
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.useRealTimers();
+  });
+
+  it('returns a track for a time window, ISO or epoch milliseconds', () => {
+    const { status, body } = request(
+      'track',
+      `mmsi=111111111&from=${new Date(NOW - 60 * MINUTE).toISOString()}&to=${NOW}`
+    );
+
+    expect(status).toBe(200);
+    expect(body.items.map((v: Vessel) => v.position.longitude)).toEqual([103.8, 104]);
+    expect(body).toMatchObject({ to: new Date(NOW).toISOString(), truncated: false });
+  });
+
+  it('defaults the window per query and flags truncated results', () => {
+    expect(request('positions', 'minLat=0&maxLat=2&minLon=103&maxLon=105').body.items).toHaveLength(2);
+
+    const limited = request('track', 'mmsi=111111111&limit=1').body;
+    expect(limited.items.map((v: Vessel) => v.position.longitude)).toEqual([104]); // latest kept
+    expect(limited.truncated).toBe(true);
+  });
+
+  it('rejects malformed queries', () => {
+    expect(request('track', 'mmsi=abc').status).toBe(400);
+    expect(request('positions', 'minLat=0&maxLat=2').body.error).toContain('none');
+    expect(request('positions', 'minLat=3&maxLat=2&minLon=0&maxLon=1').status).toBe(400);
+    expect(request('vessels', 'from=yesterday').status).toBe(400);
+    expect(request('vessels', `from=${NOW}&to=${NOW - 1}`).status).toBe(400);
+    expect(request('vessels', 'limit=0').status).toBe(400);
+    expect(request('vessels', 'to=99999999999999999').body.error).toBe('to: out of range');
+    expect(request('positions', 'minLat=0&maxLat=2&minLon=170&maxLon=190').status).toBe(400);
+    expect(request('toString', '').status).toBe(404);
+  });
+});
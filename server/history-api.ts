@@ -0,0 +1,127 @@
+/**
+ * History API
+ * Query endpoints over the history store, under /api/history:
+ *
+ *   track?mmsi=&from=&to=                     one vessel's reports (default: last 24 h)
+ *   positions?minLat=&maxLat=&minLon=&maxLon=&from=&to=   reports in an area (default: last hour)
+ *   vessels?<same>                            vessels seen in an area, at their last report
+ *   incidents?<same>                          incidents in an area (default: last 30 days)
+ *
+ * Times are ISO 8601 or milliseconds since epoch. The area is optional (all
+ * four bounds or none). Results are capped by `limit` (tracks keep the most
+ * recent reports); `truncated` is set when more matched.
+ */
+
+import type HistoryStore from './history-store.js';
+import type { HistoryQuery } from './history-store.js';
+import type { MapBounds } from '../src/types/maritime';
+
+export interface HistoryResponse {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_SPAN: Record<string, number> = {
+  track: 24 * HOUR,
+  positions: HOUR,
+  vessels: HOUR,
+  incidents: 30 * 24 * HOUR,
+};
+const DEFAULT_LIMIT = 5000;
+const MAX_LIMIT = 50000;
+
+class QueryError extends Error {}
+
+// Furthest time from the epoch a Date can hold
+const MAX_TIME = 8.64e15;
+
+function parseTime(query: URLSearchParams, name: string, fallback: number): number {
+  const value = query.get(name);
+  const given = value !== null && value !== '';
+  const time = !given ? fallback : /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (isNaN(time)) throw new QueryError(`${name}: expected an ISO date or epoch milliseconds`);
+  if (Math.abs(time) > MAX_TIME) throw new QueryError(`${name}: out of range`);
+  return time;
+}
+
+function parseBounds(query: URLSearchParams): MapBounds | undefined {
+  const names = ['minLat', 'maxLat', 'minLon', 'maxLon'] as const;
+  const given = names.filter((name) => query.has(name));
+  if (given.length === 0) return undefined;
+  if (given.length < names.length) throw new QueryError('give all of minLat, maxLat, minLon, maxLon or none');
+
+  const [minLat, maxLat, minLon, maxLon] = names.map((name) => Number(query.get(name)));
+  if (
+    [minLat, maxLat, minLon, maxLon].some((n) => !isFinite(n)) ||
+    minLat > maxLat ||
+    minLon > maxLon ||
+    minLat < -90 ||
+    maxLat > 90 ||
+    minLon < -180 ||
+    maxLon > 180
+  ) {
+    throw new QueryError('invalid bounds');
+  }
+  return { minLat, maxLat, minLon, maxLon };
+}
+
+function parseQuery(endpoint: string, query: URLSearchParams, now: number): HistoryQuery {
+  const to = parseTime(query, 'to', now);
+  const from = parseTime(query, 'from', to - DEFAULT_SPAN[endpoint]);
+  if (from > to) throw new QueryError('from is after to');
+
+  const limit = query.has('limit') ? parseInt(query.get('limit')!, 10) : DEFAULT_LIMIT;
+  if (!(limit > 0)) throw new QueryError('limit: expected a positive integer');
+
+  return { from, to, bounds: parseBounds(query), limit: Math.min(limit, MAX_LIMIT) };
+}
+
+function json(status: number, body: unknown): HistoryResponse {
+  return { status, body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } };
+}
+
+export function handleHistoryRequest(
+  store: HistoryStore,
+  endpoint: string,
+  query: URLSearchParams,
+  now = Date.now()
+): HistoryResponse {
+  if (!Object.hasOwn(DEFAULT_SPAN, endpoint)) return json(404, { error: 'Not found' });
+
+  let params: HistoryQuery;
+  try {
+    params = parseQuery(endpoint, query, now);
+  } catch (error) {
+    if (error instanceof QueryError) return json(400, { error: error.message });
+    throw error;
+  }
+
+  // One extra row tells whether the result was cut off
+  const probe = { ...params, limit: params.limit + 1 };
+  let items: unknown[];
+  switch (endpoint) {
+    case 'track': {
+      const mmsi = query.get('mmsi') || '';
+      if (!/^\d{9}$/.test(mmsi)) return json(400, { error: 'mmsi: expected 9 digits' });
+      items = store.getTrack(mmsi, params, probe.limit);
+      break;
+    }
+    case 'positions':
+      items = store.getPositions(probe);
+      break;
+    case 'vessels':
+      items = store.getVessels(probe);
+      break;
+    default:
+      items = store.getIncidents(probe);
+  }
+
+  return json(200, {
+    from: new Date(params.from).toISOString(),
+    to: new Date(params.to).toISOString(),
+    items: endpoint === 'track' ? items.slice(-params.limit) : items.slice(0, params.limit),
+    truncated: items.length > params.limit,
+  });
+}
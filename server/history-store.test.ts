@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import HistoryStore from './history-store.js';
+import { incident, vessel } from '../src/test/helpers';
+import type { SecurityIncident, Vessel } from '../src/types/maritime';
+
+const T0 = new Date('2026-03-03T08:00:00Z').getTime(); // a Tuesday
+const MINUTE = 60 * 1000;
+const STRAIT = { minLat: 0.5, maxLat: 2, minLon: 103, maxLon: 105 };
+
+function report(mmsi: string, minutes: number, latitude: number, longitude: number): Vessel {
+  return vessel({ mmsi, position: { latitude, longitude }, timestamp: new Date(T0 + minutes * MINUTE) });
+}
+
+function boarding(id: string, days: number, latitude: number): SecurityIncident {
+  const date = new Date(T0 - days * 24 * 60 * MINUTE);
+  return incident({ id, location: `${latitude}, 104`, latitude, longitude: 104, date });
+}
+
+describe('HistoryStore', () => {
+  let store: HistoryStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(T0 + 30 * MINUTE);
+    store = new HistoryStore(':memory:', { retentionDays: 7 });
+    // Vessel A crosses the strait eastwards; B stays in the Gulf
+    store.recordVessels([report('111111111', 0, 1.2, 103.5), report('222222222', 0, 26, 56)]);
+    store.recordVessels([report('111111111', 10, 1.25, 103.8), report('222222222', 0, 26, 56)]);
+    store.recordVessels([report('111111111', 20, 1.3, 106)]);
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.useRealTimers();
+  });
+
+  it('keeps one row per vessel and timestamp', () => {
+    expect(store.recordVessels([report('111111111', 10, 1.25, 103.8)])).toBe(0);
+    expect(store.getStats()).toMatchObject({ positions: 4, vessels: 2 });
+  });
+
+  it('answers where a vessel was between two times', () => {
+    const track = store.getTrack('111111111', { from: T0 + 5 * MINUTE, to: T0 + 60 * MINUTE }, 100);
+
+    expect(track.map((v) => v.position.longitude)).toEqual([103.8, 106]);
+    expect(track[0].timestamp).toEqual(new Date(T0 + 10 * MINUTE));
+    expect(store.getTrack('111111111', { from: T0, to: T0 + 60 * MINUTE }, 1)).toHaveLength(1);
+  });
+
+  it('finds reports and vessels in an area during a time window', () => {
+    const window = { from: T0, to: T0 + 60 * MINUTE };
+
+    const positions = store.getPositions({ ...window, bounds: STRAIT, limit: 100 });
+    expect(positions.map((v) => [v.mmsi, v.position.longitude])).toEqual([
+      ['111111111', 103.5],
+      ['111111111', 103.8],
+    ]);
+
+    const vessels = store.getVessels({ ...window, bounds: STRAIT, limit: 100 });
+    expect(vessels).toHaveLength(1);
+    expect(vessels[0]).toMatchObject({ mmsi: '111111111', position: { longitude: 103.8 } });
+
+    expect(store.getVessels({ ...window, limit: 100 }).map((v) => v.mmsi)).toEqual(['111111111', '222222222']);
+    expect(store.getPositions({ from: T0 + 30 * MINUTE, to: T0 + 60 * MINUTE, bounds: STRAIT, limit: 100 })).toEqual([]);
+  });
+
+  it('stores incidents by id and prunes everything past retention', () => {
+    store.recordIncidents([boarding('recaap_1', 1, 1.2), boarding('recaap_2', 10, 1.3), boarding('recaap_3', 2, 30)]);
+    store.recordIncidents([{ ...boarding('recaap_1', 1, 1.2), status: 'resolved' }]);
+
+    const found = store.getIncidents({ from: T0 - 30 * 24 * 60 * MINUTE, to: T0, bounds: STRAIT, limit: 10 });
+    expect(found.map((i) => [i.id, i.status])).toEqual([
+      ['recaap_2', 'reported'],
+      ['recaap_1', 'resolved'],
+    ]);
+
+    store.prune(T0 + 7 * 24 * 60 * MINUTE + 15 * MINUTE);
+    expect(store.getStats()).toMatchObject({ positions: 1, vessels: 1, incidents: 0 });
+    expect(store.getPositions({ from: T0, to: T0 + 60 * MINUTE, bounds: { minLat: 1, maxLat: 2, minLon: 105, maxLon: 107 }, limit: 10 })).toHaveLength(1);
+  });
+});
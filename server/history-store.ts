@@ -0,0 +1,305 @@
+/**
+ * History Store
+ * Time series of ingested vessel position reports and security incidents in
+ * SQLite. Reports are unique per (MMSI, timestamp), so re-ingesting an
+ * unchanged vendor response adds nothing. Vessel queries by area and time go
+ * through an R*Tree over (time, latitude, longitude); the tree holds 32-bit
+ * bounds, so matches are rechecked against the exact columns.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { MapBounds, SecurityIncident, Vessel } from '../src/types/maritime';
+
+export interface TimeWindow {
+  from: number; // ms since epoch, inclusive
+  to: number;
+}
+
+export interface HistoryQuery extends TimeWindow {
+  bounds?: MapBounds; // anywhere when absent
+  limit: number;
+}
+
+interface PositionRow {
+  mmsi: string;
+  time: number;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  course: number | null;
+  heading: number;
+  status: number | null;
+  name: string;
+  imo: string;
+  type: Vessel['type'];
+  flag: string;
+  source: string;
+}
+
+interface StoreOptions {
+  retentionDays?: number; // older reports and incidents are pruned
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS positions (
+    id INTEGER PRIMARY KEY,
+    mmsi TEXT NOT NULL,
+    time INTEGER NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    speed REAL NOT NULL,
+    course REAL,
+    heading REAL NOT NULL,
+    status INTEGER,
+    name TEXT NOT NULL,
+    imo TEXT NOT NULL,
+    type TEXT NOT NULL,
+    flag TEXT NOT NULL,
+    source TEXT NOT NULL,
+    UNIQUE (mmsi, time)
+  );
+  CREATE INDEX IF NOT EXISTS positions_time ON positions (time);
+  CREATE VIRTUAL TABLE IF NOT EXISTS positions_index USING rtree (
+    id, minTime, maxTime, minLat, maxLat, minLon, maxLon
+  );
+  CREATE TABLE IF NOT EXISTS incidents (
+    id TEXT PRIMARY KEY,
+    time INTEGER NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL,
+    record TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS incidents_time ON incidents (time);
+`;
+
+const HOUR = 60 * 60 * 1000;
+// Index lookups are widened past the 32-bit rounding (about 128 s at today's
+// epoch seconds), then narrowed by the exact columns
+const INDEX_SLACK_SECONDS = 256;
+const INDEX_SLACK_DEGREES = 0.001;
+
+function toVessel(row: PositionRow): Vessel {
+  return {
+    imo: row.imo,
+    mmsi: row.mmsi,
+    name: row.name,
+    type: row.type,
+    flagState: row.flag,
+    position: { latitude: row.latitude, longitude: row.longitude },
+    heading: row.heading,
+    course: row.course ?? undefined,
+    speed: row.speed,
+    status: row.status ?? undefined,
+    timestamp: new Date(row.time),
+    source: row.source,
+  };
+}
+
+class HistoryStore {
+  private db: Database.Database;
+  private retentionMs: number;
+  private lastPrune = 0;
+  private insertPosition: Database.Statement;
+  private insertIndex: Database.Statement;
+  private upsertIncident: Database.Statement;
+
+  /**
+   * @param path Database file, created with its directory if missing; ':memory:' for tests
+   */
+  constructor(path: string, options: StoreOptions = {}) {
+    if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.retentionMs = (options.retentionDays ?? 30) * 24 * HOUR;
+
+    this.insertPosition = this.db.prepare(`
+      INSERT OR IGNORE INTO positions
+        (mmsi, time, latitude, longitude, speed, course, heading, status, name, imo, type, flag, source)
+      VALUES
+        (@mmsi, @time, @latitude, @longitude, @speed, @course, @heading, @status, @name, @imo, @type, @flag, @source)
+    `);
+    this.insertIndex = this.db.prepare(
+      'INSERT INTO positions_index VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    this.upsertIncident = this.db.prepare(
+      'INSERT OR REPLACE INTO incidents (id, time, latitude, longitude, record) VALUES (?, ?, ?, ?, ?)'
+    );
+  }
+
+  /**
+   * Add position reports; returns how many were new
+   */
+  recordVessels(vessels: Vessel[]): number {
+    const insert = this.db.transaction((batch: Vessel[]) => {
+      let added = 0;
+      batch.forEach((v) => {
+        const time = new Date(v.timestamp).getTime();
+        if (isNaN(time)) return;
+        const { latitude, longitude } = v.position;
+        const result = this.insertPosition.run({
+          mmsi: v.mmsi,
+          time,
+          latitude,
+          longitude,
+          speed: v.speed,
+          course: v.course ?? null,
+          heading: v.heading,
+          status: v.status ?? null,
+          name: v.name,
+          imo: v.imo,
+          type: v.type,
+          flag: v.flagState,
+          source: v.source,
+        });
+        if (result.changes === 0) return;
+        const seconds = time / 1000;
+        this.insertIndex.run(result.lastInsertRowid, seconds, seconds, latitude, latitude, longitude, longitude);
+        added++;
+      });
+      return added;
+    });
+
+    const added = insert(vessels);
+    this.pruneIfDue();
+    return added;
+  }
+
+  /**
+   * Add or update incidents (by id)
+   */
+  recordIncidents(incidents: SecurityIncident[]): void {
+    this.db.transaction((batch: SecurityIncident[]) => {
+      batch.forEach((i) => {
+        this.upsertIncident.run(i.id, new Date(i.date).getTime(), i.latitude, i.longitude, JSON.stringify(i));
+      });
+    })(incidents);
+  }
+
+  /**
+   * Reports of one vessel in a time window, oldest first
+   */
+  getTrack(mmsi: string, window: TimeWindow, limit: number): Vessel[] {
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM positions WHERE mmsi = ? AND time BETWEEN ? AND ? ORDER BY time DESC LIMIT ?'
+      )
+      .all(mmsi, window.from, window.to, limit) as PositionRow[];
+    return rows.reverse().map(toVessel);
+  }
+
+  /**
+   * Reports in an area and time window, oldest first
+   */
+  getPositions(query: HistoryQuery): Vessel[] {
+    const { sql, params } = this.positionFilter(query);
+    const rows = this.db
+      .prepare(`SELECT p.* FROM ${sql} ORDER BY p.time LIMIT ?`)
+      .all(...params, query.limit) as PositionRow[];
+    return rows.map(toVessel);
+  }
+
+  /**
+   * Vessels seen in an area during a time window, each at its last report there
+   */
+  getVessels(query: HistoryQuery): Vessel[] {
+    const { sql, params } = this.positionFilter(query);
+    // SQLite takes the bare columns from the row holding MAX(time)
+    const rows = this.db
+      .prepare(`SELECT p.*, MAX(p.time) FROM ${sql} GROUP BY p.mmsi ORDER BY p.mmsi LIMIT ?`)
+      .all(...params, query.limit) as PositionRow[];
+    return rows.map(toVessel);
+  }
+
+  /**
+   * Incidents that happened in an area during a time window, oldest first
+   */
+  getIncidents(query: HistoryQuery): SecurityIncident[] {
+    const { bounds } = query;
+    const rows = this.db
+      .prepare(
+        `SELECT record FROM incidents WHERE time BETWEEN ? AND ?` +
+          (bounds ? ' AND latitude BETWEEN ? AND ? AND longitude BETWEEN ? AND ?' : '') +
+          ' ORDER BY time LIMIT ?'
+      )
+      .all(
+        query.from,
+        query.to,
+        ...(bounds ? [bounds.minLat, bounds.maxLat, bounds.minLon, bounds.maxLon] : []),
+        query.limit
+      ) as Array<{ record: string }>;
+    return rows.map((row) => JSON.parse(row.record));
+  }
+
+  getStats(): { positions: number; vessels: number; incidents: number; oldest: string | null } {
+    const positions = this.db
+      .prepare('SELECT COUNT(*) AS count, COUNT(DISTINCT mmsi) AS vessels, MIN(time) AS oldest FROM positions')
+      .get() as { count: number; vessels: number; oldest: number | null };
+    const incidents = this.db.prepare('SELECT COUNT(*) AS count FROM incidents').get() as { count: number };
+    return {
+      positions: positions.count,
+      vessels: positions.vessels,
+      incidents: incidents.count,
+      oldest: positions.oldest === null ? null : new Date(positions.oldest).toISOString(),
+    };
+  }
+
+  /**
+   * Delete reports and incidents older than the retention period
+   */
+  prune(now = Date.now()): void {
+    const cutoff = now - this.retentionMs;
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM positions_index WHERE id IN (SELECT id FROM positions WHERE time < ?)').run(cutoff);
+      this.db.prepare('DELETE FROM positions WHERE time < ?').run(cutoff);
+      this.db.prepare('DELETE FROM incidents WHERE time < ?').run(cutoff);
+    })();
+    this.lastPrune = now;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private pruneIfDue(): void {
+    if (Date.now() - this.lastPrune >= HOUR) this.prune();
+  }
+
+  /**
+   * FROM/WHERE clause selecting `p` rows for a query: through the spatial
+   * index when an area is given, otherwise by the time index
+   */
+  private positionFilter(query: HistoryQuery): { sql: string; params: number[] } {
+    const { bounds, from, to } = query;
+    if (!bounds) {
+      return { sql: 'positions p WHERE p.time BETWEEN ? AND ?', params: [from, to] };
+    }
+
+    const { minLat, maxLat, minLon, maxLon } = bounds;
+    return {
+      sql:
+        'positions_index r JOIN positions p ON p.id = r.id' +
+        ' WHERE r.maxTime >= ? AND r.minTime <= ? AND r.maxLat >= ? AND r.minLat <= ?' +
+        ' AND r.maxLon >= ? AND r.minLon <= ?' +
+        ' AND p.time BETWEEN ? AND ? AND p.latitude BETWEEN ? AND ? AND p.longitude BETWEEN ? AND ?',
+      params: [
+        from / 1000 - INDEX_SLACK_SECONDS,
+        to / 1000 + INDEX_SLACK_SECONDS,
+        minLat - INDEX_SLACK_DEGREES,
+        maxLat + INDEX_SLACK_DEGREES,
+        minLon - INDEX_SLACK_DEGREES,
+        maxLon + INDEX_SLACK_DEGREES,
+        from,
+        to,
+        minLat,
+        maxLat,
+        minLon,
+        maxLon,
+      ],
+    };
+  }
+}
+
+export default HistoryStore;
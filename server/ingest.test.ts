@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import IngestionWorker from './ingest.js';
+import ProxyService from './proxy.js';
+import StreamHub from './stream-hub.js';
+import HistoryStore from './history-store.js';
+import { createUpstreams } from './upstreams.js';
+import { loadConfig } from './config.js';
+import { getSimulation, respondToFixture } from '../src/lib/fixture-responses';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+const INTERVALS = { vessels: MINUTE, weather: 10 * MINUTE, incidents: 30 * MINUTE };
+const POINTS = [
+  { latitude: 1.26, longitude: 103.84 },
+  { latitude: 25.0, longitude: 55.06 },
+];
+
+// Vendors answered by the offline simulation
+function simulatedVendors() {
+  return vi.fn(async (url: string | URL | Request) => {
+    const { status, body } = respondToFixture(getSimulation(1), new URL(String(url)));
+    return new Response(JSON.stringify(body), { status });
+  });
+}
+
+function setup(env: NodeJS.ProcessEnv = {}) {
+  const fetchMock = simulatedVendors();
+  const config = loadConfig({ AIS_HUB_API_KEY: 'server-key', OPENWEATHER_API_KEY: 'weather-key', ...env });
+  const proxy = new ProxyService(createUpstreams(config), { fetch: fetchMock as typeof fetch });
+  const hub = new StreamHub({ epoch: 'test' });
+  const history = new HistoryStore(':memory:');
+  const worker = new IngestionWorker(hub, proxy, { intervals: INTERVALS, weatherPoints: POINTS, history });
+  return { fetchMock, hub, history, worker };
+}
+
+describe('IngestionWorker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads every kind once at start and publishes normalized records', async () => {
+    const { fetchMock, hub, worker } = setup();
+
+    const started = worker.start();
+    await vi.advanceTimersByTimeAsync(5000); // provider rate-limit spacing
+    await started;
+
+    const stats = hub.getStats();
+    expect(stats.vessels).toBeGreaterThan(0);
+    expect(stats.incidents).toBeGreaterThan(0);
+    expect(stats.weather).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(1 + POINTS.length + 1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('api_key=server-key');
+    worker.stop();
+  });
+
+  it('polls on each interval, pushing only changes and recording history', async () => {
+    const { hub, history, worker } = setup();
+    const started = worker.start();
+    await vi.advanceTimersByTimeAsync(5000);
+    await started;
+    const seq = hub.getSequence();
+    const recorded = history.getStats();
+
+    await vi.advanceTimersByTimeAsync(MINUTE);
+
+    // Simulated vessels moved; weather and incidents were not due yet
+    expect(hub.getSequence()).toBe(seq + 1);
+    expect(worker.getStatus().vessels?.failures).toBe(0);
+    expect(recorded.incidents).toBeGreaterThan(0);
+    expect(history.getStats().positions).toBeGreaterThan(recorded.positions);
+    worker.stop();
+    history.close();
+  });
+
+  it('skips upstreams without a key', async () => {
+    const { fetchMock, hub, worker } = setup({ AIS_HUB_API_KEY: '' });
+
+    const started = worker.start();
+    await vi.advanceTimersByTimeAsync(5000);
+    await started;
+
+    expect(Object.keys(worker.getStatus())).toEqual(['weather', 'incidents']);
+    expect(hub.getStats().vessels).toBe(0);
+    expect(fetchMock.mock.calls.some(([url]) => String(url).includes('aishub'))).toBe(false);
+    worker.stop();
+  });
+});
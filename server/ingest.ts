@@ -0,0 +1,152 @@
+/**
+ * Ingestion Worker
+ * Runs the vendor polling loops once for all clients and publishes the
+ * normalized records to the stream hub (and vessels and incidents to the
+ * history store). It reuses the client's AIS Hub,
+ * OpenWeather and ReCAAP adapters with the proxy injected as their transport,
+ * so ingestion shares its keys, cache and rate limits.
+ * Feed sources use urls of the form `proxy://<upstream>/<endpoint>`.
+ */
+
+import AisHubProvider from '../src/services/providers/aishub-provider';
+import OpenWeatherProvider from '../src/services/providers/openweather-provider';
+import ReCaapProvider from '../src/services/providers/recaap-provider';
+import PollScheduler, { type PollTaskState } from '../src/lib/poll-scheduler';
+import { MAJOR_PORTS } from '../src/config/ports';
+import type { ProviderOptions } from '../src/services/providers/types';
+import type { FeedSource, MapBounds, WeatherData } from '../src/types/maritime';
+import type HistoryStore from './history-store.js';
+import type ProxyService from './proxy.js';
+import StreamHub, { STREAM_KINDS, type StreamKind, type StreamRecords } from './stream-hub.js';
+
+const WORLD: MapBounds = { minLat: -90, maxLat: 90, minLon: -180, maxLon: 180 };
+
+interface IngestOptions {
+  intervals: Record<StreamKind, number>; // ms between polls
+  weatherPoints?: Array<{ latitude: number; longitude: number }>; // default: major ports
+  history?: HistoryStore | null;
+}
+
+/**
+ * Resolve a `proxy://` url through the proxy service
+ */
+async function proxiedFetch(proxy: ProxyService, name: string, url: string): Promise<unknown> {
+  const parsed = new URL(url);
+  const response = await proxy.handle(parsed.host, parsed.pathname.slice(1), parsed.searchParams);
+  if (response.status !== 200) {
+    throw new Error(`${name} API error: ${response.status}`);
+  }
+  return JSON.parse(response.body);
+}
+
+function source(id: string, name: string, url: string, category: FeedSource['category']): FeedSource {
+  return { id, name, provider: id, url, type: 'api', category, updateInterval: 0, enabled: true };
+}
+
+class IngestionWorker {
+  private hub: StreamHub;
+  private proxy: ProxyService;
+  private history: HistoryStore | null;
+  private intervals: Record<StreamKind, number>;
+  private weatherPoints: Array<{ latitude: number; longitude: number }>;
+  private scheduler = new PollScheduler({ visibility: null });
+  private vessels: AisHubProvider;
+  private weather: OpenWeatherProvider;
+  private incidents: ReCaapProvider;
+  // Last reading per point, kept when a later poll of that point fails
+  private weatherByPoint: Map<string, WeatherData> = new Map();
+
+  constructor(hub: StreamHub, proxy: ProxyService, options: IngestOptions) {
+    this.hub = hub;
+    this.proxy = proxy;
+    this.history = options.history || null;
+    this.intervals = options.intervals;
+    this.weatherPoints = options.weatherPoints || MAJOR_PORTS;
+    const vessels = source('aishub', 'AIS Hub', 'proxy://aishub/', 'vessel_tracking');
+    const weather = source('openweather', 'OpenWeather', 'proxy://openweather/', 'weather_alert');
+    const incidents = source('recaap', 'ReCAAP ISC', 'proxy://recaap/Incidents', 'piracy_incident');
+    const viaProxy = (feed: FeedSource): ProviderOptions => ({
+      fetchJson: (url) => proxiedFetch(proxy, feed.name, url),
+    });
+    this.vessels = new AisHubProvider(vessels, viaProxy(vessels));
+    this.weather = new OpenWeatherProvider(weather, viaProxy(weather));
+    this.incidents = new ReCaapProvider(incidents, viaProxy(incidents));
+  }
+
+  /**
+   * Poll every upstream that has its key, starting with an immediate load
+   */
+  async start(): Promise<void> {
+    const configured = new Set(
+      this.proxy.getUpstreamStatus().filter((u) => u.configured).map((u) => u.id)
+    );
+    const tasks: Array<{ id: StreamKind; upstream: string; run: () => Promise<void> }> = [
+      { id: 'vessels', upstream: 'aishub', run: () => this.ingestVessels() },
+      { id: 'weather', upstream: 'openweather', run: () => this.ingestWeather() },
+      { id: 'incidents', upstream: 'recaap', run: () => this.ingestIncidents() },
+    ];
+
+    const active = tasks.filter((task) => configured.has(task.upstream));
+    active.forEach(({ id, run }) => this.scheduler.add({ id, intervalMs: this.intervals[id], run }));
+    this.scheduler.start();
+    console.log(`[Ingest] Polling ${active.map((task) => task.id).join(', ') || 'nothing (no keys)'}`);
+    await this.scheduler.runNow();
+  }
+
+  stop(): void {
+    this.scheduler.stop();
+  }
+
+  getStatus(): Partial<Record<StreamKind, PollTaskState>> {
+    const status: Partial<Record<StreamKind, PollTaskState>> = {};
+    STREAM_KINDS.forEach((kind) => {
+      const state = this.scheduler.getState(kind);
+      if (state) status[kind] = state;
+    });
+    return status;
+  }
+
+  private async ingestVessels(): Promise<void> {
+    const vessels = await this.vessels.fetchByBounds(WORLD);
+    this.publish('vessels', vessels);
+    this.history?.recordVessels(vessels);
+  }
+
+  private async ingestIncidents(): Promise<void> {
+    const incidents = await this.incidents.fetchByBounds(WORLD);
+    this.publish('incidents', incidents);
+    this.history?.recordIncidents(incidents);
+  }
+
+  /**
+   * Current conditions at each point, one request at a time so the
+   * provider's rate limit spaces them out
+   */
+  private async ingestWeather(): Promise<void> {
+    let failures = 0;
+    for (const { latitude, longitude } of this.weatherPoints) {
+      const point = { minLat: latitude, maxLat: latitude, minLon: longitude, maxLon: longitude };
+      try {
+        const [reading] = await this.weather.fetchByBounds(point);
+        if (reading) this.weatherByPoint.set(`${latitude},${longitude}`, reading);
+      } catch {
+        failures++; // logged by the provider
+      }
+    }
+    if (failures === this.weatherPoints.length) {
+      throw new Error('No weather point could be loaded');
+    }
+    this.publish('weather', Array.from(this.weatherByPoint.values()));
+  }
+
+  private publish<K extends StreamKind>(kind: K, items: StreamRecords[K][]): void {
+    const delta = this.hub.publish(kind, items);
+    if (delta) {
+      console.log(
+        `[Ingest] ${kind}: ${delta.upserts.length} updated, ${delta.removals.length} removed (seq ${delta.seq})`
+      );
+    }
+  }
+}
+
+export default IngestionWorker;
@@ -0,0 +1,41 @@
+/**
+ * Server entry point: `npm run server` (after `npm run build:server`)
+ */
+
+import { createApp } from './app.js';
+import { loadConfig } from './config.js';
+import HistoryStore from './history-store.js';
+import IngestionWorker from './ingest.js';
+import ProxyService from './proxy.js';
+import StreamHub from './stream-hub.js';
+import { createUpstreams } from './upstreams.js';
+
+const config = loadConfig();
+const missing = Object.entries(config.keys)
+  .filter(([, key]) => !key)
+  .map(([name]) => name);
+if (missing.length > 0) {
+  console.warn(`[Server] No API key for: ${missing.join(', ')}; those endpoints answer 503`);
+}
+
+const proxy = new ProxyService(createUpstreams(config), { maxEntries: config.cacheMaxEntries });
+const hub = config.ingest.enabled ? new StreamHub() : undefined;
+// Stays queryable with ingestion off; it just stops growing
+const history = config.history.path
+  ? new HistoryStore(config.history.path, { retentionDays: config.history.retentionDays })
+  : undefined;
+
+createApp(config, { proxy, hub, history }).listen(config.port, () => {
+  console.log(
+    `[Server] Listening on :${config.port}` +
+      (config.staticDir ? `, serving ${config.staticDir}` : ' (API only)')
+  );
+
+  if (hub) {
+    const { vesselsMs, weatherMs, incidentsMs } = config.ingest;
+    new IngestionWorker(hub, proxy, {
+      intervals: { vessels: vesselsMs, weather: weatherMs, incidents: incidentsMs },
+      history,
+    }).start();
+  }
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import ProxyService from './proxy.js';
+import { createUpstreams } from './upstreams.js';
+import { loadConfig } from './config.js';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+const TILE = 'xmin=103&xmax=104&ymin=1&ymax=2&output=json';
+
+function vendor(status = 200, body = '{"result":[]}') {
+  return vi.fn(async (_url: string | URL | Request) => new Response(body, { status }));
+}
+
+function proxyWith(fetchMock: ReturnType<typeof vendor>, env: NodeJS.ProcessEnv = {}) {
+  const config = loadConfig({ AIS_HUB_API_KEY: 'server-key', OPENWEATHER_API_KEY: 'weather-key', ...env });
+  return new ProxyService(createUpstreams(config), { fetch: fetchMock as typeof fetch });
+}
+
+describe('ProxyService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replaces any client key with the server key', async () => {
+    const fetchMock = vendor();
+    const proxy = proxyWith(fetchMock);
+
+    const response = await proxy.handle('aishub', 'vessels', new URLSearchParams(`api_key=stolen&${TILE}`));
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]));
+    expect(url.origin + url.pathname).toBe('https://www.aishub.net/api/v2/vessels');
+    expect(url.searchParams.getAll('api_key')).toEqual(['server-key']);
+    expect(url.searchParams.get('xmin')).toBe('103');
+    expect(response).toMatchObject({ status: 200, body: '{"result":[]}' });
+    expect(response.body).not.toContain('server-key');
+  });
+
+  it('rejects unknown endpoints and vendors without a key', async () => {
+    const fetchMock = vendor();
+    const proxy = proxyWith(fetchMock, { OPENWEATHER_API_KEY: '' });
+
+    expect((await proxy.handle('aishub', 'admin', new URLSearchParams())).status).toBe(404);
+    expect((await proxy.handle('example', 'vessels', new URLSearchParams())).status).toBe(404);
+    expect((await proxy.handle('openweather', 'weather', new URLSearchParams('lat=1&lon=2'))).status).toBe(503);
+    expect(proxy.getUpstreamStatus().map((u) => u.configured)).toEqual([true, false, true]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('serves identical requests from every client out of one cached call', async () => {
+    const fetchMock = vendor();
+    const proxy = proxyWith(fetchMock);
+
+    const first = await proxy.handle('aishub', 'vessels', new URLSearchParams(TILE));
+    vi.advanceTimersByTime(30 * 1000);
+    // Same query in another order, with another client's (ignored) key
+    const second = await proxy.handle(
+      'aishub',
+      'vessels',
+      new URLSearchParams(`output=json&ymax=2&ymin=1&xmax=104&xmin=103&api_key=other`)
+    );
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(first.headers['X-Cache']).toBe('MISS');
+    expect(second.headers).toMatchObject({ 'X-Cache': 'HIT', Age: '30' });
+
+    vi.advanceTimersByTime(30 * 1000);
+    await proxy.handle('aishub', 'vessels', new URLSearchParams(TILE));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one rate limit across clients, serving stale copies or 429 beyond it', async () => {
+    const fetchMock = vendor();
+    const proxy = proxyWith(fetchMock);
+    const tile = (n: number) => new URLSearchParams(`xmin=${n}&xmax=${n + 1}&ymin=0&ymax=1`);
+
+    for (let n = 0; n < 100; n++) {
+      await proxy.handle('aishub', 'vessels', tile(n));
+      vi.advanceTimersByTime(1000);
+    }
+    vi.advanceTimersByTime(MINUTE);
+
+    const stale = await proxy.handle('aishub', 'vessels', tile(0));
+    expect(stale).toMatchObject({ status: 200, headers: { 'X-Cache': 'STALE' } });
+
+    const refused = await proxy.handle('aishub', 'vessels', tile(500));
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers['Retry-After'])).toBe(60 * 60 - 100 - 60);
+    expect(fetchMock).toHaveBeenCalledTimes(100);
+    expect(proxy.getStats()).toMatchObject({ misses: 100, stale: 1, rejected: 1 });
+  });
+
+  it('falls back to the stale copy when the vendor fails', async () => {
+    const fetchMock = vendor();
+    const proxy = proxyWith(fetchMock);
+    const query = new URLSearchParams('lat=1.3&lon=103.8&units=metric');
+
+    await proxy.handle('openweather', 'weather', query);
+    vi.advanceTimersByTime(11 * MINUTE);
+    fetchMock.mockResolvedValueOnce(new Response('{"message":"down"}', { status: 503 }));
+
+    expect((await proxy.handle('openweather', 'weather', query)).headers['X-Cache']).toBe('STALE');
+    expect((await proxy.handle('openweather', 'weather', new URLSearchParams('lat=0&lon=0'))).status).toBe(
+      200
+    );
+
+    fetchMock.mockRejectedValueOnce(new Error('fetch failed'));
+    expect((await proxy.handle('recaap', 'Incidents', new URLSearchParams())).status).toBe(502);
+  });
+});
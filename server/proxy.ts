@@ -0,0 +1,188 @@
+/**
+ * Vendor Proxy
+ * Forwards client requests to the upstream APIs with the server's keys added
+ * (and any client-supplied key removed). Responses are cached per normalized
+ * URL, so identical requests from different clients (e.g. the same map tile)
+ * cost one vendor call, and every upstream has one rate limit shared by all
+ * clients. Over the limit, or when the vendor fails, a stale copy is served if
+ * there is one.
+ */
+
+import { LRUCache } from 'lru-cache';
+import RateLimiter, { type LimiterUsage } from './rate-limiter.js';
+import type { Upstream } from './upstreams.js';
+
+export interface ProxyResponse {
+  status: number;
+  body: string;
+  headers: Record<string, string>;
+}
+
+export type CacheOutcome = 'HIT' | 'MISS' | 'STALE';
+
+export interface UpstreamStatus {
+  id: string;
+  name: string;
+  configured: boolean; // has the key it needs
+  usage: LimiterUsage;
+}
+
+export interface ProxyStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  stale: number;
+  rejected: number; // refused for the rate limit with nothing cached
+}
+
+interface CachedResponse {
+  body: string;
+  contentType: string;
+  fetchedAt: number;
+}
+
+interface ProxyOptions {
+  maxEntries?: number;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+class ProxyService {
+  private upstreams: Map<string, Upstream>;
+  private limiters: Map<string, RateLimiter> = new Map();
+  private cache: LRUCache<string, CachedResponse>;
+  private inFlight: Map<string, Promise<CachedResponse>> = new Map();
+  private fetchImpl: typeof fetch;
+  private timeoutMs: number;
+  private stats = { hits: 0, misses: 0, stale: 0, rejected: 0 };
+
+  constructor(upstreams: Upstream[], options: ProxyOptions = {}) {
+    this.upstreams = new Map(upstreams.map((upstream) => [upstream.id, upstream]));
+    upstreams.forEach((upstream) => this.limiters.set(upstream.id, new RateLimiter(upstream.rateLimit)));
+    this.cache = new LRUCache({ max: options.maxEntries ?? 2000 });
+    this.fetchImpl = options.fetch || fetch;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+  }
+
+  /**
+   * Answer GET /api/<upstream>/<endpoint>?<query>
+   */
+  async handle(upstreamId: string, endpoint: string, query: URLSearchParams): Promise<ProxyResponse> {
+    const upstream = this.upstreams.get(upstreamId);
+    if (!upstream || !upstream.endpoints.includes(endpoint)) {
+      return error(404, `Unknown endpoint /${upstreamId}/${endpoint}`);
+    }
+    if (upstream.keyParam && !upstream.apiKey) {
+      return error(503, `${upstream.name} is not configured on the server`);
+    }
+
+    const params = new URLSearchParams(query);
+    if (upstream.keyParam) params.delete(upstream.keyParam);
+    params.sort();
+    const key = `${upstream.id}/${endpoint}?${params.toString()}`;
+
+    const cached = this.cache.get(key);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    if (cached && age < upstream.ttlMs) {
+      this.stats.hits++;
+      return respond(cached, 'HIT');
+    }
+    const stale = cached && age < upstream.ttlMs + upstream.staleMs ? cached : null;
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending.then(
+        (response) => respond(response, 'MISS'),
+        () => (stale ? this.serveStale(stale) : error(502, `${upstream.name} request failed`))
+      );
+    }
+
+    const limiter = this.limiters.get(upstream.id)!;
+    if (!limiter.tryAcquire()) {
+      if (stale) return this.serveStale(stale);
+      this.stats.rejected++;
+      const retryAfter = Math.ceil(limiter.getUsage().retryAfterMs / 1000);
+      return error(429, `${upstream.name} rate limit reached`, { 'Retry-After': String(retryAfter) });
+    }
+
+    this.stats.misses++;
+    const request = this.fetchUpstream(upstream, endpoint, params).finally(() =>
+      this.inFlight.delete(key)
+    );
+    this.inFlight.set(key, request);
+
+    try {
+      const response = await request;
+      this.cache.set(key, response);
+      return respond(response, 'MISS');
+    } catch (err) {
+      console.warn(`[Proxy] ${upstream.name} ${endpoint} failed: ${(err as Error).message}`);
+      return stale ? this.serveStale(stale) : error(502, `${upstream.name} request failed`);
+    }
+  }
+
+  getUpstreamStatus(): UpstreamStatus[] {
+    return Array.from(this.upstreams.values()).map((upstream) => ({
+      id: upstream.id,
+      name: upstream.name,
+      configured: !upstream.keyParam || Boolean(upstream.apiKey),
+      usage: this.limiters.get(upstream.id)!.getUsage(),
+    }));
+  }
+
+  getStats(): ProxyStats {
+    return { entries: this.cache.size, ...this.stats };
+  }
+
+  private serveStale(response: CachedResponse): ProxyResponse {
+    this.stats.stale++;
+    return respond(response, 'STALE');
+  }
+
+  /**
+   * Call the vendor with the server's key; non-2xx responses reject
+   */
+  private async fetchUpstream(
+    upstream: Upstream,
+    endpoint: string,
+    params: URLSearchParams
+  ): Promise<CachedResponse> {
+    const url = new URL(endpoint, upstream.baseUrl);
+    url.search = params.toString();
+    if (upstream.keyParam && upstream.apiKey) {
+      url.searchParams.set(upstream.keyParam, upstream.apiKey);
+    }
+
+    const response = await this.fetchImpl(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return {
+      body: await response.text(),
+      contentType: response.headers.get('content-type') || 'application/json',
+      fetchedAt: Date.now(),
+    };
+  }
+}
+
+function respond(response: CachedResponse, outcome: CacheOutcome): ProxyResponse {
+  return {
+    status: 200,
+    body: response.body,
+    headers: {
+      'Content-Type': response.contentType,
+      'X-Cache': outcome,
+      Age: String(Math.floor((Date.now() - response.fetchedAt) / 1000)),
+    },
+  };
+}
+
+function error(status: number, message: string, headers: Record<string, string> = {}): ProxyResponse {
+  return {
+    status,
+    body: JSON.stringify({ error: message }),
+    headers: { 'Content-Type': 'application/json', ...headers },
+  };
+}
+
+export default ProxyService;
@@ -0,0 +1,57 @@
+/**
+ * Rate Limiter
+ * One limiter per upstream, shared by every client of the proxy. It does not
+ * queue: a request over the limit is refused with the time until a slot frees,
+ * and the proxy answers from its cache or with 429 instead.
+ */
+
+import type { RateLimit } from './upstreams.js';
+
+export interface LimiterUsage {
+  used: number; // requests in the current window
+  limit: number | null; // null without a window limit
+  retryAfterMs: number; // 0 when a request may be made now
+}
+
+class RateLimiter {
+  private policy: RateLimit;
+  private requestTimes: number[] = [];
+  private lastRequest = 0;
+
+  constructor(policy: RateLimit) {
+    this.policy = policy;
+  }
+
+  /**
+   * Take a slot if one is free
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.getUsage(now).retryAfterMs > 0) return false;
+    if (this.policy.maxRequests && this.policy.windowMs) this.requestTimes.push(now);
+    this.lastRequest = now;
+    return true;
+  }
+
+  getUsage(now: number = Date.now()): LimiterUsage {
+    const { maxRequests, windowMs, minIntervalMs } = this.policy;
+    let retryAfterMs = 0;
+
+    if (maxRequests && windowMs) {
+      this.requestTimes = this.requestTimes.filter((t) => now - t < windowMs);
+      if (this.requestTimes.length >= maxRequests) {
+        retryAfterMs = this.requestTimes[0] + windowMs - now;
+      }
+    }
+    if (minIntervalMs) {
+      retryAfterMs = Math.max(retryAfterMs, this.lastRequest + minIntervalMs - now);
+    }
+
+    return {
+      used: this.requestTimes.length,
+      limit: maxRequests && windowMs ? maxRequests : null,
+      retryAfterMs: Math.max(0, retryAfterMs),
+    };
+  }
+}
+
+export default RateLimiter;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import StreamHub, { type StreamConnection, type StreamMessage } from './stream-hub.js';
+import { incident, vessel } from '../src/test/helpers';
+
+// A later fix of the same vessel
+const MOVED = { latitude: 1.3, longitude: 103.8 };
+
+function client() {
+  const messages: StreamMessage[] = [];
+  const closeListeners: Array<() => void> = [];
+  const connection: StreamConnection = {
+    send: (text) => messages.push(JSON.parse(text)),
+    onClose: (listener) => closeListeners.push(listener),
+  };
+  return { connection, messages, close: () => closeListeners.forEach((listener) => listener()) };
+}
+
+describe('StreamHub', () => {
+  it('sends new clients a snapshot of every kind', () => {
+    const hub = new StreamHub({ epoch: 'e1' });
+    hub.publish('vessels', [vessel({ mmsi: '111111111' }), vessel({ mmsi: '222222222' })]);
+    hub.publish('incidents', [incident()]);
+
+    const { connection, messages } = client();
+    hub.attach(connection);
+
+    expect(messages.map((m) => [m.type, m.kind, m.seq])).toEqual([
+      ['snapshot', 'vessels', 2],
+      ['snapshot', 'weather', 2],
+      ['snapshot', 'incidents', 2],
+    ]);
+    expect(messages[0].type === 'snapshot' && messages[0].items).toHaveLength(2);
+  });
+
+  it('broadcasts only what changed, numbering each delta', () => {
+    const hub = new StreamHub({ epoch: 'e1' });
+    const { connection, messages } = client();
+    hub.attach(connection);
+    messages.length = 0;
+
+    const moved = [vessel({ mmsi: '111111111', position: MOVED }), vessel({ mmsi: '333333333' })];
+    hub.publish('vessels', [vessel({ mmsi: '111111111' }), vessel({ mmsi: '222222222' })]);
+    hub.publish('vessels', moved);
+    expect(hub.publish('vessels', moved)).toBeNull();
+
+    expect(messages).toMatchObject([
+      { type: 'delta', seq: 1, kind: 'vessels', removals: [] },
+      {
+        type: 'delta',
+        seq: 2,
+        upserts: [{ mmsi: '111111111', position: { latitude: 1.3 } }, { mmsi: '333333333' }],
+        removals: ['222222222'],
+      },
+    ]);
+    expect(hub.getStats()).toMatchObject({ clients: 1, seq: 2, vessels: 2 });
+  });
+
+  it('resumes a reconnecting client from the sequence it last saw', () => {
+    const hub = new StreamHub({ epoch: 'e1' });
+    hub.publish('vessels', [vessel({ mmsi: '111111111' })]);
+    hub.publish('vessels', [vessel({ mmsi: '111111111', position: MOVED })]);
+    hub.publish('incidents', [incident()]);
+
+    const { connection, messages } = client();
+    hub.attach(connection, { epoch: 'e1', seq: 1 });
+
+    expect(messages.map((m) => [m.type, m.seq, m.kind])).toEqual([
+      ['delta', 2, 'vessels'],
+      ['delta', 3, 'incidents'],
+    ]);
+
+    const current = client();
+    hub.attach(current.connection, { epoch: 'e1', seq: 3 });
+    expect(current.messages).toEqual([]);
+  });
+
+  it('falls back to snapshots across restarts or beyond the kept history', () => {
+    const hub = new StreamHub({ epoch: 'e2', historyBytes: 1 });
+    hub.publish('vessels', [vessel({ mmsi: '111111111' })]);
+    hub.publish('vessels', [vessel({ mmsi: '111111111', position: MOVED })]);
+
+    const restarted = client();
+    hub.attach(restarted.connection, { epoch: 'e1', seq: 2 });
+    expect(restarted.messages.every((m) => m.type === 'snapshot')).toBe(true);
+
+    const behind = client();
+    hub.attach(behind.connection, { epoch: 'e2', seq: 0 });
+    expect(behind.messages.every((m) => m.type === 'snapshot')).toBe(true);
+  });
+
+  it('stops sending to clients that closed', () => {
+    const hub = new StreamHub();
+    const { connection, messages, close } = client();
+    hub.attach(connection);
+    close();
+    messages.length = 0;
+
+    hub.publish('vessels', [vessel({ mmsi: '111111111' })]);
+
+    expect(messages).toEqual([]);
+    expect(hub.getStats().clients).toBe(0);
+  });
+});
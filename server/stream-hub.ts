@@ -0,0 +1,158 @@
+/**
+ * Stream Hub
+ * Holds the latest vessels, weather and incidents ingested on the server and
+ * pushes changes to connected clients. Every publish is diffed against the
+ * current set by id and sent as a numbered delta (upserts + removals). Recent
+ * deltas are kept so a reconnecting client can resume from the last sequence
+ * it saw; clients that are too far behind, new, or from before a restart
+ * (another epoch) get a snapshot of every kind instead.
+ */
+
+import type { SecurityIncident, Vessel, WeatherData } from '../src/types/maritime';
+
+export interface StreamRecords {
+  vessels: Vessel;
+  weather: WeatherData;
+  incidents: SecurityIncident;
+}
+
+export type StreamKind = keyof StreamRecords;
+
+export const STREAM_KINDS: StreamKind[] = ['vessels', 'weather', 'incidents'];
+
+/**
+ * Identity of a record within its kind (vessels by MMSI)
+ */
+export function recordKey<K extends StreamKind>(kind: K, record: StreamRecords[K]): string {
+  return kind === 'vessels' ? (record as Vessel).mmsi : (record as WeatherData | SecurityIncident).id;
+}
+
+export type StreamMessage =
+  | { type: 'snapshot'; epoch: string; seq: number; kind: StreamKind; items: unknown[] }
+  | {
+      type: 'delta';
+      epoch: string;
+      seq: number;
+      kind: StreamKind;
+      upserts: unknown[];
+      removals: string[];
+    };
+
+// Client connection (a WebSocket, or a fake in tests)
+export interface StreamConnection {
+  send(text: string): void;
+  onClose(listener: () => void): void;
+}
+
+interface HubOptions {
+  historyBytes?: number; // serialized deltas kept for resuming
+  epoch?: string;
+}
+
+type DeltaMessage = Extract<StreamMessage, { type: 'delta' }>;
+
+class StreamHub {
+  readonly epoch: string;
+  private historyBytes: number;
+  private seq = 0;
+  private items: Record<StreamKind, Map<string, { item: unknown; json: string }>> = {
+    vessels: new Map(),
+    weather: new Map(),
+    incidents: new Map(),
+  };
+  private history: Array<{ seq: number; text: string }> = [];
+  private historyUsed = 0;
+  private clients: Set<StreamConnection> = new Set();
+
+  constructor(options: HubOptions = {}) {
+    this.historyBytes = options.historyBytes ?? 32 * 1024 * 1024;
+    this.epoch = options.epoch ?? Date.now().toString(36);
+  }
+
+  /**
+   * Replace the current set of a kind and broadcast what changed.
+   * Returns the delta, or null when nothing changed.
+   */
+  publish<K extends StreamKind>(kind: K, items: StreamRecords[K][]): DeltaMessage | null {
+    const current = this.items[kind];
+    const next: Map<string, { item: unknown; json: string }> = new Map();
+    const upserts: unknown[] = [];
+
+    items.forEach((item) => {
+      const key = recordKey(kind, item);
+      const json = JSON.stringify(item);
+      next.set(key, { item, json });
+      if (current.get(key)?.json !== json) upserts.push(item);
+    });
+    const removals = Array.from(current.keys()).filter((id) => !next.has(id));
+
+    this.items[kind] = next;
+    if (upserts.length === 0 && removals.length === 0) return null;
+
+    const delta: DeltaMessage = {
+      type: 'delta',
+      epoch: this.epoch,
+      seq: ++this.seq,
+      kind,
+      upserts,
+      removals,
+    };
+    const text = JSON.stringify(delta);
+    this.history.push({ seq: delta.seq, text });
+    this.historyUsed += text.length;
+    while (this.historyUsed > this.historyBytes && this.history.length > 1) {
+      this.historyUsed -= this.history.shift()!.text.length;
+    }
+
+    this.clients.forEach((client) => client.send(text));
+    return delta;
+  }
+
+  /**
+   * Start streaming to a client, first catching it up from `since` (the last
+   * sequence it received in `epoch`) or with snapshots
+   */
+  attach(client: StreamConnection, since?: { epoch: string; seq: number }): void {
+    this.clients.add(client);
+    client.onClose(() => this.clients.delete(client));
+
+    const resumable =
+      since &&
+      since.epoch === this.epoch &&
+      since.seq <= this.seq &&
+      (since.seq === this.seq || this.history[0]?.seq <= since.seq + 1);
+
+    if (resumable) {
+      this.history.filter((delta) => delta.seq > since.seq).forEach((delta) => client.send(delta.text));
+      return;
+    }
+
+    STREAM_KINDS.forEach((kind) =>
+      client.send(
+        JSON.stringify({
+          type: 'snapshot',
+          epoch: this.epoch,
+          seq: this.seq,
+          kind,
+          items: Array.from(this.items[kind].values(), (entry) => entry.item),
+        } satisfies StreamMessage)
+      )
+    );
+  }
+
+  getSequence(): number {
+    return this.seq;
+  }
+
+  getStats(): { clients: number; seq: number; vessels: number; weather: number; incidents: number } {
+    return {
+      clients: this.clients.size,
+      seq: this.seq,
+      vessels: this.items.vessels.size,
+      weather: this.items.weather.size,
+      incidents: this.items.incidents.size,
+    };
+  }
+}
+
+export default StreamHub;
@@ -0,0 +1,64 @@
+/**
+ * Upstream APIs
+ * Vendor endpoints the proxy may call, how each is authenticated, how long
+ * responses are cached and the rate limit shared by every client.
+ */
+
+import type { ServerConfig } from './config.js';
+
+export interface RateLimit {
+  maxRequests?: number; // per window
+  windowMs?: number;
+  minIntervalMs?: number; // minimum spacing between requests
+}
+
+export interface Upstream {
+  id: string; // first path segment under /api
+  name: string;
+  baseUrl: string;
+  endpoints: string[]; // allowed path below baseUrl
+  keyParam?: string; // query parameter carrying the API key
+  apiKey?: string;
+  ttlMs: number; // responses are fresh this long
+  staleMs: number; // then still served when the vendor fails or the limit is reached
+  rateLimit: RateLimit;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export function createUpstreams(config: ServerConfig): Upstream[] {
+  return [
+    {
+      id: 'aishub',
+      name: 'AIS Hub',
+      baseUrl: 'https://www.aishub.net/api/v2/',
+      endpoints: ['vessels', 'vessel'],
+      keyParam: 'api_key',
+      apiKey: config.keys.aishub,
+      ttlMs: MINUTE,
+      staleMs: HOUR,
+      rateLimit: { minIntervalMs: 600, maxRequests: 100, windowMs: HOUR },
+    },
+    {
+      id: 'openweather',
+      name: 'OpenWeather',
+      baseUrl: 'https://api.openweathermap.org/data/2.5/',
+      endpoints: ['weather', 'forecast'],
+      keyParam: 'appid',
+      apiKey: config.keys.openweather,
+      ttlMs: 10 * MINUTE,
+      staleMs: HOUR,
+      rateLimit: { maxRequests: 60, windowMs: MINUTE },
+    },
+    {
+      id: 'recaap',
+      name: 'ReCAAP ISC',
+      baseUrl: 'https://www.recaap.org/services/api/',
+      endpoints: ['Incidents'],
+      ttlMs: 30 * MINUTE,
+      staleMs: 24 * HOUR,
+      rateLimit: { minIntervalMs: 1000 },
+    },
+  ];
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { encodeFrame, FrameReader, OPCODES, WebSocketConnection } from './websocket.js';
+
+const MASK = Buffer.from([1, 2, 3, 4]);
+
+describe('FrameReader', () => {
+  it('yields masked frames split across chunks', () => {
+    const reader = new FrameReader();
+    const frame = encodeFrame(OPCODES.text, 'resume', MASK);
+
+    expect(reader.push(frame.subarray(0, 3))).toEqual([]);
+    const [decoded] = reader.push(frame.subarray(3));
+    expect(decoded.opcode).toBe(OPCODES.text);
+    expect(decoded.payload.toString()).toBe('resume');
+  });
+
+  it('rejects a frame over the limit from its header alone', () => {
+    const header = Buffer.alloc(10);
+    header[0] = 0x80 | OPCODES.text;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(4 * 1024 ** 3), 2); // 4 GiB
+
+    expect(() => new FrameReader().push(header)).toThrow(RangeError);
+  });
+});
+
+describe('WebSocketConnection', () => {
+  it('closes with 1009 and drops a client sending an oversized frame', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const socket = new PassThrough();
+    const written: Buffer[] = [];
+    socket.write = ((chunk: Buffer) => written.push(chunk) > 0) as typeof socket.write;
+    const connection = new WebSocketConnection(socket, { heartbeatMs: 0 });
+    const closed = vi.fn();
+    connection.onClose(closed);
+
+    socket.emit('data', encodeFrame(OPCODES.text, Buffer.alloc(65 * 1024), MASK));
+
+    const [frame] = new FrameReader().push(written[0]);
+    expect(frame.opcode).toBe(OPCODES.close);
+    expect(frame.payload.readUInt16BE(0)).toBe(1009);
+    expect(socket.destroyed).toBe(true);
+    expect(closed).toHaveBeenCalledOnce();
+  });
+});
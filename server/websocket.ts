@@ -0,0 +1,222 @@
+/**
+ * WebSocket
+ * Minimal server side of RFC 6455, enough for a push channel: the upgrade
+ * handshake, unfragmented text frames out, ping/pong keepalive and close.
+ * Messages from clients are not used and are discarded.
+ */
+
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Clients only send control and resume messages
+const MAX_FRAME_BYTES = 64 * 1024;
+
+export const OPCODES = {
+  text: 0x1,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+} as const;
+
+export interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+interface ConnectionOptions {
+  heartbeatMs?: number; // ping interval; a client silent for two intervals is dropped
+  maxBufferedBytes?: number; // a client this far behind is disconnected
+}
+
+/**
+ * Encode one frame; clients must mask theirs, servers must not
+ */
+export function encodeFrame(opcode: number, payload: Buffer | string, mask?: Buffer): Buffer {
+  const data = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  const lengthBytes = data.length < 126 ? 0 : data.length < 65536 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+
+  header[0] = 0x80 | opcode; // FIN
+  if (lengthBytes === 0) header[1] = data.length;
+  else if (lengthBytes === 2) {
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+  if (!mask) return Buffer.concat([header, data]);
+
+  header[1] |= 0x80;
+  mask.copy(header, 2 + lengthBytes);
+  const masked = Buffer.from(data);
+  for (let i = 0; i < masked.length; i++) masked[i] ^= mask[i % 4];
+  return Buffer.concat([header, masked]);
+}
+
+/**
+ * Accumulates socket data and yields complete frames (masked or not).
+ * Throws a RangeError as soon as a header declares a frame over the limit.
+ */
+export class FrameReader {
+  private buffer = Buffer.alloc(0);
+  private maxFrameBytes: number;
+
+  constructor(maxFrameBytes = MAX_FRAME_BYTES) {
+    this.maxFrameBytes = maxFrameBytes;
+  }
+
+  push(chunk: Buffer): Frame[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const frames: Frame[] = [];
+
+    while (this.buffer.length >= 2) {
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) break;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) break;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (length > this.maxFrameBytes) {
+        throw new RangeError(`Frame of ${length} bytes exceeds the ${this.maxFrameBytes} byte limit`);
+      }
+
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (this.buffer.length < offset + length) break;
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= this.buffer[maskOffset + (i % 4)];
+      }
+      frames.push({ fin: (this.buffer[0] & 0x80) !== 0, opcode: this.buffer[0] & 0x0f, payload });
+      this.buffer = this.buffer.subarray(offset + length);
+    }
+    return frames;
+  }
+}
+
+export class WebSocketConnection {
+  private socket: Duplex;
+  private reader = new FrameReader();
+  private closeListeners: Array<() => void> = [];
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private alive = true;
+  private closed = false;
+  private maxBufferedBytes: number;
+
+  constructor(socket: Duplex, options: ConnectionOptions = {}) {
+    this.socket = socket;
+    this.maxBufferedBytes = options.maxBufferedBytes ?? 64 * 1024 * 1024;
+
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    // The HTTP server keeps upgraded sockets half-open; finish when the client ends
+    socket.on('end', () => {
+      socket.end();
+      this.finish();
+    });
+    socket.on('close', () => this.finish());
+    socket.on('error', () => this.finish());
+
+    const heartbeatMs = options.heartbeatMs ?? 30000;
+    if (heartbeatMs > 0) {
+      this.heartbeat = setInterval(() => {
+        if (!this.alive) {
+          this.socket.destroy();
+          return;
+        }
+        this.alive = false;
+        this.write(OPCODES.ping, '');
+      }, heartbeatMs);
+    }
+  }
+
+  send(text: string): void {
+    if (this.closed) return;
+    if (this.socket.writableLength > this.maxBufferedBytes) {
+      console.warn('[WebSocket] Client too slow, disconnecting');
+      this.close(1013);
+      return;
+    }
+    this.write(OPCODES.text, text);
+  }
+
+  close(code = 1000): void {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.write(OPCODES.close, payload);
+    this.socket.end();
+    this.finish();
+  }
+
+  onClose(listener: () => void): void {
+    if (this.closed) listener();
+    else this.closeListeners.push(listener);
+  }
+
+  private receive(chunk: Buffer): void {
+    let frames: Frame[];
+    try {
+      frames = this.reader.push(chunk);
+    } catch (error) {
+      console.warn(`[WebSocket] ${error instanceof Error ? error.message : error}, disconnecting`);
+      this.close(1009); // message too big
+      this.socket.destroy();
+      return;
+    }
+    frames.forEach((frame) => this.handle(frame));
+  }
+
+  private handle(frame: Frame): void {
+    this.alive = true;
+    if (frame.opcode === OPCODES.ping) this.write(OPCODES.pong, frame.payload);
+    else if (frame.opcode === OPCODES.close) this.close();
+  }
+
+  private write(opcode: number, payload: Buffer | string): void {
+    if (this.socket.writable) this.socket.write(encodeFrame(opcode, payload));
+  }
+
+  private finish(): void {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.closeListeners.forEach((listener) => listener());
+    this.closeListeners = [];
+  }
+}
+
+/**
+ * Complete the upgrade handshake, or refuse the request (null)
+ */
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  options: ConnectionOptions = {}
+): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  return new WebSocketConnection(socket, options);
+}
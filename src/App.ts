@@ -6,28 +6,179 @@
 import VesselTrackerService from './services/vessel-tracker';
 import WeatherService from './services/weather-service';
 import SecurityMonitorService from './services/security-monitor';
+import AisReceiverService from './services/ais-receiver';
+import GeofenceService from './services/geofence-service';
+import RendezvousDetector from './lib/rendezvous-detector';
+import ReplayService, { type ReplayUpdate } from './services/replay-service';
+import SessionRecorder from './services/session-recorder';
+import LayerRuntime, { type LayerLoader } from './services/layer-runtime';
+import StreamClient, { type StreamKind } from './services/stream-client';
+import HistoryService from './services/history-service';
+import { humanitarianEvents, policyEvents, portStatusEvents, tradeRouteEvents } from './services/context-layers';
+import { readText } from './lib/compression';
+import { geography } from './services/geography-service';
+import { riskEngine } from './lib/risk-engine';
+import { providerRegistry } from './services/providers';
+import { FEED_SOURCES, DATA_MODE, HISTORY_URL, STREAM_URL } from './config/feed-sources';
 import MapController from './lib/map-controller';
-import { store } from './store/maritime-store';
-import type { MapBounds } from './types/maritime';
+import VesselPanel from './lib/vessel-panel';
+import ListView from './lib/list-view';
+import DashboardView, { type DashboardData } from './lib/dashboard-view';
+import ViewSwitcher from './lib/view-switcher';
+import { findPortCalls } from './lib/port-calls';
+import { distanceNm } from './lib/geo';
+import { store, toTrackPoint, type AppState } from './store/maritime-store';
+import type { MapBounds, MaritimeEventType, TrackPoint, Vessel } from './types/maritime';
+
+// Area loaded until the map reports its own bounds (Indian Ocean)
+const DEFAULT_BOUNDS: MapBounds = {
+  minLat: -20,
+  maxLat: 20,
+  minLon: 40,
+  maxLon: 100,
+};
+
+// Store toggle behind each configured layer
+const LAYER_TOGGLES: Record<MaritimeEventType, keyof AppState['activeLayers']> = {
+  vessel_tracking: 'vessels',
+  piracy_incident: 'security',
+  weather_alert: 'weather',
+  refugee_movement: 'humanitarian',
+  policy_update: 'policy',
+  trade_route: 'trade',
+  port_status: 'ports',
+};
+
+// Layers drawn by dedicated marker groups instead of generic layer events
+const MARKER_GROUPS: Partial<Record<MaritimeEventType, 'vessels' | 'weather' | 'security'>> = {
+  vessel_tracking: 'vessels',
+  piracy_incident: 'security',
+  weather_alert: 'weather',
+};
+
+// Layers whose data depends on the visible area, reloaded when the map moves
+const BOUNDS_LAYERS: MaritimeEventType[] = [
+  'vessel_tracking',
+  'piracy_incident',
+  'weather_alert',
+  'refugee_movement',
+  'trade_route',
+  'port_status',
+];
+
+// Layers derived from what the others load, so refreshed after them
+const CONTEXT_LAYERS: MaritimeEventType[] = ['refugee_movement', 'trade_route', 'port_status'];
+
+// Layer reloaded when the server stream pushes each kind of record
+const STREAM_LAYERS: Record<StreamKind, MaritimeEventType> = {
+  vessels: 'vessel_tracking',
+  weather: 'weather_alert',
+  incidents: 'piracy_incident',
+};
+
+// Layer whose cadence follows the `refreshInterval` preference
+const VESSEL_LAYER_ID = 'vessel-tracking';
+
+// Most stored reports requested when filling trails for the visible area
+const HISTORY_LIMIT = 20000;
+// Wait after the map stops moving before filling trails for the new area
+const HISTORY_DEBOUNCE_MS = 1000;
+
+// Stored track of the selected vessel searched for its port calls
+const PORT_CALL_DAYS = 7;
+const PORT_CALL_LIMIT = 5000;
+const PORT_CALLS_SHOWN = 5;
+
+// Incidents listed in the vessel panel
+const NEARBY_INCIDENT_NM = 100;
+const NEARBY_INCIDENTS_SHOWN = 5;
 
 class MaritimeMonitorApp {
   private vesselTracker: VesselTrackerService;
   private weatherService: WeatherService;
   private securityMonitor: SecurityMonitorService;
+  private aisReceiver: AisReceiverService | null = null;
+  private geofenceService: GeofenceService;
+  private rendezvousDetector: RendezvousDetector;
+  private replayService: ReplayService;
+  private sessionRecorder: SessionRecorder;
   private mapController: MapController;
-  private refreshInterval: NodeJS.Timeout | null = null;
+  private vesselPanel: VesselPanel | null = null;
+  private selectedDetails: Vessel | null = null; // static data looked up for the selected vessel
+  private selectedHistory: TrackPoint[] = []; // its stored track, back PORT_CALL_DAYS
+  private panelInputs: unknown[] = [];
+  private mapContainer: HTMLElement | null = null;
+  private listView: ListView | null = null;
+  private dashboardView: DashboardView | null = null;
+  private viewSwitcher: ViewSwitcher | null = null;
+  private shownView: AppState['viewMode'] | null = null;
+  private viewInputs: unknown[] = [];
+  private mapSelection: Array<string | null> = [null, null]; // vessel and incident when the map was left
+  private layerRuntime: LayerRuntime;
+  private stream: StreamClient | null = null;
+  private historyService: HistoryService | null = null;
+  private historyTimer: ReturnType<typeof setTimeout> | null = null;
+  private streaming = false;
   private storeUnsubscribe: (() => void) | null = null;
+  private layerUnsubscribe: (() => void) | null = null;
+  private riskRulesUnsubscribe: (() => void) | null = null;
+  private streamUnsubscribe: (() => void) | null = null;
 
   constructor() {
-    // Initialize services
-    const aisHubKey = import.meta.env.VITE_AIS_HUB_API_KEY || '';
-    const weatherKey = import.meta.env.VITE_OPENWEATHER_API_KEY || '';
+    // Initialize services from the configured data providers
+    if (DATA_MODE !== 'live') {
+      console.log(`[Maritime Monitor] Data mode: ${DATA_MODE} (simulated feeds)`);
+    }
+    providerRegistry.configure(FEED_SOURCES);
 
-    this.vesselTracker = new VesselTrackerService(aisHubKey);
-    this.weatherService = new WeatherService(weatherKey);
-    this.securityMonitor = new SecurityMonitorService();
+    this.vesselTracker = new VesselTrackerService(providerRegistry.getProviders('vessels'));
+    this.weatherService = new WeatherService(providerRegistry.getProviders('weather'));
+    this.securityMonitor = new SecurityMonitorService(providerRegistry.getProviders('incidents'));
+    this.geofenceService = new GeofenceService();
+    this.rendezvousDetector = new RendezvousDetector({
+      isPortArea: (lat, lon) => geography.isInPortArea(lat, lon),
+    });
+    this.replayService = new ReplayService();
+    this.sessionRecorder = new SessionRecorder();
     this.mapController = new MapController();
 
+    // With the API server's stream, vessels, weather and incidents are pushed
+    // once for all tabs; their layers then load from it instead of polling
+    if (STREAM_URL) {
+      this.stream = new StreamClient();
+    }
+
+    // Trails and selected tracks start from the server's stored reports
+    if (HISTORY_URL) {
+      this.historyService = new HistoryService(HISTORY_URL);
+    }
+
+    // Each configured layer polls on its own interval
+    this.layerRuntime = new LayerRuntime();
+    this.layerRuntime.setBoundsSource(() => store.getState().mapBounds || DEFAULT_BOUNDS);
+    this.registerLayer('vessel_tracking', (bounds) => this.loadVessels(bounds));
+    this.registerLayer('piracy_incident', (bounds) => this.loadIncidents(bounds));
+    this.registerLayer('weather_alert', (bounds) => this.loadWeather(bounds));
+    // Context layers, derived from reference data and what the layers above loaded
+    this.registerLayer('refugee_movement', async (bounds) =>
+      humanitarianEvents(bounds, store.getState().incidents)
+    );
+    this.registerLayer('policy_update', async () => policyEvents(store.now()));
+    this.registerLayer('trade_route', async (bounds) =>
+      tradeRouteEvents(bounds, store.getState().incidents, store.now())
+    );
+    this.registerLayer('port_status', async (bounds) => {
+      const { vessels, weather } = store.getState();
+      return portStatusEvents(bounds, vessels, weather, store.now());
+    });
+
+    // Optional raw NMEA feed from our own AIS receivers
+    const receiverUrl = import.meta.env.VITE_AIS_RECEIVER_WS_URL || '';
+    if (receiverUrl) {
+      this.aisReceiver = new AisReceiverService();
+      this.vesselTracker.attachReceiver(this.aisReceiver);
+    }
+
     console.log('[Maritime Monitor] Application initialized');
   }
 
@@ -57,15 +208,26 @@ class MaritimeMonitorApp {
         centerLon: 0,
         zoom: 3,
       });
+      this.mapController.enableGeofenceDrawing();
+      this.mapController.updateGeofences(this.geofenceService.getGeofences());
+      this.mapController.enableReplayControl();
+      this.mapController.enableLayerStatus();
+      this.mapController.setClock(() => store.now());
+      this.mapContainer = mapContainer;
+      const viewParent = mapContainer.parentElement || document.body;
+      this.vesselPanel = new VesselPanel(viewParent);
+      this.listView = new ListView(viewParent);
+      this.dashboardView = new DashboardView(viewParent);
+      this.viewSwitcher = new ViewSwitcher(viewParent);
 
       // Setup event listeners
       this.setupEventListeners();
 
-      // Subscribe to state changes
+      // Subscribe to state changes (this also starts polling per preferences)
       this.subscribeToStore();
 
-      // Start data refresh cycle
-      this.startAutoRefresh();
+      // Start live receiver stream
+      this.startReceiver();
 
       // Load initial data
       await this.loadInitialData();
@@ -86,16 +248,116 @@ class MaritimeMonitorApp {
     window.addEventListener('mapBoundsChanged', (event: Event) => {
       const customEvent = event as CustomEvent<MapBounds>;
       store.setMapBounds(customEvent.detail);
-      this.loadDataForBounds(customEvent.detail);
+      this.refreshLayers(BOUNDS_LAYERS);
+      this.scheduleTrackHistory();
+    });
+
+    // Layer switched on/off in the layer list
+    window.addEventListener('layerToggle', (event: Event) => {
+      const layerId = (event as CustomEvent<string>).detail;
+      const status = this.layerRuntime.getStatuses().find((s) => s.layer.id === layerId);
+      if (status) store.toggleLayer(LAYER_TOGGLES[status.layer.type]);
+    });
+
+    // Per-layer update status and generic layer data; alert once when a layer starts failing,
+    // not on each backed-off retry
+    const failing = new Set<string>();
+    this.layerUnsubscribe = this.layerRuntime.subscribe((statuses, changed, settled) => {
+      this.mapController.updateLayerStatus(statuses);
+      if (!settled) return;
+      if (changed.error) {
+        if (!failing.has(changed.layer.id)) {
+          failing.add(changed.layer.id);
+          store.addAlert(`Error loading ${changed.layer.name}: ${changed.error}`);
+        }
+      } else {
+        failing.delete(changed.layer.id);
+        if (!MARKER_GROUPS[changed.layer.type]) this.mapController.updateLayerEvents(changed.layer);
+      }
+    });
+
+    // Vessel marker clicked: open it in the vessel panel
+    window.addEventListener('vesselSelected', (event: Event) => {
+      const mmsi = (event as CustomEvent<string>).detail;
+      const vessel = store.getState().vessels.find((v) => String(v.mmsi) === mmsi);
+      this.selectedDetails = null;
+      this.selectedHistory = [];
+      store.selectVessel(vessel || null);
+      if (vessel) {
+        this.loadVesselTrack(mmsi);
+        this.loadVesselDetails(mmsi);
+      }
+    });
+    window.addEventListener('vesselPanelClose', () => store.selectVessel(null));
+
+    // Incident chosen on the map or in the list
+    window.addEventListener('incidentSelected', (event: Event) => {
+      const id = (event as CustomEvent<string>).detail;
+      store.selectIncident(store.getState().incidents.find((i) => i.id === id) || null);
+    });
+
+    // Map, list or dashboard, and the vessel filters set in the list
+    window.addEventListener('viewModeChange', (event: Event) => {
+      store.setViewMode((event as CustomEvent<AppState['viewMode']>).detail);
+    });
+    window.addEventListener('filtersChange', (event: Event) => {
+      store.setFilters((event as CustomEvent<Partial<AppState['filters']>>).detail);
+    });
+
+    // Geofence drawn on the map
+    window.addEventListener('geofenceDrawn', (event: Event) => {
+      const shape = (event as CustomEvent).detail;
+      this.saveDrawnGeofence(shape);
     });
 
+    // Geofence import/export requests
+    window.addEventListener('geofenceExport', () => this.exportGeofences());
+    window.addEventListener('geofenceImport', (event: Event) => {
+      this.importGeofences((event as CustomEvent<string>).detail);
+    });
+
+    // Replay controls
+    this.replayService.subscribe((update) => this.applyReplayUpdate(update));
+    window.addEventListener('replayLoad', (event: Event) => {
+      this.startReplay((event as CustomEvent<Blob | string>).detail);
+    });
+    window.addEventListener('replayToggle', () => this.replayService.toggle());
+    window.addEventListener('replaySpeed', (event: Event) => {
+      this.replayService.setSpeed((event as CustomEvent<number>).detail);
+    });
+    window.addEventListener('replaySeek', (event: Event) => {
+      this.replayService.seek((event as CustomEvent<number>).detail);
+    });
+    window.addEventListener('replayJump', (event: Event) => {
+      this.replayService.jumpToEvent((event as CustomEvent<string>).detail);
+    });
+    window.addEventListener('replayExit', () => this.stopReplay());
+
+    // Session recording (opt-in) and export of a time window
+    window.addEventListener('sessionRecordingToggle', () => {
+      const state = store.getState();
+      store.setSessionRecording(!state.preferences.recordSession);
+    });
+    window.addEventListener('sessionExport', (event: Event) => {
+      const detail = (event as CustomEvent<{ from?: number; to?: number; name?: string }>).detail;
+      this.exportSession(detail?.from, detail?.to, detail?.name);
+    });
+
+    // Pushed updates reload the matching layer from the stream's records
+    this.streamUnsubscribe =
+      this.stream?.subscribe((kind) => {
+        this.refreshLayers([STREAM_LAYERS[kind]]);
+      }) || null;
+
+    // Rescore vessels when risk rules are edited
+    this.riskRulesUnsubscribe = riskEngine.subscribe(() => this.scoreVessels());
+
     // Keyboard shortcuts
     window.addEventListener('keydown', (e) => this.handleKeyboardShortcuts(e));
 
     // Auto-refresh toggle
     window.addEventListener('autoRefreshToggle', () => {
-      const state = store.getState();
-      store.setAutoRefresh(!state.preferences.autoRefresh);
+      store.setAutoRefresh(!store.getState().preferences.autoRefresh);
     });
   }
 
@@ -103,22 +365,68 @@ class MaritimeMonitorApp {
    * Subscribe to store changes
    */
   private subscribeToStore(): void {
+    let lastVessels = store.getState().vessels;
+    let lastRisk = store.getState().riskAssessments;
+    let lastHistory = store.getState().vesselHistory;
+    this.syncLayers(store.getState());
+    this.syncPolling(store.getState());
+    this.syncView(store.getState());
+
     this.storeUnsubscribe = store.subscribe((state) => {
-      // Update map when layers change
-      this.mapController.toggleLayer('vessels', state.activeLayers.vessels);
-      this.mapController.toggleLayer('weather', state.activeLayers.weather);
-      this.mapController.toggleLayer('security', state.activeLayers.security);
+      // Check geofences whenever a new vessel batch arrives
+      if (state.vessels !== lastVessels) {
+        lastVessels = state.vessels;
+        this.geofenceService
+          .evaluate(state.vessels, store.now())
+          .forEach((e) => store.addAlert(this.geofenceService.describeEvent(e)));
 
-      // Update map when data changes
-      if (state.vessels.length > 0) {
-        this.mapController.updateVessels(state.vessels);
+        // Reconciling markers is costly with large fleets, so only on a new batch
+        if (state.vessels.length > 0) {
+          this.mapController.updateVessels(state.vessels);
+        }
+      }
+      if (state.riskAssessments !== lastRisk) {
+        lastRisk = state.riskAssessments;
+        this.mapController.setVesselRisk(state.riskAssessments);
       }
+
+      // Update map and polling when layers or preferences change
+      this.syncLayers(state);
+      this.syncPolling(state);
+      this.mapController.setDeadReckoning(
+        state.preferences.deadReckoning,
+        state.preferences.projectionLimit
+      );
+      this.sessionRecorder.setRetention(
+        state.preferences.recordRetentionHours,
+        state.preferences.recordMaxMegabytes
+      );
+      this.sessionRecorder.setEnabled(state.preferences.recordSession);
+      this.mapController.updateRecording(state.preferences.recordSession);
+
+      // Update map when data changes
       if (state.weather.length > 0) {
         this.mapController.updateWeather(state.weather);
       }
       if (state.incidents.length > 0) {
         this.mapController.updateIncidents(state.incidents);
       }
+      if (state.vesselHistory !== lastHistory) {
+        lastHistory = state.vesselHistory;
+        this.mapController.updateTrails(state.vesselHistory);
+      }
+
+      // Show recent track of the selected vessel
+      this.mapController.showVesselTrack(
+        state.selectedVessel
+          ? store.getVesselTrack(
+              String(state.selectedVessel.mmsi),
+              state.preferences.trackHours
+            )
+          : null
+      );
+      this.updateVesselPanel(state);
+      this.syncView(state);
 
       // Log stats
       const stats = store.getStats();
@@ -129,104 +437,565 @@ class MaritimeMonitorApp {
     });
   }
 
+  /**
+   * Show, hide and start or stop polling layers to match the store toggles
+   */
+  private syncLayers(state: AppState): void {
+    this.layerRuntime.getStatuses().forEach(({ layer }) => {
+      const visible = state.activeLayers[LAYER_TOGGLES[layer.type]];
+      const group = MARKER_GROUPS[layer.type];
+      if (group) {
+        this.mapController.toggleLayer(group, visible);
+      } else {
+        this.mapController.toggleEventLayer(layer.id, visible);
+      }
+      this.layerRuntime.setActive(layer.id, visible);
+    });
+    this.mapController.toggleLayer('trails', state.activeLayers.trails);
+  }
+
+  /**
+   * Apply the polling preferences: vessel cadence and auto-refresh on/off.
+   * Polling (or the stream) stays paused while a recorded session is replayed.
+   */
+  private syncPolling(state: AppState): void {
+    const { autoRefresh, refreshInterval } = state.preferences;
+    this.layerRuntime.setUpdateInterval(VESSEL_LAYER_ID, refreshInterval * 1000);
+    if (store.isReplaying()) return;
+    if (autoRefresh) {
+      this.startAutoRefresh();
+    } else {
+      this.stopAutoRefresh();
+    }
+  }
+
+  /**
+   * Serve a layer type from `load`; live data is paused while a recorded session is replayed
+   */
+  private registerLayer(type: MaritimeEventType, load: LayerLoader): void {
+    this.layerRuntime.register(type, async (bounds) => (store.isReplaying() ? [] : load(bounds)));
+  }
+
   /**
    * Load initial data
    */
   private async loadInitialData(): Promise<void> {
+    store.setLoading(true);
+    await Promise.all([
+      this.refreshLayers(),
+      this.loadTrackHistory(store.getState().mapBounds || DEFAULT_BOUNDS),
+    ]);
+    store.setLoading(false);
+  }
+
+  /**
+   * Fill trails for the map's area once it has settled
+   */
+  private scheduleTrackHistory(): void {
+    if (!this.historyService) return;
+    if (this.historyTimer) clearTimeout(this.historyTimer);
+    this.historyTimer = setTimeout(() => {
+      this.historyTimer = null;
+      this.loadTrackHistory(store.getState().mapBounds || DEFAULT_BOUNDS);
+    }, HISTORY_DEBOUNCE_MS);
+  }
+
+  /**
+   * Fill vessel trails for an area from the server's stored reports,
+   * back to the `trackMaxAge` preference
+   */
+  private async loadTrackHistory(bounds: MapBounds): Promise<void> {
+    if (!this.historyService || store.isReplaying()) return;
+
+    const to = new Date(store.now());
+    const from = new Date(to.getTime() - store.getState().preferences.trackMaxAge * 60 * 1000);
     try {
-      store.setLoading(true);
-
-      // Default bounds (Indian Ocean)
-      const bounds: MapBounds = {
-        minLat: -20,
-        maxLat: 20,
-        minLon: 40,
-        maxLon: 100,
-      };
+      const { items, truncated } = await this.historyService.getPositions(bounds, from, to, HISTORY_LIMIT);
+      store.mergeHistory(items);
+      if (truncated) {
+        console.warn(`[Maritime Monitor] Track history limited to the first ${HISTORY_LIMIT} reports`);
+      }
+    } catch (error) {
+      console.error('[Maritime Monitor] Error loading track history:', error);
+    }
+  }
+
+  /**
+   * Load a vessel's stored track: the store keeps what fits its track
+   * preferences for the map, the panel the last PORT_CALL_DAYS for port calls
+   */
+  private async loadVesselTrack(mmsi: string): Promise<void> {
+    if (!this.historyService || store.isReplaying()) return;
 
-      await this.loadDataForBounds(bounds);
+    const to = new Date(store.now());
+    const from = new Date(to.getTime() - PORT_CALL_DAYS * 24 * 60 * 60 * 1000);
+    try {
+      const { items } = await this.historyService.getTrack(mmsi, from, to, PORT_CALL_LIMIT);
+      store.mergeHistory(items);
+      if (String(store.getState().selectedVessel?.mmsi) !== mmsi) return;
+      this.selectedHistory = items.map(toTrackPoint).filter((p): p is TrackPoint => p !== null);
+      this.updateVesselPanel(store.getState(), true);
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      store.setError(`Failed to load initial data: ${message}`);
-    } finally {
-      store.setLoading(false);
+      console.error('[Maritime Monitor] Error loading vessel track:', error);
     }
   }
 
   /**
-   * Load data for specific map bounds
+   * Look up a vessel's static data (call sign, dimensions, ...) for the panel
    */
-  private async loadDataForBounds(bounds: MapBounds): Promise<void> {
+  private async loadVesselDetails(mmsi: string): Promise<void> {
+    if (store.isReplaying()) return;
+
     try {
-      const state = store.getState();
+      const details = await this.vesselTracker.getVesselDetails(mmsi);
+      if (!details || String(store.getState().selectedVessel?.mmsi) !== mmsi) return;
+      this.selectedDetails = details;
+      this.updateVesselPanel(store.getState(), true);
+    } catch (error) {
+      console.error('[Maritime Monitor] Error loading vessel details:', error);
+    }
+  }
 
-      // Fetch vessels
-      if (state.activeLayers.vessels) {
-        const vessels = await this.vesselTracker.getVesselsInBounds(bounds);
-        store.setVessels(vessels);
-      }
+  /**
+   * Show the selected vessel in the side panel, re-rendered when its data changes
+   */
+  private updateVesselPanel(state: AppState, force = false): void {
+    if (!this.vesselPanel) return;
 
-      // Fetch security incidents
-      if (state.activeLayers.security) {
-        const incidents = await this.securityMonitor.getSecurityIncidents(bounds);
-        store.setIncidents(incidents);
-      }
+    const selected = state.selectedVessel;
+    if (!selected) {
+      this.panelInputs = [];
+      this.vesselPanel.hide();
+      return;
+    }
+    const inputs = [selected, state.vessels, state.vesselHistory, state.riskAssessments, state.incidents];
+    if (!force && inputs.every((input, i) => input === this.panelInputs[i])) return;
+    this.panelInputs = inputs;
 
-      // Fetch weather for center point
-      if (state.activeLayers.weather) {
-        const centerLat = (bounds.minLat + bounds.maxLat) / 2;
-        const centerLon = (bounds.minLon + bounds.maxLon) / 2;
-        const weather = await this.weatherService.getCurrentWeather(
-          centerLat,
-          centerLon
-        );
-        if (weather) {
-          store.addWeather([weather]);
-        }
+    // Latest report, with static data it lacks taken from the details lookup
+    const mmsi = String(selected.mmsi);
+    const vessel: Vessel = { ...(state.vessels.find((v) => String(v.mmsi) === mmsi) || selected) };
+    if (this.selectedDetails && String(this.selectedDetails.mmsi) === mmsi) {
+      const fields = vessel as unknown as Record<string, unknown>;
+      Object.entries(this.selectedDetails).forEach(([field, value]) => {
+        if (fields[field] === undefined) fields[field] = value;
+      });
+    }
+
+    // Port calls over the stored track followed by the live one
+    const stored = this.selectedHistory;
+    const storedEnd = stored.length > 0 ? stored[stored.length - 1].timestamp.getTime() : -Infinity;
+    const track = [...stored, ...store.getVesselTrack(mmsi).filter((p) => p.timestamp.getTime() > storedEnd)];
+    const portCalls = findPortCalls(track, (lat, lon) => geography.portAt(lat, lon)).slice(0, PORT_CALLS_SHOWN);
+
+    const { latitude, longitude } = vessel.position;
+    const incidents = state.incidents
+      .map((incident) => ({
+        incident,
+        distanceNm: distanceNm(latitude, longitude, incident.latitude, incident.longitude),
+      }))
+      .filter((i) => i.distanceNm <= NEARBY_INCIDENT_NM)
+      .sort((a, b) => a.distanceNm - b.distanceNm)
+      .slice(0, NEARBY_INCIDENTS_SHOWN);
+
+    const { trackHours } = state.preferences;
+    this.vesselPanel.show({
+      vessel,
+      track: store.getVesselTrack(mmsi, trackHours),
+      trackHours,
+      portCalls,
+      risk: store.getVesselRisk(mmsi),
+      incidents,
+      incidentRadiusNm: NEARBY_INCIDENT_NM,
+    });
+  }
+
+  /**
+   * Show the view for the store's view mode and keep the list or dashboard
+   * current while shown. Back on the map, it re-measures its container and
+   * pans to whatever was selected while it was hidden.
+   */
+  private syncView(state: AppState): void {
+    if (!this.mapContainer || !this.listView || !this.dashboardView) return;
+
+    const mode = state.viewMode;
+    const selection = [
+      state.selectedVessel ? String(state.selectedVessel.mmsi) : null,
+      state.selectedIncident?.id ?? null,
+    ];
+    if (mode !== this.shownView) {
+      if (this.shownView === 'map') this.mapSelection = selection;
+      this.shownView = mode;
+      this.viewInputs = [];
+      this.viewSwitcher?.setMode(mode);
+      this.mapContainer.classList.toggle('hidden', mode !== 'map');
+      if (mode === 'list') this.listView.show();
+      else this.listView.hide();
+      if (mode === 'dashboard') this.dashboardView.show();
+      else this.dashboardView.hide();
+
+      if (mode === 'map') {
+        this.mapController.refreshSize();
+        const [vessel, incident] = selection;
+        if (vessel && vessel !== this.mapSelection[0]) this.mapController.focusVessel(vessel);
+        else if (incident && incident !== this.mapSelection[1]) this.mapController.focusIncident(incident);
       }
+    }
+
+    if (mode === 'list') {
+      const inputs = [state.vessels, state.incidents, state.riskAssessments, state.filters, state.replayTime];
+      const previous = this.viewInputs;
+      this.viewInputs = [...inputs, ...selection];
+      if (this.viewInputs.every((input, i) => input === previous[i])) return;
+      this.listView.update({
+        vessels: store.getFilteredVessels(),
+        vesselTotal: state.vessels.length,
+        incidents: state.incidents,
+        risk: state.riskAssessments,
+        filters: state.filters,
+        selectedVessel: selection[0],
+        selectedIncident: selection[1],
+        now: store.now(),
+      });
+      // Scroll to a row selected on the map or before the list was shown
+      if (selection.some((key, i) => key !== previous[inputs.length + i])) this.listView.reveal();
+    } else if (mode === 'dashboard') {
+      const inputs = [
+        state.vessels,
+        state.incidents,
+        state.weather,
+        state.riskAssessments,
+        state.alerts,
+        state.lastUpdated,
+      ];
+      if (inputs.every((input, i) => input === this.viewInputs[i])) return;
+      this.viewInputs = inputs;
+      this.dashboardView.update({
+        stats: store.getStats(),
+        vessels: state.vessels,
+        weather: state.weather,
+        incidents: state.incidents,
+        providers: this.providerHealth(),
+        now: store.now(),
+      });
+    }
+  }
+
+  /**
+   * Health of the providers the app polls itself, for the dashboard's freshness table
+   */
+  private providerHealth(): DashboardData['providers'] {
+    return (['vessels', 'weather', 'incidents'] as const).flatMap((kind) =>
+      providerRegistry.getProviders(kind).map((p) => ({ name: p.name, kind, health: p.getHealth() }))
+    );
+  }
+
+  /**
+   * Reload active layers now (all, or only the given types)
+   */
+  private async refreshLayers(types?: MaritimeEventType[]): Promise<void> {
+    if (store.isReplaying()) return;
+    const wanted = types || (Object.keys(LAYER_TOGGLES) as MaritimeEventType[]);
+    await this.layerRuntime.refresh(wanted.filter((type) => !CONTEXT_LAYERS.includes(type)));
+    await this.layerRuntime.refresh(wanted.filter((type) => CONTEXT_LAYERS.includes(type)));
+  }
+
+  /**
+   * Fetch (or take from the stream) vessels and run the analyses that depend on them
+   */
+  private async loadVessels(bounds: MapBounds): Promise<void> {
+    const vessels = this.stream
+      ? this.vesselTracker.mergeReceiverVessels(this.stream.getVessels(bounds), bounds)
+      : await this.vesselTracker.getVesselsInBounds(bounds);
+    store.setVessels(vessels);
+    this.sessionRecorder.record('vessels', vessels, bounds);
+    this.securityMonitor.trackAisGaps(vessels);
+    this.detectRendezvous();
+    this.scoreVessels();
+  }
+
+  /**
+   * Fetch security incidents, plus AIS dark periods detected so far
+   */
+  private async loadIncidents(bounds: MapBounds): Promise<void> {
+    const incidents = [
+      ...(this.stream
+        ? this.stream.getIncidents(bounds)
+        : await this.securityMonitor.getSecurityIncidents(bounds)),
+      ...this.securityMonitor.getDarkPeriodIncidents(bounds),
+    ];
+    store.setIncidents(incidents);
+    this.sessionRecorder.record('incidents', incidents, bounds);
+  }
+
+  /**
+   * Fetch weather for the center point; the stream has readings for every
+   * major port, so all of those in view are shown instead
+   */
+  private async loadWeather(bounds: MapBounds): Promise<void> {
+    if (this.stream) {
+      const weather = this.stream.getWeather(bounds);
+      store.setWeather(weather);
+      this.sessionRecorder.record('weather', weather, bounds);
+      return;
+    }
+
+    const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+    const centerLon = (bounds.minLon + bounds.maxLon) / 2;
+    const weather = await this.weatherService.getCurrentWeather(centerLat, centerLon);
+    if (weather) {
+      store.addWeather([weather]);
+      this.sessionRecorder.record('weather', [weather], bounds);
+    }
+  }
+
+  /**
+   * Scan vessel histories for ship-to-ship rendezvous and alert on new ones
+   */
+  private detectRendezvous(): void {
+    const state = store.getState();
+    const names: Record<string, string> = {};
+    state.vessels.forEach((v) => {
+      names[String(v.mmsi)] = v.name;
+    });
+
+    const since = store.now() - state.preferences.trackMaxAge * 60 * 1000;
+    const created = this.rendezvousDetector.detect(state.vesselHistory, names, since);
+    store.setRendezvous(this.rendezvousDetector.getEvents());
+
+    created.forEach((e) => {
+      store.addAlert(
+        `Possible ship-to-ship transfer: ${e.vesselNameA} (${e.mmsiA}) and ` +
+          `${e.vesselNameB} (${e.mmsiB}) together for ${e.durationMinutes} min` +
+          `${e.inPortArea ? ' (port area)' : ''}`
+      );
+    });
+  }
+
+  /**
+   * Score every vessel against the risk rules
+   */
+  private scoreVessels(): void {
+    const state = store.getState();
+    const assessments = riskEngine.assessAll(state.vessels, (vessel) => {
+      const mmsi = String(vessel.mmsi);
+      return {
+        history: state.vesselHistory[mmsi],
+        darkPeriods: this.securityMonitor.getDarkPeriods(mmsi),
+        rendezvous: state.rendezvous.filter((e) => e.mmsiA === mmsi || e.mmsiB === mmsi),
+        now: store.now(),
+      };
+    });
+    store.setRiskAssessments(assessments);
+  }
+
+  /**
+   * Load a recorded session and switch to replay, pausing live polling
+   */
+  async startReplay(source: Blob | string): Promise<void> {
+    try {
+      const text = typeof source === 'string' ? source : await readText(source);
+      const session = this.replayService.parseSession(text);
+
+      this.stopAutoRefresh();
+      store.setReplayTime(session.startedAt);
+      this.replayService.load(session);
+      this.mapController.updateReplay(
+        this.replayService.getStatus(),
+        this.replayService.getEvents()
+      );
+      store.addAlert(`Replaying "${session.name}" (${session.frames.length} frames)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      store.addAlert(`Replay load failed: ${message}`);
+    }
+  }
+
+  /**
+   * Download recorded snapshots for a time window (default: the last hour)
+   * as a gzip-compressed session file
+   */
+  async exportSession(from?: number, to?: number, name?: string): Promise<void> {
+    const end = to ?? Date.now();
+    const start = from ?? end - 60 * 60 * 1000;
 
-      store.setError(null);
+    try {
+      const blob = await this.sessionRecorder.exportWindow(start, end, name);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `maritime-session-${new Date(start).toISOString().slice(0, 16).replace(':', '')}.json.gz`;
+      link.click();
+      URL.revokeObjectURL(link.href);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      console.error('[Maritime Monitor] Error loading data:', message);
-      store.addAlert(`Error loading data: ${message}`);
+      store.addAlert(`Session export failed: ${message}`);
     }
   }
 
   /**
-   * Start auto-refresh cycle
+   * Leave replay and resume live data
+   */
+  stopReplay(): void {
+    if (!store.isReplaying()) return;
+
+    this.replayService.unload();
+    store.setReplayTime(null);
+    store.clearHistory();
+    this.mapController.updateVessels([]);
+    this.mapController.updateReplay(this.replayService.getStatus());
+
+    this.startAutoRefresh();
+    this.refreshLayers();
+  }
+
+  /**
+   * Push the replay clock and frames through the store
+   */
+  private applyReplayUpdate(update: ReplayUpdate): void {
+    const { status, frame, passed, seeked } = update;
+    if (!status.loaded || !status.currentTime) return;
+
+    store.setReplayTime(status.currentTime);
+
+    if (seeked) {
+      // Rebuild trails from the frames inside the retention window
+      const time = status.currentTime.getTime();
+      const since = time - store.getState().preferences.trackMaxAge * 60 * 1000;
+      store.rebuildHistory(
+        this.replayService
+          .getFramesUntil(time)
+          .filter((f) => f.timestamp.getTime() >= since)
+          .map((f) => f.vessels)
+      );
+      if (frame) store.setVessels(frame.vessels);
+    } else {
+      passed.forEach((f) => store.setVessels(f.vessels));
+    }
+
+    if (frame && (seeked || passed.length > 0)) {
+      store.setWeather(frame.weather);
+      store.setIncidents(frame.incidents);
+      this.scoreVessels();
+    }
+
+    this.mapController.updateReplay(status);
+  }
+
+  /**
+   * Start polling each layer on its own interval, or connect the server
+   * stream (resuming where it left off)
    */
   private startAutoRefresh(): void {
-    const state = store.getState();
+    // Called on every store update: the runtime and the stream log their own transitions
+    if (!store.getState().preferences.autoRefresh) return;
 
-    if (!state.preferences.autoRefresh) {
-      console.log('[Maritime Monitor] Auto-refresh disabled');
+    if (this.stream) {
+      if (!this.streaming) {
+        this.streaming = true;
+        this.stream.connect(STREAM_URL);
+      }
       return;
     }
+    this.layerRuntime.start();
+  }
 
-    const interval = state.preferences.refreshInterval * 1000; // Convert to ms
+  /**
+   * Connect the AIS receiver stream and push its vessels into the store
+   */
+  private startReceiver(): void {
+    if (!this.aisReceiver) return;
 
-    this.refreshInterval = setInterval(async () => {
-      const currentState = store.getState();
-      if (currentState.mapBounds && currentState.preferences.autoRefresh) {
-        console.log('[Maritime Monitor] Auto-refreshing data...');
-        await this.loadDataForBounds(currentState.mapBounds);
+    this.aisReceiver.subscribe(async () => {
+      const state = store.getState();
+      if (!state.mapBounds || !state.activeLayers.vessels || store.isReplaying()) return;
+      if (this.stream) {
+        // The vessel loader fuses the stream's vessels with the receiver's
+        await this.refreshLayers(['vessel_tracking']);
+        return;
+      }
+      try {
+        // Cached AIS Hub results are reused, so this only refreshes receiver data
+        const vessels = await this.vesselTracker.getVesselsInBounds(state.mapBounds);
+        store.setVessels(vessels);
+        this.sessionRecorder.record('vessels', vessels, state.mapBounds);
+        this.scoreVessels();
+      } catch (error) {
+        console.error('[Maritime Monitor] Error merging receiver vessels:', error);
       }
-    }, interval);
+    });
 
-    console.log(
-      `[Maritime Monitor] Auto-refresh started (${state.preferences.refreshInterval}s interval)`
-    );
+    this.aisReceiver.connect(import.meta.env.VITE_AIS_RECEIVER_WS_URL || '');
   }
 
   /**
-   * Stop auto-refresh
+   * Stop auto-refresh (polling, or the stream)
    */
   private stopAutoRefresh(): void {
-    if (this.refreshInterval) {
-      clearInterval(this.refreshInterval);
-      this.refreshInterval = null;
-      console.log('[Maritime Monitor] Auto-refresh stopped');
+    this.layerRuntime.stop();
+    if (this.streaming) {
+      this.streaming = false;
+      this.stream?.disconnect();
+    }
+  }
+
+  /**
+   * Name and save a geofence drawn on the map
+   */
+  private saveDrawnGeofence(shape: {
+    shape: 'polygon' | 'circle' | 'corridor';
+    coordinates: [number, number][];
+    radius?: number;
+  }): void {
+    const name = window.prompt('Geofence name:');
+    if (!name) return;
+
+    let radius = shape.radius;
+    if (shape.shape === 'corridor') {
+      radius = parseFloat(window.prompt('Corridor half-width (nautical miles):', '2') || '');
+      if (!(radius > 0)) return;
+    }
+
+    const dwell = parseFloat(window.prompt('Dwell alert after (minutes):', '60') || '60');
+
+    this.geofenceService.addGeofence({
+      ...shape,
+      name,
+      radius,
+      dwellThreshold: dwell > 0 ? dwell : undefined,
+    });
+    this.mapController.updateGeofences(this.geofenceService.getGeofences());
+  }
+
+  /**
+   * Download all geofences as GeoJSON
+   */
+  exportGeofences(): void {
+    try {
+      const blob = new Blob([this.geofenceService.exportGeoJSON()], {
+        type: 'application/geo+json',
+      });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'geofences.geojson';
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      store.addAlert(`Geofence export failed: ${message}`);
+    }
+  }
+
+  /**
+   * Load geofences from GeoJSON text
+   */
+  importGeofences(text: string): void {
+    try {
+      const count = this.geofenceService.importGeoJSON(text);
+      this.mapController.updateGeofences(this.geofenceService.getGeofences());
+      store.addAlert(`Imported ${count} geofences`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      store.addAlert(`Geofence import failed: ${message}`);
     }
   }
 
@@ -234,19 +1003,20 @@ class MaritimeMonitorApp {
    * Handle keyboard shortcuts
    */
   private handleKeyboardShortcuts(e: KeyboardEvent): void {
+    // Escape: close the vessel panel
+    if (e.key === 'Escape' && store.getState().selectedVessel) {
+      store.selectVessel(null);
+    }
+
     // Ctrl/Cmd + R: Refresh data
     if ((e.ctrlKey || e.metaKey) && e.key === 'r') {
       e.preventDefault();
-      const state = store.getState();
-      if (state.mapBounds) {
-        this.loadDataForBounds(state.mapBounds);
-      }
+      this.refreshLayers();
     }
 
     // Ctrl/Cmd + L: Toggle layers
     if ((e.ctrlKey || e.metaKey) && e.key === 'l') {
       e.preventDefault();
-      const state = store.getState();
       store.toggleLayer('vessels');
       console.log('[Maritime Monitor] Vessels layer toggled');
     }
@@ -284,6 +1054,16 @@ class MaritimeMonitorApp {
       vesselTracker: this.vesselTracker,
       weatherService: this.weatherService,
       securityMonitor: this.securityMonitor,
+      aisReceiver: this.aisReceiver,
+      geofenceService: this.geofenceService,
+      rendezvousDetector: this.rendezvousDetector,
+      providerRegistry,
+      replayService: this.replayService,
+      layerRuntime: this.layerRuntime,
+      stream: this.stream,
+      historyService: this.historyService,
+      sessionRecorder: this.sessionRecorder,
+      riskEngine,
       mapController: this.mapController,
     };
   }
@@ -294,16 +1074,29 @@ class MaritimeMonitorApp {
   destroy(): void {
     console.log('[Maritime Monitor] Destroying...');
 
-    // Stop auto-refresh
+    // Stop auto-refresh and pending history loads
     this.stopAutoRefresh();
+    if (this.historyTimer) clearTimeout(this.historyTimer);
+
+    // Close receiver stream and recorder, stop any replay
+    this.aisReceiver?.disconnect();
+    this.replayService.unload();
+    this.sessionRecorder.close();
 
-    // Unsubscribe from store
+    // Unsubscribe from store and risk rules
     if (this.storeUnsubscribe) {
       this.storeUnsubscribe();
     }
+    this.layerUnsubscribe?.();
+    this.riskRulesUnsubscribe?.();
+    this.streamUnsubscribe?.();
 
-    // Destroy map
+    // Destroy map, panel and views
     this.mapController.destroy();
+    this.vesselPanel?.destroy();
+    this.listView?.destroy();
+    this.dashboardView?.destroy();
+    this.viewSwitcher?.destroy();
 
     // Clear caches
     this.vesselTracker.clearCache();
@@ -320,7 +1113,7 @@ let app: MaritimeMonitorApp | null = null;
 /**
  * Initialize app function that can be imported by main.ts
  */
-export async function initializeApp(container: HTMLElement): Promise<MaritimeMonitorApp> {
+export async function initializeApp(_container: HTMLElement): Promise<MaritimeMonitorApp> {
   if (!app) {
     app = new MaritimeMonitorApp();
     await app.init();
@@ -0,0 +1,167 @@
+import type { FeedSource } from '@/types/maritime';
+
+/**
+ * Base URL of the API proxy (server/), e.g. "/api". When set, live feeds go
+ * through it and the vendor keys stay on the server.
+ */
+export const API_PROXY_URL = (import.meta.env.VITE_API_PROXY_URL || '').replace(/\/+$/, '');
+
+// Only for calling vendors directly; proxy builds blank these (see vite.config.ts)
+const aisHubKey = API_PROXY_URL ? '' : import.meta.env.VITE_AIS_HUB_API_KEY || '';
+const openWeatherKey = API_PROXY_URL ? '' : import.meta.env.VITE_OPENWEATHER_API_KEY || '';
+
+/**
+ * live     - real vendor APIs (default)
+ * mock     - in-browser simulation, no network
+ * fixtures - real adapters against the dev server's /__fixtures stand-in
+ */
+export type DataMode = 'live' | 'mock' | 'fixtures';
+
+export const DATA_MODE: DataMode = (['mock', 'fixtures'] as const).find(
+  (mode) => mode === import.meta.env.VITE_DATA_MODE
+) || 'live';
+
+const simulationSeed = parseInt(import.meta.env.VITE_MOCK_SEED || '1', 10) || 1;
+
+/**
+ * Data feeds used by the vessel, weather and security services.
+ * `provider` selects the adapter registered in services/providers/index.ts;
+ * sources of the same category are tried in `priority` order.
+ */
+const LIVE_SOURCES: FeedSource[] = [
+  {
+    id: 'ais-hub',
+    name: 'AIS Hub',
+    provider: 'aishub',
+    url: 'https://www.aishub.net/api/v2/',
+    type: 'api',
+    category: 'vessel_tracking',
+    updateInterval: 60000, // 1 minute
+    enabled: Boolean(aisHubKey),
+    priority: 0,
+    auth: { type: 'apikey', credentials: aisHubKey },
+  },
+  {
+    id: 'openweather',
+    name: 'OpenWeather',
+    provider: 'openweather',
+    url: 'https://api.openweathermap.org/data/2.5/',
+    type: 'api',
+    category: 'weather_alert',
+    updateInterval: 600000, // 10 minutes
+    enabled: Boolean(openWeatherKey),
+    priority: 0,
+    auth: { type: 'apikey', credentials: openWeatherKey },
+  },
+  {
+    id: 'recaap',
+    name: 'ReCAAP ISC',
+    provider: 'recaap',
+    url: 'https://www.recaap.org/services/api/Incidents',
+    type: 'api',
+    category: 'piracy_incident',
+    updateInterval: 1800000, // 30 minutes
+    enabled: true,
+    priority: 0,
+  },
+];
+
+/**
+ * Live feeds through the proxy, which adds the keys
+ */
+const PROXY_URLS: Record<string, string> = {
+  aishub: `${API_PROXY_URL}/aishub/`,
+  openweather: `${API_PROXY_URL}/openweather/`,
+  recaap: `${API_PROXY_URL}/recaap/Incidents`,
+};
+
+const PROXIED_SOURCES: FeedSource[] = LIVE_SOURCES.map((source) => ({
+  ...source,
+  url: PROXY_URLS[source.provider] || source.url,
+  enabled: true,
+  auth: undefined,
+}));
+
+/**
+ * Same feeds served by the offline simulation (see lib/simulation.ts)
+ */
+const MOCK_SOURCES: FeedSource[] = [
+  {
+    id: 'sim-vessels',
+    name: 'Simulated AIS',
+    provider: 'simulation',
+    url: `sim://${simulationSeed}/aishub/`,
+    type: 'api',
+    category: 'vessel_tracking',
+    updateInterval: 60000,
+    enabled: true,
+    priority: 0,
+  },
+  {
+    id: 'sim-weather',
+    name: 'Simulated Weather',
+    provider: 'simulation',
+    url: `sim://${simulationSeed}/openweather/`,
+    type: 'api',
+    category: 'weather_alert',
+    updateInterval: 600000,
+    enabled: true,
+    priority: 0,
+  },
+  {
+    id: 'sim-incidents',
+    name: 'Simulated ReCAAP',
+    provider: 'simulation',
+    url: `sim://${simulationSeed}/recaap/Incidents`,
+    type: 'api',
+    category: 'piracy_incident',
+    updateInterval: 1800000,
+    enabled: true,
+    priority: 0,
+  },
+];
+
+/**
+ * Live adapters pointed at the fixture routes served by `npm run dev`
+ */
+const FIXTURE_URLS: Record<string, string> = {
+  aishub: '/__fixtures/aishub/',
+  openweather: '/__fixtures/openweather/',
+  recaap: '/__fixtures/recaap/Incidents',
+};
+
+const FIXTURE_SOURCES: FeedSource[] = LIVE_SOURCES.map((source) => ({
+  ...source,
+  url: FIXTURE_URLS[source.provider] || source.url,
+  enabled: true,
+  auth: source.auth ? { ...source.auth, credentials: 'fixtures' } : undefined,
+}));
+
+export const FEED_SOURCES: FeedSource[] =
+  DATA_MODE === 'mock'
+    ? MOCK_SOURCES
+    : DATA_MODE === 'fixtures'
+      ? FIXTURE_SOURCES
+      : API_PROXY_URL
+        ? PROXIED_SOURCES
+        : LIVE_SOURCES;
+
+/**
+ * WebSocket the proxy server pushes ingested vessels, weather and incidents
+ * on (server/stream-hub.ts); empty unless live data goes through the proxy.
+ * VITE_STREAM=off keeps the per-tab polling instead.
+ */
+export const STREAM_URL = ((): string => {
+  if (DATA_MODE !== 'live' || !API_PROXY_URL || import.meta.env.VITE_STREAM === 'off') return '';
+  const base = typeof location === 'undefined' ? undefined : location.href;
+  if (!base && !/^https?:/.test(API_PROXY_URL)) return '';
+  const url = new URL(`${API_PROXY_URL}/stream`, base);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+})();
+
+/**
+ * Stored vessel positions and incidents on the API server (server/history-api.ts);
+ * empty unless live data goes through the proxy
+ */
+export const HISTORY_URL = DATA_MODE === 'live' && API_PROXY_URL ? `${API_PROXY_URL}/history` : '';
@@ -0,0 +1,106 @@
+/**
+ * Maritime regulations in force (bundled reference list for the policy layer)
+ * Each entry is pinned to a point in the area it mainly affects
+ */
+
+import type { MaritimePolicy } from '@/types/maritime';
+
+export interface PolicyReference {
+  policy: Omit<MaritimePolicy, 'date' | 'effectiveDate'> & { effectiveDate: string }; // ISO date
+  location: [number, number]; // [latitude, longitude]
+}
+
+export const MARITIME_POLICIES: PolicyReference[] = [
+  {
+    policy: {
+      id: 'imo-2020-sulphur-cap',
+      type: 'regulation',
+      organization: 'IMO',
+      title: 'IMO 2020 global sulphur cap',
+      description: 'Sulphur in fuel oil used outside emission control areas limited to 0.50% m/m.',
+      affectedRegions: ['Global'],
+      effectiveDate: '2020-01-01',
+      summary: 'MARPOL Annex VI, regulation 14',
+      references: ['https://www.imo.org/en/MediaCentre/HotTopics/Pages/Sulphur-2020.aspx'],
+    },
+    location: [0, -30],
+  },
+  {
+    policy: {
+      id: 'imo-eexi-cii',
+      type: 'regulation',
+      organization: 'IMO',
+      title: 'EEXI and CII carbon intensity rules',
+      description: 'Existing ships must meet an efficiency index and receive an annual carbon intensity rating.',
+      affectedRegions: ['Global'],
+      effectiveDate: '2023-01-01',
+      summary: 'MARPOL Annex VI amendments adopted at MEPC 76',
+    },
+    location: [-10, 75],
+  },
+  {
+    policy: {
+      id: 'imo-bwm-d2',
+      type: 'regulation',
+      organization: 'IMO',
+      title: 'Ballast water D-2 standard for all ships',
+      description: 'Ballast water must be treated to the D-2 discharge standard; the phase-in period has ended.',
+      affectedRegions: ['Global'],
+      effectiveDate: '2024-09-08',
+      summary: 'Ballast Water Management Convention, regulation D-2',
+    },
+    location: [20, -140],
+  },
+  {
+    policy: {
+      id: 'eu-ets-maritime',
+      type: 'regulation',
+      organization: 'EU',
+      title: 'EU Emissions Trading System covers shipping',
+      description: 'Ships of 5000 GT and above surrender allowances for emissions on voyages to and from the EU.',
+      affectedRegions: ['European Union'],
+      effectiveDate: '2024-01-01',
+      summary: 'Directive (EU) 2023/959',
+    },
+    location: [54, 3],
+  },
+  {
+    policy: {
+      id: 'fueleu-maritime',
+      type: 'regulation',
+      organization: 'EU',
+      title: 'FuelEU Maritime',
+      description: 'Limits on the greenhouse gas intensity of energy used on board ships calling at EU ports.',
+      affectedRegions: ['European Union'],
+      effectiveDate: '2025-01-01',
+      summary: 'Regulation (EU) 2023/1805',
+    },
+    location: [45, -8],
+  },
+  {
+    policy: {
+      id: 'med-seca',
+      type: 'regulation',
+      organization: 'IMO',
+      title: 'Mediterranean Sea SOx emission control area',
+      description: 'Sulphur in fuel oil used in the Mediterranean limited to 0.10% m/m.',
+      affectedRegions: ['Mediterranean Sea'],
+      effectiveDate: '2025-05-01',
+      summary: 'MARPOL Annex VI, regulation 14',
+    },
+    location: [35.5, 18],
+  },
+  {
+    policy: {
+      id: 'hong-kong-convention',
+      type: 'agreement',
+      organization: 'IMO',
+      title: 'Hong Kong Convention on ship recycling',
+      description: 'Ships carry a hazardous materials inventory and are recycled only at authorised yards.',
+      affectedRegions: ['Global'],
+      effectiveDate: '2025-06-26',
+      summary: 'Entry into force of the 2009 Hong Kong International Convention',
+    },
+    location: [22, 70],
+  },
+];
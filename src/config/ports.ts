@@ -0,0 +1,150 @@
+/**
+ * Major world ports (bundled for offline port-proximity checks)
+ * Coordinates are approximate harbour centres
+ */
+
+export interface PortInfo {
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  unlocode: string;
+  latitude: number;
+  longitude: number;
+  radiusNm: number; // approximate extent of the port and its anchorages
+}
+
+export const MAJOR_PORTS: PortInfo[] = [
+  // East Asia
+  { name: 'Shanghai', country: 'CN', unlocode: 'CNSHA', latitude: 31.23, longitude: 121.49, radiusNm: 25 },
+  { name: 'Ningbo-Zhoushan', country: 'CN', unlocode: 'CNNGB', latitude: 29.87, longitude: 121.88, radiusNm: 20 },
+  { name: 'Shenzhen', country: 'CN', unlocode: 'CNSZX', latitude: 22.5, longitude: 113.88, radiusNm: 12 },
+  { name: 'Guangzhou', country: 'CN', unlocode: 'CNCAN', latitude: 22.75, longitude: 113.62, radiusNm: 15 },
+  { name: 'Qingdao', country: 'CN', unlocode: 'CNTAO', latitude: 36.07, longitude: 120.32, radiusNm: 12 },
+  { name: 'Tianjin', country: 'CN', unlocode: 'CNTSN', latitude: 38.98, longitude: 117.75, radiusNm: 15 },
+  { name: 'Xiamen', country: 'CN', unlocode: 'CNXMN', latitude: 24.45, longitude: 118.07, radiusNm: 10 },
+  { name: 'Dalian', country: 'CN', unlocode: 'CNDLC', latitude: 38.93, longitude: 121.65, radiusNm: 10 },
+  { name: 'Hong Kong', country: 'HK', unlocode: 'HKHKG', latitude: 22.3, longitude: 114.17, radiusNm: 12 },
+  { name: 'Kaohsiung', country: 'TW', unlocode: 'TWKHH', latitude: 22.6, longitude: 120.28, radiusNm: 8 },
+  { name: 'Busan', country: 'KR', unlocode: 'KRPUS', latitude: 35.1, longitude: 129.04, radiusNm: 10 },
+  { name: 'Tokyo', country: 'JP', unlocode: 'JPTYO', latitude: 35.62, longitude: 139.78, radiusNm: 12 },
+  { name: 'Yokohama', country: 'JP', unlocode: 'JPYOK', latitude: 35.45, longitude: 139.65, radiusNm: 8 },
+  { name: 'Kobe', country: 'JP', unlocode: 'JPUKB', latitude: 34.68, longitude: 135.2, radiusNm: 8 },
+  { name: 'Nagoya', country: 'JP', unlocode: 'JPNGO', latitude: 35.05, longitude: 136.88, radiusNm: 10 },
+
+  // Southeast Asia
+  { name: 'Singapore', country: 'SG', unlocode: 'SGSIN', latitude: 1.26, longitude: 103.84, radiusNm: 20 },
+  { name: 'Port Klang', country: 'MY', unlocode: 'MYPKG', latitude: 3.0, longitude: 101.39, radiusNm: 10 },
+  { name: 'Tanjung Pelepas', country: 'MY', unlocode: 'MYTPP', latitude: 1.36, longitude: 103.55, radiusNm: 6 },
+  { name: 'Laem Chabang', country: 'TH', unlocode: 'THLCH', latitude: 13.08, longitude: 100.88, radiusNm: 8 },
+  { name: 'Ho Chi Minh City', country: 'VN', unlocode: 'VNSGN', latitude: 10.77, longitude: 106.72, radiusNm: 15 },
+  { name: 'Haiphong', country: 'VN', unlocode: 'VNHPH', latitude: 20.86, longitude: 106.68, radiusNm: 10 },
+  { name: 'Manila', country: 'PH', unlocode: 'PHMNL', latitude: 14.6, longitude: 120.95, radiusNm: 10 },
+  { name: 'Tanjung Priok (Jakarta)', country: 'ID', unlocode: 'IDTPP', latitude: -6.1, longitude: 106.88, radiusNm: 10 },
+  { name: 'Surabaya', country: 'ID', unlocode: 'IDSUB', latitude: -7.2, longitude: 112.73, radiusNm: 10 },
+  { name: 'Batam', country: 'ID', unlocode: 'IDBTH', latitude: 1.15, longitude: 104.0, radiusNm: 8 },
+
+  // South Asia & Middle East
+  { name: 'Colombo', country: 'LK', unlocode: 'LKCMB', latitude: 6.95, longitude: 79.84, radiusNm: 8 },
+  { name: 'Chittagong', country: 'BD', unlocode: 'BDCGP', latitude: 22.3, longitude: 91.8, radiusNm: 15 },
+  { name: 'Nhava Sheva (Mumbai)', country: 'IN', unlocode: 'INNSA', latitude: 18.95, longitude: 72.95, radiusNm: 12 },
+  { name: 'Mundra', country: 'IN', unlocode: 'INMUN', latitude: 22.74, longitude: 69.7, radiusNm: 8 },
+  { name: 'Chennai', country: 'IN', unlocode: 'INMAA', latitude: 13.1, longitude: 80.3, radiusNm: 8 },
+  { name: 'Kolkata', country: 'IN', unlocode: 'INCCU', latitude: 22.55, longitude: 88.3, radiusNm: 10 },
+  { name: 'Karachi', country: 'PK', unlocode: 'PKKHI', latitude: 24.84, longitude: 66.98, radiusNm: 10 },
+  { name: 'Jebel Ali', country: 'AE', unlocode: 'AEJEA', latitude: 25.01, longitude: 55.06, radiusNm: 10 },
+  { name: 'Fujairah', country: 'AE', unlocode: 'AEFJR', latitude: 25.17, longitude: 56.36, radiusNm: 15 },
+  { name: 'Khor Fakkan', country: 'AE', unlocode: 'AEKLF', latitude: 25.35, longitude: 56.36, radiusNm: 6 },
+  { name: 'Dammam', country: 'SA', unlocode: 'SADMM', latitude: 26.5, longitude: 50.2, radiusNm: 8 },
+  { name: 'Ras Tanura', country: 'SA', unlocode: 'SARTA', latitude: 26.64, longitude: 50.16, radiusNm: 10 },
+  { name: 'Jeddah', country: 'SA', unlocode: 'SAJED', latitude: 21.47, longitude: 39.17, radiusNm: 8 },
+  { name: 'Bandar Abbas', country: 'IR', unlocode: 'IRBND', latitude: 27.14, longitude: 56.2, radiusNm: 10 },
+  { name: 'Kharg Island', country: 'IR', unlocode: 'IRKHK', latitude: 29.24, longitude: 50.32, radiusNm: 8 },
+  { name: 'Basra (Umm Qasr)', country: 'IQ', unlocode: 'IQUQR', latitude: 30.03, longitude: 47.95, radiusNm: 10 },
+  { name: 'Sohar', country: 'OM', unlocode: 'OMSOH', latitude: 24.5, longitude: 56.63, radiusNm: 8 },
+  { name: 'Salalah', country: 'OM', unlocode: 'OMSLL', latitude: 16.95, longitude: 54.0, radiusNm: 8 },
+  { name: 'Aden', country: 'YE', unlocode: 'YEADE', latitude: 12.79, longitude: 44.98, radiusNm: 8 },
+  { name: 'Djibouti', country: 'DJ', unlocode: 'DJJIB', latitude: 11.6, longitude: 43.13, radiusNm: 8 },
+
+  // Africa
+  { name: 'Port Said', country: 'EG', unlocode: 'EGPSD', latitude: 31.26, longitude: 32.31, radiusNm: 10 },
+  { name: 'Suez', country: 'EG', unlocode: 'EGSUZ', latitude: 29.95, longitude: 32.55, radiusNm: 10 },
+  { name: 'Alexandria', country: 'EG', unlocode: 'EGALY', latitude: 31.18, longitude: 29.87, radiusNm: 8 },
+  { name: 'Tanger Med', country: 'MA', unlocode: 'MAPTM', latitude: 35.89, longitude: -5.5, radiusNm: 6 },
+  { name: 'Lagos (Apapa)', country: 'NG', unlocode: 'NGAPP', latitude: 6.44, longitude: 3.37, radiusNm: 12 },
+  { name: 'Tema', country: 'GH', unlocode: 'GHTEM', latitude: 5.63, longitude: 0.01, radiusNm: 8 },
+  { name: 'Abidjan', country: 'CI', unlocode: 'CIABJ', latitude: 5.28, longitude: -4.01, radiusNm: 8 },
+  { name: 'Lome', country: 'TG', unlocode: 'TGLFW', latitude: 6.13, longitude: 1.28, radiusNm: 8 },
+  { name: 'Durban', country: 'ZA', unlocode: 'ZADUR', latitude: -29.87, longitude: 31.03, radiusNm: 10 },
+  { name: 'Cape Town', country: 'ZA', unlocode: 'ZACPT', latitude: -33.91, longitude: 18.43, radiusNm: 8 },
+  { name: 'Mombasa', country: 'KE', unlocode: 'KEMBA', latitude: -4.06, longitude: 39.66, radiusNm: 8 },
+  { name: 'Dar es Salaam', country: 'TZ', unlocode: 'TZDAR', latitude: -6.83, longitude: 39.29, radiusNm: 8 },
+  { name: 'Mogadishu', country: 'SO', unlocode: 'SOMGQ', latitude: 2.03, longitude: 45.34, radiusNm: 6 },
+  { name: 'Berbera', country: 'SO', unlocode: 'SOBBO', latitude: 10.44, longitude: 45.01, radiusNm: 6 },
+
+  // Europe
+  { name: 'Rotterdam', country: 'NL', unlocode: 'NLRTM', latitude: 51.95, longitude: 4.05, radiusNm: 20 },
+  { name: 'Antwerp', country: 'BE', unlocode: 'BEANR', latitude: 51.28, longitude: 4.32, radiusNm: 15 },
+  { name: 'Hamburg', country: 'DE', unlocode: 'DEHAM', latitude: 53.54, longitude: 9.95, radiusNm: 12 },
+  { name: 'Bremerhaven', country: 'DE', unlocode: 'DEBRV', latitude: 53.57, longitude: 8.55, radiusNm: 8 },
+  { name: 'Felixstowe', country: 'GB', unlocode: 'GBFXT', latitude: 51.95, longitude: 1.32, radiusNm: 8 },
+  { name: 'Southampton', country: 'GB', unlocode: 'GBSOU', latitude: 50.9, longitude: -1.42, radiusNm: 8 },
+  { name: 'London Gateway', country: 'GB', unlocode: 'GBLGP', latitude: 51.5, longitude: 0.47, radiusNm: 10 },
+  { name: 'Le Havre', country: 'FR', unlocode: 'FRLEH', latitude: 49.48, longitude: 0.12, radiusNm: 8 },
+  { name: 'Marseille', country: 'FR', unlocode: 'FRMRS', latitude: 43.33, longitude: 5.33, radiusNm: 10 },
+  { name: 'Algeciras', country: 'ES', unlocode: 'ESALG', latitude: 36.13, longitude: -5.43, radiusNm: 8 },
+  { name: 'Gibraltar', country: 'GI', unlocode: 'GIGIB', latitude: 36.14, longitude: -5.36, radiusNm: 6 },
+  { name: 'Valencia', country: 'ES', unlocode: 'ESVLC', latitude: 39.44, longitude: -0.32, radiusNm: 8 },
+  { name: 'Barcelona', country: 'ES', unlocode: 'ESBCN', latitude: 41.35, longitude: 2.16, radiusNm: 8 },
+  { name: 'Sines', country: 'PT', unlocode: 'PTSIE', latitude: 37.94, longitude: -8.87, radiusNm: 6 },
+  { name: 'Genoa', country: 'IT', unlocode: 'ITGOA', latitude: 44.4, longitude: 8.92, radiusNm: 8 },
+  { name: 'Gioia Tauro', country: 'IT', unlocode: 'ITGIT', latitude: 38.45, longitude: 15.9, radiusNm: 6 },
+  { name: 'Trieste', country: 'IT', unlocode: 'ITTRS', latitude: 45.63, longitude: 13.77, radiusNm: 6 },
+  { name: 'Piraeus', country: 'GR', unlocode: 'GRPIR', latitude: 37.94, longitude: 23.62, radiusNm: 10 },
+  { name: 'Valletta / Marsaxlokk', country: 'MT', unlocode: 'MTMAR', latitude: 35.82, longitude: 14.54, radiusNm: 10 },
+  { name: 'Istanbul (Ambarli)', country: 'TR', unlocode: 'TRAMR', latitude: 40.97, longitude: 28.68, radiusNm: 12 },
+  { name: 'Mersin', country: 'TR', unlocode: 'TRMER', latitude: 36.78, longitude: 34.63, radiusNm: 8 },
+  { name: 'Limassol', country: 'CY', unlocode: 'CYLMS', latitude: 34.65, longitude: 33.02, radiusNm: 8 },
+  { name: 'Novorossiysk', country: 'RU', unlocode: 'RUNVS', latitude: 44.72, longitude: 37.8, radiusNm: 10 },
+  { name: 'Odesa', country: 'UA', unlocode: 'UAODS', latitude: 46.5, longitude: 30.75, radiusNm: 10 },
+  { name: 'Constanta', country: 'RO', unlocode: 'ROCND', latitude: 44.16, longitude: 28.66, radiusNm: 8 },
+  { name: 'Gdansk', country: 'PL', unlocode: 'PLGDN', latitude: 54.4, longitude: 18.67, radiusNm: 8 },
+  { name: 'St Petersburg', country: 'RU', unlocode: 'RULED', latitude: 59.88, longitude: 30.2, radiusNm: 12 },
+  { name: 'Primorsk', country: 'RU', unlocode: 'RUPRM', latitude: 60.35, longitude: 28.7, radiusNm: 8 },
+  { name: 'Gothenburg', country: 'SE', unlocode: 'SEGOT', latitude: 57.69, longitude: 11.85, radiusNm: 8 },
+  { name: 'Oslo', country: 'NO', unlocode: 'NOOSL', latitude: 59.9, longitude: 10.73, radiusNm: 6 },
+
+  // Americas
+  { name: 'Los Angeles / Long Beach', country: 'US', unlocode: 'USLAX', latitude: 33.74, longitude: -118.24, radiusNm: 15 },
+  { name: 'Oakland', country: 'US', unlocode: 'USOAK', latitude: 37.8, longitude: -122.32, radiusNm: 10 },
+  { name: 'Seattle / Tacoma', country: 'US', unlocode: 'USSEA', latitude: 47.45, longitude: -122.4, radiusNm: 15 },
+  { name: 'Vancouver', country: 'CA', unlocode: 'CAVAN', latitude: 49.29, longitude: -123.1, radiusNm: 12 },
+  { name: 'Houston', country: 'US', unlocode: 'USHOU', latitude: 29.62, longitude: -95.0, radiusNm: 20 },
+  { name: 'New Orleans', country: 'US', unlocode: 'USMSY', latitude: 29.93, longitude: -90.06, radiusNm: 20 },
+  { name: 'Savannah', country: 'US', unlocode: 'USSAV', latitude: 32.08, longitude: -81.09, radiusNm: 10 },
+  { name: 'New York / New Jersey', country: 'US', unlocode: 'USNYC', latitude: 40.67, longitude: -74.05, radiusNm: 12 },
+  { name: 'Norfolk', country: 'US', unlocode: 'USORF', latitude: 36.9, longitude: -76.32, radiusNm: 12 },
+  { name: 'Miami', country: 'US', unlocode: 'USMIA', latitude: 25.77, longitude: -80.17, radiusNm: 8 },
+  { name: 'Montreal', country: 'CA', unlocode: 'CAMTR', latitude: 45.55, longitude: -73.53, radiusNm: 8 },
+  { name: 'Halifax', country: 'CA', unlocode: 'CAHAL', latitude: 44.64, longitude: -63.56, radiusNm: 8 },
+  { name: 'Manzanillo', country: 'MX', unlocode: 'MXZLO', latitude: 19.06, longitude: -104.31, radiusNm: 8 },
+  { name: 'Veracruz', country: 'MX', unlocode: 'MXVER', latitude: 19.2, longitude: -96.13, radiusNm: 8 },
+  { name: 'Colon', country: 'PA', unlocode: 'PAONX', latitude: 9.36, longitude: -79.9, radiusNm: 12 },
+  { name: 'Balboa', country: 'PA', unlocode: 'PABLB', latitude: 8.95, longitude: -79.57, radiusNm: 12 },
+  { name: 'Kingston', country: 'JM', unlocode: 'JMKIN', latitude: 17.97, longitude: -76.8, radiusNm: 8 },
+  { name: 'Cartagena', country: 'CO', unlocode: 'COCTG', latitude: 10.4, longitude: -75.53, radiusNm: 8 },
+  { name: 'Santos', country: 'BR', unlocode: 'BRSSZ', latitude: -23.98, longitude: -46.3, radiusNm: 10 },
+  { name: 'Rio de Janeiro', country: 'BR', unlocode: 'BRRIO', latitude: -22.89, longitude: -43.18, radiusNm: 10 },
+  { name: 'Paranagua', country: 'BR', unlocode: 'BRPNG', latitude: -25.5, longitude: -48.52, radiusNm: 8 },
+  { name: 'Buenos Aires', country: 'AR', unlocode: 'ARBUE', latitude: -34.6, longitude: -58.37, radiusNm: 12 },
+  { name: 'Montevideo', country: 'UY', unlocode: 'UYMVD', latitude: -34.9, longitude: -56.21, radiusNm: 8 },
+  { name: 'Callao', country: 'PE', unlocode: 'PECLL', latitude: -12.05, longitude: -77.15, radiusNm: 8 },
+  { name: 'San Antonio', country: 'CL', unlocode: 'CLSAI', latitude: -33.59, longitude: -71.62, radiusNm: 6 },
+  { name: 'Valparaiso', country: 'CL', unlocode: 'CLVAP', latitude: -33.03, longitude: -71.63, radiusNm: 6 },
+
+  // Oceania
+  { name: 'Melbourne', country: 'AU', unlocode: 'AUMEL', latitude: -37.84, longitude: 144.92, radiusNm: 12 },
+  { name: 'Sydney (Port Botany)', country: 'AU', unlocode: 'AUSYD', latitude: -33.97, longitude: 151.22, radiusNm: 8 },
+  { name: 'Brisbane', country: 'AU', unlocode: 'AUBNE', latitude: -27.38, longitude: 153.17, radiusNm: 10 },
+  { name: 'Port Hedland', country: 'AU', unlocode: 'AUPHE', latitude: -20.3, longitude: 118.58, radiusNm: 15 },
+  { name: 'Fremantle', country: 'AU', unlocode: 'AUFRE', latitude: -32.05, longitude: 115.74, radiusNm: 8 },
+  { name: 'Auckland', country: 'NZ', unlocode: 'NZAKL', latitude: -36.84, longitude: 174.78, radiusNm: 8 },
+];
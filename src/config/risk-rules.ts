@@ -0,0 +1,159 @@
+import type { RiskRule } from '@/types/maritime';
+
+// Known high-risk maritime zones
+export const HIGH_RISK_ZONES: Array<{
+  name: string;
+  bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+  riskLevel: 'high' | 'medium' | 'low';
+}> = [
+  {
+    name: 'Gulf of Aden',
+    bounds: { minLat: 10, maxLat: 17, minLon: 40, maxLon: 55 },
+    riskLevel: 'high',
+  },
+  {
+    name: 'Strait of Malacca',
+    bounds: { minLat: 0, maxLat: 6, minLon: 95, maxLon: 105 },
+    riskLevel: 'high',
+  },
+  {
+    name: 'Singapore Strait',
+    bounds: { minLat: 1, maxLat: 2, minLon: 103, maxLon: 105 },
+    riskLevel: 'medium',
+  },
+  {
+    name: 'Bay of Bengal',
+    bounds: { minLat: 5, maxLat: 23, minLon: 80, maxLon: 95 },
+    riskLevel: 'medium',
+  },
+];
+
+// Score thresholds for risk levels (score is 0-100)
+export const RISK_LEVEL_THRESHOLDS = {
+  high: 60,
+  medium: 30,
+};
+
+/**
+ * Default suspicious-activity rules.
+ * Facts available to conditions are documented in lib/risk-engine.ts.
+ */
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  {
+    id: 'no-identity',
+    name: 'Missing identity',
+    reason: 'No vessel identity found',
+    weight: 20,
+    enabled: true,
+    condition: {
+      any: [
+        { fact: 'name', op: 'missing' },
+        { fact: 'name', op: 'eq', value: 'Unknown Vessel' },
+      ],
+    },
+  },
+  {
+    id: 'excessive-speed',
+    name: 'Excessive speed',
+    reason: 'Unusual speed: {speed} knots',
+    weight: 15,
+    enabled: true,
+    condition: { fact: 'speed', op: 'gt', value: 30 },
+  },
+  {
+    id: 'stopped-open-ocean',
+    name: 'Stopped in open ocean',
+    reason: 'Stopped in open ocean ({distanceToCoastNm} nm from coast)',
+    weight: 30,
+    enabled: true,
+    condition: {
+      all: [
+        { fact: 'speed', op: 'lt', value: 0.5 },
+        { fact: 'openOcean', op: 'eq', value: true },
+      ],
+    },
+  },
+  {
+    id: 'on-land',
+    name: 'Position on land',
+    reason: 'Reported position is on land',
+    weight: 40,
+    enabled: true,
+    condition: {
+      all: [
+        { fact: 'onLand', op: 'eq', value: true },
+        { fact: 'inPortArea', op: 'eq', value: false },
+      ],
+    },
+  },
+  {
+    id: 'unusual-nav-status',
+    name: 'Unusual navigational status',
+    reason: 'Vessel status indicates unusual activity',
+    weight: 10,
+    enabled: true,
+    condition: { fact: 'status', op: 'in', value: [14, 15] },
+  },
+  {
+    id: 'stale-ais',
+    name: 'Stale AIS data',
+    reason: 'Stale AIS data (possible transponder disabled)',
+    weight: 15,
+    enabled: true,
+    condition: { fact: 'ageMinutes', op: 'gt', value: 12 * 60 },
+  },
+  {
+    id: 'dark-period',
+    name: 'AIS dark period',
+    reason: 'AIS dark for up to {longestDarkHours} hours',
+    weight: 25,
+    enabled: true,
+    condition: { fact: 'darkPeriodCount', op: 'gt', value: 0 },
+  },
+  {
+    id: 'impossible-jump',
+    name: 'Impossible position jump',
+    reason: 'Position jump across AIS gap is physically impossible (possible spoofing)',
+    weight: 40,
+    enabled: true,
+    condition: { fact: 'impossibleGapCount', op: 'gt', value: 0 },
+  },
+  {
+    id: 'source-conflict',
+    name: 'Conflicting source positions',
+    reason: 'Sources report physically impossible positions (possible spoofing)',
+    weight: 30,
+    enabled: true,
+    condition: { fact: 'positionConflictCount', op: 'gt', value: 0 },
+  },
+  {
+    id: 'rendezvous',
+    name: 'Ship-to-ship rendezvous',
+    reason: 'Involved in {rendezvousCount} rendezvous outside port areas',
+    weight: 30,
+    enabled: true,
+    condition: { fact: 'rendezvousCount', op: 'gt', value: 0 },
+  },
+  {
+    id: 'high-risk-zone',
+    name: 'High-risk zone',
+    reason: 'Operating in {highRiskZone}',
+    weight: 10,
+    enabled: true,
+    condition: { fact: 'highRiskZone', op: 'exists' },
+  },
+  {
+    id: 'loitering',
+    name: 'Loitering at sea',
+    reason: 'Loitering in open ocean for {trackHours} hours',
+    weight: 15,
+    enabled: true,
+    condition: {
+      all: [
+        { fact: 'trackHours', op: 'gte', value: 3 },
+        { fact: 'trackMaxSpeed', op: 'lt', value: 3 },
+        { fact: 'openOcean', op: 'eq', value: true },
+      ],
+    },
+  },
+];
@@ -0,0 +1,121 @@
+/**
+ * Offline simulation data
+ * Shipping lanes, incident hotspots and defaults for the mock data mode
+ * (VITE_DATA_MODE=mock or fixtures). Waypoints are approximate and stay at sea.
+ */
+
+export interface ShippingLane {
+  name: string;
+  waypoints: [number, number][]; // [latitude, longitude]
+  traffic: number; // relative share of simulated vessels
+}
+
+export interface IncidentHotspot {
+  name: string; // reported as the ReCAAP sub-region
+  latitude: number;
+  longitude: number;
+  radiusNm: number;
+  ratePerDay: number; // mean incidents per day
+}
+
+export const SHIPPING_LANES: ShippingLane[] = [
+  {
+    name: 'Asia - Europe via Suez',
+    traffic: 5,
+    waypoints: [
+      [1.2, 103.9], [2.5, 101.0], [5.8, 95.0], [5.6, 80.6], [8.0, 75.0],
+      [12.5, 53.0], [12.6, 45.0], [12.6, 43.4], [20.0, 38.5], [27.5, 34.0],
+      [29.9, 32.6], [31.5, 32.3], [33.8, 25.0], [37.3, 11.5], [37.5, 5.0],
+      [35.95, -5.6], [36.8, -9.5], [43.5, -10.0], [48.6, -5.8], [50.0, -1.0],
+      [51.0, 1.5], [52.0, 3.9],
+    ],
+  },
+  {
+    name: 'Transpacific',
+    traffic: 3,
+    waypoints: [
+      [31.0, 122.5], [30.5, 125.0], [31.0, 135.0], [40.0, 160.0], [46.0, -170.0],
+      [48.5, -130.0], [48.4, -124.8],
+    ],
+  },
+  {
+    name: 'North Atlantic',
+    traffic: 3,
+    waypoints: [[49.8, -5.5], [45.0, -30.0], [41.0, -55.0], [40.4, -73.8]],
+  },
+  {
+    name: 'Panama - US East Coast',
+    traffic: 2,
+    waypoints: [
+      [9.4, -79.9], [15.0, -77.0], [19.8, -74.2], [25.5, -72.0], [36.9, -75.5], [40.4, -73.8],
+    ],
+  },
+  {
+    name: 'Gulf of Mexico - Florida Straits',
+    traffic: 2,
+    waypoints: [[29.3, -94.7], [26.0, -88.0], [24.2, -82.0], [26.5, -79.8], [30.5, -80.2]],
+  },
+  {
+    name: 'Persian Gulf - Far East',
+    traffic: 4,
+    waypoints: [
+      [26.7, 50.5], [26.3, 53.5], [26.55, 56.4], [25.0, 58.0], [20.0, 62.0], [8.0, 76.0],
+      [5.6, 80.6], [5.8, 95.0], [3.0, 100.5], [1.2, 103.8],
+    ],
+  },
+  {
+    name: 'Persian Gulf - Cape of Good Hope',
+    traffic: 2,
+    waypoints: [
+      [26.55, 56.4], [24.5, 59.0], [10.0, 62.0], [-10.0, 55.0], [-28.0, 45.0], [-35.5, 22.0],
+      [-35.0, 18.0], [-20.0, 5.0], [5.0, -15.0], [36.0, -10.0],
+    ],
+  },
+  {
+    name: 'Intra-Asia',
+    traffic: 4,
+    waypoints: [
+      [1.2, 104.2], [5.0, 106.0], [10.0, 110.0], [21.5, 114.5], [22.1, 114.2], [24.5, 119.5],
+      [30.5, 123.0], [34.9, 129.0],
+    ],
+  },
+  {
+    name: 'Australia - North Asia',
+    traffic: 2,
+    waypoints: [
+      [-20.0, 118.5], [-12.0, 116.0], [-8.7, 115.7], [-2.0, 117.8], [1.5, 119.3], [4.5, 127.0],
+      [15.0, 130.0], [30.0, 128.0], [34.0, 129.5],
+    ],
+  },
+  {
+    name: 'North Sea - Baltic',
+    traffic: 2,
+    waypoints: [
+      [52.0, 3.8], [54.0, 6.0], [57.9, 10.8], [56.5, 11.8], [55.6, 12.75], [55.2, 14.5],
+      [57.0, 19.0], [59.8, 24.5],
+    ],
+  },
+  {
+    name: 'West Africa Coastal',
+    traffic: 1,
+    waypoints: [[6.3, 3.3], [4.0, 1.0], [5.2, -4.0], [4.5, -8.0], [8.0, -14.5], [14.6, -17.6]],
+  },
+];
+
+export const INCIDENT_HOTSPOTS: IncidentHotspot[] = [
+  { name: 'Singapore Strait', latitude: 1.2, longitude: 104.0, radiusNm: 25, ratePerDay: 0.5 },
+  { name: 'Sulu-Celebes Seas', latitude: 5.5, longitude: 119.5, radiusNm: 80, ratePerDay: 0.1 },
+  { name: 'Gulf of Guinea', latitude: 3.5, longitude: 5.0, radiusNm: 150, ratePerDay: 0.3 },
+  { name: 'Gulf of Aden', latitude: 12.5, longitude: 47.0, radiusNm: 120, ratePerDay: 0.1 },
+  { name: 'Chittagong', latitude: 22.0, longitude: 91.7, radiusNm: 20, ratePerDay: 0.1 },
+  { name: 'Callao', latitude: -12.0, longitude: -77.2, radiusNm: 15, ratePerDay: 0.1 },
+];
+
+export const SIMULATION_DEFAULTS = {
+  seed: 1,
+  vesselCount: 600,
+  weatherCells: 16,
+  incidentDays: 60, // incident history served by the ReCAAP stand-in
+  loiteringShare: 0.05, // vessels drifting off-lane instead of transiting
+  darkShare: 0.03, // vessels that switch AIS off for part of each day
+};
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import DataCache from './cache';
+import { flushPromises } from '../test/helpers';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+describe('DataCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires entries after their own TTL', () => {
+    const cache = new DataCache<string>({ name: 'test', ttlMs: 10 * MINUTE });
+    cache.set('short', 'a', { ttlMs: MINUTE });
+    cache.set('long', 'b');
+
+    vi.advanceTimersByTime(MINUTE);
+    expect(cache.lookup('short')).toBeUndefined();
+    expect(cache.lookup('long')).toEqual({ value: 'b', fresh: true });
+  });
+
+  it('evicts the least recently used entries beyond max', () => {
+    const cache = new DataCache<number>({ name: 'test', max: 2, ttlMs: MINUTE });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.lookup('a');
+    cache.set('c', 3);
+
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1, entries: ['c', 'a'] });
+    expect(cache.peek('b')).toBeUndefined();
+  });
+
+  it('serves stale values while revalidating in the background', async () => {
+    const cache = new DataCache<string>({ name: 'test', ttlMs: MINUTE, staleWhileRevalidateMs: 5 * MINUTE });
+    const load = vi.fn().mockResolvedValueOnce('v1').mockResolvedValueOnce('v2');
+
+    expect(await cache.fetch('key', load)).toBe('v1');
+    vi.advanceTimersByTime(2 * MINUTE);
+
+    expect(await cache.fetch('key', load)).toBe('v1');
+    await flushPromises();
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.lookup('key')).toEqual({ value: 'v2', fresh: true });
+
+    vi.advanceTimersByTime(6 * MINUTE);
+    expect(cache.peek('key')).toBeUndefined();
+  });
+
+  it('keeps the stale value when revalidation fails', async () => {
+    const cache = new DataCache<string>({ name: 'test', ttlMs: MINUTE, staleWhileRevalidateMs: 5 * MINUTE });
+    await cache.fetch('key', async () => 'v1');
+    vi.advanceTimersByTime(2 * MINUTE);
+
+    expect(await cache.fetch('key', () => Promise.reject(new Error('503')))).toBe('v1');
+    await flushPromises();
+    expect(cache.peek('key')).toBe('v1');
+    expect(console.warn).toHaveBeenCalledWith('[Cache:test] Revalidating key failed:', '503');
+  });
+
+  it('shares concurrent loads and does not cache null', async () => {
+    const cache = new DataCache<string>({ name: 'test', ttlMs: MINUTE });
+    const load = vi.fn(async () => null);
+
+    expect(await Promise.all([cache.fetch('key', load), cache.fetch('key', load)])).toEqual([null, null]);
+    expect(load).toHaveBeenCalledOnce();
+    await cache.fetch('key', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts hits, stale hits and misses', async () => {
+    const cache = new DataCache<string>({ name: 'test', ttlMs: MINUTE, staleWhileRevalidateMs: MINUTE });
+    await cache.fetch('key', async () => 'v1');
+    await cache.fetch('key', async () => 'v1');
+    vi.advanceTimersByTime(MINUTE);
+    cache.lookup('key');
+    cache.lookup('other');
+
+    expect(cache.getStats()).toEqual({
+      name: 'test',
+      size: 1,
+      max: 500,
+      hits: 1,
+      staleHits: 1,
+      misses: 2,
+      evictions: 0,
+      hitRate: 0.5,
+      entries: ['key'],
+    });
+  });
+});
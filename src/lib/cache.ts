@@ -0,0 +1,293 @@
+/**
+ * Data Cache
+ * Size-bounded (LRU) cache with per-entry TTL and stale-while-revalidate:
+ * past its TTL an entry is still served, and refreshed in the background,
+ * until the stale window also runs out. Entries can be persisted to
+ * IndexedDB so they survive a reload, and hits/misses are counted.
+ */
+
+import { LRUCache } from 'lru-cache';
+import { openDatabase, promisifyRequest, transactionDone, iterateCursor } from './indexed-db';
+
+export interface CacheOptions {
+  name: string; // used in logs, stats and as the persistence namespace
+  max?: number; // entries
+  ttlMs: number; // default time an entry stays fresh
+  staleWhileRevalidateMs?: number; // how long an expired entry is still served
+  persist?: boolean; // keep entries in IndexedDB across reloads
+}
+
+export interface CacheLookup<V> {
+  value: V;
+  fresh: boolean;
+}
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  max: number;
+  hits: number; // fresh
+  staleHits: number; // served while (or instead of) revalidating
+  misses: number;
+  evictions: number; // dropped to stay within max
+  hitRate: number; // (hits + staleHits) / lookups, 0 before the first lookup
+  entries: string[];
+}
+
+interface StoredEntry<V> {
+  value: V;
+  storedAt: number;
+  ttlMs: number;
+}
+
+interface PersistedEntry<V> extends StoredEntry<V> {
+  id: string; // `${cache}:${key}`
+  cache: string;
+  key: string;
+}
+
+const DB_NAME = 'maritime-monitor-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Shared connection for every persisted cache
+ */
+function openCacheDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('cache', 'cache');
+      }
+    });
+    // Allow a retry after a failed open
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+class DataCache<V> {
+  private name: string;
+  private ttlMs: number;
+  private staleMs: number;
+  private persist: boolean;
+  private entries: LRUCache<string, StoredEntry<V>>;
+  private loading: Map<string, Promise<V | null>> = new Map();
+  private restored: Promise<void>;
+  private metrics = { hits: 0, staleHits: 0, misses: 0, evictions: 0 };
+
+  constructor(options: CacheOptions) {
+    this.name = options.name;
+    this.ttlMs = options.ttlMs;
+    this.staleMs = options.staleWhileRevalidateMs ?? 0;
+    this.persist = Boolean(options.persist) && typeof indexedDB !== 'undefined';
+    this.entries = new LRUCache({
+      max: options.max ?? 500,
+      dispose: (_entry, key, reason) => {
+        if (reason !== 'evict') return;
+        this.metrics.evictions++;
+        this.unpersist(key);
+      },
+    });
+    this.restored = this.persist ? this.restore() : Promise.resolve();
+  }
+
+  /**
+   * Resolves once persisted entries have been loaded
+   */
+  ready(): Promise<void> {
+    return this.restored;
+  }
+
+  /**
+   * Value for `key` unless it has fully expired; counts a hit, stale hit or miss
+   */
+  lookup(key: string): CacheLookup<V> | undefined {
+    const entry = this.current(key);
+    if (!entry) {
+      this.metrics.misses++;
+      return undefined;
+    }
+
+    const fresh = this.isFreshEntry(entry);
+    if (fresh) this.metrics.hits++;
+    else this.metrics.staleHits++;
+    return { value: entry.value, fresh };
+  }
+
+  /**
+   * Value for `key`, fresh or stale, without touching metrics or recency
+   */
+  peek(key: string): V | undefined {
+    return this.current(key, false)?.value;
+  }
+
+  isFresh(key: string): boolean {
+    const entry = this.current(key, false);
+    return Boolean(entry) && this.isFreshEntry(entry!);
+  }
+
+  set(key: string, value: V, options: { ttlMs?: number } = {}): void {
+    const entry: StoredEntry<V> = { value, storedAt: Date.now(), ttlMs: options.ttlMs ?? this.ttlMs };
+    this.entries.set(key, entry);
+    this.save(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+    this.unpersist(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.loading.clear();
+    if (!this.persist) return;
+
+    this.withStore('readwrite', async (store) => {
+      const index = store.index('cache');
+      const keys = await promisifyRequest(index.getAllKeys(IDBKeyRange.only(this.name)));
+      keys.forEach((id) => store.delete(id));
+    });
+  }
+
+  /**
+   * Cached value for `key`, loading it when missing. A stale value is returned
+   * at once and refreshed in the background; concurrent loads of a key are
+   * shared. Null results are not cached.
+   */
+  async fetch(
+    key: string,
+    load: () => Promise<V | null>,
+    options: { force?: boolean; ttlMs?: number } = {}
+  ): Promise<V | null> {
+    await this.restored;
+
+    if (!options.force) {
+      const cached = this.lookup(key);
+      if (cached?.fresh) return cached.value;
+      if (cached) {
+        this.load(key, load, options.ttlMs).catch((error) =>
+          console.warn(`[Cache:${this.name}] Revalidating ${key} failed:`, error?.message || error)
+        );
+        return cached.value;
+      }
+    }
+
+    return this.load(key, load, options.ttlMs);
+  }
+
+  getStats(): CacheStats {
+    const { hits, staleHits, misses, evictions } = this.metrics;
+    const lookups = hits + staleHits + misses;
+    return {
+      name: this.name,
+      size: this.entries.size,
+      max: this.entries.max,
+      hits,
+      staleHits,
+      misses,
+      evictions,
+      hitRate: lookups > 0 ? (hits + staleHits) / lookups : 0,
+      entries: Array.from(this.entries.keys()),
+    };
+  }
+
+  private load(key: string, load: () => Promise<V | null>, ttlMs?: number): Promise<V | null> {
+    const existing = this.loading.get(key);
+    if (existing) return existing;
+
+    const request = load()
+      .then((value) => {
+        if (value !== null) this.set(key, value, { ttlMs });
+        return value;
+      })
+      .finally(() => this.loading.delete(key));
+    this.loading.set(key, request);
+    return request;
+  }
+
+  /**
+   * Entry for `key`, dropping it once past its TTL and stale window
+   */
+  private current(key: string, updateRecency = true): StoredEntry<V> | undefined {
+    const entry = updateRecency ? this.entries.get(key) : this.entries.peek(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.storedAt >= entry.ttlMs + this.staleMs) {
+      this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private isFreshEntry(entry: StoredEntry<V>): boolean {
+    return Date.now() - entry.storedAt < entry.ttlMs;
+  }
+
+  /**
+   * Load persisted entries, oldest first so the newest are kept within max.
+   * Keys set before the restore finished are not overwritten.
+   */
+  private async restore(): Promise<void> {
+    await this.withStore('readwrite', async (store) => {
+      const records: PersistedEntry<V>[] = [];
+      const expired: string[] = [];
+      await iterateCursor<PersistedEntry<V>>(
+        store.index('cache').openCursor(IDBKeyRange.only(this.name)),
+        (record) => {
+          if (Date.now() - record.storedAt >= record.ttlMs + this.staleMs) expired.push(record.id);
+          else records.push(record);
+        }
+      );
+      expired.forEach((id) => store.delete(id));
+
+      records
+        .sort((a, b) => a.storedAt - b.storedAt)
+        .forEach(({ key, value, storedAt, ttlMs }) => {
+          if (!this.entries.has(key)) this.entries.set(key, { value, storedAt, ttlMs });
+        });
+      if (records.length > 0) {
+        console.log(`[Cache:${this.name}] Restored ${records.length} entries`);
+      }
+    });
+  }
+
+  private save(key: string, entry: StoredEntry<V>): void {
+    if (!this.persist) return;
+    const record: PersistedEntry<V> = { id: `${this.name}:${key}`, cache: this.name, key, ...entry };
+    this.withStore('readwrite', async (store) => {
+      store.put(record);
+    });
+  }
+
+  private unpersist(key: string): void {
+    if (!this.persist) return;
+    this.withStore('readwrite', async (store) => {
+      store.delete(`${this.name}:${key}`);
+    });
+  }
+
+  /**
+   * Run `work` in a transaction; persistence failures are logged, never thrown,
+   * since the in-memory cache keeps working without them
+   */
+  private async withStore(
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<void>
+  ): Promise<void> {
+    try {
+      const db = await openCacheDatabase();
+      const tx = db.transaction(STORE_NAME, mode);
+      await work(tx.objectStore(STORE_NAME));
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn(`[Cache:${this.name}] Persistence failed:`, error);
+    }
+  }
+}
+
+export default DataCache;
@@ -0,0 +1,25 @@
+/**
+ * Compression Helpers
+ * Gzip using the browser's native CompressionStream/DecompressionStream
+ */
+
+/**
+ * Gzip text into a blob
+ */
+export async function gzipText(text: string, type = 'application/gzip'): Promise<Blob> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  const compressed = await new Response(stream).blob();
+  return new Blob([compressed], { type });
+}
+
+/**
+ * Read a blob as text, transparently gunzipping it if it is gzip-compressed
+ */
+export async function readText(blob: Blob): Promise<string> {
+  const header = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+  const isGzip = header[0] === 0x1f && header[1] === 0x8b;
+  if (!isGzip) return blob.text();
+
+  const stream = blob.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { incidentsByDay, incidentsByRegion, sourceFreshness, vesselTypeBreakdown } from './dashboard-stats';
+import { incident, vessel } from '../test/helpers';
+import type { AlertSeverity, SecurityIncident, Vessel, VesselType } from '../types/maritime';
+import type { ProviderHealth } from '../services/providers/types';
+
+const NOW = new Date('2026-03-10T15:00:00Z').getTime();
+
+function boarding(id: string, region: string, severity: AlertSeverity, date: string): SecurityIncident {
+  return incident({ id, type: region, location: '', severity, date: new Date(date) });
+}
+
+function report(mmsi: string, type: VesselType, timestamp: string, source = 'AIS Hub'): Vessel {
+  return vessel({ mmsi, type, timestamp: new Date(timestamp), source });
+}
+
+const INCIDENTS = [
+  boarding('1', 'Singapore Strait', 'high', '2026-03-10T02:00:00Z'),
+  boarding('2', 'Singapore Strait', 'medium', '2026-03-09T23:00:00Z'),
+  boarding('3', 'Sulu Sea', 'critical', '2026-03-08T12:00:00Z'),
+  boarding('4', 'Singapore Strait', 'high', '2026-02-01T12:00:00Z'), // outside the window
+];
+
+describe('dashboard stats', () => {
+  it('counts incidents per region and severity, busiest first', () => {
+    expect(incidentsByRegion(INCIDENTS)).toEqual([
+      { region: 'Singapore Strait', counts: { critical: 0, high: 2, medium: 1, low: 0 }, total: 3 },
+      { region: 'Sulu Sea', counts: { critical: 1, high: 0, medium: 0, low: 0 }, total: 1 },
+    ]);
+  });
+
+  it('buckets incidents by UTC day up to today', () => {
+    const days = incidentsByDay(INCIDENTS, NOW, 3);
+
+    expect(days.map((d) => d.start.toISOString().slice(0, 10))).toEqual(['2026-03-08', '2026-03-09', '2026-03-10']);
+    expect(days.map((d) => d.counts)).toEqual([
+      { critical: 1, high: 0, medium: 0, low: 0 },
+      { critical: 0, high: 0, medium: 1, low: 0 },
+      { critical: 0, high: 1, medium: 0, low: 0 },
+    ]);
+  });
+
+  it('breaks vessels down by type', () => {
+    const vessels = [
+      report('1', 'tanker', '2026-03-10T14:00:00Z'),
+      report('2', 'bulk_carrier', '2026-03-10T14:00:00Z'),
+      report('3', 'tanker', '2026-03-10T14:00:00Z'),
+    ];
+    expect(vesselTypeBreakdown(vessels)).toEqual([
+      { type: 'tanker', count: 2 },
+      { type: 'bulk_carrier', count: 1 },
+    ]);
+  });
+
+  it('reports the newest record and provider health per source', () => {
+    const health = (status: ProviderHealth['status'], lastSuccess: Date | null): ProviderHealth => ({
+      status,
+      lastSuccess,
+      lastError: null,
+      consecutiveFailures: 0,
+      latencyMs: null,
+      requests: 1,
+    });
+
+    const freshness = sourceFreshness(
+      {
+        vessels: [report('1', 'tanker', '2026-03-10T14:00:00Z'), report('2', 'tanker', '2026-03-10T14:30:00Z', 'ais')],
+        weather: [],
+        incidents: INCIDENTS,
+      },
+      [
+        { name: 'AIS Hub', kind: 'vessels', health: health('ok', new Date('2026-03-10T14:59:00Z')) },
+        { name: 'OpenWeather', kind: 'weather', health: health('down', null) },
+      ]
+    );
+
+    expect(freshness).toEqual([
+      {
+        source: 'AIS Hub',
+        kind: 'vessels',
+        records: 1,
+        newest: new Date('2026-03-10T14:00:00Z'),
+        lastFetch: new Date('2026-03-10T14:59:00Z'),
+        status: 'ok',
+      },
+      { source: 'OpenWeather', kind: 'weather', records: 0, newest: null, lastFetch: null, status: 'down' },
+      {
+        source: 'ais',
+        kind: 'vessels',
+        records: 1,
+        newest: new Date('2026-03-10T14:30:00Z'),
+        lastFetch: null,
+        status: 'unknown',
+      },
+      {
+        source: 'ReCAAP ISC',
+        kind: 'incidents',
+        records: 4,
+        newest: new Date('2026-03-10T02:00:00Z'),
+        lastFetch: null,
+        status: 'unknown',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Dashboard Stats
+ * Aggregations behind the dashboard view: incidents by region and by severity
+ * over time, the vessel type mix and how fresh each data source is
+ */
+
+import type { AlertSeverity, SecurityIncident, Vessel, VesselType, WeatherData } from '../types/maritime';
+import type { ProviderHealth, ProviderKind } from '../services/providers/types';
+
+export const SEVERITIES: AlertSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export type SeverityCounts = Record<AlertSeverity, number>;
+
+export interface RegionIncidents {
+  region: string; // incident sub-region (or category, e.g. AIS dark periods)
+  counts: SeverityCounts;
+  total: number;
+}
+
+export interface IncidentBucket {
+  start: Date; // UTC midnight
+  counts: SeverityCounts;
+}
+
+export interface SourceFreshness {
+  source: string;
+  kind: ProviderKind;
+  records: number;
+  newest: Date | null; // newest record from the source
+  lastFetch: Date | null; // last successful request, when the app polls it itself
+  status: ProviderHealth['status'];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function emptyCounts(): SeverityCounts {
+  return { critical: 0, high: 0, medium: 0, low: 0 };
+}
+
+/**
+ * Incident counts per region and severity, busiest region first
+ */
+export function incidentsByRegion(incidents: SecurityIncident[]): RegionIncidents[] {
+  const regions = new Map<string, RegionIncidents>();
+  incidents.forEach((incident) => {
+    const region = incident.type || 'unknown';
+    const entry = regions.get(region) || { region, counts: emptyCounts(), total: 0 };
+    entry.counts[incident.severity]++;
+    entry.total++;
+    regions.set(region, entry);
+  });
+  return Array.from(regions.values()).sort((a, b) => b.total - a.total || a.region.localeCompare(b.region));
+}
+
+/**
+ * Incident counts by severity per UTC day, for the `days` days up to `now` (oldest first)
+ */
+export function incidentsByDay(incidents: SecurityIncident[], now: number, days: number): IncidentBucket[] {
+  const today = Math.floor(now / DAY) * DAY;
+  const first = today - (days - 1) * DAY;
+  const buckets: IncidentBucket[] = Array.from({ length: days }, (_, i) => ({
+    start: new Date(first + i * DAY),
+    counts: emptyCounts(),
+  }));
+
+  incidents.forEach((incident) => {
+    const index = Math.floor((new Date(incident.date).getTime() - first) / DAY);
+    if (index >= 0 && index < days) buckets[index].counts[incident.severity]++;
+  });
+  return buckets;
+}
+
+/**
+ * Vessels per type, most common first
+ */
+export function vesselTypeBreakdown(vessels: Vessel[]): Array<{ type: VesselType; count: number }> {
+  const counts = new Map<VesselType, number>();
+  vessels.forEach((v) => counts.set(v.type, (counts.get(v.type) || 0) + 1));
+  return Array.from(counts, ([type, count]) => ({ type, count })).sort(
+    (a, b) => b.count - a.count || a.type.localeCompare(b.type)
+  );
+}
+
+/**
+ * Records and newest timestamp per source, joined with the health of the
+ * provider of the same name. Providers that returned nothing are listed too.
+ */
+export function sourceFreshness(
+  data: { vessels: Vessel[]; weather: WeatherData[]; incidents: SecurityIncident[] },
+  providers: Array<{ name: string; kind: ProviderKind; health: ProviderHealth }>
+): SourceFreshness[] {
+  const sources = new Map<string, SourceFreshness>();
+  const entry = (source: string, kind: ProviderKind) => {
+    const key = `${kind}:${source}`;
+    if (!sources.has(key)) {
+      sources.set(key, { source, kind, records: 0, newest: null, lastFetch: null, status: 'unknown' });
+    }
+    return sources.get(key)!;
+  };
+
+  providers.forEach(({ name, kind, health }) => {
+    const source = entry(name, kind);
+    source.lastFetch = health.lastSuccess;
+    source.status = health.status;
+  });
+
+  const count = (kind: ProviderKind, records: Array<{ source: string; timestamp: Date }>) => {
+    records.forEach((record) => {
+      const source = entry(record.source, kind);
+      const time = new Date(record.timestamp);
+      source.records++;
+      if (!source.newest || time > source.newest) source.newest = time;
+    });
+  };
+  count('vessels', data.vessels);
+  count('weather', data.weather);
+  count('incidents', data.incidents);
+
+  return Array.from(sources.values());
+}
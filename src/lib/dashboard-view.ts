@@ -0,0 +1,245 @@
+/**
+ * Dashboard View
+ * Overview for the 'dashboard' view mode: headline counts, incidents by
+ * region and by severity over time, the vessel type mix and how fresh each
+ * data source is. Clicking a vessel type lists those vessels: the type filter
+ * is set through `filtersChange`, then a `viewModeChange` to 'list'.
+ */
+
+import {
+  SEVERITIES,
+  incidentsByDay,
+  incidentsByRegion,
+  sourceFreshness,
+  vesselTypeBreakdown,
+} from './dashboard-stats';
+import type MaritimeStore from '../store/maritime-store';
+import type { ProviderHealth, ProviderKind } from '../services/providers/types';
+import type { SecurityIncident, Vessel, WeatherData } from '../types/maritime';
+
+export interface DashboardData {
+  stats: ReturnType<MaritimeStore['getStats']>;
+  vessels: Vessel[];
+  weather: WeatherData[];
+  incidents: SecurityIncident[];
+  providers: Array<{ name: string; kind: ProviderKind; health: ProviderHealth }>;
+  now: number;
+}
+
+// Days of incidents on the timeline
+const TIMELINE_DAYS = 30;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
+function formatAge(time: Date | null, now: number): string {
+  if (!time) return '—';
+  const minutes = Math.max(0, Math.round((now - time.getTime()) / 60000));
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return `${Math.round(minutes / 1440)} d ago`;
+}
+
+function label(value: string): string {
+  return value.replace(/_/g, ' ');
+}
+
+function create<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className: string,
+  parent?: HTMLElement,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  parent?.appendChild(element);
+  return element;
+}
+
+class DashboardView {
+  private root: HTMLElement;
+
+  constructor(parent: HTMLElement) {
+    this.root = create('section', 'dashboard-view hidden', parent);
+    this.root.setAttribute('aria-label', 'Dashboard');
+  }
+
+  update(data: DashboardData): void {
+    this.root.replaceChildren(
+      this.kpiSection(data),
+      this.regionSection(data.incidents),
+      this.timelineSection(data.incidents, data.now),
+      this.typeSection(data.vessels),
+      this.freshnessSection(data)
+    );
+  }
+
+  show(): void {
+    this.root.classList.remove('hidden');
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+
+  destroy(): void {
+    this.root.remove();
+  }
+
+  private card(title: string, className = ''): HTMLElement {
+    const card = create('section', `dashboard-view__card ${className}`.trim());
+    create('h2', 'dashboard-view__title', card, title);
+    return card;
+  }
+
+  private kpiSection({ stats, now }: DashboardData): HTMLElement {
+    const tiles = create('div', 'dashboard-view__kpis');
+    const tile = (value: string, caption: string, modifier = '') => {
+      const element = create('div', `dashboard-view__kpi ${modifier}`.trim(), tiles);
+      create('div', 'dashboard-view__kpi-value', element, value);
+      create('div', 'dashboard-view__kpi-label', element, caption);
+    };
+
+    tile(String(stats.vesselCount), 'Vessels tracked');
+    tile(
+      String(stats.highRiskVesselCount),
+      'High-risk vessels',
+      stats.highRiskVesselCount ? 'dashboard-view__kpi--warning' : ''
+    );
+    tile(String(stats.incidentCount), 'Incidents');
+    tile(
+      String(stats.criticalIncidentCount),
+      'Critical incidents',
+      stats.criticalIncidentCount ? 'dashboard-view__kpi--danger' : ''
+    );
+    tile(String(stats.alertCount), 'Alerts');
+    tile(formatAge(stats.lastUpdated && new Date(stats.lastUpdated), now), 'Last update');
+    return tiles;
+  }
+
+  private regionSection(incidents: SecurityIncident[]): HTMLElement {
+    const card = this.card('Incidents by region');
+    const regions = incidentsByRegion(incidents);
+    if (regions.length === 0) {
+      create('p', 'dashboard-view__empty', card, 'No incidents loaded');
+      return card;
+    }
+
+    const table = create('table', 'dashboard-view__table', card);
+    const head = create('tr', '', create('thead', '', table));
+    create('th', '', head, 'Region');
+    SEVERITIES.forEach((s) => create('th', `dashboard-view__severity--${s}`, head, s));
+    create('th', '', head, 'Total');
+
+    const body = create('tbody', '', table);
+    regions.forEach(({ region, counts, total }) => {
+      const row = create('tr', '', body);
+      create('td', '', row, label(region));
+      SEVERITIES.forEach((s) => create('td', counts[s] ? '' : 'dashboard-view__zero', row, String(counts[s])));
+      create('td', 'dashboard-view__total', row, String(total));
+    });
+    return card;
+  }
+
+  /**
+   * Stacked bars per day, most severe at the bottom
+   */
+  private timelineSection(incidents: SecurityIncident[], now: number): HTMLElement {
+    const card = this.card(`Incidents by severity, last ${TIMELINE_DAYS} days`, 'dashboard-view__card--wide');
+    const days = incidentsByDay(incidents, now, TIMELINE_DAYS);
+    const max = Math.max(1, ...days.map((d) => SEVERITIES.reduce((sum, s) => sum + d.counts[s], 0)));
+    const barWidth = CHART_WIDTH / TIMELINE_DAYS;
+
+    const bars = days
+      .map((day, i) => {
+        let y = CHART_HEIGHT;
+        return SEVERITIES.map((severity) => {
+          const count = day.counts[severity];
+          if (!count) return '';
+          const height = (count / max) * CHART_HEIGHT;
+          y -= height;
+          const x = (i * barWidth + 1).toFixed(1);
+          const title = `${day.start.toISOString().slice(0, 10)}: ${count} ${severity}`;
+          return (
+            `<rect class="dashboard-view__bar--${severity}" x="${x}" y="${y.toFixed(1)}" ` +
+            `width="${(barWidth - 2).toFixed(1)}" height="${height.toFixed(1)}"><title>${title}</title></rect>`
+          );
+        }).join('');
+      })
+      .join('');
+
+    // Only numbers, severities and dates go into the markup
+    const chart = create('div', 'dashboard-view__chart', card);
+    chart.innerHTML = `
+      <svg viewBox="-2 -12 ${CHART_WIDTH + 4} ${CHART_HEIGHT + 26}" role="img"
+        aria-label="Incidents per day by severity">
+        <line class="dashboard-view__axis" x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" />
+        ${bars}
+        <text x="0" y="-2">${max} / day</text>
+        <text x="0" y="${CHART_HEIGHT + 12}">${days[0].start.toISOString().slice(5, 10)}</text>
+        <text x="${CHART_WIDTH}" y="${CHART_HEIGHT + 12}" text-anchor="end">${days[days.length - 1].start
+          .toISOString()
+          .slice(5, 10)}</text>
+      </svg>
+    `;
+
+    const legend = create('div', 'dashboard-view__legend', card);
+    SEVERITIES.forEach((s) => create('span', `dashboard-view__legend--${s}`, legend, s));
+    return card;
+  }
+
+  private typeSection(vessels: Vessel[]): HTMLElement {
+    const card = this.card('Vessels by type');
+    const types = vesselTypeBreakdown(vessels);
+    if (types.length === 0) {
+      create('p', 'dashboard-view__empty', card, 'No vessels loaded');
+      return card;
+    }
+
+    const max = types[0].count;
+    const list = create('div', 'dashboard-view__types', card);
+    types.forEach(({ type, count }) => {
+      const row = create('button', 'dashboard-view__type', list);
+      row.title = `List ${label(type)} vessels`;
+      row.addEventListener('click', () => {
+        window.dispatchEvent(new CustomEvent('filtersChange', { detail: { vesselType: [type] } }));
+        window.dispatchEvent(new CustomEvent('viewModeChange', { detail: 'list' }));
+      });
+      create('span', 'dashboard-view__type-label', row, label(type));
+      const bar = create('span', 'dashboard-view__type-bar', row);
+      bar.style.width = `${(count / max) * 100}%`;
+      create('span', 'dashboard-view__type-count', row, String(count));
+    });
+    return card;
+  }
+
+  private freshnessSection({ vessels, weather, incidents, providers, now }: DashboardData): HTMLElement {
+    const card = this.card('Data freshness', 'dashboard-view__card--wide');
+    const sources = sourceFreshness({ vessels, weather, incidents }, providers);
+    if (sources.length === 0) {
+      create('p', 'dashboard-view__empty', card, 'No data sources configured');
+      return card;
+    }
+
+    const table = create('table', 'dashboard-view__table', card);
+    const head = create('tr', '', create('thead', '', table));
+    ['Source', 'Data', 'Records', 'Newest record', 'Last fetch', 'Status'].forEach((h) =>
+      create('th', '', head, h)
+    );
+
+    const body = create('tbody', '', table);
+    sources.forEach((source) => {
+      const row = create('tr', '', body);
+      create('td', '', row, source.source);
+      create('td', '', row, source.kind);
+      create('td', '', row, String(source.records));
+      create('td', '', row, formatAge(source.newest, now));
+      create('td', '', row, formatAge(source.lastFetch, now));
+      create('td', `dashboard-view__status--${source.status}`, row, source.status);
+    });
+    return card;
+  }
+}
+
+export default DashboardView;
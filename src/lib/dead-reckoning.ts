@@ -0,0 +1,42 @@
+/**
+ * Dead Reckoning
+ * Estimates a vessel's current position from its last AIS fix, speed and course
+ */
+
+import { destinationPoint } from './geo';
+import type { Vessel } from '../types/maritime';
+
+export interface ProjectedPosition {
+  latitude: number;
+  longitude: number;
+  age: number; // ms since the last fix
+  stale: boolean; // projection exceeded the configured limit
+}
+
+// Below this speed a vessel is treated as stationary (AIS speed noise)
+const MIN_PROJECTION_SPEED = 0.5; // knots
+
+/**
+ * Project a vessel's position to `at` along a great circle.
+ * Projection stops growing once the fix is older than `maxAge`; the result is then flagged stale.
+ */
+export function projectPosition(
+  vessel: Pick<Vessel, 'position' | 'speed' | 'heading' | 'course' | 'timestamp'>,
+  at: number,
+  maxAge: number
+): ProjectedPosition {
+  const fixTime = new Date(vessel.timestamp).getTime();
+  const age = Math.max(0, at - fixTime);
+  const stale = age > maxAge;
+  const { latitude, longitude } = vessel.position;
+
+  const course = vessel.course ?? vessel.heading;
+  if (isNaN(age) || vessel.speed < MIN_PROJECTION_SPEED || course === undefined) {
+    return { latitude, longitude, age: isNaN(age) ? 0 : age, stale };
+  }
+
+  const hours = Math.min(age, maxAge) / (60 * 60 * 1000);
+  const projected = destinationPoint(latitude, longitude, course, vessel.speed * hours);
+
+  return { ...projected, age, stale };
+}
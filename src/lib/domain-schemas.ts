@@ -0,0 +1,99 @@
+/**
+ * Domain Schemas
+ * Parsers for our own domain records when they come back from outside the
+ * type system (exported sessions, JSON files), reviving dates on the way in
+ */
+
+import { array, date, number, object, oneOf, optional, string, type Parser } from './schema';
+import type {
+  Coordinates,
+  SecurityIncident,
+  Vessel,
+  VesselConflict,
+  WeatherData,
+} from '../types/maritime';
+
+const coordinates: Parser<Coordinates> = object({
+  latitude: number({ min: -90, max: 90 }),
+  longitude: number({ min: -180, max: 180 }),
+});
+
+const vesselConflict: Parser<VesselConflict> = object({
+  type: oneOf('position', 'identity'),
+  sources: array(string()),
+  detail: string(),
+  detectedAt: date(),
+});
+
+export const vesselRecord: Parser<Vessel> = object({
+  imo: optional(string({ coerce: true }), ''),
+  mmsi: string({ coerce: true, nonEmpty: true }),
+  name: optional(string(), 'Unknown Vessel'),
+  type: optional(
+    oneOf(
+      'container_ship',
+      'bulk_carrier',
+      'tanker',
+      'general_cargo',
+      'passenger',
+      'fishing',
+      'military',
+      'other'
+    ),
+    'other'
+  ),
+  flagState: optional(string(), ''),
+  position: coordinates,
+  heading: optional(number(), 0),
+  course: optional(number()),
+  speed: optional(number({ min: 0 }), 0),
+  status: optional(number()),
+  timestamp: date(),
+  source: string(),
+  callSign: optional(string()),
+  length: optional(number({ min: 0 })),
+  beam: optional(number({ min: 0 })),
+  draught: optional(number({ min: 0 })),
+  destination: optional(string()),
+  eta: optional(date()),
+  captain: optional(string()),
+  crew: optional(number({ min: 0 })),
+  cargo: optional(string()),
+  sources: optional(array(string())),
+  conflicts: optional(array(vesselConflict)),
+});
+
+export const weatherRecord: Parser<WeatherData> = object({
+  id: string({ nonEmpty: true }),
+  latitude: number({ min: -90, max: 90 }),
+  longitude: number({ min: -180, max: 180 }),
+  temperature: number(),
+  feelsLike: number(),
+  humidity: number({ min: 0, max: 100 }),
+  pressure: number({ min: 0 }),
+  windSpeed: number({ min: 0 }),
+  windDirection: number(),
+  windGust: optional(number({ min: 0 }), 0),
+  description: optional(string(), 'unknown'),
+  clouds: optional(number({ min: 0, max: 100 }), 0),
+  visibility: optional(number({ min: 0 }), 10000),
+  rain: optional(number({ min: 0 }), 0),
+  waves: optional(number({ min: 0 }), 0),
+  location: optional(string(), ''),
+  source: string(),
+  timestamp: date(),
+});
+
+export const incidentRecord: Parser<SecurityIncident> = object({
+  id: string({ nonEmpty: true }),
+  type: optional(string(), 'security'),
+  description: optional(string(), ''),
+  location: optional(string(), ''),
+  latitude: number({ min: -90, max: 90 }),
+  longitude: number({ min: -180, max: 180 }),
+  date: date(),
+  severity: oneOf('low', 'medium', 'high', 'critical'),
+  status: optional(oneOf('reported', 'ongoing', 'resolved'), 'reported'),
+  source: string(),
+  timestamp: date(),
+});
@@ -0,0 +1,147 @@
+/**
+ * Fixture Responses
+ * Renders the simulation in the wire formats of AIS Hub, OpenWeather and ReCAAP,
+ * so the real provider adapters can be exercised without API keys. Used both
+ * in-process by the simulated providers and by the dev server's /__fixtures routes.
+ *
+ * Routes (relative to any prefix):
+ *   .../vessels?xmin&xmax&ymin&ymax   AIS Hub vessels in a bounding box
+ *   .../vessel?mmsi                   AIS Hub single vessel
+ *   .../weather?lat&lon               OpenWeather current conditions
+ *   .../forecast?lat&lon              OpenWeather 5 day / 3 hour forecast
+ *   .../Incidents                     ReCAAP incident list
+ */
+
+import MaritimeSimulation, { type SimulatedWeather } from './simulation';
+import { SIMULATION_DEFAULTS } from '../config/simulation';
+
+export interface FixtureResponse {
+  status: number;
+  body: unknown;
+}
+
+const simulations: Map<number, MaritimeSimulation> = new Map();
+
+/**
+ * Shared simulation per seed (building one generates every vessel up front)
+ */
+export function getSimulation(seed: number = SIMULATION_DEFAULTS.seed): MaritimeSimulation {
+  let simulation = simulations.get(seed);
+  if (!simulation) {
+    simulation = new MaritimeSimulation({ seed });
+    simulations.set(seed, simulation);
+  }
+  return simulation;
+}
+
+/**
+ * Answer a vendor request from the simulation
+ */
+export function respondToFixture(
+  simulation: MaritimeSimulation,
+  url: URL,
+  now: number = Date.now()
+): FixtureResponse {
+  const endpoint = url.pathname.replace(/\/+$/, '').split('/').pop() || '';
+  const query = url.searchParams;
+
+  switch (endpoint) {
+    case 'vessels': {
+      const bounds = {
+        minLat: numberParam(query, 'ymin', -90),
+        maxLat: numberParam(query, 'ymax', 90),
+        minLon: numberParam(query, 'xmin', -180),
+        maxLon: numberParam(query, 'xmax', 180),
+      };
+      return ok({ result: simulation.vesselsAt(now, bounds).map(toAisHubVessel) });
+    }
+
+    case 'vessel': {
+      const vessel = simulation.vessel(query.get('mmsi') || '', now);
+      return ok({ result: vessel ? [toAisHubVessel(vessel)] : [] });
+    }
+
+    case 'weather': {
+      const lat = numberParam(query, 'lat', 0);
+      const lon = numberParam(query, 'lon', 0);
+      return ok(toOpenWeather(simulation.weatherAt(lat, lon, now)));
+    }
+
+    case 'forecast': {
+      const lat = numberParam(query, 'lat', 0);
+      const lon = numberParam(query, 'lon', 0);
+      const start = Math.ceil(now / 10800000) * 10800000; // next 3-hour slot
+      return ok({
+        list: Array.from({ length: 40 }, (_, i) => {
+          const weather = simulation.weatherAt(lat, lon, start + i * 10800000);
+          return { ...toOpenWeather(weather), dt: Math.floor(weather.time.getTime() / 1000) };
+        }),
+        city: { name: 'Open Sea', country: 'SIM', coord: { lat, lon } },
+      });
+    }
+
+    case 'Incidents':
+      return ok({
+        data: simulation.incidentsUntil(now, SIMULATION_DEFAULTS.incidentDays).map((incident) => ({
+          id: incident.id,
+          subRegionName: incident.region,
+          description: incident.description,
+          latitude: incident.latitude.toString(),
+          longitude: incident.longitude.toString(),
+          date: incident.date.toISOString(),
+        })),
+      });
+
+    default:
+      return { status: 404, body: { error: `No fixture for ${url.pathname}` } };
+  }
+}
+
+function toAisHubVessel(vessel: ReturnType<MaritimeSimulation['vesselsAt']>[number]) {
+  return {
+    MMSI: Number(vessel.mmsi),
+    ShipName: vessel.name,
+    Longitude: round(vessel.longitude),
+    Latitude: round(vessel.latitude),
+    Speed: vessel.speed,
+    Course: vessel.course,
+    Status: vessel.status,
+    Timestamp: vessel.timestamp.toISOString(),
+  };
+}
+
+function toOpenWeather(weather: SimulatedWeather) {
+  return {
+    coord: { lon: weather.longitude, lat: weather.latitude },
+    weather: [{ id: weather.conditionId, main: weather.main, description: weather.description, icon: '' }],
+    main: {
+      temp: weather.temperature,
+      feels_like: weather.temperature,
+      temp_min: weather.temperature,
+      temp_max: weather.temperature,
+      pressure: weather.pressure,
+      humidity: weather.humidity,
+    },
+    visibility: weather.visibility,
+    wind: { speed: weather.windSpeed, deg: weather.windDirection, gust: weather.windGust },
+    clouds: { all: weather.clouds },
+    ...(weather.rain > 0 ? { rain: { '1h': weather.rain } } : {}),
+    waves: { height: weather.waveHeight, period: 0, direction: weather.windDirection },
+    timestamp: Math.floor(weather.time.getTime() / 1000),
+    name: 'Open Sea',
+    sys: { country: 'SIM', sunrise: 0, sunset: 0 },
+  };
+}
+
+function ok(body: unknown): FixtureResponse {
+  return { status: 200, body };
+}
+
+function numberParam(query: URLSearchParams, name: string, fallback: number): number {
+  const value = parseFloat(query.get(name) || '');
+  return isNaN(value) ? fallback : value;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
@@ -0,0 +1,109 @@
+/**
+ * Geodesic helpers
+ * Great-circle distance and projection on a spherical earth, in nautical miles
+ */
+
+export const EARTH_RADIUS_NM = 3440.065;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Great-circle distance between two points (haversine), in nautical miles
+ */
+export function distanceNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Initial great-circle bearing from point 1 to point 2, in degrees (0-359)
+ */
+export function bearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLon = toRadians(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Point reached travelling `distance` nautical miles along a great circle
+ * from the start point on the initial bearing `course`
+ */
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  course: number,
+  distance: number
+): { latitude: number; longitude: number } {
+  const delta = distance / EARTH_RADIUS_NM;
+  const theta = toRadians(course);
+  const phi1 = toRadians(lat);
+  const lambda1 = toRadians(lon);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+  return {
+    latitude: toDegrees(phi2),
+    // Normalise to -180..180
+    longitude: ((toDegrees(lambda2) + 540) % 360) - 180,
+  };
+}
+
+/**
+ * Shortest distance from a point to a line segment, in nautical miles.
+ * Uses a local equirectangular projection, accurate for segments up to a few hundred miles.
+ */
+export function distanceToSegmentNm(
+  lat: number,
+  lon: number,
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const cosLat = Math.cos(toRadians(lat));
+  const ax = (lon1 - lon) * cosLat;
+  const ay = lat1 - lat;
+  const bx = (lon2 - lon) * cosLat;
+  const by = lat2 - lat;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+
+  const closestLat = lat + ay + t * dy;
+  const closestLon = lon + (ax + t * dx) / cosLat;
+  return distanceNm(lat, lon, closestLat, closestLon);
+}
+
+/**
+ * Ray-casting point-in-polygon test; `ring` is a list of [lat, lon] vertices
+ */
+export function pointInPolygon(lat: number, lon: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lonI] = ring[i];
+    const [latJ, lonJ] = ring[j];
+    const crosses =
+      latI > lat !== latJ > lat &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
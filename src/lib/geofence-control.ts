@@ -0,0 +1,47 @@
+/**
+ * Geofence Control
+ * Leaflet control under the draw toolbar to download the geofences as GeoJSON
+ * and load them from a file. Actions are dispatched as window events:
+ * `geofenceExport`, and `geofenceImport` carrying the file's text.
+ */
+
+import L from 'leaflet';
+
+class GeofenceControl extends L.Control {
+  constructor(options?: L.ControlOptions) {
+    super({ position: 'topleft', ...options });
+  }
+
+  onAdd(): HTMLElement {
+    const container = L.DomUtil.create('div', 'geofence-control leaflet-bar');
+    L.DomEvent.disableClickPropagation(container);
+
+    const exportButton = L.DomUtil.create('a', 'geofence-control__export', container) as HTMLAnchorElement;
+    exportButton.href = '#';
+    exportButton.title = 'Export geofences as GeoJSON';
+    exportButton.setAttribute('role', 'button');
+    exportButton.textContent = '⤓';
+    L.DomEvent.on(exportButton, 'click', (e) => {
+      L.DomEvent.preventDefault(e);
+      window.dispatchEvent(new CustomEvent('geofenceExport'));
+    });
+
+    const importLabel = L.DomUtil.create('label', 'geofence-control__import', container);
+    importLabel.title = 'Import geofences from GeoJSON';
+    importLabel.textContent = '⤒';
+    const file = L.DomUtil.create('input', '', importLabel) as HTMLInputElement;
+    file.type = 'file';
+    file.accept = '.geojson,.json,application/geo+json,application/json';
+    file.hidden = true;
+    file.addEventListener('change', async () => {
+      const selected = file.files?.[0];
+      file.value = '';
+      if (!selected) return;
+      window.dispatchEvent(new CustomEvent('geofenceImport', { detail: await selected.text() }));
+    });
+
+    return container;
+  }
+}
+
+export default GeofenceControl;
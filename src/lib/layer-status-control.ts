@@ -0,0 +1,92 @@
+/**
+ * Layer Status Control
+ * Leaflet control listing the configured maritime layers with their colour,
+ * on/off toggle, last and next update (or backed-off retry). Toggles are
+ * dispatched as a `layerToggle` window event carrying the layer id.
+ */
+
+import L from 'leaflet';
+import { LAYER_COLORS } from '../config/maritime-layers';
+import type { LayerStatus } from '../services/layer-runtime';
+
+function formatTime(date: Date): string {
+  return date.toTimeString().slice(0, 5);
+}
+
+class LayerStatusControl extends L.Control {
+  private list: HTMLElement | null = null;
+  private rows: Map<string, { toggle: HTMLInputElement; detail: HTMLElement }> = new Map();
+
+  constructor(options?: L.ControlOptions) {
+    super({ position: 'topright', ...options });
+  }
+
+  onAdd(): HTMLElement {
+    const container = L.DomUtil.create('div', 'layer-status leaflet-bar');
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.disableScrollPropagation(container);
+
+    const title = L.DomUtil.create('div', 'layer-status__title', container);
+    title.textContent = 'Layers';
+    this.list = L.DomUtil.create('ul', 'layer-status__list', container);
+    return container;
+  }
+
+  onRemove(): void {
+    this.list = null;
+    this.rows.clear();
+  }
+
+  /**
+   * Reflect the layer statuses, adding rows for layers seen for the first time
+   */
+  update(statuses: LayerStatus[]): void {
+    if (!this.list) return;
+
+    statuses.forEach((status) => {
+      const row = this.rows.get(status.layer.id) || this.createRow(status);
+      row.toggle.checked = status.active;
+      row.detail.textContent = this.describe(status);
+      row.detail.classList.toggle('layer-status__detail--error', Boolean(status.error));
+      row.detail.title = status.error || '';
+    });
+  }
+
+  private createRow(status: LayerStatus): { toggle: HTMLInputElement; detail: HTMLElement } {
+    const item = L.DomUtil.create('li', 'layer-status__item', this.list!);
+    const label = L.DomUtil.create('label', 'layer-status__label', item);
+
+    const toggle = L.DomUtil.create('input', '', label) as HTMLInputElement;
+    toggle.type = 'checkbox';
+    toggle.addEventListener('change', () =>
+      window.dispatchEvent(new CustomEvent('layerToggle', { detail: status.layer.id }))
+    );
+
+    const swatch = L.DomUtil.create('span', 'layer-status__swatch', label);
+    swatch.style.backgroundColor = LAYER_COLORS[status.layer.type];
+    L.DomUtil.create('span', '', label).textContent = status.layer.name;
+
+    const detail = L.DomUtil.create('div', 'layer-status__detail', item);
+    const row = { toggle, detail };
+    this.rows.set(status.layer.id, row);
+    return row;
+  }
+
+  private describe(status: LayerStatus): string {
+    if (!status.hasLoader) return 'No feed configured';
+    if (!status.active) return 'Off';
+    if (status.loading) return 'Updating…';
+
+    const parts = [
+      status.error ? 'Update failed' : `Updated ${status.loaded ? formatTime(status.layer.lastUpdated) : '—'}`,
+    ];
+    if (status.scheduled) {
+      const next = status.failures > 0 ? 'retry' : 'next';
+      parts.push(`${next} ${formatTime(status.layer.nextUpdate)}`);
+    }
+    if (status.layer.dataPoints.length > 0) parts.push(`${status.layer.dataPoints.length} items`);
+    return parts.join(' · ');
+  }
+}
+
+export default LayerStatusControl;
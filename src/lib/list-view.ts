@@ -0,0 +1,341 @@
+/**
+ * List View
+ * Vessels and incidents as sortable, virtualized tables for the 'list' view
+ * mode. Vessel filters are the store's filters, changed through a
+ * `filtersChange` window event; clicking a row dispatches `vesselSelected` or
+ * `incidentSelected`, the same events as clicking its marker on the map.
+ */
+
+import VirtualTable, { type TableColumn } from './virtual-table';
+import type { AppState } from '../store/maritime-store';
+import type { AlertSeverity, RiskAssessment, SecurityIncident, Vessel, VesselType } from '../types/maritime';
+
+export interface ListViewData {
+  vessels: Vessel[]; // after the store's filters
+  vesselTotal: number;
+  incidents: SecurityIncident[];
+  risk: Record<string, RiskAssessment>;
+  filters: AppState['filters'];
+  selectedVessel: string | null; // MMSI
+  selectedIncident: string | null; // incident id
+  now: number;
+}
+
+type ListTab = 'vessels' | 'incidents';
+
+const VESSEL_TYPES: VesselType[] = [
+  'container_ship',
+  'bulk_carrier',
+  'tanker',
+  'general_cargo',
+  'passenger',
+  'fishing',
+  'military',
+  'other',
+];
+
+// Report age choices for the time range filter, in minutes
+const TIME_RANGES: Array<[number, string]> = [
+  [15, 'Last 15 min'],
+  [60, 'Last hour'],
+  [360, 'Last 6 h'],
+  [1440, 'Last 24 h'],
+  [10080, 'Last 7 days'],
+];
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const RISK_ORDER: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+function formatAge(timestamp: Date, now: number): string {
+  const minutes = Math.max(0, Math.round((now - new Date(timestamp).getTime()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h`;
+  return `${Math.round(minutes / 1440)} d`;
+}
+
+function label(value: string): string {
+  return value.replace(/_/g, ' ');
+}
+
+function create<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className: string,
+  parent?: HTMLElement,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  parent?.appendChild(element);
+  return element;
+}
+
+function select(parent: HTMLElement, title: string, options: Array<[string, string]>): HTMLSelectElement {
+  const element = create('select', 'list-view__filter', parent);
+  element.title = title;
+  options.forEach(([value, text]) => {
+    const option = create('option', '', element, text);
+    option.value = value;
+  });
+  return element;
+}
+
+function dispatchFilters(filters: Partial<AppState['filters']>): void {
+  window.dispatchEvent(new CustomEvent('filtersChange', { detail: filters }));
+}
+
+class ListView {
+  private root: HTMLElement;
+  private tabs: Record<ListTab, HTMLButtonElement>;
+  private search: HTMLInputElement;
+  private count: HTMLElement;
+  private vesselFilters: HTMLElement;
+  private incidentFilters: HTMLElement;
+  private typeSelect: HTMLSelectElement;
+  private riskSelect: HTMLSelectElement;
+  private timeSelect: HTMLSelectElement;
+  private severitySelect: HTMLSelectElement;
+  private vesselTable: VirtualTable<Vessel>;
+  private incidentTable: VirtualTable<SecurityIncident>;
+  private tables: Record<ListTab, HTMLElement>;
+  private tab: ListTab = 'vessels';
+  private data: ListViewData | null = null;
+  private risk: Record<string, RiskAssessment> = {};
+  private now = Date.now();
+
+  constructor(parent: HTMLElement) {
+    this.root = create('section', 'list-view hidden', parent);
+    this.root.setAttribute('aria-label', 'Vessel and incident list');
+
+    const toolbar = create('div', 'list-view__toolbar', this.root);
+    const tabs = create('div', 'list-view__tabs', toolbar);
+    tabs.setAttribute('role', 'tablist');
+    this.tabs = {
+      vessels: create('button', 'list-view__tab', tabs, 'Vessels'),
+      incidents: create('button', 'list-view__tab', tabs, 'Incidents'),
+    };
+    (Object.keys(this.tabs) as ListTab[]).forEach((tab) => {
+      this.tabs[tab].setAttribute('role', 'tab');
+      this.tabs[tab].addEventListener('click', () => this.showTab(tab));
+    });
+
+    this.search = create('input', 'list-view__search', toolbar);
+    this.search.type = 'search';
+    this.search.placeholder = 'Search name, MMSI, IMO…';
+    this.search.addEventListener('input', () => this.render());
+
+    this.vesselFilters = create('div', 'list-view__filters', toolbar);
+    this.typeSelect = select(this.vesselFilters, 'Vessel type', [
+      ['', 'All types'],
+      ...VESSEL_TYPES.map((t): [string, string] => [t, label(t)]),
+    ]);
+    this.typeSelect.addEventListener('change', () =>
+      dispatchFilters({ vesselType: this.typeSelect.value ? [this.typeSelect.value] : [] })
+    );
+    this.riskSelect = select(this.vesselFilters, 'Risk level', [
+      ['all', 'All risk levels'],
+      ['high', 'High risk'],
+      ['medium', 'Medium risk'],
+      ['low', 'Low risk'],
+    ]);
+    this.riskSelect.addEventListener('change', () =>
+      dispatchFilters({ riskLevel: this.riskSelect.value as AppState['filters']['riskLevel'] })
+    );
+    this.timeSelect = select(
+      this.vesselFilters,
+      'Reported within',
+      TIME_RANGES.map(([minutes, text]) => [String(minutes), text])
+    );
+    this.timeSelect.addEventListener('change', () =>
+      dispatchFilters({ timeRange: Number(this.timeSelect.value) })
+    );
+
+    // Incidents are not filtered in the store, so their severity filter is local
+    this.incidentFilters = create('div', 'list-view__filters', toolbar);
+    this.severitySelect = select(this.incidentFilters, 'Severity', [
+      ['', 'All severities'],
+      ['critical', 'Critical'],
+      ['high', 'High'],
+      ['medium', 'Medium'],
+      ['low', 'Low'],
+    ]);
+    this.severitySelect.addEventListener('change', () => this.render());
+
+    this.count = create('div', 'list-view__count', toolbar);
+
+    this.tables = {
+      vessels: create('div', 'list-view__table', this.root),
+      incidents: create('div', 'list-view__table', this.root),
+    };
+    this.vesselTable = new VirtualTable<Vessel>(this.tables.vessels, {
+      columns: this.vesselColumns(),
+      rowKey: (v) => String(v.mmsi),
+      onSelect: (v) => window.dispatchEvent(new CustomEvent('vesselSelected', { detail: String(v.mmsi) })),
+      sort: { key: 'name', direction: 'asc' },
+      emptyText: 'No vessels match the filters',
+    });
+    this.incidentTable = new VirtualTable<SecurityIncident>(this.tables.incidents, {
+      columns: this.incidentColumns(),
+      rowKey: (i) => i.id,
+      onSelect: (i) => window.dispatchEvent(new CustomEvent('incidentSelected', { detail: i.id })),
+      sort: { key: 'date', direction: 'desc' },
+      emptyText: 'No incidents match the filters',
+    });
+
+    this.showTab('vessels');
+  }
+
+  /**
+   * Show the latest data, with the selected vessel or incident highlighted
+   */
+  update(data: ListViewData): void {
+    this.data = data;
+    this.risk = data.risk;
+    this.now = data.now;
+
+    const { vesselType, riskLevel, timeRange } = data.filters;
+    this.typeSelect.value = vesselType.length === 1 ? vesselType[0] : '';
+    this.riskSelect.value = riskLevel;
+    // Keep a time range set elsewhere selectable
+    if (!Array.from(this.timeSelect.options).some((option) => option.value === String(timeRange))) {
+      const option = create('option', '', this.timeSelect, `Last ${timeRange} min`);
+      option.value = String(timeRange);
+    }
+    this.timeSelect.value = String(timeRange);
+
+    this.render();
+    this.vesselTable.setSelected(data.selectedVessel);
+    this.incidentTable.setSelected(data.selectedIncident);
+  }
+
+  /**
+   * Bring the selected row into view, e.g. after selecting it on the map
+   */
+  reveal(): void {
+    const { selectedVessel, selectedIncident } = this.data || {};
+    if (this.tab === 'vessels' && selectedVessel) this.vesselTable.scrollTo(selectedVessel);
+    if (this.tab === 'incidents' && selectedIncident) this.incidentTable.scrollTo(selectedIncident);
+  }
+
+  show(): void {
+    this.root.classList.remove('hidden');
+    this.vesselTable.refresh();
+    this.incidentTable.refresh();
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+  }
+
+  destroy(): void {
+    this.vesselTable.destroy();
+    this.incidentTable.destroy();
+    this.root.remove();
+  }
+
+  private showTab(tab: ListTab): void {
+    this.tab = tab;
+    (Object.keys(this.tabs) as ListTab[]).forEach((t) => {
+      this.tabs[t].classList.toggle('list-view__tab--active', t === tab);
+      this.tabs[t].setAttribute('aria-selected', String(t === tab));
+      this.tables[t].classList.toggle('hidden', t !== tab);
+    });
+    this.vesselFilters.classList.toggle('hidden', tab !== 'vessels');
+    this.incidentFilters.classList.toggle('hidden', tab !== 'incidents');
+    this.search.placeholder = tab === 'vessels' ? 'Search name, MMSI, IMO…' : 'Search description, region…';
+    this.render();
+    (tab === 'vessels' ? this.vesselTable : this.incidentTable).refresh();
+  }
+
+  private render(): void {
+    if (!this.data) return;
+    const query = this.search.value.trim().toLowerCase();
+
+    if (this.tab === 'vessels') {
+      const vessels = query
+        ? this.data.vessels.filter((v) =>
+            [v.name, String(v.mmsi), v.imo, v.callSign || '', v.destination || ''].some((field) =>
+              field.toLowerCase().includes(query)
+            )
+          )
+        : this.data.vessels;
+      this.vesselTable.setRows(vessels);
+      this.count.textContent = `${vessels.length} of ${this.data.vesselTotal} vessels`;
+    } else {
+      const severity = this.severitySelect.value;
+      const incidents = this.data.incidents.filter(
+        (i) =>
+          (!severity || i.severity === severity) &&
+          (!query ||
+            [i.description, i.type, i.location, i.source].some((field) => field.toLowerCase().includes(query)))
+      );
+      this.incidentTable.setRows(incidents);
+      this.count.textContent = `${incidents.length} of ${this.data.incidents.length} incidents`;
+    }
+  }
+
+  private vesselColumns(): TableColumn<Vessel>[] {
+    const riskOf = (v: Vessel) => this.risk[String(v.mmsi)];
+    return [
+      { key: 'name', label: 'Name', width: 'minmax(140px, 2fr)', text: (v) => v.name },
+      { key: 'mmsi', label: 'MMSI', width: '100px', text: (v) => String(v.mmsi) },
+      { key: 'type', label: 'Type', width: 'minmax(100px, 1fr)', text: (v) => label(v.type) },
+      { key: 'flag', label: 'Flag', width: '56px', text: (v) => v.flagState || '—' },
+      {
+        key: 'speed',
+        label: 'Speed',
+        width: '72px',
+        text: (v) => `${v.speed.toFixed(1)} kn`,
+        sortValue: (v) => v.speed,
+      },
+      {
+        key: 'risk',
+        label: 'Risk',
+        width: '90px',
+        text: (v) => (riskOf(v) ? `${riskOf(v).level} ${riskOf(v).score}` : '—'),
+        sortValue: (v) => (riskOf(v) ? RISK_ORDER[riskOf(v).level] * 1000 + riskOf(v).score : -1),
+        className: (v) => (riskOf(v) ? `list-view__risk--${riskOf(v).level}` : ''),
+      },
+      {
+        key: 'destination',
+        label: 'Destination',
+        width: 'minmax(100px, 1fr)',
+        text: (v) => v.destination || '—',
+      },
+      {
+        key: 'reported',
+        label: 'Reported',
+        width: '80px',
+        text: (v) => formatAge(v.timestamp, this.now),
+        sortValue: (v) => -new Date(v.timestamp).getTime(),
+      },
+      { key: 'source', label: 'Source', width: 'minmax(80px, 1fr)', text: (v) => v.source },
+    ];
+  }
+
+  private incidentColumns(): TableColumn<SecurityIncident>[] {
+    return [
+      {
+        key: 'date',
+        label: 'Date',
+        width: '100px',
+        text: (i) => new Date(i.date).toISOString().slice(0, 10),
+        sortValue: (i) => new Date(i.date).getTime(),
+      },
+      {
+        key: 'severity',
+        label: 'Severity',
+        width: '84px',
+        text: (i) => i.severity,
+        sortValue: (i) => SEVERITY_ORDER[i.severity],
+        className: (i) => `list-view__severity--${i.severity}`,
+      },
+      { key: 'region', label: 'Region', width: 'minmax(120px, 1fr)', text: (i) => label(i.type) },
+      { key: 'description', label: 'Description', width: 'minmax(200px, 3fr)', text: (i) => i.description },
+      { key: 'status', label: 'Status', width: '80px', text: (i) => i.status },
+      { key: 'source', label: 'Source', width: 'minmax(80px, 1fr)', text: (i) => i.source },
+    ];
+  }
+}
+
+export default ListView;
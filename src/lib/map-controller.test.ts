@@ -0,0 +1,233 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, onTestFinished, vi } from 'vitest';
+import L from 'leaflet';
+import MapController from './map-controller';
+import { incident, vessel } from '../test/helpers';
+import type { Geofence, RiskAssessment, SecurityIncident, Vessel } from '../types/maritime';
+
+function report(mmsi: number, latitude: number, longitude: number, name = `VESSEL ${mmsi}`): Vessel {
+  return vessel({
+    mmsi: String(mmsi),
+    name,
+    type: 'general_cargo',
+    flagState: '',
+    position: { latitude, longitude },
+    course: 90,
+    status: 0,
+    timestamp: new Date(),
+  });
+}
+
+function risk(mmsi: number, level: RiskAssessment['level']): RiskAssessment {
+  return { mmsi: String(mmsi), score: 80, level, reasons: [], evaluatedAt: new Date() };
+}
+
+function boarding(id: string, severity: SecurityIncident['severity'] = 'high'): SecurityIncident {
+  return incident({ id, description: `Incident ${id}`, severity, date: new Date('2026-03-01T00:00:00Z') });
+}
+
+describe('MapController marker reconciliation', () => {
+  let controller: MapController;
+  let container: HTMLElement;
+
+  const markers = () => {
+    const found: L.Marker[] = [];
+    controller.getMap()!.eachLayer((layer) => {
+      if (layer instanceof L.Marker && !(layer instanceof L.MarkerCluster)) found.push(layer);
+    });
+    return found;
+  };
+  const markerByTitle = (title: string) => markers().find((m) => m.options.title === title);
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    container = document.createElement('div');
+    // jsdom does no layout; give the map a viewport so markers inside it are shown
+    Object.defineProperty(container, 'clientWidth', { value: 800 });
+    Object.defineProperty(container, 'clientHeight', { value: 600 });
+    document.body.appendChild(container);
+    controller = new MapController();
+    controller.initialize({ container, centerLat: 1.3, centerLon: 103.8, zoom: 5 });
+  });
+
+  afterEach(() => {
+    controller.destroy();
+    container.remove();
+  });
+
+  it('ignores updates before the map is initialized', () => {
+    const idle = new MapController();
+    expect(() => idle.updateVessels([report(1, 1, 103)])).not.toThrow();
+    expect(() => idle.updateIncidents([boarding('a')])).not.toThrow();
+  });
+
+  it('adds a marker per vessel', () => {
+    controller.updateVessels([report(1, 1.2, 100), report(2, 1.3, 104)]);
+
+    expect(markers()).toHaveLength(2);
+    expect(container.querySelectorAll('.vessel-marker')).toHaveLength(2);
+    expect(markerByTitle('VESSEL 1')!.getLatLng()).toMatchObject({ lat: 1.2, lng: 100 });
+  });
+
+  it('moves existing markers instead of recreating them', () => {
+    controller.updateVessels([report(1, 1.2, 100)]);
+    const original = markerByTitle('VESSEL 1');
+
+    controller.updateVessels([report(1, 1.25, 100.25)]);
+
+    expect(markers()).toHaveLength(1);
+    expect(markerByTitle('VESSEL 1')).toBe(original);
+    expect(original!.getLatLng()).toMatchObject({ lat: 1.25, lng: 100.25 });
+  });
+
+  it('selects a clicked vessel instead of opening a popup', () => {
+    const selected = vi.fn();
+    window.addEventListener('vesselSelected', selected);
+    controller.updateVessels([report(1, 1.2, 100)]);
+
+    markerByTitle('VESSEL 1')!.fire('click');
+
+    expect(selected).toHaveBeenCalledOnce();
+    expect((selected.mock.calls[0][0] as CustomEvent).detail).toBe('1');
+    expect(container.querySelector('.leaflet-popup')).toBeNull();
+    window.removeEventListener('vesselSelected', selected);
+  });
+
+  it('clusters nearby vessels at low zoom, coloured by the highest risk', () => {
+    controller.updateVessels([
+      report(1, 1.2, 103.7),
+      report(2, 1.25, 103.8),
+      report(3, 1.3, 103.9),
+      report(4, 1.2, 96),
+    ]);
+
+    expect(markers().map((m) => m.options.title)).toEqual(['VESSEL 4']);
+    const cluster = container.querySelector('.vessel-cluster')!;
+    expect(cluster.textContent!.trim()).toBe('3');
+    expect(cluster.classList).toContain('vessel-cluster--low');
+
+    controller.setVesselRisk({ '2': risk(2, 'high'), '4': risk(4, 'medium') });
+    const refreshed = container.querySelector('.vessel-cluster')!;
+    expect(refreshed.classList).toContain('vessel-cluster--high');
+    expect(refreshed.querySelector('[title]')!.getAttribute('title')).toBe('3 vessels, 1 high risk');
+  });
+
+  it('draws vessels on a canvas when zoomed in and hit-tests clicks', () => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null); // jsdom cannot draw
+    const listener = vi.fn();
+    window.addEventListener('vesselSelected', listener);
+    controller.updateVessels([report(1, 1.3, 103.8), report(2, 1.35, 103.85)]);
+
+    const map = controller.getMap()!;
+    map.setView([1.3, 103.8], 10, { animate: false });
+    expect(markers()).toHaveLength(0);
+    expect(container.querySelector('.vessel-canvas')).not.toBeNull();
+
+    const latlng = L.latLng(1.35, 103.85);
+    map.fire('click', { latlng, containerPoint: map.latLngToContainerPoint(latlng).add([3, 2]) });
+    map.fire('click', { latlng, containerPoint: L.point(5, 5) });
+    window.removeEventListener('vesselSelected', listener);
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toBe('2');
+
+    map.setView([1.3, 103.8], 5, { animate: false });
+    expect(container.querySelector('.vessel-canvas')).toBeNull();
+  });
+
+  it('removes markers for vessels no longer reported', () => {
+    controller.updateVessels([report(1, 1.2, 100), report(2, 1.3, 104)]);
+    controller.updateVessels([report(2, 1.3, 104), report(3, 1.4, 108)]);
+
+    expect(markers().map((m) => m.options.title).sort()).toEqual(['VESSEL 2', 'VESSEL 3']);
+
+    controller.updateVessels([]);
+    expect(markers()).toHaveLength(0);
+  });
+
+  it('dispatches vesselSelected when a marker is clicked', () => {
+    const listener = vi.fn();
+    window.addEventListener('vesselSelected', listener);
+    controller.updateVessels([report(563000001, 1.2, 100)]);
+
+    markerByTitle('VESSEL 563000001')!.fire('click');
+    window.removeEventListener('vesselSelected', listener);
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toBe('563000001');
+  });
+
+  it('reconciles incident markers by id', () => {
+    controller.updateIncidents([boarding('a'), boarding('b')]);
+    expect(container.querySelectorAll('.incident-marker')).toHaveLength(2);
+    const kept = markerByTitle('Incident b');
+
+    controller.updateIncidents([
+      { ...boarding('b', 'critical'), description: 'Incident b' },
+      boarding('c'),
+    ]);
+
+    expect(markers().map((m) => m.options.title).sort()).toEqual(['Incident b', 'Incident c']);
+    expect(markerByTitle('Incident b')).toBe(kept);
+    expect(kept!.getPopup()!.getContent()).toContain('critical');
+  });
+
+  it('selects a clicked incident and opens it when focused', () => {
+    const listener = vi.fn();
+    window.addEventListener('incidentSelected', listener);
+    controller.updateIncidents([boarding('a')]);
+
+    markerByTitle('Incident a')!.fire('click');
+    window.removeEventListener('incidentSelected', listener);
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toBe('a');
+
+    controller.getMap()!.closePopup();
+    controller.focusIncident('a');
+    expect(markerByTitle('Incident a')!.isPopupOpen()).toBe(true);
+  });
+
+  it('keeps vessel and incident markers independent', () => {
+    controller.updateVessels([report(1, 1.2, 100)]);
+    controller.updateIncidents([boarding('a')]);
+    controller.updateIncidents([]);
+
+    expect(markers().map((m) => m.options.title)).toEqual(['VESSEL 1']);
+  });
+
+  it('redraws a geofence whose geometry changed under the same id', () => {
+    // jsdom has no SVG geometry API, so Leaflet finds no renderer for vector shapes
+    const browser = L.Browser as { svg: boolean };
+    const svg = browser.svg;
+    browser.svg = true;
+    onTestFinished(() => {
+      browser.svg = svg;
+    });
+    const fence = (coordinates: [number, number][]): Geofence => ({
+      id: 'zone',
+      name: 'Anchorage',
+      shape: 'polygon',
+      coordinates,
+      dwellThreshold: 60,
+      createdAt: new Date(),
+    });
+    const polygons = () => {
+      const found: L.Polygon[] = [];
+      controller.getMap()!.eachLayer((layer) => {
+        if (layer instanceof L.Polygon) found.push(layer);
+      });
+      return found;
+    };
+    const first = fence([[1, 103], [1, 104], [2, 104]]);
+
+    controller.updateGeofences([first]);
+    controller.updateGeofences([first]);
+    const drawn = polygons();
+    expect(drawn).toHaveLength(1);
+
+    controller.updateGeofences([fence([[1, 103], [1, 105], [3, 105]])]);
+    const redrawn = polygons();
+    expect(redrawn).toHaveLength(1);
+    expect(redrawn[0]).not.toBe(drawn[0]);
+    expect((redrawn[0].getLatLngs()[0] as L.LatLng[]).map((p) => p.lng)).toEqual([103, 105, 105]);
+  });
+});
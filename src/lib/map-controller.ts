@@ -1,11 +1,72 @@
 /**
  * Map Controller
  * Manages Leaflet map instance, layers, and real-time marker updates
- * Integrates vessel tracking, weather, and security data visualization
+ * Integrates vessel tracking, weather, and security data visualization.
+ * Vessels are clustered at low zoom and drawn on a canvas when zoomed in,
+ * so global views stay responsive with tens of thousands of vessels.
  */
 
 import L from 'leaflet';
-import type { Vessel, WeatherData, SecurityIncident, MapBounds } from '../types/maritime';
+import 'leaflet-draw';
+import 'leaflet-draw/dist/leaflet.draw.css';
+import 'leaflet.markercluster';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import { projectPosition } from './dead-reckoning';
+import ReplayControl from './replay-control';
+import GeofenceControl from './geofence-control';
+import LayerStatusControl from './layer-status-control';
+import VesselCanvasLayer, { type VesselGlyph } from './vessel-canvas-layer';
+import { LAYER_COLORS } from '../config/maritime-layers';
+import type { ReplayEvent, ReplayStatus } from '../services/replay-service';
+import type { LayerStatus } from '../services/layer-runtime';
+import type {
+  Vessel,
+  WeatherData,
+  SecurityIncident,
+  MapBounds,
+  TrackPoint,
+  Geofence,
+  MaritimeLayer,
+  MaritimeEvent,
+  RiskAssessment,
+  RiskLevel,
+  VesselType,
+} from '../types/maritime';
+
+const METERS_PER_NM = 1852;
+
+// Zoom from which vessels are drawn individually on the canvas; below it they are clustered
+const CANVAS_MIN_ZOOM = 8;
+const CLUSTER_REBUILD_THRESHOLD = 200; // moved or removed vessels
+
+const VESSEL_COLORS: Partial<Record<VesselType, string>> = {
+  general_cargo: '#1e40af',
+  tanker: '#dc2626',
+  fishing: '#7c3aed',
+  military: '#000000',
+};
+
+const RISK_LEVELS: RiskLevel[] = ['high', 'medium', 'low'];
+
+// Canvas glyph outline per risk level (low keeps the default outline)
+const RISK_OUTLINES: Record<RiskLevel, string | null> = {
+  high: '#dc2626',
+  medium: '#f59e0b',
+  low: null,
+};
+
+interface VesselMarkerOptions extends L.MarkerOptions {
+  mmsi: string;
+}
+
+function vesselColor(vessel: Vessel): string {
+  if (vessel.speed === 0) return '#fbbf24'; // Stopped
+  return VESSEL_COLORS[vessel.type] || '#3388ff';
+}
+
+function vesselHeading(vessel: Vessel): number {
+  return vessel.heading >= 0 && vessel.heading < 360 ? vessel.heading : vessel.course || 0;
+}
 
 interface MapOptions {
   container: HTMLElement | string;
@@ -17,12 +78,36 @@ interface MapOptions {
 class MapController {
   private map: L.Map | null = null;
   private vesselMarkers: Map<string, L.Marker> = new Map();
+  private vesselFixes: Map<string, Vessel> = new Map();
+  private vesselRisk: Map<string, RiskLevel> = new Map();
+  private vesselIcons: Map<string, L.DivIcon> = new Map(); // shared by colour and course
+  private vesselClusters: L.MarkerClusterGroup | null = null;
+  private vesselCanvas: VesselCanvasLayer | null = null;
+  private deadReckoning = {
+    enabled: true,
+    staleAfter: 15 * 60 * 1000, // ms before a projection is flagged stale
+    frameInterval: 250, // ms between marker updates
+  };
+  private animationFrame: number | null = null;
+  private lastFrameTime = 0;
   private weatherMarkers: Map<string, L.CircleMarker> = new Map();
   private incidentMarkers: Map<string, L.Marker> = new Map();
+  private trailLines: Map<string, L.Polyline> = new Map();
+  private trailRenderer: L.Canvas | null = null; // one canvas for all trails instead of an SVG path each
+  private selectedTrack: L.Polyline | null = null;
+  private geofenceShapes: Map<string, { fence: Geofence; shape: L.Layer }> = new Map();
+  private drawControl: L.Control.Draw | null = null;
+  private replayControl: ReplayControl | null = null;
+  private layerStatusControl: LayerStatusControl | null = null;
+  private eventLayers: Map<string, L.LayerGroup> = new Map(); // keyed by maritime layer id
+  private eventMarkers: Map<string, Map<string, L.CircleMarker>> = new Map();
+  private clock: () => number = () => Date.now();
   private layerGroups: {
     vessels: L.LayerGroup;
     weather: L.LayerGroup;
     security: L.LayerGroup;
+    trails: L.LayerGroup;
+    geofences: L.FeatureGroup;
   } | null = null;
 
   constructor() {
@@ -68,11 +153,29 @@ class MapController {
       vessels: L.layerGroup().addTo(this.map),
       weather: L.layerGroup().addTo(this.map),
       security: L.layerGroup().addTo(this.map),
+      trails: L.layerGroup().addTo(this.map),
+      geofences: L.featureGroup().addTo(this.map),
     };
 
+    // Vessels: clusters below CANVAS_MIN_ZOOM, canvas glyphs above
+    this.vesselClusters = L.markerClusterGroup({
+      chunkedLoading: true,
+      showCoverageOnHover: false,
+      maxClusterRadius: 60,
+      iconCreateFunction: (cluster) => this.getClusterIcon(cluster),
+    });
+    this.vesselCanvas = new VesselCanvasLayer((bounds) => this.getVesselGlyphs(bounds));
+    this.updateVesselRendering();
+    this.map.on('zoomend', () => this.updateVesselRendering());
+    this.map.on('click', (e: L.LeafletMouseEvent) => this.onCanvasClick(e));
+    this.map.on('mousemove', (e: L.LeafletMouseEvent) => this.onCanvasHover(e));
+
     // Listen to map bounds change
     this.map.on('moveend', () => this.onMapMoveEnd());
 
+    // Start dead-reckoning animation
+    this.startAnimation();
+
     console.log('[MapController] Map initialized');
     return this.map;
   }
@@ -81,38 +184,356 @@ class MapController {
    * Update vessel markers on map
    */
   updateVessels(vessels: Vessel[]): void {
-    if (!this.layerGroups) return;
+    if (!this.vesselClusters) return;
 
     const visibleIds = new Set<string>();
+    const added: L.Marker[] = [];
+    const moved: Array<[L.Marker, L.LatLngTuple]> = [];
 
     vessels.forEach((vessel) => {
-      visibleIds.add(vessel.id);
+      const id = String(vessel.mmsi);
+      const { latitude, longitude } = vessel.position;
+      visibleIds.add(id);
+      this.vesselFixes.set(id, vessel);
 
-      const existing = this.vesselMarkers.get(vessel.id);
+      const existing = this.vesselMarkers.get(id);
+      const icon = this.getVesselIcon(vessel);
 
       if (existing) {
-        // Update existing marker position
-        existing.setLatLng([vessel.latitude, vessel.longitude]);
-        // Update popup
-        existing.setPopupContent(this.createVesselPopup(vessel));
+        const { lat, lng } = existing.getLatLng();
+        if (lat !== latitude || lng !== longitude) moved.push([existing, [latitude, longitude]]);
+        if (existing.options.icon !== icon) existing.setIcon(icon);
       } else {
-        // Create new marker
-        const marker = L.marker([vessel.latitude, vessel.longitude], {
-          icon: this.getVesselIcon(vessel),
-          title: vessel.name,
-        })
-          .bindPopup(this.createVesselPopup(vessel))
-          .addTo(this.layerGroups.vessels);
-
-        this.vesselMarkers.set(vessel.id, marker);
+        const options: VesselMarkerOptions = { icon, title: vessel.name, mmsi: id };
+        const marker = L.marker([latitude, longitude], options).on('click', () => this.onVesselClick(id));
+        this.vesselMarkers.set(id, marker);
+        added.push(marker);
       }
     });
 
     // Remove markers for vessels no longer in view
+    const removed: L.Marker[] = [];
     this.vesselMarkers.forEach((marker, id) => {
       if (!visibleIds.has(id)) {
-        this.layerGroups!.vessels.removeLayer(marker);
+        removed.push(marker);
         this.vesselMarkers.delete(id);
+        this.vesselFixes.delete(id);
+      }
+    });
+
+    // Moving or removing a clustered marker re-clusters around it; beyond a
+    // couple of hundred changes rebuilding the clusters (in chunks) is cheaper
+    if (moved.length + removed.length > CLUSTER_REBUILD_THRESHOLD) {
+      this.vesselClusters.clearLayers();
+      moved.forEach(([marker, latLng]) => marker.setLatLng(latLng));
+      this.vesselClusters.addLayers(Array.from(this.vesselMarkers.values()));
+    } else {
+      this.vesselClusters.removeLayers([...removed, ...moved.map(([marker]) => marker)]);
+      moved.forEach(([marker, latLng]) => marker.setLatLng(latLng));
+      this.vesselClusters.addLayers([...added, ...moved.map(([marker]) => marker)]);
+    }
+
+    this.vesselCanvas?.redraw();
+  }
+
+  /**
+   * Risk levels used for cluster colours and canvas glyph outlines
+   */
+  setVesselRisk(assessments: Record<string, RiskAssessment>): void {
+    this.vesselRisk = new Map(
+      Object.values(assessments).map((assessment) => [assessment.mmsi, assessment.level])
+    );
+    this.vesselClusters?.refreshClusters();
+    this.vesselCanvas?.redraw();
+  }
+
+  /**
+   * Cluster vessels at low zoom, draw them individually on the canvas when zoomed in
+   */
+  private updateVesselRendering(): void {
+    if (!this.map || !this.layerGroups || !this.vesselClusters || !this.vesselCanvas) return;
+
+    const canvasMode = this.map.getZoom() >= CANVAS_MIN_ZOOM;
+    this.layerGroups.vessels.removeLayer(canvasMode ? this.vesselClusters : this.vesselCanvas);
+    this.layerGroups.vessels.addLayer(canvasMode ? this.vesselCanvas : this.vesselClusters);
+  }
+
+  /**
+   * Glyphs for the vessels inside `bounds`, at their dead-reckoned position
+   */
+  private getVesselGlyphs(bounds: L.LatLngBounds): VesselGlyph[] {
+    const now = this.clock();
+    const glyphs: VesselGlyph[] = [];
+
+    this.vesselFixes.forEach((vessel, id) => {
+      if (!bounds.contains([vessel.position.latitude, vessel.position.longitude])) return;
+
+      const projected = projectPosition(vessel, now, this.deadReckoning.staleAfter);
+      const position = this.deadReckoning.enabled ? projected : vessel.position;
+      glyphs.push({
+        id,
+        latitude: position.latitude,
+        longitude: position.longitude,
+        heading: vessel.speed > 0 ? vesselHeading(vessel) : null,
+        color: vesselColor(vessel),
+        outline: RISK_OUTLINES[this.vesselRisk.get(id) || 'low'],
+        faded: projected.stale,
+      });
+    });
+    return glyphs;
+  }
+
+  /**
+   * Configure dead-reckoning projection between AIS updates
+   * @param staleAfterMinutes Age after which a projection is flagged as stale
+   */
+  setDeadReckoning(enabled: boolean, staleAfterMinutes: number): void {
+    this.deadReckoning.enabled = enabled;
+    this.deadReckoning.staleAfter = staleAfterMinutes * 60 * 1000;
+    // Force the next frame to redraw
+    this.lastFrameTime = 0;
+  }
+
+  /**
+   * Set the time source used for projections (e.g. the replay clock)
+   */
+  setClock(clock: () => number): void {
+    this.clock = clock;
+    this.lastFrameTime = 0;
+  }
+
+  /**
+   * Start the marker animation loop
+   */
+  private startAnimation(): void {
+    if (this.animationFrame !== null || typeof requestAnimationFrame === 'undefined') return;
+
+    const tick = (time: number) => {
+      this.animationFrame = requestAnimationFrame(tick);
+      if (time - this.lastFrameTime < this.deadReckoning.frameInterval) return;
+      this.lastFrameTime = time;
+      this.projectVessels();
+    };
+    this.animationFrame = requestAnimationFrame(tick);
+  }
+
+  /**
+   * Stop the marker animation loop
+   */
+  private stopAnimation(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  /**
+   * Redraw canvas vessels at their projected positions. Clusters keep the
+   * reported fixes: at that zoom a projection would not move them visibly.
+   */
+  private projectVessels(): void {
+    if (this.vesselCanvas && this.map?.hasLayer(this.vesselCanvas)) {
+      this.vesselCanvas.redraw();
+    }
+  }
+
+  /**
+   * Update vessel trail polylines from per-MMSI track history.
+   * Redraws every trail, so call it only when the history changes.
+   */
+  updateTrails(history: Record<string, TrackPoint[]>): void {
+    if (!this.layerGroups) return;
+
+    Object.entries(history).forEach(([mmsi, track]) => {
+      const latLngs = track.map((p) => [p.latitude, p.longitude] as L.LatLngTuple);
+      const existing = this.trailLines.get(mmsi);
+
+      if (latLngs.length < 2) {
+        if (existing) {
+          this.layerGroups!.trails.removeLayer(existing);
+          this.trailLines.delete(mmsi);
+        }
+        return;
+      }
+
+      if (existing) {
+        existing.setLatLngs(latLngs);
+      } else {
+        this.trailRenderer ??= L.canvas({ padding: 0.5 });
+        const line = L.polyline(latLngs, {
+          color: '#3388ff',
+          weight: 2,
+          opacity: 0.5,
+          interactive: false,
+          renderer: this.trailRenderer,
+        }).addTo(this.layerGroups!.trails);
+
+        this.trailLines.set(mmsi, line);
+      }
+    });
+
+    // Remove trails for vessels without history
+    this.trailLines.forEach((line, mmsi) => {
+      if (!history[mmsi]) {
+        this.layerGroups!.trails.removeLayer(line);
+        this.trailLines.delete(mmsi);
+      }
+    });
+  }
+
+  /**
+   * Highlight the track of the selected vessel (pass null to clear)
+   */
+  showVesselTrack(track: TrackPoint[] | null): void {
+    if (!this.map) return;
+
+    if (this.selectedTrack) {
+      this.map.removeLayer(this.selectedTrack);
+      this.selectedTrack = null;
+    }
+
+    if (!track || track.length < 2) return;
+
+    this.selectedTrack = L.polyline(
+      track.map((p) => [p.latitude, p.longitude] as L.LatLngTuple),
+      {
+        color: '#fbbf24',
+        weight: 3,
+        opacity: 0.9,
+        dashArray: '6 4',
+      }
+    )
+      .bindTooltip(
+        `${track.length} fixes since ${track[0].timestamp.toLocaleTimeString()}`,
+        { sticky: true }
+      )
+      .addTo(this.map);
+  }
+
+  /**
+   * Add leaflet-draw tools for polygons, circles and corridors (polylines), with
+   * GeoJSON export and import below them. Finished shapes are dispatched as a
+   * `geofenceDrawn` event for the app to name and save.
+   */
+  enableGeofenceDrawing(): void {
+    if (!this.map || !this.layerGroups || this.drawControl) return;
+
+    this.drawControl = new L.Control.Draw({
+      position: 'topleft',
+      draw: {
+        polygon: { allowIntersection: false, shapeOptions: { color: '#a855f7' } },
+        circle: { shapeOptions: { color: '#a855f7' } },
+        polyline: { shapeOptions: { color: '#a855f7' } },
+        rectangle: false,
+        marker: false,
+        circlemarker: false,
+      },
+    });
+    this.map.addControl(this.drawControl);
+    this.map.addControl(new GeofenceControl());
+
+    this.map.on(L.Draw.Event.CREATED, (event: L.LeafletEvent) => {
+      const { layer, layerType } = event as L.DrawEvents.Created;
+      const detail = this.drawnLayerToGeofence(layer, layerType);
+      if (detail) {
+        window.dispatchEvent(new CustomEvent('geofenceDrawn', { detail }));
+      }
+    });
+  }
+
+  /**
+   * Add the replay timeline control
+   */
+  enableReplayControl(): void {
+    if (!this.map || this.replayControl) return;
+    this.replayControl = new ReplayControl();
+    this.map.addControl(this.replayControl);
+  }
+
+  /**
+   * Show whether the session recorder is on in the replay control
+   */
+  updateRecording(enabled: boolean): void {
+    this.replayControl?.setRecording(enabled);
+  }
+
+  /**
+   * Reflect replay status (and optionally a new event list) in the replay control
+   */
+  updateReplay(status: ReplayStatus, events?: ReplayEvent[]): void {
+    if (!this.replayControl) return;
+    if (events) this.replayControl.setEvents(events);
+    this.replayControl.update(status);
+  }
+
+  /**
+   * Convert a drawn leaflet layer into geofence geometry (radius in nautical miles)
+   */
+  private drawnLayerToGeofence(
+    layer: L.Layer,
+    layerType: string
+  ): Pick<Geofence, 'shape' | 'coordinates' | 'radius'> | null {
+    if (layerType === 'circle') {
+      const circle = layer as L.Circle;
+      const center = circle.getLatLng();
+      return {
+        shape: 'circle',
+        coordinates: [[center.lat, center.lng]],
+        radius: circle.getRadius() / METERS_PER_NM,
+      };
+    }
+    if (layerType === 'polygon') {
+      const ring = (layer as L.Polygon).getLatLngs()[0] as L.LatLng[];
+      return { shape: 'polygon', coordinates: ring.map((p) => [p.lat, p.lng]) };
+    }
+    if (layerType === 'polyline') {
+      const line = (layer as L.Polyline).getLatLngs() as L.LatLng[];
+      return { shape: 'corridor', coordinates: line.map((p) => [p.lat, p.lng]) };
+    }
+    return null;
+  }
+
+  /**
+   * Render saved geofences
+   */
+  updateGeofences(geofences: Geofence[]): void {
+    if (!this.layerGroups) return;
+
+    const ids = new Set(geofences.map((f) => f.id));
+
+    geofences.forEach((fence) => {
+      // The service hands out the same object until a fence is replaced, e.g. re-imported
+      const drawn = this.geofenceShapes.get(fence.id);
+      if (drawn?.fence === fence) return;
+      if (drawn) this.layerGroups!.geofences.removeLayer(drawn.shape);
+
+      const style = { color: '#a855f7', weight: 2, fillOpacity: 0.1 };
+      let shape: L.Layer;
+
+      if (fence.shape === 'circle') {
+        shape = L.circle(fence.coordinates[0], {
+          ...style,
+          radius: (fence.radius || 0) * METERS_PER_NM,
+        });
+      } else if (fence.shape === 'corridor') {
+        // Corridors are drawn along their centerline; the width is shown in the tooltip
+        shape = L.polyline(fence.coordinates, { ...style, opacity: 0.6, dashArray: '8 4' });
+      } else {
+        shape = L.polygon(fence.coordinates, style);
+      }
+
+      (shape as L.Path)
+        .bindTooltip(
+          `${fence.name}${fence.shape === 'corridor' ? ` (±${fence.radius?.toFixed(1)} nm)` : ''}`
+        )
+        .addTo(this.layerGroups!.geofences);
+      this.geofenceShapes.set(fence.id, { fence, shape });
+    });
+
+    this.geofenceShapes.forEach(({ shape }, id) => {
+      if (!ids.has(id)) {
+        this.layerGroups!.geofences.removeLayer(shape);
+        this.geofenceShapes.delete(id);
       }
     });
   }
@@ -146,7 +567,7 @@ class MapController {
           fillOpacity: 0.5,
         })
           .bindPopup(this.createWeatherPopup(data))
-          .addTo(this.layerGroups.weather);
+          .addTo(this.layerGroups!.weather);
 
         this.weatherMarkers.set(data.id, circle);
       }
@@ -182,7 +603,8 @@ class MapController {
           title: incident.description,
         })
           .bindPopup(this.createIncidentPopup(incident))
-          .addTo(this.layerGroups.security);
+          .on('click', () => window.dispatchEvent(new CustomEvent('incidentSelected', { detail: incident.id })))
+          .addTo(this.layerGroups!.security);
 
         this.incidentMarkers.set(incident.id, marker);
       }
@@ -198,18 +620,100 @@ class MapController {
   }
 
   /**
-   * Get vessel icon based on type and status
+   * Render the data points of a configured maritime layer into its own
+   * layer group, coloured by LAYER_COLORS
    */
-  private getVesselIcon(vessel: Vessel): L.Icon {
-    let color = '#3388ff'; // Default blue
+  updateLayerEvents(layer: MaritimeLayer): void {
+    if (!this.map) return;
 
-    if (vessel.type === 'cargo') color = '#1e40af';
-    if (vessel.type === 'tanker') color = '#dc2626';
-    if (vessel.type === 'fishing') color = '#7c3aed';
-    if (vessel.type === 'military') color = '#000000';
-    if (vessel.speed === 0) color = '#fbbf24'; // Stopped
+    const group = this.eventLayer(layer.id);
+    const markers = this.eventMarkers.get(layer.id) || new Map<string, L.CircleMarker>();
+    this.eventMarkers.set(layer.id, markers);
 
-    return L.divIcon({
+    const color = LAYER_COLORS[layer.type];
+    const visibleIds = new Set<string>();
+
+    layer.dataPoints.forEach((event) => {
+      visibleIds.add(event.id);
+      const { latitude, longitude } = event.location;
+      const existing = markers.get(event.id);
+
+      if (existing) {
+        existing.setLatLng([latitude, longitude]);
+        existing.setPopupContent(this.createEventPopup(event));
+      } else {
+        const marker = L.circleMarker([latitude, longitude], {
+          radius: 7,
+          color,
+          fillColor: color,
+          weight: 2,
+          fillOpacity: 0.6,
+        })
+          .bindPopup(this.createEventPopup(event))
+          .addTo(group);
+        markers.set(event.id, marker);
+      }
+    });
+
+    markers.forEach((marker, id) => {
+      if (!visibleIds.has(id)) {
+        group.removeLayer(marker);
+        markers.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Show or hide a configured maritime layer's group
+   */
+  toggleEventLayer(layerId: string, visible: boolean): void {
+    if (!this.map) return;
+
+    const group = this.eventLayer(layerId);
+    if (visible) {
+      this.map.addLayer(group);
+    } else {
+      this.map.removeLayer(group);
+    }
+  }
+
+  /**
+   * Group for a maritime layer, created (and shown) on first use
+   */
+  private eventLayer(layerId: string): L.LayerGroup {
+    let group = this.eventLayers.get(layerId);
+    if (!group) {
+      group = L.layerGroup().addTo(this.map!);
+      this.eventLayers.set(layerId, group);
+    }
+    return group;
+  }
+
+  /**
+   * Add the layer list with per-layer update status
+   */
+  enableLayerStatus(): void {
+    if (!this.map || this.layerStatusControl) return;
+    this.layerStatusControl = new LayerStatusControl();
+    this.map.addControl(this.layerStatusControl);
+  }
+
+  updateLayerStatus(statuses: LayerStatus[]): void {
+    this.layerStatusControl?.update(statuses);
+  }
+
+  /**
+   * Get vessel icon based on type and status. Icons are shared between
+   * vessels of the same colour and course (rounded to 15°).
+   */
+  private getVesselIcon(vessel: Vessel): L.DivIcon {
+    const color = vesselColor(vessel);
+    const course = (Math.round((vessel.course || 0) / 15) * 15) % 360;
+    const key = `${color}:${course}`;
+    const cached = this.vesselIcons.get(key);
+    if (cached) return cached;
+
+    const icon = L.divIcon({
       className: 'vessel-marker',
       html: `
         <div style="
@@ -219,7 +723,7 @@ class MapController {
           border-radius: 50%;
           border: 2px solid white;
           box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-          transform: rotate(${vessel.course || 0}deg);
+          transform: rotate(${course}deg);
           display: flex;
           align-items: center;
           justify-content: center;
@@ -231,12 +735,56 @@ class MapController {
       iconSize: [24, 24],
       iconAnchor: [12, 12],
     });
+    this.vesselIcons.set(key, icon);
+    return icon;
+  }
+
+  /**
+   * Cluster icon: count on a disc coloured by the highest risk inside,
+   * ringed by the share of each vessel colour (type)
+   */
+  private getClusterIcon(cluster: L.MarkerCluster): L.DivIcon {
+    const colors = new Map<string, number>();
+    const risks: Record<RiskLevel, number> = { high: 0, medium: 0, low: 0 };
+
+    cluster.getAllChildMarkers().forEach((marker) => {
+      const id = (marker.options as VesselMarkerOptions).mmsi;
+      const vessel = this.vesselFixes.get(id);
+      if (vessel) {
+        const color = vesselColor(vessel);
+        colors.set(color, (colors.get(color) || 0) + 1);
+      }
+      risks[this.vesselRisk.get(id) || 'low']++;
+    });
+
+    const count = cluster.getChildCount();
+    const level = RISK_LEVELS.find((l) => risks[l] > 0) || 'low';
+    const total = Array.from(colors.values()).reduce((sum, n) => sum + n, 0);
+    let start = 0;
+    const stops = Array.from(colors.entries()).map(([color, n]) => {
+      const end = start + (n / total) * 100;
+      const stop = `${color} ${start.toFixed(1)}% ${end.toFixed(1)}%`;
+      start = end;
+      return stop;
+    });
+    const title = `${count} vessels${risks.high ? `, ${risks.high} high risk` : ''}`;
+    const size = count < 100 ? 34 : count < 1000 ? 42 : 50;
+
+    return L.divIcon({
+      className: `vessel-cluster vessel-cluster--${level}`,
+      html: `
+        <div class="vessel-cluster__ring" title="${title}" style="background: conic-gradient(${stops.join(', ')})">
+          <span class="vessel-cluster__count">${count >= 1000 ? `${(count / 1000).toFixed(1)}k` : count}</span>
+        </div>
+      `,
+      iconSize: [size, size],
+    });
   }
 
   /**
    * Get incident icon based on severity
    */
-  private getIncidentIcon(incident: SecurityIncident): L.Icon {
+  private getIncidentIcon(incident: SecurityIncident): L.DivIcon {
     const colors: Record<string, string> = {
       critical: '#dc2626',
       high: '#ea580c',
@@ -273,23 +821,6 @@ class MapController {
     return '#22c55e'; // Green
   }
 
-  /**
-   * Create vessel popup content
-   */
-  private createVesselPopup(vessel: Vessel): string {
-    return `
-      <div class="popup-content">
-        <h3>${vessel.name}</h3>
-        <p><strong>MMSI:</strong> ${vessel.mmsi}</p>
-        <p><strong>Type:</strong> ${vessel.type}</p>
-        <p><strong>Speed:</strong> ${vessel.speed} knots</p>
-        <p><strong>Course:</strong> ${vessel.course}°</p>
-        <p><strong>Position:</strong> ${vessel.latitude.toFixed(4)}, ${vessel.longitude.toFixed(4)}</p>
-        <p><strong>Updated:</strong> ${new Date(vessel.timestamp).toLocaleTimeString()}</p>
-      </div>
-    `;
-  }
-
   /**
    * Create weather popup content
    */
@@ -324,6 +855,44 @@ class MapController {
     `;
   }
 
+  /**
+   * Create popup content for a maritime layer data point
+   */
+  private createEventPopup(event: MaritimeEvent): string {
+    return `
+      <div class="popup-content">
+        <h3>${event.title}</h3>
+        <p>${event.description}</p>
+        <p><strong>Severity:</strong> ${event.severity}</p>
+        <p><strong>Source:</strong> ${event.source}</p>
+        <p><strong>Updated:</strong> ${new Date(event.timestamp).toLocaleString()}</p>
+      </div>
+    `;
+  }
+
+  /**
+   * Handle vessel click: select it (the app shows it in the vessel panel)
+   */
+  private onVesselClick(mmsi: string): void {
+    if (!this.vesselFixes.has(mmsi)) return;
+    window.dispatchEvent(new CustomEvent('vesselSelected', { detail: mmsi }));
+  }
+
+  /**
+   * Canvas glyphs are not DOM elements: hit-test map clicks against them
+   */
+  private onCanvasClick(e: L.LeafletMouseEvent): void {
+    if (!this.vesselCanvas || !this.map?.hasLayer(this.vesselCanvas)) return;
+    const mmsi = this.vesselCanvas.vesselAt(e.containerPoint);
+    if (mmsi) this.onVesselClick(mmsi);
+  }
+
+  private onCanvasHover(e: L.LeafletMouseEvent): void {
+    if (!this.vesselCanvas || !this.map?.hasLayer(this.vesselCanvas)) return;
+    const hit = this.vesselCanvas.vesselAt(e.containerPoint) !== null;
+    this.map.getContainer().classList.toggle('vessel-canvas--hover', hit);
+  }
+
   /**
    * Handle map movement
    */
@@ -352,6 +921,32 @@ class MapController {
     this.map.setView([lat, lon], zoom);
   }
 
+  /**
+   * Pan to a vessel, keeping the zoom
+   */
+  focusVessel(mmsi: string): void {
+    const vessel = this.vesselFixes.get(mmsi);
+    if (!this.map || !vessel) return;
+    this.map.panTo([vessel.position.latitude, vessel.position.longitude]);
+  }
+
+  /**
+   * Pan to an incident and open its popup when its layer is shown
+   */
+  focusIncident(id: string): void {
+    const marker = this.incidentMarkers.get(id);
+    if (!this.map || !marker) return;
+    this.map.panTo(marker.getLatLng());
+    if (this.map.hasLayer(marker)) marker.openPopup();
+  }
+
+  /**
+   * Re-measure the container, e.g. after the map was hidden behind another view
+   */
+  refreshSize(): void {
+    this.map?.invalidateSize();
+  }
+
   /**
    * Fit bounds
    */
@@ -368,7 +963,10 @@ class MapController {
   /**
    * Toggle layer visibility
    */
-  toggleLayer(layer: 'vessels' | 'weather' | 'security', visible: boolean): void {
+  toggleLayer(
+    layer: 'vessels' | 'weather' | 'security' | 'trails',
+    visible: boolean
+  ): void {
     if (!this.map || !this.layerGroups) return;
 
     if (visible) {
@@ -389,13 +987,27 @@ class MapController {
    * Cleanup
    */
   destroy(): void {
+    this.stopAnimation();
     if (this.map) {
       this.map.remove();
       this.map = null;
     }
     this.vesselMarkers.clear();
+    this.vesselFixes.clear();
+    this.vesselRisk.clear();
+    this.vesselClusters = null;
+    this.vesselCanvas = null;
     this.weatherMarkers.clear();
     this.incidentMarkers.clear();
+    this.trailLines.clear();
+    this.trailRenderer = null;
+    this.selectedTrack = null;
+    this.geofenceShapes.clear();
+    this.eventLayers.clear();
+    this.eventMarkers.clear();
+    this.drawControl = null;
+    this.replayControl = null;
+    this.layerStatusControl = null;
     console.log('[MapController] Destroyed');
   }
 }
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import NmeaDecoder, { computeChecksum, decodeAisPayload, parseNmeaSentence } from './nmea-decoder';
+
+// Reference sentences with published decodings
+const POSITION = '!AIVDM,1,1,,A,15RTgt0PAso;90TKcjM8h6g208CQ,0*4A';
+const STATIC = [
+  '!AIVDM,2,1,1,A,55?MbV02;H;s<HtKR20EHE:0@T4@Dn2222222216L961O5Gf0NSQEp6ClRp8,0*1C',
+  '!AIVDM,2,2,1,A,88888888880,2*25',
+];
+
+const RECEIVED = new Date('2026-03-01T10:00:00Z');
+const DEG = 600000; // coordinates are in 1/10000 minute
+
+function sentence(payload: string, fillBits = 0): string {
+  const body = `AIVDM,1,1,,B,${payload},${fillBits}`;
+  return `!${body}*${computeChecksum(body)}`;
+}
+
+// Type 1 payload from raw field values, armoured 6 bits per character
+function positionPayload(fields: { lon: number; lat: number; speed: number; course: number; heading: number }) {
+  const bits = (value: number, width: number) =>
+    (value < 0 ? 2 ** width + value : value).toString(2).padStart(width, '0');
+  const message =
+    bits(1, 6) + bits(0, 2) + bits(563000001, 30) + bits(0, 4) + bits(0, 8) + bits(fields.speed, 10) + bits(0, 1) +
+    bits(fields.lon, 28) + bits(fields.lat, 27) + bits(fields.course, 12) + bits(fields.heading, 9) + bits(0, 31);
+
+  let payload = '';
+  for (let i = 0; i < message.length; i += 6) {
+    const value = parseInt(message.slice(i, i + 6), 2);
+    payload += String.fromCharCode(value < 40 ? value + 48 : value + 56);
+  }
+  return payload;
+}
+
+describe('parseNmeaSentence', () => {
+  it('splits a sentence and reads the tag block time', () => {
+    expect(parseNmeaSentence(`\\c:1772359200*00\\${POSITION}`)).toEqual({
+      talker: 'AIVDM',
+      fragmentCount: 1,
+      fragmentNumber: 1,
+      messageId: '',
+      channel: 'A',
+      payload: '15RTgt0PAso;90TKcjM8h6g208CQ',
+      fillBits: 0,
+      timestamp: RECEIVED,
+    });
+  });
+
+  it('rejects checksum mismatches and malformed lines', () => {
+    expect(parseNmeaSentence(POSITION.replace('*4A', '*4B'))).toBeNull();
+    expect(parseNmeaSentence(POSITION.replace('15RTgt', '15RTgu'))).toBeNull();
+    expect(parseNmeaSentence('$GPGGA,123519,4807.038,N*47')).toBeNull();
+  });
+});
+
+describe('decodeAisPayload', () => {
+  it('decodes a type 1 position report', () => {
+    const report = decodeAisPayload('15RTgt0PAso;90TKcjM8h6g208CQ');
+
+    expect(report).toMatchObject({ messageType: 1, mmsi: '371798000', navStatus: 0, speed: 12.3, course: 224 });
+    expect(report).toMatchObject({ heading: 215 });
+    expect((report as { latitude: number }).latitude).toBeCloseTo(48.38163, 5);
+    expect((report as { longitude: number }).longitude).toBeCloseTo(-123.39538, 5);
+  });
+
+  it('reads signed coordinates and armour characters past the gap', () => {
+    const payload = positionPayload({ lon: 18.4 * DEG, lat: -33.9 * DEG, speed: 5, course: 3599, heading: 359 });
+    expect(payload).toMatch(/[`-w]/);
+
+    expect(decodeAisPayload(payload)).toMatchObject({
+      latitude: -33.9,
+      longitude: 18.4,
+      speed: 0.5,
+      course: 359.9,
+      heading: 359,
+    });
+  });
+
+  it('maps the not-available values to null', () => {
+    const payload = positionPayload({ lon: 181 * DEG, lat: 91 * DEG, speed: 1023, course: 3600, heading: 511 });
+
+    expect(decodeAisPayload(payload)).toMatchObject({
+      latitude: null,
+      longitude: null,
+      speed: null,
+      course: null,
+      heading: null,
+    });
+  });
+});
+
+describe('NmeaDecoder', () => {
+  it('reassembles a two-part type 5 report into static data', () => {
+    const decoder = new NmeaDecoder();
+
+    expect(decoder.decodeLine(STATIC[0], RECEIVED)).toBeNull();
+    const vessel = decoder.decodeLine(STATIC[1], RECEIVED);
+
+    expect(vessel).toMatchObject({
+      mmsi: '351759000',
+      imo: '9134270',
+      callSign: '3FOF8',
+      name: 'EVER DIADEM',
+      type: 'general_cargo',
+      flagState: 'PA',
+      length: 295,
+      beam: 32,
+      draught: 12.2,
+      destination: 'NEW YORK',
+    });
+    const eta = vessel!.eta!;
+    expect([eta.getUTCMonth(), eta.getUTCDate(), eta.getUTCHours()]).toEqual([4, 15, 14]);
+  });
+
+  it('ignores a second fragment without its first', () => {
+    const decoder = new NmeaDecoder();
+
+    expect(decoder.decodeLine(STATIC[1], RECEIVED)).toBeNull();
+    expect(decoder.getStats()).toMatchObject({ sentences: 1, messages: 0, vessels: 0 });
+  });
+
+  it('keeps the last known position when a report has none', () => {
+    const decoder = new NmeaDecoder();
+    const known = positionPayload({ lon: 103.8 * DEG, lat: 1.2 * DEG, speed: 100, course: 900, heading: 90 });
+    const unknown = positionPayload({ lon: 181 * DEG, lat: 91 * DEG, speed: 1023, course: 3600, heading: 511 });
+
+    decoder.decodeLine(sentence(known), RECEIVED);
+    const vessel = decoder.decodeLine(sentence(unknown), new Date(RECEIVED.getTime() + 60000));
+
+    expect(vessel).toMatchObject({ position: { latitude: 1.2, longitude: 103.8 }, speed: 10, heading: 90 });
+    expect(vessel!.timestamp).toEqual(new Date(RECEIVED.getTime() + 60000));
+  });
+
+  it('counts lines that fail the checksum as invalid', () => {
+    const decoder = new NmeaDecoder();
+
+    expect(decoder.decodeLine(POSITION.replace('*4A', '*00'), RECEIVED)).toBeNull();
+    expect(decoder.getStats()).toMatchObject({ sentences: 0, invalid: 1, vessels: 0 });
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * AIS NMEA Decoder
+ * Decodes raw !AIVDM / !AIVDO sentences from AIS receivers into Vessel objects
+ * Handles checksums, multi-fragment reassembly, tag blocks and message types 1/2/3, 5, 18, 19, 24
+ */
+
+import type { Vessel, VesselType } from '../types/maritime';
+
+export interface NmeaSentence {
+  talker: string; // e.g. AIVDM, AIVDO
+  fragmentCount: number;
+  fragmentNumber: number;
+  messageId: string;
+  channel: string;
+  payload: string;
+  fillBits: number;
+  timestamp?: Date; // from NMEA 4.0 tag block (c:)
+}
+
+export interface AisPositionReport {
+  messageType: 1 | 2 | 3 | 18 | 19;
+  mmsi: string;
+  navStatus?: number;
+  speed: number | null; // knots
+  course: number | null; // degrees
+  heading: number | null; // degrees
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface AisStaticReport {
+  messageType: 5 | 19 | 24;
+  mmsi: string;
+  imo?: string;
+  callSign?: string;
+  name?: string;
+  shipType?: number;
+  destination?: string;
+  eta?: Date;
+  draught?: number; // meters
+  dimensions?: { toBow: number; toStern: number; toPort: number; toStarboard: number };
+}
+
+export type AisMessage = AisPositionReport | AisStaticReport;
+
+interface PendingFragments {
+  parts: string[];
+  fillBits: number;
+  received: number;
+  firstSeen: number;
+}
+
+interface DecoderOptions {
+  fragmentTimeout?: number; // ms before incomplete multi-part messages are dropped
+}
+
+// Maritime Identification Digits -> flag state (most common registries)
+const MID_FLAGS: Record<string, string> = {
+  '209': 'CY', '210': 'CY', '212': 'CY', '211': 'DE', '218': 'DE', '215': 'MT', '229': 'MT',
+  '248': 'MT', '249': 'MT', '256': 'MT', '219': 'DK', '220': 'DK', '224': 'ES', '225': 'ES',
+  '226': 'FR', '227': 'FR', '228': 'FR', '232': 'GB', '233': 'GB', '234': 'GB', '235': 'GB',
+  '236': 'GI', '237': 'GR', '239': 'GR', '240': 'GR', '241': 'GR', '244': 'NL', '245': 'NL',
+  '246': 'NL', '247': 'IT', '255': 'PT', '257': 'NO', '258': 'NO', '259': 'NO', '265': 'SE',
+  '266': 'SE', '273': 'RU', '303': 'US', '338': 'US', '366': 'US', '367': 'US', '368': 'US',
+  '369': 'US', '308': 'BS', '309': 'BS', '311': 'BS', '316': 'CA', '351': 'PA', '352': 'PA',
+  '353': 'PA', '354': 'PA', '355': 'PA', '356': 'PA', '357': 'PA', '370': 'PA', '371': 'PA',
+  '372': 'PA', '373': 'PA', '374': 'PA', '403': 'SA', '412': 'CN', '413': 'CN', '414': 'CN',
+  '419': 'IN', '422': 'IR', '431': 'JP', '432': 'JP', '440': 'KR', '441': 'KR', '470': 'AE',
+  '477': 'HK', '503': 'AU', '525': 'ID', '533': 'MY', '538': 'MH', '548': 'PH', '563': 'SG',
+  '564': 'SG', '565': 'SG', '566': 'SG', '574': 'VN', '576': 'VU', '577': 'VU', '622': 'EG',
+  '636': 'LR', '637': 'LR', '657': 'NG', '667': 'SL', '710': 'BR', '725': 'CL',
+};
+
+/**
+ * Compute the NMEA checksum (XOR of every character between '!' and '*')
+ */
+export function computeChecksum(body: string): string {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Parse a single AIVDM/AIVDO line, optionally prefixed with a tag block.
+ * Returns null for malformed lines or checksum mismatches.
+ */
+export function parseNmeaSentence(line: string): NmeaSentence | null {
+  let text = line.trim();
+  let timestamp: Date | undefined;
+
+  // NMEA 4.0 tag block: \c:1700000000,s:rx1*hh\!AIVDM,...
+  if (text.startsWith('\\')) {
+    const end = text.indexOf('\\', 1);
+    if (end < 0) return null;
+    const tagBlock = text.slice(1, end);
+    text = text.slice(end + 1);
+
+    const [tags] = tagBlock.split('*');
+    tags.split(',').forEach((tag) => {
+      const [key, value] = tag.split(':');
+      if (key === 'c' && value) {
+        const seconds = Number(value);
+        // Some receivers emit milliseconds instead of seconds
+        if (!isNaN(seconds)) {
+          timestamp = new Date(seconds > 1e11 ? seconds : seconds * 1000);
+        }
+      }
+    });
+  }
+
+  const match = /^!(AIVD[MO]),(\d),(\d),(\d?),([A-Z0-9]?),([^,]*),(\d)\*([0-9A-Fa-f]{2})$/.exec(text);
+  if (!match) return null;
+
+  const body = text.slice(1, text.indexOf('*'));
+  if (computeChecksum(body) !== match[8].toUpperCase()) {
+    return null;
+  }
+
+  return {
+    talker: match[1],
+    fragmentCount: parseInt(match[2], 10),
+    fragmentNumber: parseInt(match[3], 10),
+    messageId: match[4],
+    channel: match[5],
+    payload: match[6],
+    fillBits: parseInt(match[7], 10),
+    timestamp,
+  };
+}
+
+/**
+ * Bit-level reader over a 6-bit armored AIS payload
+ */
+class PayloadReader {
+  private bits: Uint8Array;
+
+  constructor(payload: string, fillBits: number) {
+    const total = payload.length * 6 - fillBits;
+    this.bits = new Uint8Array(Math.max(total, 0));
+
+    for (let i = 0; i < payload.length; i++) {
+      let value = payload.charCodeAt(i) - 48;
+      if (value > 40) value -= 8;
+      for (let b = 0; b < 6; b++) {
+        const index = i * 6 + b;
+        if (index < total) {
+          this.bits[index] = (value >> (5 - b)) & 1;
+        }
+      }
+    }
+  }
+
+  get length(): number {
+    return this.bits.length;
+  }
+
+  unsigned(start: number, width: number): number {
+    let value = 0;
+    for (let i = start; i < start + width; i++) {
+      // Math instead of bit-shifts so 30-bit fields (MMSI, IMO) never overflow
+      value = value * 2 + (this.bits[i] ?? 0);
+    }
+    return value;
+  }
+
+  signed(start: number, width: number): number {
+    const value = this.unsigned(start, width);
+    return this.bits[start] ? value - Math.pow(2, width) : value;
+  }
+
+  text(start: number, width: number): string {
+    let result = '';
+    for (let i = start; i + 6 <= start + width && i + 6 <= this.bits.length; i += 6) {
+      const code = this.unsigned(i, 6);
+      result += String.fromCharCode(code < 32 ? code + 64 : code);
+    }
+    // '@' is the AIS padding character
+    return result.replace(/@.*$/, '').trim();
+  }
+}
+
+/**
+ * Decode a complete (reassembled) AIS payload into a message
+ */
+export function decodeAisPayload(payload: string, fillBits = 0): AisMessage | null {
+  const reader = new PayloadReader(payload, fillBits);
+  if (reader.length < 38) return null;
+
+  const messageType = reader.unsigned(0, 6);
+  const mmsi = reader.unsigned(8, 30).toString().padStart(9, '0');
+
+  switch (messageType) {
+    case 1:
+    case 2:
+    case 3:
+      if (reader.length < 149) return null;
+      return {
+        messageType,
+        mmsi,
+        navStatus: reader.unsigned(38, 4),
+        speed: decodeSpeed(reader.unsigned(50, 10)),
+        longitude: decodeCoordinate(reader.signed(61, 28), 180),
+        latitude: decodeCoordinate(reader.signed(89, 27), 90),
+        course: decodeCourse(reader.unsigned(116, 12)),
+        heading: decodeHeading(reader.unsigned(128, 9)),
+      };
+
+    case 5:
+      if (reader.length < 420) return null;
+      return {
+        messageType,
+        mmsi,
+        imo: decodeImo(reader.unsigned(40, 30)),
+        callSign: reader.text(70, 42),
+        name: reader.text(112, 120),
+        shipType: reader.unsigned(232, 8),
+        dimensions: decodeDimensions(reader, 240),
+        eta: decodeEta(
+          reader.unsigned(274, 4),
+          reader.unsigned(278, 5),
+          reader.unsigned(283, 5),
+          reader.unsigned(288, 6)
+        ),
+        draught: reader.unsigned(294, 8) / 10,
+        destination: reader.text(302, 120),
+      };
+
+    case 18:
+      if (reader.length < 133) return null;
+      return {
+        messageType,
+        mmsi,
+        speed: decodeSpeed(reader.unsigned(46, 10)),
+        longitude: decodeCoordinate(reader.signed(57, 28), 180),
+        latitude: decodeCoordinate(reader.signed(85, 27), 90),
+        course: decodeCourse(reader.unsigned(112, 12)),
+        heading: decodeHeading(reader.unsigned(124, 9)),
+      };
+
+    case 19:
+      // Extended Class B carries both position and static data; the static half
+      // is picked up separately by decodeClassBStatic
+      if (reader.length < 301) return null;
+      return {
+        messageType,
+        mmsi,
+        speed: decodeSpeed(reader.unsigned(46, 10)),
+        longitude: decodeCoordinate(reader.signed(57, 28), 180),
+        latitude: decodeCoordinate(reader.signed(85, 27), 90),
+        course: decodeCourse(reader.unsigned(112, 12)),
+        heading: decodeHeading(reader.unsigned(124, 9)),
+      };
+
+    case 24: {
+      const part = reader.unsigned(38, 2);
+      if (part === 0 && reader.length >= 160) {
+        return { messageType, mmsi, name: reader.text(40, 120) };
+      }
+      if (part === 1 && reader.length >= 162) {
+        return {
+          messageType,
+          mmsi,
+          shipType: reader.unsigned(40, 8),
+          callSign: reader.text(90, 42),
+          dimensions: decodeDimensions(reader, 132),
+        };
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Static half of a type 19 extended Class B report
+ */
+function decodeClassBStatic(payload: string, fillBits: number): AisStaticReport | null {
+  const reader = new PayloadReader(payload, fillBits);
+  if (reader.unsigned(0, 6) !== 19 || reader.length < 301) return null;
+
+  return {
+    messageType: 19,
+    mmsi: reader.unsigned(8, 30).toString().padStart(9, '0'),
+    name: reader.text(143, 120),
+    shipType: reader.unsigned(263, 8),
+    dimensions: decodeDimensions(reader, 271),
+  };
+}
+
+function decodeSpeed(raw: number): number | null {
+  return raw === 1023 ? null : raw / 10;
+}
+
+function decodeCourse(raw: number): number | null {
+  return raw >= 3600 ? null : raw / 10;
+}
+
+function decodeHeading(raw: number): number | null {
+  return raw === 511 || raw > 359 ? null : raw;
+}
+
+function decodeCoordinate(raw: number, limit: number): number | null {
+  const value = raw / 600000;
+  // 181 / 91 are the "not available" sentinels
+  return Math.abs(value) > limit ? null : value;
+}
+
+function decodeImo(raw: number): string | undefined {
+  return raw > 0 ? raw.toString() : undefined;
+}
+
+function decodeDimensions(reader: PayloadReader, start: number): AisStaticReport['dimensions'] {
+  return {
+    toBow: reader.unsigned(start, 9),
+    toStern: reader.unsigned(start + 9, 9),
+    toPort: reader.unsigned(start + 18, 6),
+    toStarboard: reader.unsigned(start + 24, 6),
+  };
+}
+
+function decodeEta(month: number, day: number, hour: number, minute: number): Date | undefined {
+  if (month === 0 || day === 0 || hour > 23 || minute > 59) return undefined;
+
+  // AIS ETA has no year: assume the next occurrence from now
+  const now = new Date();
+  const eta = new Date(Date.UTC(now.getUTCFullYear(), month - 1, day, hour, minute));
+  if (eta.getTime() < now.getTime() - 30 * 24 * 60 * 60 * 1000) {
+    eta.setUTCFullYear(eta.getUTCFullYear() + 1);
+  }
+  return eta;
+}
+
+/**
+ * Map an AIS ship-type code to our VesselType
+ */
+export function mapShipType(code: number | undefined): VesselType {
+  if (code === undefined) return 'other';
+  if (code === 30) return 'fishing';
+  if (code === 35) return 'military';
+  if (code >= 60 && code <= 69) return 'passenger';
+  if (code >= 70 && code <= 79) return 'general_cargo';
+  if (code >= 80 && code <= 89) return 'tanker';
+  return 'other';
+}
+
+/**
+ * Resolve flag state from the MMSI's Maritime Identification Digits
+ */
+export function flagFromMmsi(mmsi: string): string {
+  return MID_FLAGS[mmsi.slice(0, 3)] || 'Unknown';
+}
+
+/**
+ * Stateful decoder: reassembles fragments and merges position and static
+ * reports per MMSI into Vessel objects
+ */
+class NmeaDecoder {
+  private fragments: Map<string, PendingFragments> = new Map();
+  private vessels: Map<string, Vessel> = new Map();
+  private fragmentTimeout: number;
+  private stats = { sentences: 0, messages: 0, invalid: 0 };
+
+  constructor(options: DecoderOptions = {}) {
+    this.fragmentTimeout = options.fragmentTimeout ?? 10 * 1000;
+  }
+
+  /**
+   * Feed one line. Returns the updated vessel once a complete message decodes.
+   * @param receivedAt Receive time used when the line carries no tag block timestamp
+   */
+  decodeLine(line: string, receivedAt: Date = new Date()): Vessel | null {
+    if (!line.trim()) return null;
+
+    const sentence = parseNmeaSentence(line);
+    if (!sentence) {
+      this.stats.invalid++;
+      return null;
+    }
+    this.stats.sentences++;
+
+    const assembled = this.assemble(sentence, receivedAt.getTime());
+    if (!assembled) return null;
+
+    const message = decodeAisPayload(assembled.payload, assembled.fillBits);
+    if (!message) return null;
+    this.stats.messages++;
+
+    const timestamp = sentence.timestamp ?? receivedAt;
+    const vessel = this.applyMessage(message, timestamp);
+
+    if (message.messageType === 19) {
+      const staticPart = decodeClassBStatic(assembled.payload, assembled.fillBits);
+      if (staticPart) return this.applyMessage(staticPart, timestamp);
+    }
+
+    return vessel;
+  }
+
+  /**
+   * Feed a block of text (e.g. a recorded log file). Returns every vessel touched.
+   */
+  decodeText(text: string, receivedAt: Date = new Date()): Vessel[] {
+    const updated = new Map<string, Vessel>();
+    text.split(/\r?\n/).forEach((line) => {
+      const vessel = this.decodeLine(line, receivedAt);
+      if (vessel) updated.set(vessel.mmsi, vessel);
+    });
+    return Array.from(updated.values());
+  }
+
+  /**
+   * All vessels decoded so far that have a known position
+   */
+  getVessels(): Vessel[] {
+    return Array.from(this.vessels.values()).filter(
+      (v) => !(v.position.latitude === 0 && v.position.longitude === 0)
+    );
+  }
+
+  getVessel(mmsi: string): Vessel | undefined {
+    return this.vessels.get(mmsi);
+  }
+
+  getStats(): { sentences: number; messages: number; invalid: number; vessels: number } {
+    return { ...this.stats, vessels: this.vessels.size };
+  }
+
+  reset(): void {
+    this.fragments.clear();
+    this.vessels.clear();
+    this.stats = { sentences: 0, messages: 0, invalid: 0 };
+  }
+
+  /**
+   * Collect fragments until a message is complete
+   */
+  private assemble(
+    sentence: NmeaSentence,
+    now: number
+  ): { payload: string; fillBits: number } | null {
+    if (sentence.fragmentCount === 1) {
+      return { payload: sentence.payload, fillBits: sentence.fillBits };
+    }
+
+    this.expireFragments(now);
+
+    const key = `${sentence.talker}_${sentence.channel}_${sentence.messageId}`;
+    let pending = this.fragments.get(key);
+
+    // A new first fragment always restarts the group
+    if (!pending || sentence.fragmentNumber === 1) {
+      pending = {
+        parts: new Array(sentence.fragmentCount).fill(''),
+        fillBits: 0,
+        received: 0,
+        firstSeen: now,
+      };
+      this.fragments.set(key, pending);
+    }
+
+    const index = sentence.fragmentNumber - 1;
+    if (index >= pending.parts.length || pending.parts[index]) return null;
+
+    pending.parts[index] = sentence.payload;
+    pending.received++;
+    if (sentence.fragmentNumber === sentence.fragmentCount) {
+      pending.fillBits = sentence.fillBits;
+    }
+
+    if (pending.received < sentence.fragmentCount) return null;
+
+    this.fragments.delete(key);
+    return { payload: pending.parts.join(''), fillBits: pending.fillBits };
+  }
+
+  private expireFragments(now: number): void {
+    this.fragments.forEach((pending, key) => {
+      if (now - pending.firstSeen > this.fragmentTimeout) {
+        this.fragments.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Merge a decoded message into the per-MMSI vessel record
+   */
+  private applyMessage(message: AisMessage, timestamp: Date): Vessel {
+    const vessel: Vessel = this.vessels.get(message.mmsi) ?? {
+      imo: '',
+      mmsi: message.mmsi,
+      name: 'Unknown Vessel',
+      type: 'other',
+      flagState: flagFromMmsi(message.mmsi),
+      position: { latitude: 0, longitude: 0 },
+      heading: 0,
+      speed: 0,
+      timestamp,
+      source: 'ais',
+    };
+
+    if ('latitude' in message) {
+      if (message.latitude !== null && message.longitude !== null) {
+        vessel.position = { latitude: message.latitude, longitude: message.longitude };
+      }
+      if (message.speed !== null) vessel.speed = message.speed;
+      if (message.course !== null) vessel.course = message.course;
+      // Fall back to course over ground when the heading sensor is unavailable
+      const heading = message.heading ?? message.course;
+      if (heading !== null) vessel.heading = heading;
+      vessel.timestamp = timestamp;
+    } else {
+      if (message.imo) vessel.imo = message.imo;
+      if (message.name) vessel.name = message.name;
+      if (message.shipType !== undefined) vessel.type = mapShipType(message.shipType);
+      if (message.callSign) vessel.callSign = message.callSign;
+      if (message.dimensions) {
+        // 0 means "not available" on both ends
+        const { toBow, toStern, toPort, toStarboard } = message.dimensions;
+        if (toBow + toStern > 0) vessel.length = toBow + toStern;
+        if (toPort + toStarboard > 0) vessel.beam = toPort + toStarboard;
+      }
+      if (message.draught) vessel.draught = message.draught;
+      if (message.destination) vessel.destination = message.destination;
+      if (message.eta) vessel.eta = message.eta;
+    }
+
+    this.vessels.set(message.mmsi, vessel);
+    return vessel;
+  }
+}
+
+export default NmeaDecoder;
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import PollScheduler, { type VisibilitySource } from './poll-scheduler';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+function fakeDocument() {
+  let listener: (() => void) | null = null;
+  return {
+    hidden: false,
+    addEventListener: (_type: string, l: () => void) => (listener = l),
+    removeEventListener: () => (listener = null),
+    setHidden(hidden: boolean) {
+      this.hidden = hidden;
+      listener?.();
+    },
+  };
+}
+
+describe('PollScheduler', () => {
+  let scheduler: PollScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    scheduler = new PollScheduler({ visibility: null, random: () => 0.5 }); // no jitter
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('runs each task on its own cadence once started', async () => {
+    const fast = vi.fn(async () => {});
+    const slow = vi.fn(async () => {});
+    scheduler.add({ id: 'fast', intervalMs: MINUTE, run: fast });
+    scheduler.add({ id: 'slow', intervalMs: 10 * MINUTE, run: slow });
+
+    await vi.advanceTimersByTimeAsync(5 * MINUTE);
+    expect(fast).not.toHaveBeenCalled();
+    expect(scheduler.getState('fast')?.nextRun).toBeNull();
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(fast).toHaveBeenCalledTimes(10);
+    expect(slow).toHaveBeenCalledOnce();
+  });
+
+  it('backs off exponentially up to the cap and resets after a success', async () => {
+    scheduler = new PollScheduler({
+      visibility: null,
+      random: () => 0.5,
+      backoff: { maxDelayMs: 5 * MINUTE },
+    });
+    const run = vi.fn<[], Promise<void>>().mockRejectedValue(new Error('503'));
+    scheduler.add({ id: 'feed', intervalMs: MINUTE, run });
+    scheduler.start();
+
+    const delays: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      await vi.runOnlyPendingTimersAsync();
+      delays.push(scheduler.getState('feed')!.nextRun!.getTime() - Date.now());
+    }
+    expect(delays).toEqual([2 * MINUTE, 4 * MINUTE, 5 * MINUTE, 5 * MINUTE]);
+    expect(scheduler.getState('feed')?.failures).toBe(4);
+
+    run.mockResolvedValue(undefined);
+    await vi.runOnlyPendingTimersAsync();
+    expect(scheduler.getState('feed')).toMatchObject({ failures: 0 });
+    expect(scheduler.getState('feed')!.nextRun!.getTime() - Date.now()).toBe(MINUTE);
+  });
+
+  it('spreads retries with jitter', async () => {
+    const retryAfter = async (random: number) => {
+      scheduler.stop();
+      scheduler = new PollScheduler({ visibility: null, random: () => random });
+      scheduler.add({ id: 'feed', intervalMs: MINUTE, run: () => Promise.reject(new Error('timeout')) });
+      scheduler.start();
+      await vi.runOnlyPendingTimersAsync();
+      return scheduler.getState('feed')!.nextRun!.getTime() - Date.now();
+    };
+
+    expect(await retryAfter(0)).toBe(96 * 1000); // 2 minutes - 20%
+    expect(await retryAfter(1)).toBe(144 * 1000); // 2 minutes + 20%
+  });
+
+  it('pauses while the page is hidden and catches up when shown', async () => {
+    const page = fakeDocument();
+    scheduler = new PollScheduler({ visibility: page as VisibilitySource });
+    const run = vi.fn(async () => {});
+    scheduler.add({ id: 'feed', intervalMs: MINUTE, run });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    page.setHidden(true);
+    expect(scheduler.isPaused()).toBe(true);
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(run).not.toHaveBeenCalled();
+
+    page.setHidden(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledOnce();
+  });
+
+  it('runs on demand and again when triggered mid-run', async () => {
+    let finish: () => void = () => {};
+    const run = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    scheduler.add({ id: 'feed', intervalMs: MINUTE, run });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+    const pending = scheduler.runNow(['feed']);
+    expect(scheduler.getState('feed')?.running).toBe(true);
+    scheduler.runNow();
+    finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(2);
+
+    finish();
+    await pending;
+    expect(scheduler.getState('feed')?.nextRun).toEqual(new Date(NOW + 90 * 1000));
+  });
+
+  it('keeps the phase when the interval changes', async () => {
+    const run = vi.fn(async () => {});
+    scheduler.add({ id: 'feed', intervalMs: 10 * MINUTE, run });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    await vi.advanceTimersByTimeAsync(2 * MINUTE);
+    scheduler.setInterval('feed', 5 * MINUTE);
+    expect(scheduler.getState('feed')?.nextRun).toEqual(new Date(NOW + 15 * MINUTE));
+
+    scheduler.setInterval('feed', MINUTE);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels pending runs when stopped or removed', async () => {
+    const run = vi.fn(async () => {});
+    scheduler.add({ id: 'feed', intervalMs: MINUTE, run });
+    scheduler.add({ id: 'other', intervalMs: MINUTE, run });
+    scheduler.start();
+    scheduler.remove('other');
+    scheduler.stop();
+
+    await vi.advanceTimersByTimeAsync(10 * MINUTE);
+    expect(run).not.toHaveBeenCalled();
+    expect(scheduler.has('other')).toBe(false);
+    expect(scheduler.getState('feed')?.nextRun).toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Poll Scheduler
+ * Runs async tasks on their own cadence. Failures back off exponentially
+ * (with jitter, so sources failing together do not retry in lockstep),
+ * polling pauses while the page is hidden and catches up when it is shown again.
+ */
+
+export interface PollTask {
+  id: string;
+  intervalMs: number;
+  run: () => Promise<void>; // rejects to signal a failed poll
+}
+
+export interface BackoffPolicy {
+  factor: number; // delay multiplier per consecutive failure
+  maxDelayMs: number; // cap, unless the task's own interval is longer
+  jitter: number; // +/- fraction of the delay
+}
+
+export interface PollTaskState {
+  running: boolean;
+  failures: number; // consecutive
+  lastRun: Date | null;
+  nextRun: Date | null; // null while stopped or not scheduled
+}
+
+// Page visibility source (document in the browser)
+export interface VisibilitySource {
+  readonly hidden: boolean;
+  addEventListener(type: 'visibilitychange', listener: () => void): void;
+  removeEventListener(type: 'visibilitychange', listener: () => void): void;
+}
+
+interface SchedulerOptions {
+  backoff?: Partial<BackoffPolicy>;
+  visibility?: VisibilitySource | null;
+  random?: () => number;
+  onChange?: (id: string, settled: boolean) => void; // a task started, finished a run (settled) or was rescheduled
+}
+
+interface TaskEntry extends PollTaskState {
+  task: PollTask;
+  timer: ReturnType<typeof setTimeout> | null;
+  rerun: boolean; // triggered again while running
+}
+
+const DEFAULT_BACKOFF: BackoffPolicy = {
+  factor: 2,
+  maxDelayMs: 30 * 60 * 1000,
+  jitter: 0.2,
+};
+
+class PollScheduler {
+  private tasks: Map<string, TaskEntry> = new Map();
+  private backoff: BackoffPolicy;
+  private visibility: VisibilitySource | null;
+  private random: () => number;
+  private onChange: (id: string, settled: boolean) => void;
+  private running = false;
+  private paused = false;
+  private onVisibilityChange = () => this.updateVisibility();
+
+  constructor(options: SchedulerOptions = {}) {
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+    this.visibility =
+      options.visibility !== undefined
+        ? options.visibility
+        : typeof document !== 'undefined'
+          ? document
+          : null;
+    this.random = options.random || Math.random;
+    this.onChange = options.onChange || (() => {});
+  }
+
+  /**
+   * Add (or replace) a task; it is first due one interval from now
+   */
+  add(task: PollTask): void {
+    this.remove(task.id);
+    const entry: TaskEntry = {
+      task,
+      timer: null,
+      rerun: false,
+      running: false,
+      failures: 0,
+      lastRun: null,
+      nextRun: null,
+    };
+    this.tasks.set(task.id, entry);
+    this.scheduleIn(entry, task.intervalMs);
+  }
+
+  remove(id: string): void {
+    const entry = this.tasks.get(id);
+    if (!entry) return;
+    this.clearTimer(entry);
+    this.tasks.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.tasks.has(id);
+  }
+
+  /**
+   * Change a task's cadence, keeping its phase: it is next due one new
+   * interval after its last run
+   */
+  setInterval(id: string, intervalMs: number): void {
+    const entry = this.tasks.get(id);
+    if (!entry || entry.task.intervalMs === intervalMs) return;
+
+    entry.task = { ...entry.task, intervalMs };
+    if (entry.running || entry.failures > 0) return; // rescheduled when the run settles
+    const since = entry.lastRun ? Date.now() - entry.lastRun.getTime() : 0;
+    this.scheduleIn(entry, Math.max(0, intervalMs - since));
+    this.onChange(id, false);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.visibility?.addEventListener('visibilitychange', this.onVisibilityChange);
+    this.paused = Boolean(this.visibility?.hidden);
+    this.tasks.forEach((entry) => {
+      this.scheduleIn(entry, entry.task.intervalMs);
+      this.onChange(entry.task.id, false);
+    });
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.visibility?.removeEventListener('visibilitychange', this.onVisibilityChange);
+    this.tasks.forEach((entry) => {
+      this.clearTimer(entry);
+      entry.nextRun = null;
+      this.onChange(entry.task.id, false);
+    });
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Run tasks now (all, or the given ids), whether or not the scheduler is started.
+   * A task that is already running runs again as soon as it finishes.
+   */
+  async runNow(ids?: string[]): Promise<void> {
+    const entries = ids
+      ? ids.map((id) => this.tasks.get(id)).filter((e): e is TaskEntry => Boolean(e))
+      : Array.from(this.tasks.values());
+    await Promise.all(entries.map((entry) => this.execute(entry)));
+  }
+
+  getState(id: string): PollTaskState | null {
+    const entry = this.tasks.get(id);
+    if (!entry) return null;
+    const { running, failures, lastRun, nextRun } = entry;
+    return { running, failures, lastRun, nextRun };
+  }
+
+  private async execute(entry: TaskEntry): Promise<void> {
+    if (entry.running) {
+      entry.rerun = true;
+      return;
+    }
+
+    this.clearTimer(entry);
+    entry.running = true;
+    this.onChange(entry.task.id, false);
+    let failed = false;
+    try {
+      await entry.task.run();
+    } catch {
+      failed = true;
+    }
+    entry.running = false;
+    entry.lastRun = new Date();
+    if (!this.tasks.has(entry.task.id)) return; // removed meanwhile
+
+    if (entry.rerun) {
+      entry.rerun = false;
+      return this.execute(entry);
+    }
+
+    entry.failures = failed ? entry.failures + 1 : 0;
+    this.scheduleIn(entry, failed ? this.retryDelay(entry) : entry.task.intervalMs);
+    this.onChange(entry.task.id, true);
+  }
+
+  /**
+   * Exponential backoff from the task's own interval, with jitter
+   */
+  private retryDelay(entry: TaskEntry): number {
+    const { factor, maxDelayMs, jitter } = this.backoff;
+    const interval = entry.task.intervalMs;
+    const delay = Math.min(interval * factor ** entry.failures, Math.max(interval, maxDelayMs));
+    return Math.round(delay * (1 + jitter * (this.random() * 2 - 1)));
+  }
+
+  private scheduleIn(entry: TaskEntry, delayMs: number): void {
+    this.clearTimer(entry);
+    if (!this.running) {
+      entry.nextRun = null;
+      return;
+    }
+
+    entry.nextRun = new Date(Date.now() + delayMs);
+    if (!this.paused) this.arm(entry);
+  }
+
+  private arm(entry: TaskEntry): void {
+    if (!entry.nextRun) return;
+    this.clearTimer(entry);
+    entry.timer = setTimeout(
+      () => {
+        entry.timer = null;
+        this.execute(entry);
+      },
+      Math.max(0, entry.nextRun.getTime() - Date.now())
+    );
+  }
+
+  private clearTimer(entry: TaskEntry): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+
+  /**
+   * Hold timers while hidden; on return, tasks that fell due run immediately
+   */
+  private updateVisibility(): void {
+    const hidden = Boolean(this.visibility?.hidden);
+    if (hidden === this.paused) return;
+    this.paused = hidden;
+
+    this.tasks.forEach((entry) => {
+      if (hidden) {
+        this.clearTimer(entry);
+      } else if (!entry.running) {
+        this.arm(entry);
+      }
+    });
+  }
+}
+
+export default PollScheduler;
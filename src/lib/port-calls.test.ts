@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { findPortCalls } from './port-calls';
+import type { PortInfo } from '../config/ports';
+import type { TrackPoint } from '../types/maritime';
+
+const T0 = new Date('2026-03-01T00:00:00Z').getTime();
+const HOUR = 60 * 60 * 1000;
+
+const SINGAPORE: PortInfo = {
+  name: 'Singapore',
+  country: 'SG',
+  unlocode: 'SGSIN',
+  latitude: 1.26,
+  longitude: 103.84,
+  radiusNm: 20,
+};
+const PORT_KLANG: PortInfo = {
+  name: 'Port Klang',
+  country: 'MY',
+  unlocode: 'MYPKG',
+  latitude: 3,
+  longitude: 101.39,
+  radiusNm: 15,
+};
+
+// Port areas by longitude band, for readable tracks
+function portAt(_lat: number, lon: number): PortInfo | null {
+  if (lon > 103.5) return SINGAPORE;
+  if (lon < 101.5) return PORT_KLANG;
+  return null;
+}
+
+function point(hours: number, longitude: number, speed: number): TrackPoint {
+  return { latitude: 2, longitude, speed, heading: 0, timestamp: new Date(T0 + hours * HOUR) };
+}
+
+describe('findPortCalls', () => {
+  it('lists stops inside port areas, most recent first', () => {
+    const track = [
+      point(0, 103.8, 0), // moored in Singapore
+      point(6, 103.8, 0.2),
+      point(8, 103.6, 9),
+      point(10, 102.5, 12), // at sea
+      point(20, 101.4, 4), // Port Klang approaches
+      point(22, 101.4, 0),
+      point(30, 101.4, 0.5), // still alongside
+    ];
+
+    expect(findPortCalls(track, portAt)).toEqual([
+      { port: 'Port Klang', unlocode: 'MYPKG', arrival: new Date(T0 + 20 * HOUR), departure: null },
+      { port: 'Singapore', unlocode: 'SGSIN', arrival: new Date(T0), departure: new Date(T0 + 10 * HOUR) },
+    ]);
+  });
+
+  it('ignores transits and brief slowdowns', () => {
+    const track = [
+      point(0, 102.5, 12),
+      point(2, 103.7, 11), // through the strait without stopping
+      point(3, 103.9, 0.5), // pilot boarding
+      point(3.2, 103.9, 8),
+      point(5, 102.5, 12),
+    ];
+
+    expect(findPortCalls(track, portAt)).toEqual([]);
+    expect(findPortCalls(track, portAt, { minStopMinutes: 10 })).toHaveLength(1);
+  });
+});
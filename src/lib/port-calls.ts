@@ -0,0 +1,61 @@
+/**
+ * Port Calls
+ * Derives a vessel's port calls from its track: a run of reports inside a
+ * known port's area counts as a call when the vessel stopped there, so
+ * passing through a port's approaches does not
+ */
+
+import type { PortInfo } from '../config/ports';
+import type { PortCall, TrackPoint } from '../types/maritime';
+
+interface PortCallOptions {
+  maxSpeed?: number; // knots; at or below counts as stopped
+  minStopMinutes?: number; // time stopped before a visit counts as a call
+}
+
+/**
+ * Port calls found in a track (oldest point first), most recent call first
+ */
+export function findPortCalls(
+  track: TrackPoint[],
+  portAt: (lat: number, lon: number) => PortInfo | null,
+  options: PortCallOptions = {}
+): PortCall[] {
+  const maxSpeed = options.maxSpeed ?? 1;
+  const minStop = (options.minStopMinutes ?? 30) * 60 * 1000;
+  const calls: PortCall[] = [];
+
+  // Time stopped runs from a slow report to the next report
+  let visit: { port: PortInfo; arrival: Date; stopped: number; last: TrackPoint } | null = null;
+  const close = (departure: TrackPoint | null) => {
+    if (!visit) return;
+    if (departure && visit.last.speed <= maxSpeed) {
+      visit.stopped += departure.timestamp.getTime() - visit.last.timestamp.getTime();
+    }
+    if (visit.stopped >= minStop) {
+      calls.push({
+        port: visit.port.name,
+        unlocode: visit.port.unlocode,
+        arrival: visit.arrival,
+        departure: departure?.timestamp ?? null,
+      });
+    }
+    visit = null;
+  };
+
+  track.forEach((point) => {
+    const port = portAt(point.latitude, point.longitude);
+    if (visit && port?.unlocode !== visit.port.unlocode) close(point);
+    if (!port) return;
+
+    if (!visit) {
+      visit = { port, arrival: point.timestamp, stopped: 0, last: point };
+    } else if (visit.last.speed <= maxSpeed) {
+      visit.stopped += point.timestamp.getTime() - visit.last.timestamp.getTime();
+    }
+    visit.last = point;
+  });
+  close(null);
+
+  return calls.reverse();
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import RendezvousDetector from './rendezvous-detector';
+import type { TrackPoint } from '../types/maritime';
+
+const START = new Date('2026-03-01T00:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+// Fixes every 10 minutes from `from` to `to` minutes after START, drifting slowly east
+function track(from: number, to: number, latitude: number): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  for (let minute = from; minute <= to; minute += 10) {
+    points.push({
+      latitude,
+      longitude: 56 + minute / 100000,
+      speed: 1,
+      heading: 90,
+      timestamp: new Date(START + minute * MINUTE),
+    });
+  }
+  return points;
+}
+
+describe('RendezvousDetector', () => {
+  it('raises an encounter once and extends it while it lasts', () => {
+    const detector = new RendezvousDetector();
+
+    const first = detector.detect({ '1': track(0, 90, 26), '2': track(0, 90, 26.001) });
+    expect(first).toHaveLength(1);
+    expect(first[0].durationMinutes).toBe(90);
+
+    expect(detector.detect({ '1': track(0, 150, 26), '2': track(0, 150, 26.001) })).toEqual([]);
+    expect(detector.getEvents().map((e) => [e.id, e.durationMinutes])).toEqual([[first[0].id, 150]]);
+  });
+
+  it('forgets events that ended before the history window', () => {
+    const detector = new RendezvousDetector();
+    detector.detect({ '1': track(0, 90, 26), '2': track(0, 90, 26.001) });
+
+    detector.detect({}, {}, START + 90 * MINUTE);
+    expect(detector.getEvents()).toHaveLength(1);
+
+    detector.detect({}, {}, START + 91 * MINUTE);
+    expect(detector.getEvents()).toEqual([]);
+  });
+});
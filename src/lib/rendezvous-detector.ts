@@ -0,0 +1,247 @@
+/**
+ * Rendezvous Detector
+ * Flags pairs of vessels that stay close together at low speed for a sustained
+ * period (possible ship-to-ship transfers), using per-MMSI track history
+ */
+
+import { distanceNm } from './geo';
+import type { RendezvousEvent, TrackPoint } from '../types/maritime';
+
+interface RendezvousOptions {
+  maxDistanceNm?: number; // vessels closer than this are "together"
+  maxSpeed?: number; // knots; both vessels must be at or below
+  minDuration?: number; // minutes together before an event is raised
+  maxSampleGap?: number; // minutes between close samples before an encounter is split
+  isPortArea?: (lat: number, lon: number) => boolean;
+}
+
+interface Sample {
+  latitude: number;
+  longitude: number;
+  speed: number;
+}
+
+// Grid cell size used to find candidate pairs (~3 nm at the equator)
+const CELL_SIZE = 0.05;
+
+class RendezvousDetector {
+  private options: Required<Omit<RendezvousOptions, 'isPortArea'>>;
+  private isPortArea: (lat: number, lon: number) => boolean;
+  private events: Map<string, RendezvousEvent[]> = new Map(); // by pair, `${mmsiA}|${mmsiB}`
+
+  constructor(options: RendezvousOptions = {}) {
+    this.options = {
+      maxDistanceNm: options.maxDistanceNm ?? 0.3, // ~550 m
+      maxSpeed: options.maxSpeed ?? 3,
+      minDuration: options.minDuration ?? 60,
+      maxSampleGap: options.maxSampleGap ?? 30,
+    };
+    this.isPortArea = options.isPortArea ?? (() => false);
+  }
+
+  /**
+   * Scan track histories and return rendezvous events that are new since the last run.
+   * Ongoing encounters keep their id and have their end time extended. Events that
+   * ended before `since` (the start of the history window) are forgotten.
+   */
+  detect(
+    history: Record<string, TrackPoint[]>,
+    names: Record<string, string> = {},
+    since = -Infinity
+  ): RendezvousEvent[] {
+    const created: RendezvousEvent[] = [];
+    this.expire(since);
+
+    this.findCandidatePairs(history).forEach(([mmsiA, mmsiB]) => {
+      this.findEncounters(history[mmsiA], history[mmsiB]).forEach((encounter) => {
+        const event = this.recordEncounter(mmsiA, mmsiB, encounter, names);
+        if (event) created.push(event);
+      });
+    });
+
+    return created;
+  }
+
+  /**
+   * All rendezvous events seen so far, most recent first
+   */
+  getEvents(): RendezvousEvent[] {
+    return Array.from(this.events.values()).flat().sort(
+      (a, b) => b.end.getTime() - a.end.getTime()
+    );
+  }
+
+  clear(): void {
+    this.events.clear();
+  }
+
+  private expire(since: number): void {
+    this.events.forEach((events, pair) => {
+      const kept = events.filter((e) => e.end.getTime() >= since);
+      if (kept.length > 0) {
+        this.events.set(pair, kept);
+      } else {
+        this.events.delete(pair);
+      }
+    });
+  }
+
+  /**
+   * Pairs of vessels whose slow-moving fixes share a grid cell (or a neighbouring one)
+   */
+  private findCandidatePairs(history: Record<string, TrackPoint[]>): [string, string][] {
+    const cells = new Map<string, Set<string>>();
+
+    Object.entries(history).forEach(([mmsi, track]) => {
+      track.forEach((p) => {
+        if (p.speed > this.options.maxSpeed) return;
+        const key = `${Math.floor(p.latitude / CELL_SIZE)}_${Math.floor(p.longitude / CELL_SIZE)}`;
+        if (!cells.has(key)) cells.set(key, new Set());
+        cells.get(key)!.add(mmsi);
+      });
+    });
+
+    const pairs = new Set<string>();
+    cells.forEach((members, key) => {
+      const [row, col] = key.split('_').map(Number);
+      const nearby = new Set<string>(members);
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          cells.get(`${row + dr}_${col + dc}`)?.forEach((m) => nearby.add(m));
+        }
+      }
+
+      members.forEach((a) => {
+        nearby.forEach((b) => {
+          if (a !== b) pairs.add(a < b ? `${a}|${b}` : `${b}|${a}`);
+        });
+      });
+    });
+
+    return Array.from(pairs).map((pair) => pair.split('|') as [string, string]);
+  }
+
+  /**
+   * Walk both tracks over their shared time span and return intervals where
+   * the vessels were close together and both slow
+   */
+  private findEncounters(
+    trackA: TrackPoint[],
+    trackB: TrackPoint[]
+  ): Array<{ start: number; end: number; minDistance: number; samples: Sample[] }> {
+    const overlapStart = Math.max(trackA[0].timestamp.getTime(), trackB[0].timestamp.getTime());
+    const overlapEnd = Math.min(
+      trackA[trackA.length - 1].timestamp.getTime(),
+      trackB[trackB.length - 1].timestamp.getTime()
+    );
+    if (overlapEnd <= overlapStart) return [];
+
+    const times = Array.from(
+      new Set(
+        [...trackA, ...trackB]
+          .map((p) => p.timestamp.getTime())
+          .filter((t) => t >= overlapStart && t <= overlapEnd)
+      )
+    ).sort((a, b) => a - b);
+
+    const maxGap = this.options.maxSampleGap * 60 * 1000;
+    const encounters: Array<{ start: number; end: number; minDistance: number; samples: Sample[] }> = [];
+    let current: (typeof encounters)[number] | null = null;
+
+    times.forEach((t) => {
+      const a = interpolate(trackA, t);
+      const b = interpolate(trackB, t);
+      const distance = distanceNm(a.latitude, a.longitude, b.latitude, b.longitude);
+      const together =
+        distance <= this.options.maxDistanceNm &&
+        a.speed <= this.options.maxSpeed &&
+        b.speed <= this.options.maxSpeed;
+
+      if (together && current && t - current.end <= maxGap) {
+        current.end = t;
+        current.minDistance = Math.min(current.minDistance, distance);
+        current.samples.push(midpoint(a, b));
+      } else if (together) {
+        current = { start: t, end: t, minDistance: distance, samples: [midpoint(a, b)] };
+        encounters.push(current);
+      } else {
+        current = null;
+      }
+    });
+
+    const minDuration = this.options.minDuration * 60 * 1000;
+    return encounters.filter((e) => e.end - e.start >= minDuration);
+  }
+
+  /**
+   * Merge an encounter into the known events. Returns the event if it is new.
+   */
+  private recordEncounter(
+    mmsiA: string,
+    mmsiB: string,
+    encounter: { start: number; end: number; minDistance: number; samples: Sample[] },
+    names: Record<string, string>
+  ): RendezvousEvent | null {
+    const location = {
+      latitude: encounter.samples.reduce((sum, s) => sum + s.latitude, 0) / encounter.samples.length,
+      longitude: encounter.samples.reduce((sum, s) => sum + s.longitude, 0) / encounter.samples.length,
+    };
+
+    // An overlapping event for the same pair is the same encounter (its start may
+    // have moved as old history was pruned)
+    const pair = `${mmsiA}|${mmsiB}`;
+    const known = this.events.get(pair) || [];
+    const existing = known.find(
+      (e) => encounter.start <= e.end.getTime() && encounter.end >= e.start.getTime()
+    );
+
+    const start = existing ? Math.min(existing.start.getTime(), encounter.start) : encounter.start;
+    const end = existing ? Math.max(existing.end.getTime(), encounter.end) : encounter.end;
+    const event: RendezvousEvent = {
+      id: existing?.id ?? `rendezvous_${mmsiA}_${mmsiB}_${encounter.start}`,
+      mmsiA,
+      mmsiB,
+      vesselNameA: names[mmsiA] || 'Unknown Vessel',
+      vesselNameB: names[mmsiB] || 'Unknown Vessel',
+      start: new Date(start),
+      end: new Date(end),
+      durationMinutes: Math.round((end - start) / 60000),
+      location,
+      minDistanceNm: Math.min(existing?.minDistanceNm ?? Infinity, encounter.minDistance),
+      inPortArea: this.isPortArea(location.latitude, location.longitude),
+    };
+
+    this.events.set(pair, existing ? known.map((e) => (e === existing ? event : e)) : [...known, event]);
+    return existing ? null : event;
+  }
+}
+
+/**
+ * Linearly interpolate position and speed along a track at time t
+ */
+function interpolate(track: TrackPoint[], t: number): Sample {
+  let i = 0;
+  while (i < track.length - 1 && track[i + 1].timestamp.getTime() < t) i++;
+
+  const p1 = track[i];
+  const p2 = track[Math.min(i + 1, track.length - 1)];
+  const t1 = p1.timestamp.getTime();
+  const t2 = p2.timestamp.getTime();
+  const f = t2 > t1 ? Math.max(0, Math.min(1, (t - t1) / (t2 - t1))) : 0;
+
+  return {
+    latitude: p1.latitude + (p2.latitude - p1.latitude) * f,
+    longitude: p1.longitude + (p2.longitude - p1.longitude) * f,
+    speed: p1.speed + (p2.speed - p1.speed) * f,
+  };
+}
+
+function midpoint(a: Sample, b: Sample): Sample {
+  return {
+    latitude: (a.latitude + b.latitude) / 2,
+    longitude: (a.longitude + b.longitude) / 2,
+    speed: (a.speed + b.speed) / 2,
+  };
+}
+
+export default RendezvousDetector;
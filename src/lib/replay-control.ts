@@ -0,0 +1,184 @@
+/**
+ * Replay Control
+ * Leaflet control with session recording, export and loading, play/pause,
+ * speed, a timeline scrubber and jump-to-event. User actions are dispatched as
+ * window events (`sessionRecordingToggle`, `sessionExport`, `replayLoad`,
+ * `replayToggle`, `replaySpeed`, `replaySeek`, `replayJump`, `replayExit`)
+ */
+
+import L from 'leaflet';
+import {
+  REPLAY_SPEEDS,
+  type ReplayEvent,
+  type ReplayStatus,
+} from '../services/replay-service';
+
+class ReplayControl extends L.Control {
+  private container: HTMLElement | null = null;
+  private body: HTMLElement | null = null;
+  private recordButton: HTMLButtonElement | null = null;
+  private recording = false;
+  private toggleButton: HTMLButtonElement | null = null;
+  private speedSelect: HTMLSelectElement | null = null;
+  private slider: HTMLInputElement | null = null;
+  private timeLabel: HTMLElement | null = null;
+  private eventSelect: HTMLSelectElement | null = null;
+  private scrubbing = false;
+
+  constructor(options?: L.ControlOptions) {
+    super({ position: 'bottomleft', ...options });
+  }
+
+  onAdd(): HTMLElement {
+    const container = L.DomUtil.create('div', 'replay-control leaflet-bar');
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.disableScrollPropagation(container);
+
+    const session = L.DomUtil.create('div', 'replay-control__session', container);
+
+    // Recording on/off and download of the last hour recorded
+    this.recordButton = L.DomUtil.create('button', 'replay-control__record', session) as HTMLButtonElement;
+    this.recordButton.type = 'button';
+    this.recordButton.addEventListener('click', () =>
+      window.dispatchEvent(new CustomEvent('sessionRecordingToggle'))
+    );
+    this.setRecording(this.recording);
+
+    const exportButton = L.DomUtil.create('button', 'replay-control__export', session) as HTMLButtonElement;
+    exportButton.type = 'button';
+    exportButton.title = 'Download the last hour recorded as a session file';
+    exportButton.textContent = 'Export';
+    exportButton.addEventListener('click', () => window.dispatchEvent(new CustomEvent('sessionExport')));
+
+    // Session file picker
+    const load = L.DomUtil.create('label', 'replay-control__load', session);
+    load.textContent = 'Load session';
+    const file = L.DomUtil.create('input', '', load) as HTMLInputElement;
+    file.type = 'file';
+    file.accept = '.json,.gz,application/json,application/gzip';
+    file.hidden = true;
+    file.addEventListener('change', () => {
+      const selected = file.files?.[0];
+      if (!selected) return;
+      window.dispatchEvent(new CustomEvent('replayLoad', { detail: selected }));
+      file.value = '';
+    });
+
+    const body = L.DomUtil.create('div', 'replay-control__body hidden', container);
+
+    this.toggleButton = L.DomUtil.create('button', 'replay-control__toggle', body) as HTMLButtonElement;
+    this.toggleButton.type = 'button';
+    this.toggleButton.title = 'Play/pause';
+    this.toggleButton.addEventListener('click', () =>
+      window.dispatchEvent(new CustomEvent('replayToggle'))
+    );
+
+    this.speedSelect = L.DomUtil.create('select', 'replay-control__speed', body) as HTMLSelectElement;
+    this.speedSelect.title = 'Playback speed';
+    REPLAY_SPEEDS.forEach((speed) => {
+      const option = L.DomUtil.create('option', '', this.speedSelect!) as HTMLOptionElement;
+      option.value = String(speed);
+      option.textContent = `${speed}x`;
+    });
+    this.speedSelect.addEventListener('change', () =>
+      window.dispatchEvent(
+        new CustomEvent('replaySpeed', { detail: Number(this.speedSelect!.value) })
+      )
+    );
+
+    this.slider = L.DomUtil.create('input', 'replay-control__timeline', body) as HTMLInputElement;
+    this.slider.type = 'range';
+    this.slider.step = '1000';
+    this.slider.addEventListener('pointerdown', () => (this.scrubbing = true));
+    this.slider.addEventListener('pointerup', () => (this.scrubbing = false));
+    this.slider.addEventListener('input', () =>
+      window.dispatchEvent(new CustomEvent('replaySeek', { detail: Number(this.slider!.value) }))
+    );
+
+    this.timeLabel = L.DomUtil.create('span', 'replay-control__time', body);
+
+    this.eventSelect = L.DomUtil.create('select', 'replay-control__events', body) as HTMLSelectElement;
+    this.eventSelect.title = 'Jump to event';
+    this.eventSelect.addEventListener('change', () => {
+      if (!this.eventSelect!.value) return;
+      window.dispatchEvent(new CustomEvent('replayJump', { detail: this.eventSelect!.value }));
+      this.eventSelect!.value = '';
+    });
+
+    const exit = L.DomUtil.create('button', 'replay-control__exit', body) as HTMLButtonElement;
+    exit.type = 'button';
+    exit.title = 'Exit replay';
+    exit.textContent = '✕';
+    exit.addEventListener('click', () => window.dispatchEvent(new CustomEvent('replayExit')));
+
+    this.container = container;
+    this.body = body;
+    this.update({
+      loaded: false,
+      playing: false,
+      speed: 1,
+      currentTime: null,
+      startTime: null,
+      endTime: null,
+    });
+    return container;
+  }
+
+  onRemove(): void {
+    this.container = null;
+    this.body = null;
+    this.recordButton = null;
+  }
+
+  /**
+   * Reflect whether the session recorder is on
+   */
+  setRecording(enabled: boolean): void {
+    this.recording = enabled;
+    if (!this.recordButton) return;
+    this.recordButton.textContent = enabled ? '■ Recording' : '● Record';
+    this.recordButton.title = enabled ? 'Stop recording this session' : 'Record this session for replay';
+    this.recordButton.classList.toggle('replay-control__record--on', enabled);
+    this.recordButton.setAttribute('aria-pressed', String(enabled));
+  }
+
+  /**
+   * Reflect the replay status in the controls
+   */
+  update(status: ReplayStatus): void {
+    if (!this.container || !this.body) return;
+
+    this.container.classList.toggle('replay-control--active', status.loaded);
+    this.body.classList.toggle('hidden', !status.loaded);
+    if (!status.loaded || !status.startTime || !status.endTime || !status.currentTime) return;
+
+    this.toggleButton!.textContent = status.playing ? '❚❚' : '▶';
+    this.speedSelect!.value = String(status.speed);
+    this.slider!.min = String(status.startTime.getTime());
+    this.slider!.max = String(status.endTime.getTime());
+    if (!this.scrubbing) {
+      this.slider!.value = String(status.currentTime.getTime());
+    }
+    this.timeLabel!.textContent = status.currentTime.toISOString().replace('T', ' ').slice(0, 19);
+  }
+
+  /**
+   * Replace the jump-to-event list
+   */
+  setEvents(events: ReplayEvent[]): void {
+    if (!this.eventSelect) return;
+
+    this.eventSelect.innerHTML = '';
+    const placeholder = L.DomUtil.create('option', '', this.eventSelect) as HTMLOptionElement;
+    placeholder.value = '';
+    placeholder.textContent = events.length > 0 ? `Jump to event (${events.length})` : 'No events';
+
+    events.forEach((event) => {
+      const option = L.DomUtil.create('option', '', this.eventSelect!) as HTMLOptionElement;
+      option.value = event.id;
+      option.textContent = `${event.timestamp.toISOString().slice(5, 16).replace('T', ' ')} ${event.label}`;
+    });
+  }
+}
+
+export default ReplayControl;
@@ -0,0 +1,62 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import RiskEngine from './risk-engine';
+import { DEFAULT_RISK_RULES } from '../config/risk-rules';
+import type { RiskRule } from '../types/maritime';
+
+const STORAGE_KEY = 'maritime-monitor-risk-rules';
+
+function rule(overrides: Partial<RiskRule> | Record<string, unknown> = {}): RiskRule {
+  return {
+    id: 'slow',
+    name: 'Slow',
+    reason: 'Slow at {speed} kn',
+    weight: 10,
+    enabled: true,
+    condition: { fact: 'speed', op: 'lt', value: 1 },
+    ...overrides,
+  } as RiskRule;
+}
+
+describe('RiskEngine rule validation', () => {
+  let engine: RiskEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+    engine = new RiskEngine();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it.each([
+    ['an empty condition', { condition: {} }, /fact name/],
+    ['an unknown operator', { condition: { fact: 'speed', op: 'near' } }, /unknown operator/],
+    ['a non-array "all"', { condition: { all: { fact: 'speed', op: 'lt', value: 1 } } }, /must be arrays/],
+    ['a bad nested condition', { condition: { any: [{ not: { op: 'eq' } }] } }, /fact name/],
+    ['a pattern that does not compile', { condition: { fact: 'name', op: 'matches', value: '(' } }, /invalid pattern/],
+    ['"in" without a list', { condition: { fact: 'type', op: 'in', value: 'tanker' } }, /array value/],
+    ['a missing reason', { reason: undefined }, /reason/],
+  ])('rejects %s', (_, overrides, message) => {
+    expect(() => engine.upsertRule(rule(overrides))).toThrow(message);
+    expect(() => engine.importRules(JSON.stringify([rule(overrides)]))).toThrow(message);
+    expect(engine.getRules().map((r) => r.id)).toEqual(DEFAULT_RISK_RULES.map((r) => r.id));
+  });
+
+  it('falls back to the default rules when the saved ones no longer validate', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([rule({ condition: {} })]));
+
+    const reloaded = new RiskEngine();
+
+    expect(reloaded.getRules().map((r) => r.id)).toEqual(DEFAULT_RISK_RULES.map((r) => r.id));
+    expect(error).toHaveBeenCalledOnce();
+  });
+
+  it('keeps valid saved rules', () => {
+    engine.setRules([rule()]);
+
+    expect(new RiskEngine().getRules()).toEqual([rule()]);
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Risk Engine
+ * Scores vessels against declarative (JSON) rules with weights and returns the
+ * reasons behind each score. Rules can be edited at runtime and persist locally.
+ *
+ * Facts available to rule conditions:
+ *   any Vessel field (name, speed, type, flagState, status, position.latitude, ...)
+ *   ageMinutes          minutes since the last AIS report
+ *   distanceToCoastNm   distance to the nearest coastline (Infinity offshore)
+ *   openOcean, onLand, inPortArea, nearestPort
+ *   highRiskZone        name of the high-risk zone the vessel is in, if any
+ *   trackPoints, trackHours, trackMaxSpeed, trackAvgSpeed   from track history
+ *   darkPeriodCount, impossibleGapCount, longestDarkHours  from AIS gap analysis
+ *   rendezvousCount     rendezvous outside port areas
+ *   sourceCount, positionConflictCount, identityConflictCount  from multi-source fusion
+ */
+
+import { geography } from '../services/geography-service';
+import {
+  DEFAULT_RISK_RULES,
+  HIGH_RISK_ZONES,
+  RISK_LEVEL_THRESHOLDS,
+} from '../config/risk-rules';
+import type {
+  Vessel,
+  TrackPoint,
+  DarkPeriod,
+  RendezvousEvent,
+  RiskRule,
+  RiskCondition,
+  RiskAssessment,
+  RiskLevel,
+  RiskOperator,
+} from '../types/maritime';
+
+export interface RiskContext {
+  history?: TrackPoint[];
+  darkPeriods?: DarkPeriod[];
+  rendezvous?: RendezvousEvent[];
+  now?: number;
+}
+
+type Facts = Record<string, unknown>;
+type RulesListener = (rules: RiskRule[]) => void;
+
+const STORAGE_KEY = 'maritime-monitor-risk-rules';
+
+const OPERATORS: RiskOperator[] = [
+  'eq',
+  'neq',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'in',
+  'notIn',
+  'exists',
+  'missing',
+  'matches',
+];
+
+class RiskEngine {
+  private rules: RiskRule[] = [];
+  private listeners: Set<RulesListener> = new Set();
+
+  constructor() {
+    this.rules = this.loadRules();
+  }
+
+  /**
+   * Score a single vessel
+   */
+  assess(vessel: Vessel, context: RiskContext = {}): RiskAssessment {
+    const facts = this.buildFacts(vessel, context);
+    const reasons: RiskAssessment['reasons'] = [];
+
+    this.rules
+      .filter((rule) => rule.enabled)
+      .forEach((rule) => {
+        if (this.matches(rule.condition, facts)) {
+          reasons.push({
+            ruleId: rule.id,
+            reason: this.formatReason(rule.reason, facts),
+            weight: rule.weight,
+          });
+        }
+      });
+
+    const score = Math.min(
+      100,
+      reasons.reduce((sum, r) => sum + r.weight, 0)
+    );
+
+    return {
+      mmsi: String(vessel.mmsi),
+      score,
+      level: this.levelFor(score),
+      reasons: reasons.sort((a, b) => b.weight - a.weight),
+      evaluatedAt: new Date(context.now ?? Date.now()),
+    };
+  }
+
+  /**
+   * Score a batch of vessels; `contextFor` supplies per-vessel history and events
+   */
+  assessAll(
+    vessels: Vessel[],
+    contextFor: (vessel: Vessel) => RiskContext = () => ({})
+  ): Record<string, RiskAssessment> {
+    const results: Record<string, RiskAssessment> = {};
+    vessels.forEach((vessel) => {
+      results[String(vessel.mmsi)] = this.assess(vessel, contextFor(vessel));
+    });
+    return results;
+  }
+
+  levelFor(score: number): RiskLevel {
+    if (score >= RISK_LEVEL_THRESHOLDS.high) return 'high';
+    if (score >= RISK_LEVEL_THRESHOLDS.medium) return 'medium';
+    return 'low';
+  }
+
+  // ============================================================
+  // Rule Management
+  // ============================================================
+
+  getRules(): RiskRule[] {
+    return this.rules.map((rule) => ({ ...rule }));
+  }
+
+  /**
+   * Replace the whole rule set (validated first)
+   */
+  setRules(rules: RiskRule[]): void {
+    rules.forEach((rule) => this.validateRule(rule));
+    this.rules = rules.map((rule) => ({ ...rule }));
+    this.saveRules();
+  }
+
+  /**
+   * Add a rule, or replace the rule with the same id
+   */
+  upsertRule(rule: RiskRule): void {
+    this.validateRule(rule);
+    const index = this.rules.findIndex((r) => r.id === rule.id);
+    if (index >= 0) {
+      this.rules[index] = { ...rule };
+    } else {
+      this.rules.push({ ...rule });
+    }
+    this.saveRules();
+  }
+
+  removeRule(id: string): void {
+    this.rules = this.rules.filter((r) => r.id !== id);
+    this.saveRules();
+  }
+
+  setRuleEnabled(id: string, enabled: boolean): void {
+    const rule = this.rules.find((r) => r.id === id);
+    if (!rule) return;
+    rule.enabled = enabled;
+    this.saveRules();
+  }
+
+  resetRules(): void {
+    this.setRules(DEFAULT_RISK_RULES);
+  }
+
+  exportRules(): string {
+    return JSON.stringify(this.rules, null, 2);
+  }
+
+  importRules(json: string): void {
+    const rules = JSON.parse(json);
+    if (!Array.isArray(rules)) {
+      throw new Error('Risk rules must be a JSON array');
+    }
+    this.setRules(rules);
+  }
+
+  /**
+   * Subscribe to rule changes
+   */
+  subscribe(listener: RulesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================================
+  // Evaluation
+  // ============================================================
+
+  /**
+   * Derive the facts rules are evaluated against
+   */
+  private buildFacts(vessel: Vessel, context: RiskContext): Facts {
+    const now = context.now ?? Date.now();
+    const facts: Facts = { ...vessel };
+    const position = vessel.position;
+
+    const reported = new Date(vessel.timestamp).getTime();
+    facts.ageMinutes = isNaN(reported) ? undefined : (now - reported) / 60000;
+
+    if (position) {
+      const { latitude, longitude } = position;
+      const distance = geography.distanceToCoastNm(latitude, longitude);
+      facts.distanceToCoastNm = isFinite(distance) ? Math.round(distance) : Infinity;
+      facts.onLand = geography.isOnLand(latitude, longitude);
+      facts.inPortArea = geography.isInPortArea(latitude, longitude);
+      facts.openOcean = !facts.onLand && !facts.inPortArea && distance > 12;
+      facts.nearestPort = geography.nearestPort(latitude, longitude)?.port.name;
+      facts.highRiskZone = HIGH_RISK_ZONES.find(
+        (z) =>
+          latitude >= z.bounds.minLat &&
+          latitude <= z.bounds.maxLat &&
+          longitude >= z.bounds.minLon &&
+          longitude <= z.bounds.maxLon
+      )?.name;
+    }
+
+    const history = context.history || [];
+    facts.trackPoints = history.length;
+    if (history.length > 1) {
+      const span = history[history.length - 1].timestamp.getTime() - history[0].timestamp.getTime();
+      facts.trackHours = Math.round((span / 3600000) * 10) / 10;
+      facts.trackMaxSpeed = Math.max(...history.map((p) => p.speed));
+      facts.trackAvgSpeed = history.reduce((sum, p) => sum + p.speed, 0) / history.length;
+    } else {
+      facts.trackHours = 0;
+    }
+
+    const darkPeriods = context.darkPeriods || [];
+    facts.darkPeriodCount = darkPeriods.length;
+    facts.impossibleGapCount = darkPeriods.filter((g) => g.impossible).length;
+    facts.longestDarkHours =
+      darkPeriods.length > 0
+        ? Math.max(...darkPeriods.map((g) => g.durationMinutes)) / 60
+        : 0;
+
+    facts.rendezvousCount = (context.rendezvous || []).filter((e) => !e.inPortArea).length;
+
+    const conflicts = vessel.conflicts || [];
+    facts.sourceCount = (vessel.sources || []).length;
+    facts.positionConflictCount = conflicts.filter((c) => c.type === 'position').length;
+    facts.identityConflictCount = conflicts.filter((c) => c.type === 'identity').length;
+
+    return facts;
+  }
+
+  private matches(condition: RiskCondition, facts: Facts): boolean {
+    if ('all' in condition) return condition.all.every((c) => this.matches(c, facts));
+    if ('any' in condition) return condition.any.some((c) => this.matches(c, facts));
+    if ('not' in condition) return !this.matches(condition.not, facts);
+
+    const actual = this.readFact(facts, condition.fact);
+    const expected = condition.value;
+
+    switch (condition.op) {
+      case 'exists':
+        return actual !== undefined && actual !== null && actual !== '';
+      case 'missing':
+        return actual === undefined || actual === null || actual === '';
+      case 'eq':
+        return actual === expected;
+      case 'neq':
+        return actual !== expected;
+      case 'lt':
+        return typeof actual === 'number' && actual < Number(expected);
+      case 'lte':
+        return typeof actual === 'number' && actual <= Number(expected);
+      case 'gt':
+        return typeof actual === 'number' && actual > Number(expected);
+      case 'gte':
+        return typeof actual === 'number' && actual >= Number(expected);
+      case 'in':
+        return Array.isArray(expected) && expected.includes(actual as string | number);
+      case 'notIn':
+        return Array.isArray(expected) && !expected.includes(actual as string | number);
+      case 'matches':
+        return typeof actual === 'string' && new RegExp(String(expected), 'i').test(actual);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Read a fact by dotted path (e.g. "position.latitude")
+   */
+  private readFact(facts: Facts, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, key) => {
+      if (value === null || value === undefined) return undefined;
+      return (value as Record<string, unknown>)[key];
+    }, facts);
+  }
+
+  private formatReason(template: string, facts: Facts): string {
+    return template.replace(/\{([\w.]+)\}/g, (_, path: string) => {
+      const value = this.readFact(facts, path);
+      if (typeof value === 'number') {
+        return isFinite(value) ? String(Math.round(value * 10) / 10) : '∞';
+      }
+      return value === undefined || value === null ? '?' : String(value);
+    });
+  }
+
+  /**
+   * Reject rules that would throw while scoring, so one bad import cannot
+   * break every assessment
+   */
+  private validateRule(rule: RiskRule): void {
+    if (!rule || typeof rule.id !== 'string' || !rule.id) {
+      throw new Error('Risk rule requires an id');
+    }
+    if (typeof rule.weight !== 'number' || rule.weight < 0 || rule.weight > 100) {
+      throw new Error(`Risk rule "${rule.id}": weight must be between 0 and 100`);
+    }
+    if (typeof rule.reason !== 'string') {
+      throw new Error(`Risk rule "${rule.id}": reason must be a string`);
+    }
+    this.validateCondition(rule.condition, rule.id);
+  }
+
+  private validateCondition(condition: unknown, ruleId: string): void {
+    const fail = (problem: string): never => {
+      throw new Error(`Risk rule "${ruleId}": ${problem}`);
+    };
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      fail('condition must be an object');
+    }
+
+    const c = condition as Record<string, unknown>;
+    if ('all' in c || 'any' in c) {
+      const children = 'all' in c ? c.all : c.any;
+      if (!Array.isArray(children)) fail('"all" and "any" must be arrays');
+      (children as unknown[]).forEach((child) => this.validateCondition(child, ruleId));
+      return;
+    }
+    if ('not' in c) {
+      this.validateCondition(c.not, ruleId);
+      return;
+    }
+
+    if (typeof c.fact !== 'string' || !c.fact) fail('condition needs a fact name');
+    if (!OPERATORS.includes(c.op as RiskOperator)) fail(`unknown operator "${String(c.op)}"`);
+    if ((c.op === 'in' || c.op === 'notIn') && !Array.isArray(c.value)) {
+      fail(`"${c.op}" needs an array value`);
+    }
+    if (c.op === 'matches') {
+      try {
+        new RegExp(String(c.value), 'i');
+      } catch {
+        fail(`invalid pattern "${String(c.value)}"`);
+      }
+    }
+  }
+
+  // ============================================================
+  // Persistence
+  // ============================================================
+
+  /**
+   * Saved rules, or the defaults when there are none or they no longer validate
+   */
+  private loadRules(): RiskRule[] {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved) {
+          const rules = JSON.parse(saved);
+          if (!Array.isArray(rules)) throw new Error('Risk rules must be a JSON array');
+          rules.forEach((rule) => this.validateRule(rule));
+          return rules;
+        }
+      } catch (error) {
+        console.error('[RiskEngine] Error loading rules, using the defaults:', error);
+      }
+    }
+    return DEFAULT_RISK_RULES.map((rule) => ({ ...rule }));
+  }
+
+  private saveRules(): void {
+    if (typeof localStorage !== 'undefined') {
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.rules));
+      } catch (error) {
+        console.error('[RiskEngine] Error saving rules:', error);
+      }
+    }
+    this.listeners.forEach((listener) => listener(this.getRules()));
+  }
+}
+
+// Shared instance so the security monitor, store filters and UI agree on scores
+export const riskEngine = new RiskEngine();
+export default RiskEngine;
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { array, date, number, object, oneOf, optional, parseRecords, SchemaError, string } from './schema';
+
+describe('schema', () => {
+  const position = object({
+    mmsi: string({ coerce: true, nonEmpty: true }),
+    latitude: number({ coerce: true, min: -90, max: 90 }),
+    speed: optional(number({ min: 0 }), 0),
+    seenAt: date({ unit: 's' }),
+    tags: optional(array(oneOf('dark', 'loitering'))),
+  });
+
+  it('parses, coerces and applies fallbacks', () => {
+    expect(position({ mmsi: 563000001, latitude: '1.25', seenAt: 1772359200, extra: true })).toEqual({
+      mmsi: '563000001',
+      latitude: 1.25,
+      speed: 0,
+      seenAt: new Date(1772359200 * 1000),
+    });
+  });
+
+  it('names the offending path in errors', () => {
+    expect(() => position({ mmsi: '1', latitude: 95, seenAt: 0 })).toThrow(
+      new SchemaError('latitude', 'expected a number between -90 and 90, got 95')
+    );
+    expect(() => position({ mmsi: '1', latitude: 0, seenAt: 0, tags: ['spoofed'] })).toThrow(
+      'tags[0]: expected one of dark, loitering, got "spoofed"'
+    );
+    expect(() => position({ mmsi: '1', latitude: 0, seenAt: 'soon' })).toThrow(
+      'seenAt: expected a date, got "soon"'
+    );
+  });
+
+  it('never lets NaN through', () => {
+    expect(() => number({ coerce: true })('abc')).toThrow(SchemaError);
+    expect(() => number()(NaN)).toThrow(SchemaError);
+    expect(() => number({ coerce: true })('')).toThrow(SchemaError);
+  });
+
+  it('keeps valid records and collects the rejected ones', () => {
+    const { records, rejected } = parseRecords(
+      [
+        { mmsi: '1', latitude: 1, seenAt: 0 },
+        { mmsi: '', latitude: 1, seenAt: 0 },
+        null,
+      ],
+      position,
+      'result'
+    );
+
+    expect(records.map((r) => r.mmsi)).toEqual(['1']);
+    expect(rejected.map((e) => e.path)).toEqual(['result[1].mmsi', 'result[2]']);
+    expect(() => parseRecords({}, position, 'result')).toThrow('result: expected an array, got object');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Schema
+ * Small runtime validators for untrusted input (vendor payloads, imported files).
+ * A parser returns a typed value or throws a SchemaError naming the offending path,
+ * so malformed data is rejected at the boundary instead of leaking NaN downstream.
+ */
+
+export class SchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, issue: string) {
+    super(`${path || 'value'}: ${issue}`);
+    this.name = 'SchemaError';
+    this.path = path;
+  }
+}
+
+export type Parser<T> = (value: unknown, path?: string) => T;
+export type Infer<P> = P extends Parser<infer T> ? T : never;
+
+type Shape = Record<string, Parser<unknown>>;
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  coerce?: boolean; // accept numeric strings
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'nothing';
+  if (typeof value === 'string') return `"${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'number') return String(value);
+  return Array.isArray(value) ? 'an array' : typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export function number(options: NumberOptions = {}): Parser<number> {
+  const { min, max, coerce = false } = options;
+  const range =
+    min !== undefined && max !== undefined
+      ? ` between ${min} and ${max}`
+      : min !== undefined
+        ? ` >= ${min}`
+        : max !== undefined
+          ? ` <= ${max}`
+          : '';
+
+  return (value, path = '') => {
+    const parsed =
+      coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (
+      typeof parsed !== 'number' ||
+      !isFinite(parsed) ||
+      (min !== undefined && parsed < min) ||
+      (max !== undefined && parsed > max)
+    ) {
+      throw new SchemaError(path, `expected a number${range}, got ${describe(value)}`);
+    }
+    return parsed;
+  };
+}
+
+export function string(options: { coerce?: boolean; nonEmpty?: boolean } = {}): Parser<string> {
+  return (value, path = '') => {
+    const parsed = options.coerce && typeof value === 'number' && isFinite(value) ? String(value) : value;
+    if (typeof parsed !== 'string' || (options.nonEmpty && parsed.trim() === '')) {
+      throw new SchemaError(
+        path,
+        `expected ${options.nonEmpty ? 'a non-empty' : 'a'} string, got ${describe(value)}`
+      );
+    }
+    return parsed;
+  };
+}
+
+export function boolean(): Parser<boolean> {
+  return (value, path = '') => {
+    if (typeof value !== 'boolean') {
+      throw new SchemaError(path, `expected true or false, got ${describe(value)}`);
+    }
+    return value;
+  };
+}
+
+export function oneOf<T extends string | number>(...values: T[]): Parser<T> {
+  return (value, path = '') => {
+    if (!values.includes(value as T)) {
+      throw new SchemaError(path, `expected one of ${values.join(', ')}, got ${describe(value)}`);
+    }
+    return value as T;
+  };
+}
+
+/**
+ * A point in time: a Date, an ISO/RFC date string, or epoch milliseconds
+ * (epoch seconds with `unit: 's'`)
+ */
+export function date(options: { unit?: 'ms' | 's' } = {}): Parser<Date> {
+  const factor = options.unit === 's' ? 1000 : 1;
+  return (value, path = '') => {
+    let parsed: Date | null = null;
+    if (value instanceof Date) parsed = new Date(value.getTime());
+    else if (typeof value === 'number') parsed = new Date(value * factor);
+    else if (typeof value === 'string' && value.trim() !== '') parsed = new Date(value);
+
+    if (!parsed || isNaN(parsed.getTime())) {
+      throw new SchemaError(path, `expected a date, got ${describe(value)}`);
+    }
+    return parsed;
+  };
+}
+
+/**
+ * Any value, left for a later parser (e.g. a record list checked with parseRecords)
+ */
+export function unknown(): Parser<unknown> {
+  return (value) => value;
+}
+
+/**
+ * Accept null/undefined, returning the fallback (if any) instead
+ */
+export function optional<T>(parser: Parser<T>): Parser<T | undefined>;
+export function optional<T>(parser: Parser<T>, fallback: T): Parser<T>;
+export function optional<T>(parser: Parser<T>, fallback?: T): Parser<T | undefined> {
+  return (value, path = '') => (value === null || value === undefined ? fallback : parser(value, path));
+}
+
+export function array<T>(item: Parser<T>): Parser<T[]> {
+  return (value, path = '') => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, `expected an array, got ${describe(value)}`);
+    }
+    return value.map((entry, i) => item(entry, join(path, i)));
+  };
+}
+
+/**
+ * Plain object with the given fields; undeclared fields are dropped and
+ * optional fields that are absent are left out
+ */
+export function object<S extends Shape>(shape: S): Parser<ObjectOf<S>> {
+  return (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, `expected an object, got ${describe(value)}`);
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    Object.entries(shape).forEach(([key, parser]) => {
+      const parsed = parser(input[key], join(path, key));
+      if (parsed !== undefined) result[key] = parsed;
+    });
+    return result as ObjectOf<S>;
+  };
+}
+
+/**
+ * Validate a list of records, keeping the valid ones and collecting the
+ * errors of the rest (one bad vessel should not discard a whole response)
+ */
+export function parseRecords<T>(
+  value: unknown,
+  parser: Parser<T>,
+  path = ''
+): { records: T[]; rejected: SchemaError[] } {
+  if (!Array.isArray(value)) {
+    throw new SchemaError(path, `expected an array, got ${describe(value)}`);
+  }
+
+  const records: T[] = [];
+  const rejected: SchemaError[] = [];
+  value.forEach((entry, i) => {
+    try {
+      records.push(parser(entry, join(path, i)));
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      rejected.push(error);
+    }
+  });
+  return { records, rejected };
+}
@@ -0,0 +1,540 @@
+/**
+ * Maritime Simulation
+ * Deterministic synthetic world for offline development: vessels transiting
+ * shipping lanes, drifting weather cells and incident reports in known
+ * hotspots. Everything is a pure function of (seed, time), so two runs with the
+ * same seed show the same ships in the same places at the same moment.
+ */
+
+import { bearing, destinationPoint, distanceNm } from './geo';
+import {
+  INCIDENT_HOTSPOTS,
+  SHIPPING_LANES,
+  SIMULATION_DEFAULTS,
+  type ShippingLane,
+} from '../config/simulation';
+import type { MapBounds } from '../types/maritime';
+
+export interface SimulationOptions {
+  seed: number;
+  vesselCount: number;
+  weatherCells: number;
+  loiteringShare: number;
+  darkShare: number;
+}
+
+export interface SimulatedVessel {
+  mmsi: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  speed: number; // knots
+  course: number;
+  status: number; // AIS navigational status
+  timestamp: Date; // time of the last report
+}
+
+export interface SimulatedWeather {
+  latitude: number;
+  longitude: number;
+  time: Date;
+  conditionId: number; // OpenWeather condition code
+  main: string;
+  description: string;
+  temperature: number; // °C
+  humidity: number;
+  pressure: number; // hPa
+  windSpeed: number; // m/s
+  windDirection: number;
+  windGust: number;
+  clouds: number;
+  visibility: number; // metres
+  rain: number; // mm/h
+  waveHeight: number; // metres
+}
+
+export interface WeatherCell {
+  id: number;
+  latitude: number;
+  longitude: number;
+  radiusNm: number;
+  intensity: number; // 0-1
+}
+
+export interface SimulatedIncident {
+  id: string;
+  region: string;
+  description: string;
+  latitude: number;
+  longitude: number;
+  date: Date;
+}
+
+interface LaneGeometry {
+  lane: ShippingLane;
+  cumulative: number[]; // distance (nm) at each waypoint
+  length: number;
+}
+
+interface VesselSpec {
+  mmsi: string;
+  name: string;
+  speed: number;
+  lane?: LaneGeometry;
+  offsetNm: number;
+  lateralNm: number;
+  loiter?: { latitude: number; longitude: number; radiusNm: number };
+  dark?: { startHour: number; hours: number };
+}
+
+interface CellSpec {
+  latitude: number;
+  longitude: number;
+  latitudeSwing: number;
+  driftLon: number; // degrees per hour
+  radiusNm: number;
+  peakWind: number; // m/s added at the centre
+  pressureDrop: number;
+  periodHours: number;
+  phase: number;
+}
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+const REPORT_BUCKET_MS = 5 * 60000;
+
+// Fixed origin so positions depend only on the seed and the wall-clock time
+const SIMULATION_EPOCH = Date.UTC(2026, 0, 1);
+
+// Maritime identification digits of common flag states
+const MIDS = ['563', '636', '538', '357', '477', '412', '235', '366', '244', '311'];
+
+const NAME_PREFIXES = [
+  'OCEAN', 'PACIFIC', 'NORDIC', 'GOLDEN', 'STAR', 'ATLANTIC', 'EASTERN', 'SILVER', 'CORAL', 'GLOBAL',
+];
+const NAME_SUFFIXES = [
+  'PIONEER', 'HARMONY', 'SPIRIT', 'GLORY', 'TRADER', 'VOYAGER', 'ARROW', 'HORIZON', 'BREEZE', 'CROWN',
+];
+
+const INCIDENT_TEMPLATES = [
+  { weight: 5, text: 'Armed robbers boarded the anchored vessel and stole ship stores. Crew unharmed.' },
+  { weight: 6, text: 'Robbery of engine spares while the vessel was at anchor. Perpetrators escaped.' },
+  { weight: 5, text: 'Attempted boarding by perpetrators in a skiff. Ship increased speed and alarm was raised.' },
+  { weight: 4, text: 'Suspicious small craft approached the vessel. Craft moved away after crew mustered.' },
+  { weight: 3, text: 'Unauthorised persons sighted on deck. Nothing reported stolen.' },
+  { weight: 1, text: 'Vessel attacked by armed pirates and crew taken hostage.' },
+];
+
+/**
+ * Small fast PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive a stable 32-bit seed from any number of parts
+ */
+export function hashSeed(...parts: Array<string | number>): number {
+  let hash = 2166136261;
+  const text = parts.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+class MaritimeSimulation {
+  readonly options: SimulationOptions;
+  private lanes: LaneGeometry[];
+  private vessels: VesselSpec[];
+  private cells: CellSpec[];
+
+  constructor(options: Partial<SimulationOptions> = {}) {
+    this.options = { ...SIMULATION_DEFAULTS, ...options };
+    this.lanes = SHIPPING_LANES.map((lane) => this.measureLane(lane));
+    this.vessels = this.generateVessels();
+    this.cells = this.generateCells();
+  }
+
+  // ============================================================
+  // Vessels
+  // ============================================================
+
+  /**
+   * Last reported state of every vessel at `time`, optionally limited to bounds
+   */
+  vesselsAt(time: Date | number, bounds?: MapBounds): SimulatedVessel[] {
+    const now = new Date(time).getTime();
+    return this.vessels
+      .map((spec) => this.report(spec, now))
+      .filter((v) => !bounds || this.inBounds(v.latitude, v.longitude, bounds));
+  }
+
+  vessel(mmsi: string, time: Date | number): SimulatedVessel | null {
+    const spec = this.vessels.find((v) => v.mmsi === String(mmsi));
+    return spec ? this.report(spec, new Date(time).getTime()) : null;
+  }
+
+  private generateVessels(): VesselSpec[] {
+    const random = createRandom(hashSeed(this.options.seed, 'vessels'));
+    const totalTraffic = this.lanes.reduce((sum, l) => sum + l.lane.traffic, 0);
+    const used = new Set<string>();
+    const specs: VesselSpec[] = [];
+
+    for (let i = 0; i < this.options.vesselCount; i++) {
+      let mmsi = '';
+      do {
+        const mid = MIDS[Math.floor(random() * MIDS.length)];
+        mmsi = mid + String(Math.floor(random() * 1e6)).padStart(6, '0');
+      } while (used.has(mmsi));
+      used.add(mmsi);
+
+      // Pick a lane weighted by traffic
+      let pick = random() * totalTraffic;
+      const lane = this.lanes.find((l) => (pick -= l.lane.traffic) < 0) || this.lanes[0];
+
+      const name =
+        `${NAME_PREFIXES[Math.floor(random() * NAME_PREFIXES.length)]} ` +
+        `${NAME_SUFFIXES[Math.floor(random() * NAME_SUFFIXES.length)]}` +
+        (random() < 0.5 ? ` ${1 + Math.floor(random() * 9)}` : '');
+
+      const spec: VesselSpec = {
+        mmsi,
+        name,
+        speed: 10 + random() * 12,
+        lane,
+        offsetNm: random() * lane.length * 2,
+        lateralNm: (random() - 0.5) * 6,
+      };
+
+      if (random() < this.options.loiteringShare) {
+        const anchor = this.pointOnLane(lane, random() * lane.length);
+        const off = destinationPoint(
+          anchor.latitude,
+          anchor.longitude,
+          random() * 360,
+          20 + random() * 60
+        );
+        spec.loiter = { ...off, radiusNm: 1 + random() * 3 };
+        spec.speed = 0.3 + random() * 1.2;
+        delete spec.lane;
+      }
+
+      if (random() < this.options.darkShare) {
+        spec.dark = { startHour: Math.floor(random() * 24), hours: 3 + Math.floor(random() * 6) };
+      }
+
+      specs.push(spec);
+    }
+
+    return specs;
+  }
+
+  /**
+   * The report a receiver would hold at `now`: a few minutes old normally, and
+   * frozen at the start of the gap while the vessel is dark
+   */
+  private report(spec: VesselSpec, now: number): SimulatedVessel {
+    let reportedAt = now;
+
+    if (spec.dark) {
+      const hourOfDay = ((now - SIMULATION_EPOCH) % DAY_MS) / HOUR_MS;
+      const intoGap = (hourOfDay - spec.dark.startHour + 24) % 24;
+      if (intoGap < spec.dark.hours) {
+        reportedAt = now - intoGap * HOUR_MS;
+      }
+    }
+
+    if (reportedAt === now) {
+      const lag = createRandom(hashSeed(this.options.seed, spec.mmsi, Math.floor(now / REPORT_BUCKET_MS)));
+      reportedAt = now - Math.floor(lag() * 4 * 60000);
+    }
+
+    return { mmsi: spec.mmsi, name: spec.name, ...this.stateAt(spec, reportedAt), timestamp: new Date(reportedAt) };
+  }
+
+  private stateAt(
+    spec: VesselSpec,
+    time: number
+  ): Pick<SimulatedVessel, 'latitude' | 'longitude' | 'speed' | 'course' | 'status'> {
+    const hours = (time - SIMULATION_EPOCH) / HOUR_MS;
+
+    if (spec.loiter) {
+      // Slow circle around the loiter point
+      const circumference = 2 * Math.PI * spec.loiter.radiusNm;
+      const angle = ((spec.speed * hours) / circumference) * 360 + spec.offsetNm;
+      const position = destinationPoint(
+        spec.loiter.latitude,
+        spec.loiter.longitude,
+        angle % 360,
+        spec.loiter.radiusNm
+      );
+      return {
+        ...position,
+        speed: round(spec.speed, 1),
+        course: Math.round((angle + 90) % 360),
+        status: 0,
+      };
+    }
+
+    // Shuttle back and forth along the lane
+    const lane = spec.lane!;
+    const travelled = (spec.offsetNm + spec.speed * hours) % (lane.length * 2);
+    const outbound = travelled <= lane.length;
+    const along = outbound ? travelled : lane.length * 2 - travelled;
+    const point = this.pointOnLane(lane, along);
+    const course = outbound ? point.course : (point.course + 180) % 360;
+    const position = destinationPoint(point.latitude, point.longitude, course + 90, spec.lateralNm);
+
+    return {
+      ...position,
+      speed: round(spec.speed, 1),
+      course: Math.round(course),
+      status: 0,
+    };
+  }
+
+  private measureLane(lane: ShippingLane): LaneGeometry {
+    const cumulative = [0];
+    for (let i = 1; i < lane.waypoints.length; i++) {
+      const [lat1, lon1] = lane.waypoints[i - 1];
+      const [lat2, lon2] = lane.waypoints[i];
+      cumulative.push(cumulative[i - 1] + distanceNm(lat1, lon1, lat2, lon2));
+    }
+    return { lane, cumulative, length: cumulative[cumulative.length - 1] };
+  }
+
+  /**
+   * Point `distance` nm along a lane, with the course of that leg
+   */
+  private pointOnLane(
+    geometry: LaneGeometry,
+    distance: number
+  ): { latitude: number; longitude: number; course: number } {
+    const { waypoints } = geometry.lane;
+    let leg = geometry.cumulative.findIndex((d) => d > distance) - 1;
+    if (leg < 0) leg = waypoints.length - 2;
+
+    const [lat1, lon1] = waypoints[leg];
+    const [lat2, lon2] = waypoints[leg + 1];
+    const course = bearing(lat1, lon1, lat2, lon2);
+    const position = destinationPoint(lat1, lon1, course, distance - geometry.cumulative[leg]);
+    return { ...position, course };
+  }
+
+  // ============================================================
+  // Weather
+  // ============================================================
+
+  /**
+   * Storm cells and their current strength
+   */
+  weatherCellsAt(time: Date | number): WeatherCell[] {
+    const hours = (new Date(time).getTime() - SIMULATION_EPOCH) / HOUR_MS;
+    return this.cells.map((cell, id) => ({
+      id,
+      ...this.cellPosition(cell, hours),
+      radiusNm: cell.radiusNm,
+      intensity: this.cellIntensity(cell, hours),
+    }));
+  }
+
+  /**
+   * Conditions at a point: a latitude-driven baseline plus nearby storm cells
+   */
+  weatherAt(latitude: number, longitude: number, time: Date | number): SimulatedWeather {
+    const at = new Date(time).getTime();
+    const hours = (at - SIMULATION_EPOCH) / HOUR_MS;
+    const noise = createRandom(
+      hashSeed(this.options.seed, 'weather', Math.round(latitude), Math.round(longitude), Math.floor(hours))
+    );
+
+    // Strongest cell influence at this point
+    let influence = 0;
+    let strongest: { cell: CellSpec; latitude: number; longitude: number } | null = null;
+    for (const cell of this.cells) {
+      const centre = this.cellPosition(cell, hours);
+      const distance = distanceNm(latitude, longitude, centre.latitude, centre.longitude);
+      const value = this.cellIntensity(cell, hours) * Math.exp(-((distance / cell.radiusNm) ** 2));
+      if (value > influence) {
+        influence = value;
+        strongest = { cell, ...centre };
+      }
+    }
+
+    const windSpeed = 4 + noise() * 4 + influence * (strongest?.cell.peakWind ?? 0);
+
+    let windDirection: number;
+    if (strongest && influence > 0.2) {
+      // Circulation around the cell centre (anticlockwise in the north)
+      const { latitude: cLat, longitude: cLon } = strongest;
+      const fromCentre = bearing(cLat, cLon, latitude, longitude);
+      windDirection = (fromCentre + (latitude >= 0 ? 90 : -90) + 360) % 360;
+    } else {
+      // Trade winds in the tropics, westerlies further out
+      windDirection = (Math.abs(latitude) < 30 ? 90 : 270) + (noise() - 0.5) * 40;
+    }
+
+    const condition = this.condition(influence);
+    const pressureDrop = strongest?.cell.pressureDrop ?? 0;
+
+    return {
+      latitude,
+      longitude,
+      time: new Date(at),
+      ...condition,
+      temperature: round(28 - 0.3 * Math.abs(latitude) - influence * 3 + (noise() - 0.5) * 2, 1),
+      humidity: Math.round(Math.min(100, 65 + influence * 30 + noise() * 5)),
+      pressure: Math.round(1013 + (noise() - 0.5) * 6 - influence * pressureDrop),
+      windSpeed: round(windSpeed, 1),
+      windDirection: Math.round((windDirection + 360) % 360),
+      windGust: round(windSpeed * (1.3 + noise() * 0.3), 1),
+      clouds: Math.round(Math.min(100, 15 + influence * 85)),
+      visibility: Math.round(10000 - influence * 8000),
+      rain: influence > 0.3 ? round(influence * 12, 1) : 0,
+      waveHeight: round(0.2 + 0.02 * windSpeed ** 2, 1),
+    };
+  }
+
+  private generateCells(): CellSpec[] {
+    const random = createRandom(hashSeed(this.options.seed, 'weather-cells'));
+    return Array.from({ length: this.options.weatherCells }, () => {
+      const latitude = (random() < 0.5 ? -1 : 1) * (8 + random() * 45);
+      return {
+        latitude,
+        longitude: random() * 360 - 180,
+        latitudeSwing: 2 + random() * 6,
+        // Tropical systems drift west, mid-latitude ones east
+        driftLon: (Math.abs(latitude) < 25 ? -1 : 1) * (0.1 + random() * 0.3),
+        radiusNm: 150 + random() * 400,
+        peakWind: 12 + random() * 20,
+        pressureDrop: 10 + random() * 35,
+        periodHours: 72 + random() * 96,
+        phase: random(),
+      };
+    });
+  }
+
+  private cellPosition(cell: CellSpec, hours: number): { latitude: number; longitude: number } {
+    return {
+      latitude: cell.latitude + cell.latitudeSwing * Math.sin((hours / cell.periodHours) * 2 * Math.PI),
+      longitude: ((((cell.longitude + cell.driftLon * hours + 180) % 360) + 360) % 360) - 180,
+    };
+  }
+
+  /**
+   * Cells build up and decay over their period
+   */
+  private cellIntensity(cell: CellSpec, hours: number): number {
+    return Math.sin(Math.PI * (hours / cell.periodHours + cell.phase)) ** 2;
+  }
+
+  private condition(influence: number): Pick<SimulatedWeather, 'conditionId' | 'main' | 'description'> {
+    if (influence < 0.1) return { conditionId: 800, main: 'Clear', description: 'clear sky' };
+    if (influence < 0.25) return { conditionId: 802, main: 'Clouds', description: 'scattered clouds' };
+    if (influence < 0.45) return { conditionId: 500, main: 'Rain', description: 'light rain' };
+    if (influence < 0.65) return { conditionId: 501, main: 'Rain', description: 'moderate rain' };
+    if (influence < 0.85) return { conditionId: 502, main: 'Rain', description: 'heavy intensity rain' };
+    return { conditionId: 202, main: 'Thunderstorm', description: 'thunderstorm with heavy rain' };
+  }
+
+  // ============================================================
+  // Incidents
+  // ============================================================
+
+  /**
+   * Incidents reported in the `days` before `time`, newest first
+   */
+  incidentsUntil(time: Date | number, days: number): SimulatedIncident[] {
+    const to = new Date(time).getTime();
+    const from = to - days * DAY_MS;
+    const incidents: SimulatedIncident[] = [];
+
+    for (
+      let day = Math.floor((from - SIMULATION_EPOCH) / DAY_MS);
+      day <= Math.floor((to - SIMULATION_EPOCH) / DAY_MS);
+      day++
+    ) {
+      incidents.push(
+        ...this.incidentsOnDay(day).filter((i) => {
+          const at = i.date.getTime();
+          return at > from && at <= to;
+        })
+      );
+    }
+
+    return incidents.sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  /**
+   * All incidents of one simulation day; generated in full so filtering never shifts the sequence
+   */
+  private incidentsOnDay(day: number): SimulatedIncident[] {
+    const random = createRandom(hashSeed(this.options.seed, 'incidents', day));
+    const dayStart = SIMULATION_EPOCH + day * DAY_MS;
+    const totalWeight = INCIDENT_TEMPLATES.reduce((sum, t) => sum + t.weight, 0);
+    const incidents: SimulatedIncident[] = [];
+
+    INCIDENT_HOTSPOTS.forEach((hotspot, h) => {
+      const count = poisson(hotspot.ratePerDay, random);
+      for (let k = 0; k < count; k++) {
+        const position = destinationPoint(
+          hotspot.latitude,
+          hotspot.longitude,
+          random() * 360,
+          Math.sqrt(random()) * hotspot.radiusNm
+        );
+
+        let pick = random() * totalWeight;
+        const template = INCIDENT_TEMPLATES.find((t) => (pick -= t.weight) < 0) || INCIDENT_TEMPLATES[0];
+
+        incidents.push({
+          id: `SIM-${day}-${h}-${k}`,
+          region: hotspot.name,
+          description: template.text,
+          latitude: round(position.latitude, 4),
+          longitude: round(position.longitude, 4),
+          date: new Date(dayStart + Math.floor(random() * DAY_MS)),
+        });
+      }
+    });
+
+    return incidents;
+  }
+
+  private inBounds(latitude: number, longitude: number, bounds: MapBounds): boolean {
+    return (
+      latitude >= bounds.minLat &&
+      latitude <= bounds.maxLat &&
+      longitude >= bounds.minLon &&
+      longitude <= bounds.maxLon
+    );
+  }
+}
+
+function poisson(lambda: number, random: () => number): number {
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export default MaritimeSimulation;
@@ -0,0 +1,115 @@
+/**
+ * Spatial Grid Index
+ * Buckets items into fixed lat/lon cells for fast proximity lookups
+ */
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+class GridIndex<T> {
+  private cells: Map<string, T[]> = new Map();
+  private cellSize: number;
+  private columns: number;
+
+  /**
+   * @param cellSize Cell edge in degrees
+   */
+  constructor(cellSize = 1) {
+    this.cellSize = cellSize;
+    this.columns = Math.round(360 / cellSize);
+  }
+
+  get size(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Insert an item at a point
+   */
+  insert(lat: number, lon: number, item: T): void {
+    this.addToCell(this.row(lat), this.column(lon), item);
+  }
+
+  /**
+   * Insert an item into every cell its bounding box touches
+   */
+  insertBox(box: BoundingBox, item: T): void {
+    const minRow = this.row(box.minLat);
+    const maxRow = this.row(box.maxLat);
+    const minCol = Math.floor((box.minLon + 180) / this.cellSize);
+    const maxCol = Math.floor((box.maxLon + 180) / this.cellSize);
+
+    for (let r = minRow; r <= maxRow; r++) {
+      for (let c = minCol; c <= maxCol; c++) {
+        this.addToCell(r, this.wrap(c), item);
+      }
+    }
+  }
+
+  /**
+   * Items in the cell containing the point
+   */
+  queryPoint(lat: number, lon: number): T[] {
+    return this.cells.get(this.key(this.row(lat), this.column(lon))) || [];
+  }
+
+  /**
+   * Items in the square ring of cells `ring` steps away from the point's cell
+   * (ring 0 is the cell itself). Longitude wraps across the antimeridian.
+   */
+  queryRing(lat: number, lon: number, ring: number): T[] {
+    const row = this.row(lat);
+    const col = this.column(lon);
+    const results: T[] = [];
+    const seen = new Set<string>();
+
+    for (let dr = -ring; dr <= ring; dr++) {
+      for (let dc = -ring; dc <= ring; dc++) {
+        if (Math.max(Math.abs(dr), Math.abs(dc)) !== ring) continue;
+        const key = this.key(row + dr, this.wrap(col + dc));
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const items = this.cells.get(key);
+        if (items) results.push(...items);
+      }
+    }
+
+    return results;
+  }
+
+  clear(): void {
+    this.cells.clear();
+  }
+
+  private row(lat: number): number {
+    return Math.floor((Math.max(-90, Math.min(90, lat)) + 90) / this.cellSize);
+  }
+
+  private column(lon: number): number {
+    return this.wrap(Math.floor((lon + 180) / this.cellSize));
+  }
+
+  private wrap(col: number): number {
+    return ((col % this.columns) + this.columns) % this.columns;
+  }
+
+  private key(row: number, col: number): string {
+    return `${row}_${col}`;
+  }
+
+  private addToCell(row: number, col: number, item: T): void {
+    const key = this.key(row, col);
+    const items = this.cells.get(key);
+    if (items) {
+      items.push(item);
+    } else {
+      this.cells.set(key, [item]);
+    }
+  }
+}
+
+export default GridIndex;
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import TilePlanner, { type Tile } from './tile-planner';
+import DataCache from './cache';
+import { flushPromises } from '../test/helpers';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+const SINGAPORE = { minLat: 0.5, maxLat: 2.5, minLon: 103.2, maxLon: 104.8 };
+
+describe('TilePlanner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const byKey = (tile: Tile) => Promise.resolve([tile.key]);
+
+  it('snaps the viewport to grid tiles, coarsening large views', () => {
+    const planner = new TilePlanner(byKey, { maxTiles: 16 });
+
+    expect(planner.plan(SINGAPORE).tiles.map((t) => t.key)).toEqual([
+      '1/90/283',
+      '1/90/284',
+      '1/91/283',
+      '1/91/284',
+      '1/92/283',
+      '1/92/284',
+    ]);
+    expect(planner.plan(SINGAPORE).tiles[0].bounds).toEqual({
+      minLat: 0,
+      maxLat: 1,
+      minLon: 103,
+      maxLon: 104,
+    });
+
+    const world = planner.plan({ minLat: -80, maxLat: 80, minLon: -200, maxLon: 200 }).tiles;
+    expect(world.length).toBeLessThanOrEqual(16);
+    expect(world[0].size).toBe(128);
+  });
+
+  it('fetches only missing or expired tiles', async () => {
+    const fetchTile = vi.fn(byKey);
+    const planner = new TilePlanner(fetchTile, { debounceMs: 0, ttlMs: 60 * 1000 });
+
+    await planner.load(SINGAPORE);
+    expect(fetchTile).toHaveBeenCalledTimes(6);
+
+    const panned = await planner.load({ ...SINGAPORE, minLon: 103.6, maxLon: 105.4 });
+    expect(fetchTile).toHaveBeenCalledTimes(9);
+    expect(panned.items).toHaveLength(9);
+
+    vi.advanceTimersByTime(60 * 1000);
+    await planner.load(SINGAPORE);
+    expect(fetchTile).toHaveBeenCalledTimes(15);
+  });
+
+  it('stays within the quota, nearest tiles first, serving stale data for the rest', async () => {
+    const fetchTile = vi.fn(byKey);
+    const planner = new TilePlanner(fetchTile, {
+      debounceMs: 0,
+      ttlMs: 60 * 1000,
+      quota: { maxRequests: 8, windowMs: 60 * 60 * 1000 },
+    });
+
+    await planner.load(SINGAPORE);
+    vi.advanceTimersByTime(60 * 1000);
+
+    const { items } = await planner.load(SINGAPORE);
+    expect(fetchTile).toHaveBeenCalledTimes(8);
+    expect(fetchTile.mock.calls.slice(6).map(([tile]) => tile.key)).toEqual(['1/91/283', '1/91/284']);
+    expect(items).toHaveLength(6);
+    expect(planner.getQuotaUsage()).toEqual({
+      used: 8,
+      limit: 8,
+      remaining: 0,
+      windowMs: 60 * 60 * 1000,
+      resetsAt: new Date(NOW + 60 * 60 * 1000),
+    });
+
+    vi.setSystemTime(NOW + 60 * 60 * 1000);
+    expect(planner.getQuotaUsage()).toMatchObject({ used: 2, remaining: 6 });
+  });
+
+  it('falls back to cached tiles and rejects only when there is nothing to show', async () => {
+    const fetchTile = vi.fn(byKey);
+    const planner = new TilePlanner(fetchTile, { debounceMs: 0, ttlMs: 60 * 1000 });
+    const tile = { minLat: 1.2, maxLat: 1.4, minLon: 103.7, maxLon: 103.9 };
+
+    fetchTile.mockRejectedValueOnce(new Error('503'));
+    await expect(planner.load(tile)).rejects.toThrow('503');
+
+    await planner.load(tile);
+    vi.advanceTimersByTime(60 * 1000);
+    fetchTile.mockRejectedValueOnce(new Error('503'));
+    expect((await planner.load(tile)).items).toEqual([['1/91/283']]);
+  });
+
+  it('coalesces calls made while panning into one load of the latest view', async () => {
+    const fetchTile = vi.fn(byKey);
+    const planner = new TilePlanner(fetchTile, { debounceMs: 300 });
+
+    const first = planner.load({ minLat: 10.2, maxLat: 10.4, minLon: 50.2, maxLon: 50.4 });
+    await vi.advanceTimersByTimeAsync(250);
+    const second = planner.load({ minLat: 1.2, maxLat: 1.4, minLon: 103.7, maxLon: 103.9 });
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(fetchTile).toHaveBeenCalledOnce();
+    expect(await first).toEqual(await second);
+    expect((await first).bounds.minLon).toBe(103.7);
+  });
+
+  it('shares a tile request already in flight', async () => {
+    let resolve: (items: string[]) => void = () => {};
+    const fetchTile = vi.fn(() => new Promise<string[]>((r) => (resolve = r)));
+    const planner = new TilePlanner(fetchTile, { debounceMs: 0 });
+    const tile = { minLat: 1.2, maxLat: 1.4, minLon: 103.7, maxLon: 103.9 };
+
+    const loads = [planner.load(tile), planner.load(tile)];
+    await flushPromises();
+    resolve(['fresh']);
+
+    expect((await Promise.all(loads)).map((l) => l.items)).toEqual([[['fresh']], [['fresh']]]);
+    expect(fetchTile).toHaveBeenCalledOnce();
+    expect(planner.getQuotaUsage().used).toBe(1);
+  });
+
+  it('serves expired tiles from a shared cache until its stale window ends', async () => {
+    const cache = new DataCache<string[]>({ name: 'tiles', ttlMs: 60 * 1000, staleWhileRevalidateMs: 60 * 1000 });
+    const fetchTile = vi.fn(byKey);
+    const planner = new TilePlanner(fetchTile, {
+      debounceMs: 0,
+      cache,
+      quota: { maxRequests: 1, windowMs: 60 * 60 * 1000 },
+    });
+    const tile = { minLat: 1.2, maxLat: 1.4, minLon: 103.7, maxLon: 103.9 };
+
+    await planner.load(tile);
+    vi.advanceTimersByTime(90 * 1000);
+    expect((await planner.load(tile)).items).toEqual([['1/91/283']]);
+
+    vi.advanceTimersByTime(30 * 1000);
+    expect((await planner.load(tile)).items).toEqual([]);
+    expect(cache.getStats()).toMatchObject({ hits: 0, staleHits: 1, misses: 2, size: 0 });
+  });
+
+  it('counts tiles fetched by a load as misses and cached ones as hits', async () => {
+    const cache = new DataCache<string[]>({ name: 'tiles', ttlMs: 60 * 1000 });
+    const planner = new TilePlanner(byKey, { debounceMs: 0, cache });
+    const tile = { minLat: 1.2, maxLat: 1.4, minLon: 103.7, maxLon: 103.9 };
+
+    await planner.load(tile);
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1, hitRate: 0 });
+
+    await planner.load(tile);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Tile Planner
+ * Snaps a viewport to a fixed lat/lon tile grid so requests are made per tile
+ * (and cached per tile) instead of per exact viewport. Only missing or expired
+ * tiles are fetched, bursts of calls (continuous panning) are debounced, and
+ * fetches are planned within a request quota; tiles over quota keep serving
+ * their previous data while the cache still holds it.
+ */
+
+import type { BoundingBox } from './spatial-index';
+import DataCache from './cache';
+
+export interface Tile {
+  key: string;
+  size: number; // degrees
+  row: number;
+  col: number;
+  bounds: BoundingBox;
+}
+
+export interface TilePlan {
+  tiles: Tile[]; // every tile covering the viewport
+  fetch: Tile[]; // missing or expired tiles to request now, nearest the centre first
+  deferred: Tile[]; // missing or expired tiles left out to stay within the quota
+}
+
+export interface TileLoad<T> {
+  bounds: BoundingBox; // viewport actually loaded (the latest one when calls were coalesced)
+  items: T[][]; // one array per covering tile that has data
+}
+
+export interface QuotaUsage {
+  used: number; // tile requests in the current window
+  limit: number; // Infinity when unlimited
+  remaining: number;
+  windowMs: number;
+  resetsAt: Date | null; // when the oldest counted request leaves the window
+}
+
+interface PlannerOptions<T> {
+  tileSize?: number; // degrees at the finest level
+  maxTiles?: number; // per viewport; coarser levels (doubling the size) are used beyond it
+  ttlMs?: number; // ignored when a cache is given
+  debounceMs?: number;
+  quota?: { maxRequests: number; windowMs: number };
+  cache?: DataCache<T[]>; // tile items by key; expired tiles are kept for its stale window
+}
+
+interface PendingLoad<T> {
+  bounds: BoundingBox;
+  force: boolean;
+  timer: ReturnType<typeof setTimeout>;
+  waiters: Array<{ resolve: (load: TileLoad<T>) => void; reject: (error: unknown) => void }>;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+class TilePlanner<T> {
+  private fetchTile: (tile: Tile) => Promise<T[]>;
+  private tileSize: number;
+  private maxTiles: number;
+  private debounceMs: number;
+  private quota: { maxRequests: number; windowMs: number };
+  private cache: DataCache<T[]>;
+  private inFlight: Map<string, Promise<T[]>> = new Map();
+  private requestTimes: number[] = [];
+  private pending: PendingLoad<T> | null = null;
+
+  constructor(fetchTile: (tile: Tile) => Promise<T[]>, options: PlannerOptions<T> = {}) {
+    this.fetchTile = fetchTile;
+    this.tileSize = options.tileSize ?? 1;
+    this.maxTiles = options.maxTiles ?? 16;
+    this.cache =
+      options.cache ||
+      new DataCache({ name: 'tiles', ttlMs: options.ttlMs ?? 5 * 60 * 1000, staleWhileRevalidateMs: HOUR });
+    this.debounceMs = options.debounceMs ?? 400;
+    this.quota = options.quota ?? { maxRequests: Infinity, windowMs: HOUR };
+  }
+
+  /**
+   * Tiles covering `bounds` and which of them to fetch now
+   */
+  plan(bounds: BoundingBox, force = false): TilePlan {
+    const tiles = this.tilesFor(bounds);
+    const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+    const centerLon = (bounds.minLon + bounds.maxLon) / 2;
+    const distance = (tile: Tile) =>
+      ((tile.bounds.minLat + tile.bounds.maxLat) / 2 - centerLat) ** 2 +
+      ((tile.bounds.minLon + tile.bounds.maxLon) / 2 - centerLon) ** 2;
+
+    const stale = tiles
+      .filter((tile) => force || !this.cache.isFresh(tile.key))
+      .sort((a, b) => distance(a) - distance(b));
+    const remaining = this.getQuotaUsage().remaining;
+    return { tiles, fetch: stale.slice(0, remaining), deferred: stale.slice(remaining) };
+  }
+
+  /**
+   * Items of every tile covering `bounds`, fetching missing or expired tiles
+   * first. Calls within the debounce window are coalesced into one load of
+   * the latest bounds, which all of them receive.
+   */
+  load(bounds: BoundingBox, force = false): Promise<TileLoad<T>> {
+    if (this.debounceMs <= 0) return this.loadNow(bounds, force);
+
+    return new Promise((resolve, reject) => {
+      const waiters = this.pending?.waiters || [];
+      if (this.pending) clearTimeout(this.pending.timer);
+      waiters.push({ resolve, reject });
+
+      const pending: PendingLoad<T> = {
+        bounds,
+        force: force || Boolean(this.pending?.force),
+        waiters,
+        timer: setTimeout(() => {
+          this.pending = null;
+          this.loadNow(pending.bounds, pending.force).then(
+            (load) => pending.waiters.forEach((w) => w.resolve(load)),
+            (error) => pending.waiters.forEach((w) => w.reject(error))
+          );
+        }, this.debounceMs),
+      };
+      this.pending = pending;
+    });
+  }
+
+  getQuotaUsage(): QuotaUsage {
+    const { maxRequests, windowMs } = this.quota;
+    const now = Date.now();
+    this.requestTimes = this.requestTimes.filter((t) => now - t < windowMs);
+    const used = this.requestTimes.length;
+    return {
+      used,
+      limit: maxRequests,
+      remaining: Math.max(0, maxRequests - used),
+      windowMs,
+      resetsAt: used > 0 ? new Date(this.requestTimes[0] + windowMs) : null,
+    };
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Load without debouncing. Rejects only when every tile fetched failed and
+   * there is nothing cached to fall back on.
+   */
+  private async loadNow(bounds: BoundingBox, force: boolean): Promise<TileLoad<T>> {
+    await this.cache.ready();
+    const { tiles, fetch, deferred } = this.plan(bounds, force);
+    // Count each tile once, as the cache stood before this load fetched anything
+    tiles.forEach((tile) => this.cache.lookup(tile.key));
+    if (deferred.length > 0) {
+      const { resetsAt } = this.getQuotaUsage();
+      console.warn(
+        `[TilePlanner] Request quota reached; ${deferred.length} tiles kept stale` +
+          (resetsAt ? ` until ${resetsAt.toLocaleTimeString()}` : '')
+      );
+    }
+
+    const results = await Promise.allSettled(fetch.map((tile) => this.fetch(tile)));
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    const items = tiles
+      .map((tile) => this.cache.peek(tile.key))
+      .filter((tileItems): tileItems is T[] => tileItems !== undefined);
+    if (fetch.length > 0 && failures.length === fetch.length && items.length === 0) {
+      throw failures[0].reason;
+    }
+
+    return { bounds, items };
+  }
+
+  private fetch(tile: Tile): Promise<T[]> {
+    const existing = this.inFlight.get(tile.key);
+    if (existing) return existing;
+
+    this.requestTimes.push(Date.now());
+    const request = this.fetchTile(tile)
+      .then((items) => {
+        this.cache.set(tile.key, items);
+        return items;
+      })
+      .finally(() => this.inFlight.delete(tile.key));
+    this.inFlight.set(tile.key, request);
+    return request;
+  }
+
+  /**
+   * Tiles of the finest level that covers `bounds` with at most maxTiles tiles.
+   * Edges are exclusive, so a viewport on tile boundaries needs no neighbours.
+   */
+  private tilesFor(bounds: BoundingBox): Tile[] {
+    const minLat = Math.max(-90, bounds.minLat);
+    const maxLat = Math.min(90, bounds.maxLat);
+    const minLon = Math.max(-180, bounds.minLon);
+    const maxLon = Math.min(180, bounds.maxLon);
+
+    let size = this.tileSize;
+    const range = (min: number, max: number, origin: number) => {
+      const first = Math.floor((min - origin) / size);
+      const last = Math.max(first, Math.ceil((max - origin) / size) - 1);
+      return [first, last];
+    };
+
+    let [firstRow, lastRow] = range(minLat, maxLat, -90);
+    let [firstCol, lastCol] = range(minLon, maxLon, -180);
+    while ((lastRow - firstRow + 1) * (lastCol - firstCol + 1) > this.maxTiles && size < 360) {
+      size *= 2;
+      [firstRow, lastRow] = range(minLat, maxLat, -90);
+      [firstCol, lastCol] = range(minLon, maxLon, -180);
+    }
+
+    const tiles: Tile[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let col = firstCol; col <= lastCol; col++) {
+        tiles.push({
+          key: `${size}/${row}/${col}`,
+          size,
+          row,
+          col,
+          bounds: {
+            minLat: Math.max(-90, -90 + row * size),
+            maxLat: Math.min(90, -90 + (row + 1) * size),
+            minLon: Math.max(-180, -180 + col * size),
+            maxLon: Math.min(180, -180 + (col + 1) * size),
+          },
+        });
+      }
+    }
+    return tiles;
+  }
+}
+
+export default TilePlanner;
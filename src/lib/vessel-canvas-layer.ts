@@ -0,0 +1,129 @@
+/**
+ * Vessel Canvas Layer
+ * Draws vessels as heading glyphs on a single canvas instead of one DOM
+ * marker each. Only vessels inside the view are drawn; the controller
+ * supplies them (already dead-reckoned) on every redraw.
+ */
+
+import L from 'leaflet';
+
+export interface VesselGlyph {
+  id: string;
+  latitude: number;
+  longitude: number;
+  heading: number | null; // degrees; drawn as a dot when null (stopped or unknown)
+  color: string;
+  outline: string | null; // risk ring
+  faded: boolean; // stale projection
+}
+
+interface DrawnGlyph {
+  id: string;
+  x: number;
+  y: number;
+}
+
+const GLYPH_SIZE = 7; // px from centre to bow
+const HIT_TOLERANCE = 8; // px
+
+class VesselCanvasLayer extends L.Layer {
+  private canvas: HTMLCanvasElement | null = null;
+  private drawn: DrawnGlyph[] = [];
+  private getGlyphs: (bounds: L.LatLngBounds) => VesselGlyph[];
+
+  /**
+   * @param getGlyphs Vessels to draw within the given (padded) view bounds
+   */
+  constructor(getGlyphs: (bounds: L.LatLngBounds) => VesselGlyph[]) {
+    super();
+    this.getGlyphs = getGlyphs;
+  }
+
+  onAdd(map: L.Map): this {
+    this.canvas = L.DomUtil.create('canvas', 'vessel-canvas leaflet-zoom-hide') as HTMLCanvasElement;
+    map.getPanes().overlayPane.appendChild(this.canvas);
+    map.on('moveend resize', this.redraw, this);
+    this.redraw();
+    return this;
+  }
+
+  onRemove(map: L.Map): this {
+    map.off('moveend resize', this.redraw, this);
+    this.canvas?.remove();
+    this.canvas = null;
+    this.drawn = [];
+    return this;
+  }
+
+  /**
+   * Redraw every glyph in view
+   */
+  redraw(): this {
+    const map = this._map;
+    if (!map || !this.canvas) return this;
+
+    const size = map.getSize();
+    const ratio = window.devicePixelRatio || 1;
+    L.DomUtil.setPosition(this.canvas, map.containerPointToLayerPoint([0, 0]));
+    this.canvas.width = size.x * ratio;
+    this.canvas.height = size.y * ratio;
+    this.canvas.style.width = `${size.x}px`;
+    this.canvas.style.height = `${size.y}px`;
+
+    this.drawn = [];
+    const ctx = this.canvas.getContext('2d');
+    ctx?.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+    this.getGlyphs(map.getBounds().pad(0.05)).forEach((glyph) => {
+      const { x, y } = map.latLngToContainerPoint([glyph.latitude, glyph.longitude]);
+      if (x < -GLYPH_SIZE || y < -GLYPH_SIZE || x > size.x + GLYPH_SIZE || y > size.y + GLYPH_SIZE) {
+        return;
+      }
+      this.drawn.push({ id: glyph.id, x, y });
+      if (ctx) this.drawGlyph(ctx, glyph, x, y);
+    });
+    return this;
+  }
+
+  /**
+   * Id of the vessel drawn nearest to a container point, if within reach
+   */
+  vesselAt(point: L.Point): string | null {
+    let nearest: string | null = null;
+    let nearestDistance = HIT_TOLERANCE ** 2;
+    for (const glyph of this.drawn) {
+      const distance = (glyph.x - point.x) ** 2 + (glyph.y - point.y) ** 2;
+      if (distance <= nearestDistance) {
+        nearest = glyph.id;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private drawGlyph(ctx: CanvasRenderingContext2D, glyph: VesselGlyph, x: number, y: number): void {
+    ctx.save();
+    ctx.globalAlpha = glyph.faded ? 0.45 : 1;
+    ctx.translate(x, y);
+    ctx.beginPath();
+    if (glyph.heading === null) {
+      ctx.arc(0, 0, GLYPH_SIZE / 2, 0, Math.PI * 2);
+    } else {
+      // Arrowhead pointing along the heading (0° = north, clockwise)
+      ctx.rotate((glyph.heading * Math.PI) / 180);
+      ctx.moveTo(0, -GLYPH_SIZE);
+      ctx.lineTo(GLYPH_SIZE * 0.6, GLYPH_SIZE * 0.7);
+      ctx.lineTo(0, GLYPH_SIZE * 0.3);
+      ctx.lineTo(-GLYPH_SIZE * 0.6, GLYPH_SIZE * 0.7);
+      ctx.closePath();
+    }
+    ctx.fillStyle = glyph.color;
+    ctx.fill();
+    ctx.lineWidth = glyph.outline ? 2 : 1;
+    ctx.strokeStyle = glyph.outline || 'rgba(255, 255, 255, 0.8)';
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+export default VesselCanvasLayer;
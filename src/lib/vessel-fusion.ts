@@ -0,0 +1,237 @@
+/**
+ * Vessel Fusion
+ * Merges reports of the same ship from several sources (keyed by MMSI, or IMO
+ * when no MMSI is known). The freshest report supplies the position, static
+ * data is taken from the highest-priority source that has it, and reports that
+ * disagree beyond what is physically possible are flagged as conflicts.
+ */
+
+import { distanceNm } from './geo';
+import type { Vessel, VesselConflict } from '../types/maritime';
+
+export interface SourcedReport {
+  vessel: Vessel;
+  sourceId: string;
+  priority: number; // lower wins for static data
+}
+
+export interface FusionOptions {
+  maxPlausibleSpeed: number; // knots between two reports before they conflict
+  minConflictDistance: number; // nm; smaller disagreements are treated as GPS noise
+}
+
+const DEFAULT_OPTIONS: FusionOptions = {
+  maxPlausibleSpeed: 40,
+  minConflictDistance: 1,
+};
+
+// Fields taken from the freshest report
+const DYNAMIC_FIELDS = ['position', 'heading', 'course', 'speed', 'timestamp', 'status'];
+
+// Values that carry no identity information
+const PLACEHOLDER_NAMES = new Set(['', 'unknown', 'unknown vessel']);
+
+/**
+ * Fusion key for a vessel: MMSI first, IMO as a fallback
+ */
+export function fusionKey(vessel: Vessel): string | null {
+  if (vessel.mmsi) return `mmsi:${vessel.mmsi}`;
+  if (vessel.imo) return `imo:${vessel.imo}`;
+  return null;
+}
+
+/**
+ * Fuse reports from any number of sources into one record per ship
+ */
+export function fuseReports(
+  reports: SourcedReport[],
+  options: Partial<FusionOptions> = {}
+): Vessel[] {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const groups: Map<string, SourcedReport[]> = new Map();
+  const imoToKey: Map<string, string> = new Map();
+  const unkeyed: Vessel[] = [];
+
+  // Reports carrying both identifiers come first so IMO-only reports can join them
+  const ordered = [...reports].sort(
+    (a, b) => Number(!(a.vessel.mmsi && a.vessel.imo)) - Number(!(b.vessel.mmsi && b.vessel.imo))
+  );
+
+  ordered.forEach((report) => {
+    const { vessel } = report;
+    let key = fusionKey(vessel);
+    if (!key) {
+      unkeyed.push(vessel);
+      return;
+    }
+
+    if (!vessel.mmsi && vessel.imo && imoToKey.has(String(vessel.imo))) {
+      key = imoToKey.get(String(vessel.imo))!;
+    } else if (vessel.mmsi && vessel.imo && !imoToKey.has(String(vessel.imo))) {
+      imoToKey.set(String(vessel.imo), key);
+    }
+
+    const group = groups.get(key);
+    if (group) {
+      group.push(report);
+    } else {
+      groups.set(key, [report]);
+    }
+  });
+
+  return [
+    ...Array.from(groups.values()).map((group) => mergeGroup(group, config)),
+    ...unkeyed,
+  ];
+}
+
+/**
+ * Merge the reports of one ship
+ */
+function mergeGroup(group: SourcedReport[], config: FusionOptions): Vessel {
+  if (group.length === 1 && !group[0].vessel.sources) {
+    const { vessel, sourceId } = group[0];
+    return { ...vessel, sources: [sourceId] };
+  }
+
+  const byFreshness = [...group].sort((a, b) => timeOf(b.vessel) - timeOf(a.vessel));
+  const byPriority = [...group].sort(
+    (a, b) => a.priority - b.priority || timeOf(b.vessel) - timeOf(a.vessel)
+  );
+  const freshest = byFreshness[0].vessel;
+
+  // Static data: first non-empty value in priority order
+  const fused: Record<string, unknown> = {};
+  byPriority.forEach(({ vessel }) => {
+    Object.entries(vessel).forEach(([field, value]) => {
+      if (DYNAMIC_FIELDS.includes(field) || field === 'sources' || field === 'conflicts') return;
+      if (fused[field] === undefined && hasValue(field, value)) {
+        fused[field] = value;
+      }
+    });
+  });
+
+  if (fused.name === undefined && freshest.name !== undefined) {
+    fused.name = freshest.name;
+  }
+
+  // Dynamic data: the freshest report
+  DYNAMIC_FIELDS.forEach((field) => {
+    const value = (freshest as unknown as Record<string, unknown>)[field];
+    if (value !== undefined) fused[field] = value;
+  });
+
+  const sources = unique(group.flatMap((r) => r.vessel.sources || [r.sourceId]));
+  const conflicts = mergeConflicts(carriedConflicts(group), detectConflicts(group, config));
+
+  return {
+    ...(fused as unknown as Vessel),
+    sources,
+    ...(conflicts.length > 0 ? { conflicts } : {}),
+  };
+}
+
+/**
+ * Compare reports from different sources pairwise
+ */
+function detectConflicts(group: SourcedReport[], config: FusionOptions): VesselConflict[] {
+  const conflicts: VesselConflict[] = [];
+
+  for (let i = 0; i < group.length; i++) {
+    for (let j = i + 1; j < group.length; j++) {
+      const a = group[i];
+      const b = group[j];
+      const sourcesA = a.vessel.sources || [a.sourceId];
+      const sourcesB = b.vessel.sources || [b.sourceId];
+      if (sourcesA.join() === sourcesB.join()) continue;
+
+      const sources = unique([...sourcesA, ...sourcesB]);
+      const detectedAt = new Date(Math.max(timeOf(a.vessel), timeOf(b.vessel)) || Date.now());
+
+      if (a.vessel.position && b.vessel.position) {
+        const distance = distanceNm(
+          a.vessel.position.latitude,
+          a.vessel.position.longitude,
+          b.vessel.position.latitude,
+          b.vessel.position.longitude
+        );
+        const hours = Math.abs(timeOf(a.vessel) - timeOf(b.vessel)) / 3600000;
+        const impliedSpeed = hours > 0 ? distance / hours : Infinity;
+
+        if (distance >= config.minConflictDistance && impliedSpeed > config.maxPlausibleSpeed) {
+          conflicts.push({
+            type: 'position',
+            sources,
+            detail:
+              `${sources.join(' / ')} positions ${distance.toFixed(1)} nm apart ` +
+              `(${isFinite(impliedSpeed) ? `${impliedSpeed.toFixed(0)} kn implied` : 'same time'})`,
+            detectedAt,
+          });
+        }
+      }
+
+      const nameA = normalizeName(a.vessel.name);
+      const nameB = normalizeName(b.vessel.name);
+      if (nameA && nameB && nameA !== nameB) {
+        conflicts.push({
+          type: 'identity',
+          sources,
+          detail: `${sources.join(' / ')} report different names: "${a.vessel.name}" vs "${b.vessel.name}"`,
+          detectedAt,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Conflicts already on the reports, less those a newer report from one of their
+ * sources supersedes: that report is checked again by detectConflicts, so a
+ * conflict clears once its sources agree
+ */
+function carriedConflicts(group: SourcedReport[]): VesselConflict[] {
+  return group.flatMap((report) =>
+    (report.vessel.conflicts || []).filter((conflict) => {
+      const detectedAt = new Date(conflict.detectedAt).getTime();
+      return !group.some(
+        (other) =>
+          other !== report &&
+          timeOf(other.vessel) > detectedAt &&
+          (other.vessel.sources || [other.sourceId]).some((source) => conflict.sources.includes(source))
+      );
+    })
+  );
+}
+
+/**
+ * Combine conflict lists, keeping one entry per type and source set
+ */
+function mergeConflicts(existing: VesselConflict[], detected: VesselConflict[]): VesselConflict[] {
+  const merged: Map<string, VesselConflict> = new Map();
+  [...existing, ...detected].forEach((conflict) => {
+    merged.set(`${conflict.type}:${[...conflict.sources].sort().join()}`, conflict);
+  });
+  return Array.from(merged.values());
+}
+
+function timeOf(vessel: Vessel): number {
+  const time = new Date(vessel.timestamp).getTime();
+  return isNaN(time) ? 0 : time;
+}
+
+function hasValue(field: string, value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (field === 'name') return normalizeName(String(value)) !== '';
+  return true;
+}
+
+function normalizeName(name: string | undefined): string {
+  const normalized = (name || '').trim().toLowerCase().replace(/\s+/g, ' ');
+  return PLACEHOLDER_NAMES.has(normalized) ? '' : normalized;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,269 @@
+/**
+ * Vessel Panel
+ * Docked side panel for the selected vessel: position, particulars, a speed
+ * and course chart over its track, recent port calls, the risk assessment and
+ * incidents nearby. The app re-renders it as new data arrives. Closing it is
+ * dispatched as a `vesselPanelClose` window event.
+ */
+
+import type {
+  PortCall,
+  RiskAssessment,
+  SecurityIncident,
+  TrackPoint,
+  Vessel,
+} from '../types/maritime';
+
+export interface VesselPanelView {
+  vessel: Vessel; // latest report, with static data filled in from the vessel details
+  track: TrackPoint[]; // oldest first
+  trackHours: number;
+  portCalls: PortCall[]; // most recent first
+  risk: RiskAssessment | null;
+  incidents: Array<{ incident: SecurityIncident; distanceNm: number }>; // nearest first
+  incidentRadiusNm: number;
+}
+
+// AIS navigational status codes worth naming
+const NAV_STATUS: Record<number, string> = {
+  0: 'Under way using engine',
+  1: 'At anchor',
+  2: 'Not under command',
+  3: 'Restricted manoeuvrability',
+  4: 'Constrained by draught',
+  5: 'Moored',
+  6: 'Aground',
+  7: 'Engaged in fishing',
+  8: 'Under way sailing',
+};
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 90;
+
+function formatTime(date: Date): string {
+  return `${new Date(date).toISOString().replace('T', ' ').slice(0, 16)} UTC`;
+}
+
+function formatShortTime(date: Date): string {
+  return new Date(date).toISOString().slice(5, 16).replace('T', ' ');
+}
+
+function create<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  className: string,
+  parent?: HTMLElement,
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  parent?.appendChild(element);
+  return element;
+}
+
+class VesselPanel {
+  private root: HTMLElement;
+  private title: HTMLElement;
+  private subtitle: HTMLElement;
+  private body: HTMLElement;
+
+  constructor(parent: HTMLElement) {
+    this.root = create('aside', 'vessel-panel hidden', parent);
+    this.root.setAttribute('aria-label', 'Vessel details');
+
+    const header = create('header', 'vessel-panel__header', this.root);
+    const heading = create('div', '', header);
+    this.title = create('h2', 'vessel-panel__name', heading);
+    this.subtitle = create('div', 'vessel-panel__subtitle', heading);
+    const close = create('button', 'vessel-panel__close', header, '✕');
+    close.title = 'Close';
+    close.addEventListener('click', () => window.dispatchEvent(new CustomEvent('vesselPanelClose')));
+
+    this.body = create('div', 'vessel-panel__body', this.root);
+  }
+
+  show(view: VesselPanelView): void {
+    const { vessel } = view;
+    this.title.textContent = vessel.name;
+    this.subtitle.textContent = [vessel.type.replace(/_/g, ' '), vessel.flagState].filter(Boolean).join(' · ');
+
+    // Replaced in one step so the scroll position survives live updates
+    this.body.replaceChildren(
+      this.positionSection(vessel),
+      this.particularsSection(vessel),
+      this.chartSection(view.track, view.trackHours),
+      this.portCallSection(view.portCalls),
+      this.riskSection(view.risk),
+      this.incidentSection(view.incidents, view.incidentRadiusNm)
+    );
+
+    this.root.classList.remove('hidden');
+    document.body.classList.add('vessel-panel-open');
+  }
+
+  hide(): void {
+    this.root.classList.add('hidden');
+    document.body.classList.remove('vessel-panel-open');
+  }
+
+  destroy(): void {
+    this.hide();
+    this.root.remove();
+  }
+
+  private section(title: string): HTMLElement {
+    const section = create('section', 'vessel-panel__section');
+    create('h3', 'vessel-panel__heading', section, title);
+    return section;
+  }
+
+  private fields(section: HTMLElement, rows: Array<[string, string | undefined]>): void {
+    const list = create('dl', 'vessel-panel__fields', section);
+    rows.forEach(([label, value]) => {
+      create('dt', '', list, label);
+      create('dd', '', list, value || '—');
+    });
+  }
+
+  private positionSection(vessel: Vessel): HTMLElement {
+    const section = this.section('Position');
+    const { latitude, longitude } = vessel.position;
+    this.fields(section, [
+      ['Position', `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`],
+      ['Speed', `${vessel.speed.toFixed(1)} kn`],
+      ['Course', vessel.course !== undefined ? `${Math.round(vessel.course)}°` : undefined],
+      ['Heading', `${Math.round(vessel.heading)}°`],
+      ['Status', vessel.status !== undefined ? NAV_STATUS[vessel.status] : undefined],
+      ['Reported', formatTime(vessel.timestamp)],
+      ['Sources', (vessel.sources || [vessel.source]).join(', ')],
+    ]);
+    return section;
+  }
+
+  private particularsSection(vessel: Vessel): HTMLElement {
+    const section = this.section('Particulars');
+    const dimensions =
+      vessel.length || vessel.beam ? `${vessel.length ?? '?'} × ${vessel.beam ?? '?'} m` : undefined;
+    this.fields(section, [
+      ['MMSI', vessel.mmsi],
+      ['IMO', vessel.imo],
+      ['Call sign', vessel.callSign],
+      ['Flag', vessel.flagState],
+      ['Dimensions', dimensions],
+      ['Draught', vessel.draught ? `${vessel.draught} m` : undefined],
+      ['Destination', vessel.destination],
+      ['ETA', vessel.eta ? formatTime(vessel.eta) : undefined],
+    ]);
+    return section;
+  }
+
+  /**
+   * Speed as a line on a knots scale, course as dots on a 0-360° scale
+   */
+  private chartSection(track: TrackPoint[], hours: number): HTMLElement {
+    const section = this.section(`Speed and course, last ${hours} h`);
+    if (track.length < 2) {
+      create('p', 'vessel-panel__empty', section, 'Not enough reports yet');
+      return section;
+    }
+
+    const start = new Date(track[0].timestamp).getTime();
+    const end = new Date(track[track.length - 1].timestamp).getTime();
+    const span = Math.max(end - start, 1);
+    const maxSpeed = Math.max(5, Math.ceil(Math.max(...track.map((p) => p.speed)) / 5) * 5);
+    const x = (p: TrackPoint) => (((new Date(p.timestamp).getTime() - start) / span) * CHART_WIDTH).toFixed(1);
+    const y = (value: number, max: number) => (CHART_HEIGHT - (value / max) * CHART_HEIGHT).toFixed(1);
+
+    const speedLine = track.map((p) => `${x(p)},${y(p.speed, maxSpeed)}`).join(' ');
+    const courseDots = track
+      .map((p) => `<circle cx="${x(p)}" cy="${y(p.course ?? p.heading, 360)}" r="1.5" />`)
+      .join('');
+
+    // Only numbers and our own time labels go into the markup
+    const chart = create('div', 'vessel-panel__chart', section);
+    chart.innerHTML = `
+      <svg viewBox="-2 -10 ${CHART_WIDTH + 4} ${CHART_HEIGHT + 24}" role="img" aria-label="Speed and course over time">
+        <line class="vessel-panel__axis" x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" />
+        <g class="vessel-panel__course">${courseDots}</g>
+        <polyline class="vessel-panel__speed" points="${speedLine}" />
+        <text x="0" y="-2">${maxSpeed} kn</text>
+        <text x="${CHART_WIDTH}" y="-2" text-anchor="end">360°</text>
+        <text x="0" y="${CHART_HEIGHT + 12}">${formatShortTime(track[0].timestamp)}</text>
+        <text x="${CHART_WIDTH}" y="${CHART_HEIGHT + 12}" text-anchor="end">${formatShortTime(
+          track[track.length - 1].timestamp
+        )}</text>
+      </svg>
+    `;
+    const legend = create('div', 'vessel-panel__legend', section);
+    create('span', 'vessel-panel__legend-speed', legend, 'Speed');
+    create('span', 'vessel-panel__legend-course', legend, 'Course');
+    return section;
+  }
+
+  private portCallSection(calls: PortCall[]): HTMLElement {
+    const section = this.section('Recent port calls');
+    if (calls.length === 0) {
+      create('p', 'vessel-panel__empty', section, 'None in the loaded track');
+      return section;
+    }
+
+    const list = create('ul', 'vessel-panel__list', section);
+    calls.forEach((call) => {
+      const item = create('li', '', list);
+      create('div', '', item, `${call.port} (${call.unlocode})`);
+      create(
+        'div',
+        'vessel-panel__detail',
+        item,
+        call.departure
+          ? `${formatShortTime(call.arrival)} – ${formatShortTime(call.departure)}`
+          : `In port since ${formatShortTime(call.arrival)}`
+      );
+    });
+    return section;
+  }
+
+  private riskSection(risk: RiskAssessment | null): HTMLElement {
+    const section = this.section('Risk');
+    if (!risk) {
+      create('p', 'vessel-panel__empty', section, 'Not scored yet');
+      return section;
+    }
+
+    create('div', `vessel-panel__risk vessel-panel__risk--${risk.level}`, section, `${risk.level} · ${risk.score}/100`);
+    if (risk.reasons.length === 0) {
+      create('p', 'vessel-panel__empty', section, 'No rules matched');
+      return section;
+    }
+
+    const list = create('ul', 'vessel-panel__list', section);
+    risk.reasons.forEach((reason) => create('li', '', list, `${reason.reason} (+${reason.weight})`));
+    return section;
+  }
+
+  private incidentSection(
+    incidents: VesselPanelView['incidents'],
+    radiusNm: number
+  ): HTMLElement {
+    const section = this.section('Nearby incidents');
+    if (incidents.length === 0) {
+      create('p', 'vessel-panel__empty', section, `None within ${radiusNm} nm`);
+      return section;
+    }
+
+    const list = create('ul', 'vessel-panel__list', section);
+    incidents.forEach(({ incident, distanceNm }) => {
+      const item = create('li', '', list);
+      create('div', '', item, incident.description);
+      create(
+        'div',
+        `vessel-panel__detail vessel-panel__severity--${incident.severity}`,
+        item,
+        `${incident.type} · ${new Date(incident.date).toISOString().slice(0, 10)} · ${Math.round(distanceNm)} nm`
+      );
+    });
+    return section;
+  }
+}
+
+export default VesselPanel;
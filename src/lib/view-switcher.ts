@@ -0,0 +1,51 @@
+/**
+ * View Switcher
+ * Buttons for the map, list and dashboard view modes. A choice is dispatched
+ * as a `viewModeChange` window event; the app shows the matching view.
+ */
+
+import type { AppState } from '../store/maritime-store';
+
+type ViewMode = AppState['viewMode'];
+
+const MODES: Array<[ViewMode, string]> = [
+  ['map', 'Map'],
+  ['list', 'List'],
+  ['dashboard', 'Dashboard'],
+];
+
+class ViewSwitcher {
+  private root: HTMLElement;
+  private buttons = new Map<ViewMode, HTMLButtonElement>();
+
+  constructor(parent: HTMLElement) {
+    this.root = document.createElement('nav');
+    this.root.className = 'view-switcher';
+    this.root.setAttribute('aria-label', 'View');
+    parent.appendChild(this.root);
+
+    MODES.forEach(([mode, text]) => {
+      const button = document.createElement('button');
+      button.className = 'view-switcher__button';
+      button.textContent = text;
+      button.addEventListener('click', () => {
+        window.dispatchEvent(new CustomEvent('viewModeChange', { detail: mode }));
+      });
+      this.root.appendChild(button);
+      this.buttons.set(mode, button);
+    });
+  }
+
+  setMode(mode: ViewMode): void {
+    this.buttons.forEach((button, m) => {
+      button.classList.toggle('view-switcher__button--active', m === mode);
+      button.setAttribute('aria-pressed', String(m === mode));
+    });
+  }
+
+  destroy(): void {
+    this.root.remove();
+  }
+}
+
+export default ViewSwitcher;
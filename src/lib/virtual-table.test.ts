@@ -0,0 +1,95 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import VirtualTable from './virtual-table';
+
+interface Row {
+  id: string;
+  name: string;
+  speed: number;
+}
+
+const ROWS: Row[] = Array.from({ length: 1000 }, (_, i) => ({
+  id: String(i),
+  name: `Vessel ${String(i).padStart(4, '0')}`,
+  speed: i % 7,
+}));
+
+describe('VirtualTable', () => {
+  let parent: HTMLElement;
+  let onSelect: ReturnType<typeof vi.fn>;
+  let table: VirtualTable<Row>;
+
+  const viewport = () => parent.querySelector<HTMLElement>('.virtual-table__viewport')!;
+  const renderedNames = () =>
+    Array.from(parent.querySelectorAll('.virtual-table__row')).map((row) => row.firstChild!.textContent);
+
+  beforeEach(() => {
+    parent = document.createElement('div');
+    document.body.appendChild(parent);
+    onSelect = vi.fn();
+    table = new VirtualTable<Row>(parent, {
+      columns: [
+        { key: 'name', label: 'Name', width: '2fr', text: (r) => r.name },
+        { key: 'speed', label: 'Speed', width: '1fr', text: (r) => `${r.speed} kn`, sortValue: (r) => r.speed },
+      ],
+      rowKey: (r) => r.id,
+      onSelect,
+      rowHeight: 20,
+      overscan: 5,
+    });
+    // jsdom does no layout; give the viewport a height
+    Object.defineProperty(viewport(), 'clientHeight', { value: 200 });
+  });
+
+  afterEach(() => {
+    table.destroy();
+    parent.remove();
+  });
+
+  it('renders only the rows around the viewport', () => {
+    table.setRows(ROWS);
+
+    expect(parent.querySelector<HTMLElement>('.virtual-table__spacer')!.style.height).toBe('20000px');
+    expect(renderedNames()).toHaveLength(15); // 10 visible + 5 overscan below
+
+    viewport().scrollTop = 4000;
+    viewport().dispatchEvent(new Event('scroll'));
+
+    const names = renderedNames();
+    expect(names).toHaveLength(20);
+    expect(names[0]).toBe('Vessel 0195');
+    expect(parent.querySelector<HTMLElement>('.virtual-table__row')!.style.top).toBe('3900px');
+  });
+
+  it('sorts by a column and reverses on a second click', () => {
+    table.setRows(ROWS.slice(0, 8));
+    const speedHeading = parent.querySelectorAll<HTMLElement>('.virtual-table__heading')[1];
+
+    speedHeading.click();
+    expect(renderedNames().slice(0, 3)).toEqual(['Vessel 0000', 'Vessel 0007', 'Vessel 0001']);
+    expect(speedHeading.getAttribute('aria-sort')).toBe('ascending');
+
+    speedHeading.click();
+    expect(renderedNames()[0]).toBe('Vessel 0006');
+    expect(speedHeading.getAttribute('aria-sort')).toBe('descending');
+  });
+
+  it('selects clicked rows and highlights the selected key', () => {
+    table.setRows(ROWS.slice(0, 5));
+    table.setSelected('3');
+
+    const rows = parent.querySelectorAll<HTMLElement>('.virtual-table__row');
+    expect(rows[3].classList.contains('virtual-table__row--selected')).toBe(true);
+
+    (rows[2].lastChild as HTMLElement).click();
+    expect(onSelect).toHaveBeenCalledWith(ROWS[2]);
+  });
+
+  it('scrolls a row outside the viewport into view', () => {
+    table.setRows(ROWS);
+    table.scrollTo('500');
+
+    expect(viewport().scrollTop).toBe(9900);
+    expect(renderedNames()).toContain('Vessel 0500');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Virtual Table
+ * Sortable table that only renders the rows in view, so fleets of thousands
+ * of vessels scroll without building a row per record. Rows have a fixed
+ * height and are positioned inside a spacer as tall as the full table.
+ */
+
+export interface TableColumn<T> {
+  key: string;
+  label: string;
+  width: string; // CSS grid track, e.g. '2fr' or '90px'
+  text: (row: T) => string;
+  sortValue?: (row: T) => string | number; // defaults to the cell text
+  className?: (row: T) => string;
+}
+
+export interface TableSort {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+interface VirtualTableOptions<T> {
+  columns: TableColumn<T>[];
+  rowKey: (row: T) => string;
+  onSelect: (row: T) => void;
+  sort?: TableSort;
+  rowHeight?: number; // px
+  overscan?: number; // rows rendered above and below the viewport
+  emptyText?: string;
+}
+
+// Viewport assumed before the table has been laid out
+const FALLBACK_HEIGHT = 600;
+
+class VirtualTable<T> {
+  private root: HTMLElement;
+  private header: HTMLElement;
+  private viewport: HTMLElement;
+  private spacer: HTMLElement;
+  private empty: HTMLElement;
+  private options: Required<Omit<VirtualTableOptions<T>, 'sort'>>;
+  private sort: TableSort | null;
+  private rows: T[] = [];
+  private sorted: T[] = [];
+  private selectedKey: string | null = null;
+  private rendered = { first: -1, last: -1 };
+
+  constructor(parent: HTMLElement, options: VirtualTableOptions<T>) {
+    this.options = { rowHeight: 28, overscan: 10, emptyText: 'Nothing to show', ...options };
+    this.sort = options.sort || null;
+
+    const template = options.columns.map((c) => c.width).join(' ');
+    this.root = document.createElement('div');
+    this.root.className = 'virtual-table';
+    this.root.setAttribute('role', 'table');
+    this.root.style.setProperty('--virtual-table-columns', template);
+    parent.appendChild(this.root);
+
+    this.header = document.createElement('div');
+    this.header.className = 'virtual-table__header';
+    this.header.setAttribute('role', 'row');
+    this.root.appendChild(this.header);
+    options.columns.forEach((column) => {
+      const cell = document.createElement('button');
+      cell.className = 'virtual-table__heading';
+      cell.dataset.key = column.key;
+      cell.setAttribute('role', 'columnheader');
+      cell.textContent = column.label;
+      cell.addEventListener('click', () => this.toggleSort(column.key));
+      this.header.appendChild(cell);
+    });
+
+    this.viewport = document.createElement('div');
+    this.viewport.className = 'virtual-table__viewport';
+    this.viewport.addEventListener('scroll', () => this.renderRows());
+    this.viewport.addEventListener('click', (e) => this.onClick(e));
+    this.root.appendChild(this.viewport);
+
+    this.spacer = document.createElement('div');
+    this.spacer.className = 'virtual-table__spacer';
+    this.viewport.appendChild(this.spacer);
+
+    this.empty = document.createElement('div');
+    this.empty.className = 'virtual-table__empty hidden';
+    this.empty.textContent = this.options.emptyText;
+    this.root.appendChild(this.empty);
+
+    this.updateHeadings();
+  }
+
+  /**
+   * Replace the rows, keeping the sort and scroll position
+   */
+  setRows(rows: T[]): void {
+    this.rows = rows;
+    this.applySort();
+  }
+
+  /**
+   * Highlight the row with this key (null for none)
+   */
+  setSelected(key: string | null): void {
+    if (key === this.selectedKey) return;
+    this.selectedKey = key;
+    this.spacer.querySelectorAll<HTMLElement>('.virtual-table__row').forEach((row) => {
+      row.classList.toggle('virtual-table__row--selected', row.dataset.key === key);
+    });
+  }
+
+  /**
+   * Scroll the row with this key into view, if it is in the table
+   */
+  scrollTo(key: string): void {
+    const index = this.sorted.findIndex((row) => this.options.rowKey(row) === key);
+    if (index < 0) return;
+
+    const { rowHeight } = this.options;
+    const top = index * rowHeight;
+    const height = this.viewport.clientHeight || FALLBACK_HEIGHT;
+    if (top < this.viewport.scrollTop || top + rowHeight > this.viewport.scrollTop + height) {
+      this.viewport.scrollTop = Math.max(0, top - height / 2);
+      this.renderRows();
+    }
+  }
+
+  /**
+   * Re-render after the table was hidden or resized
+   */
+  refresh(): void {
+    this.renderRows(true);
+  }
+
+  destroy(): void {
+    this.root.remove();
+  }
+
+  private toggleSort(key: string): void {
+    this.sort =
+      this.sort?.key === key
+        ? { key, direction: this.sort.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: 'asc' };
+    this.updateHeadings();
+    this.applySort();
+  }
+
+  private updateHeadings(): void {
+    this.header.querySelectorAll<HTMLElement>('.virtual-table__heading').forEach((cell) => {
+      const sorted = this.sort?.key === cell.dataset.key;
+      cell.classList.toggle('virtual-table__heading--asc', sorted && this.sort!.direction === 'asc');
+      cell.classList.toggle('virtual-table__heading--desc', sorted && this.sort!.direction === 'desc');
+      cell.setAttribute(
+        'aria-sort',
+        sorted ? (this.sort!.direction === 'asc' ? 'ascending' : 'descending') : 'none'
+      );
+    });
+  }
+
+  private applySort(): void {
+    const column = this.options.columns.find((c) => c.key === this.sort?.key);
+    if (!column || !this.sort) {
+      this.sorted = this.rows;
+    } else {
+      const value = column.sortValue || column.text;
+      const sign = this.sort.direction === 'asc' ? 1 : -1;
+      // Sort keys computed once per row rather than per comparison
+      this.sorted = this.rows
+        .map((row) => ({ row, value: value(row) }))
+        .sort((a, b) => {
+          const order =
+            typeof a.value === 'number' && typeof b.value === 'number'
+              ? a.value - b.value
+              : String(a.value).localeCompare(String(b.value));
+          return order * sign;
+        })
+        .map(({ row }) => row);
+    }
+
+    this.spacer.style.height = `${this.sorted.length * this.options.rowHeight}px`;
+    this.empty.classList.toggle('hidden', this.sorted.length > 0);
+    this.renderRows(true);
+  }
+
+  /**
+   * Render the rows in and around the viewport; on scroll, only when that range changed
+   */
+  private renderRows(force = false): void {
+    const { rowHeight, overscan, columns, rowKey } = this.options;
+    const height = this.viewport.clientHeight || FALLBACK_HEIGHT;
+    const first = Math.max(0, Math.floor(this.viewport.scrollTop / rowHeight) - overscan);
+    const last = Math.min(
+      this.sorted.length,
+      Math.ceil((this.viewport.scrollTop + height) / rowHeight) + overscan
+    );
+    if (!force && first === this.rendered.first && last === this.rendered.last) return;
+    this.rendered = { first, last };
+
+    const rows = this.sorted.slice(first, last).map((row, i) => {
+      const key = rowKey(row);
+      const element = document.createElement('div');
+      element.className = 'virtual-table__row';
+      element.classList.toggle('virtual-table__row--selected', key === this.selectedKey);
+      element.dataset.key = key;
+      element.dataset.index = String(first + i);
+      element.setAttribute('role', 'row');
+      element.style.top = `${(first + i) * rowHeight}px`;
+      element.style.height = `${rowHeight}px`;
+
+      columns.forEach((column) => {
+        const cell = document.createElement('div');
+        cell.className = `virtual-table__cell ${column.className?.(row) || ''}`.trim();
+        cell.setAttribute('role', 'cell');
+        cell.textContent = column.text(row);
+        element.appendChild(cell);
+      });
+      return element;
+    });
+    this.spacer.replaceChildren(...rows);
+  }
+
+  private onClick(e: MouseEvent): void {
+    const element = (e.target as HTMLElement).closest<HTMLElement>('.virtual-table__row');
+    if (!element) return;
+    const row = this.sorted[Number(element.dataset.index)];
+    if (row) this.options.onSelect(row);
+  }
+}
+
+export default VirtualTable;
@@ -0,0 +1,199 @@
+/**
+ * AIS Receiver Service
+ * Feeds vessels from our own AIS receivers (raw NMEA) into the tracker
+ * Supports live WebSocket streams and offline replay of recorded logs
+ */
+
+import NmeaDecoder from '../lib/nmea-decoder';
+import type { Vessel } from '../types/maritime';
+
+type VesselListener = (vessels: Vessel[]) => void;
+
+interface ReceiverOptions {
+  flushInterval?: number; // ms between batched listener notifications
+  reconnectDelay?: number; // ms before reconnecting a dropped stream
+}
+
+interface ReplayOptions {
+  speed?: number; // playback multiplier, 0 = as fast as possible
+  signal?: AbortSignal;
+}
+
+class AisReceiverService {
+  private decoder: NmeaDecoder;
+  private listeners: Set<VesselListener> = new Set();
+  private pending: Map<string, Vessel> = new Map();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushInterval: number;
+  private reconnectDelay: number;
+  private socket: WebSocket | null = null;
+  private socketUrl: string | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: ReceiverOptions = {}) {
+    this.decoder = new NmeaDecoder();
+    this.flushInterval = options.flushInterval ?? 1000;
+    this.reconnectDelay = options.reconnectDelay ?? 5000;
+  }
+
+  /**
+   * Subscribe to batches of updated vessels
+   */
+  subscribe(listener: VesselListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connect to a WebSocket that streams NMEA lines (one or more per message)
+   */
+  connect(url: string): void {
+    this.disconnect();
+    this.socketUrl = url;
+    this.openSocket();
+  }
+
+  /**
+   * Close the live stream and stop reconnecting
+   */
+  disconnect(): void {
+    this.socketUrl = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  /**
+   * Decode a whole recorded log at once and return the resulting vessels
+   */
+  loadLog(text: string): Vessel[] {
+    const vessels = this.decoder.decodeText(text);
+    this.queue(vessels);
+    this.flush();
+    console.log(`[AisReceiver] Loaded ${vessels.length} vessels from log`);
+    return vessels;
+  }
+
+  /**
+   * Replay a recorded log, honouring tag-block timestamps scaled by `speed`.
+   * Lines without timestamps are emitted back-to-back.
+   */
+  async replayLog(text: string, options: ReplayOptions = {}): Promise<void> {
+    const speed = options.speed ?? 1;
+    const lines = text.split(/\r?\n/);
+    let previousTime: number | null = null;
+
+    for (const line of lines) {
+      if (options.signal?.aborted) break;
+
+      const vessel = this.decoder.decodeLine(line);
+      if (!vessel) continue;
+
+      const time = vessel.timestamp.getTime();
+      if (speed > 0 && previousTime !== null && time > previousTime) {
+        this.flush();
+        await new Promise((resolve) => setTimeout(resolve, (time - previousTime!) / speed));
+      }
+      previousTime = time;
+
+      this.queue([vessel]);
+    }
+
+    this.flush();
+    console.log('[AisReceiver] Replay finished');
+  }
+
+  /**
+   * Vessels decoded so far inside a bounding box
+   */
+  getVesselsInBounds(bounds: {
+    minLat: number;
+    maxLat: number;
+    minLon: number;
+    maxLon: number;
+  }): Vessel[] {
+    return this.decoder.getVessels().filter(
+      (v) =>
+        v.position.latitude >= bounds.minLat &&
+        v.position.latitude <= bounds.maxLat &&
+        v.position.longitude >= bounds.minLon &&
+        v.position.longitude <= bounds.maxLon
+    );
+  }
+
+  /**
+   * Decoder statistics plus connection state
+   */
+  getStats(): ReturnType<NmeaDecoder['getStats']> & { connected: boolean } {
+    return {
+      ...this.decoder.getStats(),
+      connected: this.socket?.readyState === WebSocket.OPEN,
+    };
+  }
+
+  /**
+   * Forget all decoded vessels
+   */
+  reset(): void {
+    this.decoder.reset();
+    this.pending.clear();
+  }
+
+  private openSocket(): void {
+    if (!this.socketUrl) return;
+
+    const socket = new WebSocket(this.socketUrl);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log(`[AisReceiver] Connected to ${this.socketUrl}`);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      this.queue(this.decoder.decodeText(event.data));
+      this.scheduleFlush();
+    };
+
+    socket.onerror = () => {
+      console.error('[AisReceiver] Stream error');
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.socketUrl) {
+        console.warn(`[AisReceiver] Stream closed, reconnecting in ${this.reconnectDelay}ms`);
+        this.reconnectTimer = setTimeout(() => this.openSocket(), this.reconnectDelay);
+      }
+    };
+  }
+
+  private queue(vessels: Vessel[]): void {
+    vessels.forEach((v) => this.pending.set(v.mmsi, { ...v }));
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, this.flushInterval);
+  }
+
+  private flush(): void {
+    if (this.pending.size === 0) return;
+    const batch = Array.from(this.pending.values());
+    this.pending.clear();
+    this.listeners.forEach((listener) => listener(batch));
+  }
+}
+
+export default AisReceiverService;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { humanitarianEvents, policyEvents, portStatusEvents, tradeRouteEvents } from './context-layers';
+import { incident, vessel } from '../test/helpers';
+import type { SecurityIncident, Vessel, WeatherData } from '../types/maritime';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+const SINGAPORE = { minLat: 0, maxLat: 3, minLon: 102, maxLon: 105 };
+
+// Moored or under way in the Singapore port area
+function report(mmsi: string, speed: number): Vessel {
+  return vessel({ mmsi, position: { latitude: 1.26, longitude: 103.84 }, speed, timestamp: new Date(NOW) });
+}
+
+function boarding(overrides: Partial<SecurityIncident> = {}): SecurityIncident {
+  return incident({
+    id: 'i1',
+    description: 'Robbers boarded a tanker',
+    longitude: 103.9,
+    date: new Date(NOW - 24 * 60 * 60 * 1000),
+    ...overrides,
+  });
+}
+
+describe('context layers', () => {
+  it('counts the vessels in each port area in view and flags congestion', () => {
+    const vessels = [...Array.from({ length: 9 }, (_, i) => report(`${i}`, 0)), report('9', 12)];
+    const weather = [{ latitude: 1.3, longitude: 103.8, description: 'light rain' } as WeatherData];
+
+    const events = portStatusEvents(SINGAPORE, vessels, weather, NOW);
+    expect(events.map((e) => e.id)).toEqual(['port-SGSIN', 'port-MYTPP', 'port-IDBTH']);
+
+    const [singapore, pelepas] = events;
+    expect(pelepas.data).toMatchObject({ status: 'operational', vesselCount: 0 });
+    expect(singapore.data).toMatchObject({
+      name: 'Singapore',
+      status: 'congested',
+      congestionLevel: 90,
+      vesselCount: 10,
+      weather: 'light rain',
+    });
+    expect(singapore.description).toBe('10 vessels in the port area, 9 stopped; light rain');
+  });
+
+  it('marks lanes in view disrupted by recent serious incidents along them', () => {
+    const lanes = (incidents: SecurityIncident[]) =>
+      tradeRouteEvents(SINGAPORE, incidents, NOW).find((e) => e.title === 'Asia - Europe via Suez')!;
+
+    expect(lanes([]).data).toMatchObject({ currentStatus: 'active' });
+    expect(lanes([boarding({ severity: 'low' })]).data).toMatchObject({ currentStatus: 'active' });
+    expect(lanes([boarding({ date: new Date(NOW - 60 * 24 * 60 * 60 * 1000) })]).data).toMatchObject({
+      currentStatus: 'active',
+    });
+
+    const disrupted = lanes([boarding({ severity: 'critical' })]);
+    expect(disrupted.severity).toBe('high');
+    expect(disrupted.data).toMatchObject({ currentStatus: 'disrupted', disruptions: ['Robbers boarded a tanker'] });
+  });
+
+  it('lists only the policies already in force', () => {
+    const ids = (now: string) => policyEvents(new Date(now).getTime()).map((e) => e.id);
+
+    expect(ids('2024-06-01')).toContain('policy-eu-ets-maritime');
+    expect(ids('2024-06-01')).not.toContain('policy-med-seca');
+    expect(ids('2025-06-01')).toContain('policy-med-seca');
+  });
+
+  it('takes humanitarian events from incidents in view that mention migrants or a rescue', () => {
+    const events = humanitarianEvents(SINGAPORE, [
+      boarding({ id: 'a', description: 'Boat carrying migrants sighted' }),
+      boarding({ id: 'b', description: 'Crew rescued after a fire' }),
+      boarding({ id: 'c' }),
+      boarding({ id: 'd', description: 'Refugees disembarked', latitude: 36, longitude: 15 }),
+    ]);
+
+    expect(events.map((e) => [e.id, (e.data as { status: string }).status])).toEqual([
+      ['humanitarian-a', 'reported'],
+      ['humanitarian-b', 'rescue'],
+    ]);
+  });
+});
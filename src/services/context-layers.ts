@@ -0,0 +1,227 @@
+/**
+ * Context Layers
+ * Events for the humanitarian, policy, trade route and port layers. There is
+ * no feed for these: they are derived from the bundled reference data and the
+ * vessels, weather and incidents already loaded for the map.
+ */
+
+import { MAJOR_PORTS } from '../config/ports';
+import { SHIPPING_LANES } from '../config/simulation';
+import { MARITIME_POLICIES } from '../config/maritime-policies';
+import { distanceNm, distanceToSegmentNm } from '../lib/geo';
+import type {
+  AlertSeverity,
+  MapBounds,
+  MaritimeEvent,
+  PortStatus,
+  RefugeeMovement,
+  SecurityIncident,
+  TradeRoute,
+  Vessel,
+  WeatherData,
+} from '../types/maritime';
+
+// Below this speed a vessel in a port area is waiting or alongside
+const STOPPED_KNOTS = 1;
+// Ports with at least this many vessels, most of them stopped, count as congested
+const CONGESTED_VESSELS = 10;
+const CONGESTED_LEVEL = 60;
+// Nearest observation used for a port's weather
+const PORT_WEATHER_NM = 100;
+
+// Serious incidents this close to a lane, this recently, disrupt it
+const LANE_INCIDENT_NM = 50;
+const LANE_INCIDENT_DAYS = 30;
+// Speed used for a lane's transit time
+const LANE_SPEED_KNOTS = 14;
+
+const HUMANITARIAN_PATTERN = /migrant|refugee|stowaway|rescue/i;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function inBounds(latitude: number, longitude: number, bounds: MapBounds): boolean {
+  return (
+    latitude >= bounds.minLat &&
+    latitude <= bounds.maxLat &&
+    longitude >= bounds.minLon &&
+    longitude <= bounds.maxLon
+  );
+}
+
+/**
+ * Ports in view, with the vessels in their port areas and the nearest weather
+ */
+export function portStatusEvents(
+  bounds: MapBounds,
+  vessels: Vessel[],
+  weather: WeatherData[],
+  now: number
+): MaritimeEvent[] {
+  return MAJOR_PORTS.filter((port) => inBounds(port.latitude, port.longitude, bounds)).map((port) => {
+    const inPort = vessels.filter(
+      (v) => distanceNm(port.latitude, port.longitude, v.position.latitude, v.position.longitude) <= port.radiusNm
+    );
+    const stopped = inPort.filter((v) => v.speed < STOPPED_KNOTS).length;
+    const congestionLevel = inPort.length ? Math.round((stopped / inPort.length) * 100) : 0;
+    const congested = inPort.length >= CONGESTED_VESSELS && congestionLevel >= CONGESTED_LEVEL;
+
+    const nearest = weather
+      .map((w) => ({ w, distance: distanceNm(port.latitude, port.longitude, w.latitude, w.longitude) }))
+      .filter(({ distance }) => distance <= PORT_WEATHER_NM)
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    const coordinates = { latitude: port.latitude, longitude: port.longitude };
+    const status: PortStatus = {
+      id: port.unlocode,
+      name: port.name,
+      coordinates,
+      country: port.country,
+      status: congested ? 'congested' : 'operational',
+      congestionLevel,
+      vesselCount: inPort.length,
+      avgWaitTime: 0, // not reported by any feed
+      weather: nearest?.w.description || '',
+      timestamp: new Date(now),
+      capacity: { current: inPort.length, maximum: 0 }, // maximum not known
+    };
+
+    return {
+      id: `port-${port.unlocode}`,
+      type: 'port_status',
+      timestamp: status.timestamp,
+      location: coordinates,
+      severity: congested ? 'medium' : 'low',
+      title: `${port.name} (${port.unlocode})`,
+      description:
+        `${inPort.length} vessels in the port area, ${stopped} stopped` +
+        (status.weather ? `; ${status.weather}` : ''),
+      data: status,
+      source: 'port-areas',
+      tags: [port.country, status.status],
+    };
+  });
+}
+
+/**
+ * Shipping lanes passing through the view, disrupted by recent serious incidents along them
+ */
+export function tradeRouteEvents(bounds: MapBounds, incidents: SecurityIncident[], now: number): MaritimeEvent[] {
+  const recent = incidents.filter(
+    (i) =>
+      (i.severity === 'critical' || i.severity === 'high') &&
+      now - new Date(i.date).getTime() <= LANE_INCIDENT_DAYS * DAY
+  );
+
+  return SHIPPING_LANES.flatMap((lane, index) => {
+    const shown = lane.waypoints.find(([lat, lon]) => inBounds(lat, lon, bounds));
+    if (!shown) return [];
+
+    // Segments hopping the antimeridian are open ocean; they are skipped rather than unwrapped
+    const segments = lane.waypoints
+      .slice(1)
+      .map((to, i): [[number, number], [number, number]] => [lane.waypoints[i], to])
+      .filter(([[, lon1], [, lon2]]) => Math.abs(lon2 - lon1) <= 180);
+    const disruptions = recent.filter((incident) =>
+      segments.some(
+        ([[lat1, lon1], [lat2, lon2]]) =>
+          distanceToSegmentNm(incident.latitude, incident.longitude, lat1, lon1, lat2, lon2) <= LANE_INCIDENT_NM
+      )
+    );
+    const lengthNm = segments.reduce(
+      (sum, [[lat1, lon1], [lat2, lon2]]) => sum + distanceNm(lat1, lon1, lat2, lon2),
+      0
+    );
+
+    const [origin, destination] = [lane.waypoints[0], lane.waypoints[lane.waypoints.length - 1]];
+    const route: TradeRoute = {
+      id: `lane-${index}`,
+      name: lane.name,
+      origin: { port: '', coordinates: { latitude: origin[0], longitude: origin[1] } },
+      destination: { port: '', coordinates: { latitude: destination[0], longitude: destination[1] } },
+      commodities: [],
+      volumePerYear: 0, // not known
+      estimatedTransitTime: Math.round(lengthNm / LANE_SPEED_KNOTS),
+      currentStatus: disruptions.length ? 'disrupted' : 'active',
+      disruptions: disruptions.map((i) => i.description),
+    };
+    const severity: AlertSeverity = disruptions.some((i) => i.severity === 'critical')
+      ? 'high'
+      : disruptions.length
+        ? 'medium'
+        : 'low';
+
+    return [
+      {
+        id: route.id,
+        type: 'trade_route',
+        timestamp: new Date(now),
+        location: { latitude: shown[0], longitude: shown[1] },
+        severity,
+        title: lane.name,
+        description: disruptions.length
+          ? `${disruptions.length} serious incidents near the lane in the last ${LANE_INCIDENT_DAYS} days`
+          : `About ${route.estimatedTransitTime} h end to end at ${LANE_SPEED_KNOTS} kn`,
+        data: route,
+        source: 'shipping-lanes',
+        tags: [route.currentStatus],
+      },
+    ];
+  });
+}
+
+/**
+ * Regulations in force from the bundled list
+ */
+export function policyEvents(now: number): MaritimeEvent[] {
+  return MARITIME_POLICIES.filter(({ policy }) => new Date(policy.effectiveDate).getTime() <= now).map(
+    ({ policy, location }) => {
+      const effectiveDate = new Date(policy.effectiveDate);
+      return {
+        id: `policy-${policy.id}`,
+        type: 'policy_update',
+        timestamp: effectiveDate,
+        location: { latitude: location[0], longitude: location[1] },
+        severity: 'low',
+        title: policy.title,
+        description: policy.description,
+        data: { ...policy, date: effectiveDate, effectiveDate },
+        source: policy.organization,
+        tags: [policy.type, ...policy.affectedRegions],
+      };
+    }
+  );
+}
+
+/**
+ * Incidents in view that involve migrants, refugees, stowaways or a rescue
+ */
+export function humanitarianEvents(bounds: MapBounds, incidents: SecurityIncident[]): MaritimeEvent[] {
+  return incidents
+    .filter((i) => inBounds(i.latitude, i.longitude, bounds) && HUMANITARIAN_PATTERN.test(i.description))
+    .map((incident) => {
+      const location = { latitude: incident.latitude, longitude: incident.longitude };
+      const movement: RefugeeMovement = {
+        id: incident.id,
+        date: new Date(incident.date),
+        departureLocation: location, // only the reported position is known
+        destinationLocation: location,
+        estimatedNumber: 0,
+        status: /rescue/i.test(incident.description) ? 'rescue' : 'reported',
+        severity: incident.severity,
+        description: incident.description,
+        source: incident.source,
+      };
+      return {
+        id: `humanitarian-${incident.id}`,
+        type: 'refugee_movement',
+        timestamp: movement.date,
+        location,
+        severity: incident.severity,
+        title: incident.location || 'Humanitarian incident',
+        description: incident.description,
+        data: movement,
+        source: incident.source,
+        tags: [movement.status],
+      };
+    });
+}
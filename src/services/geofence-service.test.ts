@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import GeofenceService from './geofence-service';
+
+const square = {
+  type: 'Feature',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [103, 1],
+        [104, 1],
+        [104, 2],
+        [103, 2],
+        [103, 1],
+      ],
+    ],
+  },
+  properties: { id: 'strait', name: 'Strait', createdAt: 'yesterday' },
+};
+
+describe('GeofenceService GeoJSON', () => {
+  beforeEach(() => {
+    // No localStorage in the node environment
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('rejects valid JSON that is not a feature or a collection of features', () => {
+    const service = new GeofenceService();
+
+    expect(() => service.importGeoJSON('null')).toThrow('Invalid GeoJSON');
+    expect(() => service.importGeoJSON('[]')).toThrow('Invalid GeoJSON');
+    expect(() => service.importGeoJSON('{"type": "FeatureCollection"}')).toThrow('Invalid GeoJSON');
+  });
+
+  it('skips features that are not objects and keeps exporting after a bad creation date', () => {
+    const service = new GeofenceService();
+
+    const count = service.importGeoJSON(JSON.stringify({ type: 'FeatureCollection', features: [null, 3, square] }));
+
+    expect(count).toBe(1);
+    expect(service.getGeofences()[0].createdAt.getTime()).not.toBeNaN();
+    const exported = JSON.parse(service.exportGeoJSON());
+    expect(exported.features.map((f: { properties: { id: string } }) => f.properties.id)).toEqual(['strait']);
+  });
+});
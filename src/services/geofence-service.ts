@@ -0,0 +1,321 @@
+/**
+ * Geofence Service
+ * Named polygon / circle / corridor zones with enter, exit and dwell detection
+ * Persists to localStorage and imports/exports GeoJSON
+ */
+
+import { distanceNm, distanceToSegmentNm, pointInPolygon } from '../lib/geo';
+import type { Geofence, GeofenceEvent, Vessel } from '../types/maritime';
+
+interface VesselFenceState {
+  inside: boolean;
+  enteredAt: number;
+  dwellAlerted: boolean;
+}
+
+type GeoJSONPosition = number[]; // [lon, lat] (an altitude may follow)
+
+type GeoJSONGeometry =
+  | { type: 'Polygon'; coordinates: GeoJSONPosition[][] }
+  | { type: 'Point'; coordinates: GeoJSONPosition }
+  | { type: 'LineString'; coordinates: GeoJSONPosition[] };
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: GeoJSONGeometry;
+  properties: Record<string, unknown>;
+}
+
+interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+const STORAGE_KEY = 'maritime-monitor-geofences';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+class GeofenceService {
+  private geofences: Map<string, Geofence> = new Map();
+  private vesselStates: Map<string, VesselFenceState> = new Map(); // `${fenceId}_${mmsi}`
+  private defaultDwellThreshold = 60; // minutes
+
+  constructor() {
+    this.load();
+    console.log(`[Geofence] Loaded ${this.geofences.size} geofences`);
+  }
+
+  /**
+   * All geofences
+   */
+  getGeofences(): Geofence[] {
+    return Array.from(this.geofences.values());
+  }
+
+  /**
+   * Save a new geofence (or replace one with the same id)
+   */
+  addGeofence(
+    fence: Omit<Geofence, 'id' | 'createdAt' | 'dwellThreshold'> &
+      Partial<Pick<Geofence, 'id' | 'createdAt' | 'dwellThreshold'>>
+  ): Geofence {
+    const geofence: Geofence = {
+      ...fence,
+      id: fence.id || `geofence_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      dwellThreshold: fence.dwellThreshold ?? this.defaultDwellThreshold,
+      createdAt: fence.createdAt || new Date(),
+    };
+
+    this.geofences.set(geofence.id, geofence);
+    this.save();
+    return geofence;
+  }
+
+  removeGeofence(id: string): void {
+    this.geofences.delete(id);
+    this.vesselStates.forEach((_, key) => {
+      if (key.startsWith(`${id}_`)) this.vesselStates.delete(key);
+    });
+    this.save();
+  }
+
+  /**
+   * Check whether a point lies inside a geofence
+   */
+  contains(fence: Geofence, lat: number, lon: number): boolean {
+    switch (fence.shape) {
+      case 'polygon':
+        return pointInPolygon(lat, lon, fence.coordinates);
+
+      case 'circle': {
+        const [centerLat, centerLon] = fence.coordinates[0];
+        return distanceNm(lat, lon, centerLat, centerLon) <= (fence.radius || 0);
+      }
+
+      case 'corridor':
+        for (let i = 0; i < fence.coordinates.length - 1; i++) {
+          const [lat1, lon1] = fence.coordinates[i];
+          const [lat2, lon2] = fence.coordinates[i + 1];
+          if (distanceToSegmentNm(lat, lon, lat1, lon1, lat2, lon2) <= (fence.radius || 0)) {
+            return true;
+          }
+        }
+        return false;
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Evaluate the latest vessel positions and return enter / exit / dwell events.
+   * The first sighting of a vessel already inside a fence counts as an enter.
+   */
+  evaluate(vessels: Vessel[], now: number = Date.now()): GeofenceEvent[] {
+    const events: GeofenceEvent[] = [];
+
+    this.geofences.forEach((fence) => {
+      vessels.forEach((vessel) => {
+        if (!vessel.position) return;
+
+        const mmsi = String(vessel.mmsi);
+        const key = `${fence.id}_${mmsi}`;
+
+        const inside = this.contains(fence, vessel.position.latitude, vessel.position.longitude);
+        const previous = this.vesselStates.get(key);
+        const event = (type: GeofenceEvent['type']) =>
+          events.push({
+            type,
+            geofenceId: fence.id,
+            geofenceName: fence.name,
+            mmsi,
+            vesselName: vessel.name,
+            timestamp: new Date(now),
+          });
+
+        if (inside && !previous?.inside) {
+          this.vesselStates.set(key, { inside: true, enteredAt: now, dwellAlerted: false });
+          event('enter');
+        } else if (!inside && previous?.inside) {
+          this.vesselStates.set(key, { inside: false, enteredAt: 0, dwellAlerted: false });
+          event('exit');
+        } else if (inside && previous && !previous.dwellAlerted) {
+          if (now - previous.enteredAt >= fence.dwellThreshold * 60 * 1000) {
+            previous.dwellAlerted = true;
+            event('dwell');
+          }
+        }
+      });
+    });
+
+    // Vessels that dropped out of the feed keep their state until they reappear
+    return events;
+  }
+
+  /**
+   * Human-readable alert text for an event
+   */
+  describeEvent(event: GeofenceEvent): string {
+    const fence = this.geofences.get(event.geofenceId);
+    switch (event.type) {
+      case 'enter':
+        return `${event.vesselName} (${event.mmsi}) entered geofence "${event.geofenceName}"`;
+      case 'exit':
+        return `${event.vesselName} (${event.mmsi}) left geofence "${event.geofenceName}"`;
+      case 'dwell':
+        return (
+          `${event.vesselName} (${event.mmsi}) has been inside "${event.geofenceName}" ` +
+          `for over ${fence?.dwellThreshold ?? this.defaultDwellThreshold} minutes`
+        );
+    }
+  }
+
+  /**
+   * Export all geofences as a GeoJSON FeatureCollection.
+   * Circles are Points with a `radius` property, corridors LineStrings with `width`.
+   */
+  exportGeoJSON(): string {
+    const collection: GeoJSONFeatureCollection = {
+      type: 'FeatureCollection',
+      features: this.getGeofences().map((fence) => {
+        const properties = {
+          id: fence.id,
+          name: fence.name,
+          shape: fence.shape,
+          dwellThreshold: fence.dwellThreshold,
+          createdAt: fence.createdAt.toISOString(),
+        };
+        const lonLat = fence.coordinates.map(([lat, lon]) => [lon, lat]);
+
+        if (fence.shape === 'circle') {
+          return {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: lonLat[0] },
+            properties: { ...properties, radius: fence.radius },
+          };
+        }
+        if (fence.shape === 'corridor') {
+          return {
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: lonLat },
+            properties: { ...properties, width: fence.radius },
+          };
+        }
+        // GeoJSON rings are closed
+        return {
+          type: 'Feature',
+          geometry: { type: 'Polygon', coordinates: [[...lonLat, lonLat[0]]] },
+          properties,
+        };
+      }),
+    };
+
+    return JSON.stringify(collection, null, 2);
+  }
+
+  /**
+   * Import geofences from GeoJSON. Returns the number imported.
+   */
+  importGeoJSON(text: string): number {
+    let collection: unknown;
+    try {
+      collection = JSON.parse(text);
+    } catch (error) {
+      throw new Error('Invalid GeoJSON: could not parse file');
+    }
+    if (!isObject(collection)) {
+      throw new Error('Invalid GeoJSON: expected a Feature or FeatureCollection');
+    }
+
+    let features: unknown[] = [collection];
+    if (collection.type === 'FeatureCollection') {
+      if (!Array.isArray(collection.features)) {
+        throw new Error('Invalid GeoJSON: FeatureCollection has no features array');
+      }
+      features = collection.features;
+    }
+
+    let imported = 0;
+    features.forEach((feature, index) => {
+      if (!isObject(feature)) return;
+      const fence = this.featureToGeofence(feature as Partial<GeoJSONFeature>, index);
+      if (fence) {
+        this.geofences.set(fence.id, fence);
+        imported++;
+      }
+    });
+
+    this.save();
+    console.log(`[Geofence] Imported ${imported} of ${features.length} features`);
+    return imported;
+  }
+
+  private featureToGeofence(feature: Partial<GeoJSONFeature>, index: number): Geofence | null {
+    const props = isObject(feature.properties) ? feature.properties : {};
+    const geometry = feature.geometry;
+    if (!isObject(geometry) || !Array.isArray(geometry.coordinates)) return null;
+
+    const createdAt = new Date(typeof props.createdAt === 'string' ? props.createdAt : NaN);
+
+    const base = {
+      id: typeof props.id === 'string' && props.id ? props.id : `geofence_${Date.now()}_${index}`,
+      name: typeof props.name === 'string' && props.name ? props.name : `Imported geofence ${index + 1}`,
+      dwellThreshold: Number(props.dwellThreshold) || this.defaultDwellThreshold,
+      createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+    };
+    // Files are not trusted to hold numeric positions; one bad position drops the feature
+    const toLatLon = (positions: GeoJSONPosition[]): [number, number][] | null => {
+      const valid = positions.every(
+        (c) => Array.isArray(c) && Number.isFinite(c[0]) && Number.isFinite(c[1])
+      );
+      return valid ? positions.map((c): [number, number] => [c[1], c[0]]) : null;
+    };
+
+    switch (geometry.type) {
+      case 'Polygon': {
+        const ring = Array.isArray(geometry.coordinates[0]) ? geometry.coordinates[0] : [];
+        // Drop the closing vertex
+        const coordinates = toLatLon(ring.length > 1 ? ring.slice(0, -1) : ring);
+        if (!coordinates || coordinates.length < 3) return null;
+        return { ...base, shape: 'polygon', coordinates };
+      }
+      case 'Point': {
+        const coordinates = toLatLon([geometry.coordinates]);
+        if (!coordinates || !(Number(props.radius) > 0)) return null;
+        return { ...base, shape: 'circle', coordinates, radius: Number(props.radius) };
+      }
+      case 'LineString': {
+        const coordinates = toLatLon(geometry.coordinates);
+        if (!coordinates || coordinates.length < 2 || !(Number(props.width) > 0)) return null;
+        return { ...base, shape: 'corridor', coordinates, radius: Number(props.width) };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private load(): void {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      if (saved) {
+        const fences: Geofence[] = JSON.parse(saved);
+        fences.forEach((f) => {
+          this.geofences.set(f.id, { ...f, createdAt: new Date(f.createdAt) });
+        });
+      }
+    } catch (error) {
+      console.error('[Geofence] Error loading geofences:', error);
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.getGeofences()));
+    } catch (error) {
+      console.error('[Geofence] Error saving geofences:', error);
+    }
+  }
+}
+
+export default GeofenceService;
@@ -0,0 +1,206 @@
+/**
+ * Geography Service
+ * Offline coastline and port proximity using the bundled Natural Earth land
+ * polygons (world-atlas, 1:50m) and the major ports list, with grid indexes
+ */
+
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import landTopology from 'world-atlas/land-50m.json';
+import GridIndex, { type BoundingBox } from '../lib/spatial-index';
+import { distanceNm, distanceToSegmentNm, pointInPolygon } from '../lib/geo';
+import { MAJOR_PORTS, type PortInfo } from '../config/ports';
+
+type Segment = [number, number, number, number]; // lat1, lon1, lat2, lon2
+
+interface LandPolygon {
+  outer: [number, number][]; // [lat, lon]
+  holes: [number, number][][];
+}
+
+const CELL_SIZE = 1; // degrees
+const NM_PER_DEGREE = 60;
+
+class GeographyService {
+  private coastIndex: GridIndex<Segment> = new GridIndex(CELL_SIZE);
+  private landIndex: GridIndex<LandPolygon> = new GridIndex(CELL_SIZE);
+  private portIndex: GridIndex<PortInfo> = new GridIndex(CELL_SIZE);
+  private loaded = false;
+
+  /**
+   * Distance from a point to the nearest coastline, in nautical miles.
+   * Returns Infinity if no coast lies within `maxSearchNm`.
+   */
+  distanceToCoastNm(lat: number, lon: number, maxSearchNm = 300): number {
+    this.ensureLoaded();
+
+    let best = Infinity;
+    const maxRing = Math.ceil(maxSearchNm / (NM_PER_DEGREE * CELL_SIZE * this.minCos(lat, 0))) + 1;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      if (this.ringLowerBound(lat, ring) > Math.min(best, maxSearchNm)) break;
+
+      this.coastIndex.queryRing(lat, lon, ring).forEach(([lat1, lon1, lat2, lon2]) => {
+        best = Math.min(best, distanceToSegmentNm(lat, lon, lat1, lon1, lat2, lon2));
+      });
+    }
+
+    return best <= maxSearchNm ? best : Infinity;
+  }
+
+  /**
+   * Whether a point falls on land
+   */
+  isOnLand(lat: number, lon: number): boolean {
+    this.ensureLoaded();
+
+    return this.landIndex
+      .queryPoint(lat, lon)
+      .some(
+        (polygon) =>
+          pointInPolygon(lat, lon, polygon.outer) &&
+          !polygon.holes.some((hole) => pointInPolygon(lat, lon, hole))
+      );
+  }
+
+  /**
+   * Nearest port within `maxNm`, or null
+   */
+  nearestPort(lat: number, lon: number, maxNm = 50): { port: PortInfo; distanceNm: number } | null {
+    return this.portsWithin(lat, lon, maxNm)[0] || null;
+  }
+
+  /**
+   * Ports within `radiusNm`, nearest first
+   */
+  portsWithin(lat: number, lon: number, radiusNm: number): Array<{ port: PortInfo; distanceNm: number }> {
+    this.ensureLoaded();
+
+    const results: Array<{ port: PortInfo; distanceNm: number }> = [];
+    const maxRing = Math.ceil(radiusNm / (NM_PER_DEGREE * CELL_SIZE * this.minCos(lat, 0))) + 1;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      if (this.ringLowerBound(lat, ring) > radiusNm) break;
+
+      this.portIndex.queryRing(lat, lon, ring).forEach((port) => {
+        const distance = distanceNm(lat, lon, port.latitude, port.longitude);
+        if (distance <= radiusNm) results.push({ port, distanceNm: distance });
+      });
+    }
+
+    return results.sort((a, b) => a.distanceNm - b.distanceNm);
+  }
+
+  /**
+   * The known port whose harbour/anchorage radius contains a point, or null
+   */
+  portAt(lat: number, lon: number): PortInfo | null {
+    return this.portsWithin(lat, lon, 30).find((p) => p.distanceNm <= p.port.radiusNm)?.port || null;
+  }
+
+  /**
+   * Whether a point lies within the harbour/anchorage radius of a known port
+   */
+  isInPortArea(lat: number, lon: number): boolean {
+    return this.portAt(lat, lon) !== null;
+  }
+
+  /**
+   * Open ocean: at sea, away from any port area and further than
+   * `minCoastDistanceNm` (default: the 12 nm territorial sea) from the coast
+   */
+  isOpenOcean(lat: number, lon: number, minCoastDistanceNm = 12): boolean {
+    return (
+      !this.isOnLand(lat, lon) &&
+      !this.isInPortArea(lat, lon) &&
+      this.distanceToCoastNm(lat, lon, minCoastDistanceNm) > minCoastDistanceNm
+    );
+  }
+
+  /**
+   * Smallest possible distance (nm) to anything in a ring of cells
+   */
+  private ringLowerBound(lat: number, ring: number): number {
+    if (ring <= 1) return 0;
+    return (ring - 1) * CELL_SIZE * NM_PER_DEGREE * this.minCos(lat, ring);
+  }
+
+  /**
+   * Cosine of the highest latitude reached `ring` cells away (longitude degrees shrink poleward)
+   */
+  private minCos(lat: number, ring: number): number {
+    const maxLat = Math.min(89, Math.abs(lat) + (ring + 1) * CELL_SIZE);
+    return Math.max(Math.cos((maxLat * Math.PI) / 180), 0.02);
+  }
+
+  /**
+   * Build the indexes on first use
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const started = Date.now();
+    const topology = landTopology as unknown as Topology<{ land: GeometryCollection }>;
+    const land = feature(topology, topology.objects.land);
+
+    land.features.forEach((f) => {
+      const geometry = f.geometry;
+      const polygons =
+        geometry.type === 'Polygon'
+          ? [geometry.coordinates]
+          : geometry.type === 'MultiPolygon'
+            ? geometry.coordinates
+            : [];
+
+      polygons.forEach((rings) => {
+        const [outer, ...holes] = rings.map((ring) =>
+          ring.map(([lon, lat]) => [lat, lon] as [number, number])
+        );
+        if (!outer) return;
+
+        const polygon: LandPolygon = { outer, holes };
+        this.landIndex.insertBox(boundsOf(outer), polygon);
+
+        [outer, ...holes].forEach((ring) => {
+          for (let i = 0; i < ring.length - 1; i++) {
+            const [lat1, lon1] = ring[i];
+            const [lat2, lon2] = ring[i + 1];
+            // Skip artificial edges along the antimeridian
+            if (Math.abs(lon1) === 180 && lon1 === lon2) continue;
+            this.coastIndex.insertBox(
+              {
+                minLat: Math.min(lat1, lat2),
+                maxLat: Math.max(lat1, lat2),
+                minLon: Math.min(lon1, lon2),
+                maxLon: Math.max(lon1, lon2),
+              },
+              [lat1, lon1, lat2, lon2]
+            );
+          }
+        });
+      });
+    });
+
+    MAJOR_PORTS.forEach((port) => this.portIndex.insert(port.latitude, port.longitude, port));
+
+    console.log(
+      `[Geography] Indexed coastline and ${MAJOR_PORTS.length} ports in ${Date.now() - started}ms`
+    );
+  }
+}
+
+function boundsOf(ring: [number, number][]): BoundingBox {
+  const box = { minLat: Infinity, maxLat: -Infinity, minLon: Infinity, maxLon: -Infinity };
+  ring.forEach(([lat, lon]) => {
+    box.minLat = Math.min(box.minLat, lat);
+    box.maxLat = Math.max(box.maxLat, lat);
+    box.minLon = Math.min(box.minLon, lon);
+    box.maxLon = Math.max(box.maxLon, lon);
+  });
+  return box;
+}
+
+// Shared instance: the indexes are built once and reused by every service
+export const geography = new GeographyService();
+export default GeographyService;
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import HistoryService from './history-service';
+import { jsonResponse, mockFetch } from '../test/helpers';
+
+const FROM = new Date('2026-03-01T09:00:00Z');
+const TO = new Date('2026-03-01T10:00:00Z');
+
+function report(minutes: number) {
+  return {
+    imo: '',
+    mmsi: '111111111',
+    name: 'OCEAN PIONEER',
+    type: 'tanker',
+    flagState: 'SG',
+    position: { latitude: 1.2, longitude: 103.5 + minutes / 100 },
+    heading: 90,
+    speed: 10,
+    timestamp: new Date(FROM.getTime() + minutes * 60 * 1000).toISOString(),
+    source: 'AIS Hub',
+  };
+}
+
+describe('HistoryService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('queries a window and revives valid records', async () => {
+    const fetchMock = mockFetch(() => ({
+      from: FROM.toISOString(),
+      to: TO.toISOString(),
+      items: [report(0), { mmsi: '', position: null }, report(10)],
+      truncated: true,
+    }));
+    const service = new HistoryService('/api/history/');
+
+    const result = await service.getVessels({ minLat: 0, maxLat: 2, minLon: 103, maxLon: 105 }, FROM, TO, 500);
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string, 'http://maritime.test');
+    expect(url.pathname).toBe('/api/history/vessels');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      minLat: '0',
+      maxLat: '2',
+      minLon: '103',
+      maxLon: '105',
+      from: FROM.toISOString(),
+      to: TO.toISOString(),
+      limit: '500',
+    });
+    expect(result.truncated).toBe(true);
+    expect(result.items.map((v) => v.position.longitude)).toEqual([103.5, 103.6]);
+    expect(result.items[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('reports API errors as a service error', async () => {
+    mockFetch(() => jsonResponse({ error: 'mmsi: expected 9 digits' }, 400));
+    const service = new HistoryService('/api/history');
+
+    await expect(service.getTrack('123', FROM, TO)).rejects.toMatchObject({
+      service: 'History',
+      message: expect.stringContaining('400'),
+    });
+  });
+
+  it('splits an area past the antimeridian into two queries within ±180', async () => {
+    const fetchMock = mockFetch((url) => {
+      const minLon = new URL(url, 'http://maritime.test').searchParams.get('minLon');
+      return { items: minLon === '-180' ? [report(5)] : [report(10), report(0)], truncated: false };
+    });
+    const service = new HistoryService('/api/history');
+
+    const result = await service.getPositions({ minLat: -95, maxLat: 10, minLon: 170, maxLon: 200 }, FROM, TO);
+
+    const areas = fetchMock.mock.calls.map(([url]) => {
+      const params = new URL(url as string, 'http://maritime.test').searchParams;
+      return ['minLat', 'maxLat', 'minLon', 'maxLon'].map((name) => Number(params.get(name)));
+    });
+    expect(areas).toEqual([
+      [-90, 10, 170, 180],
+      [-90, 10, -180, -160],
+    ]);
+    const minutes = result.items.map((v) => (v.timestamp.getTime() - FROM.getTime()) / 60000);
+    expect(minutes).toEqual([0, 5, 10]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * History Service
+ * Stored vessel position reports and incidents from the API server's history
+ * store (server/history-api.ts): past tracks, and what was in an area during
+ * a time window.
+ */
+
+import { boolean, object, optional, parseRecords, unknown, type Parser } from '../lib/schema';
+import { incidentRecord, vesselRecord } from '../lib/domain-schemas';
+import type { MapBounds, SecurityIncident, ServiceError, Vessel } from '../types/maritime';
+
+export interface HistoryResult<T> {
+  items: T[];
+  truncated: boolean; // the server had more matches than `limit`
+}
+
+const historyResponse = object({
+  items: unknown(),
+  truncated: optional(boolean(), false),
+});
+
+/**
+ * The area as boxes the API accepts: latitudes clamped to ±90, and an area
+ * past the antimeridian (Leaflet keeps counting beyond ±180) wrapped and split in two
+ */
+function apiAreas(bounds: MapBounds): MapBounds[] {
+  const minLat = Math.max(-90, bounds.minLat);
+  const maxLat = Math.min(90, bounds.maxLat);
+  const span = bounds.maxLon - bounds.minLon;
+  if (span >= 360) return [{ minLat, maxLat, minLon: -180, maxLon: 180 }];
+
+  const minLon = ((((bounds.minLon + 180) % 360) + 360) % 360) - 180;
+  const maxLon = minLon + span;
+  if (maxLon <= 180) return [{ minLat, maxLat, minLon, maxLon }];
+  return [
+    { minLat, maxLat, minLon, maxLon: 180 },
+    { minLat, maxLat, minLon: -180, maxLon: maxLon - 360 },
+  ];
+}
+
+class HistoryService {
+  private baseUrl: string;
+
+  /**
+   * @param baseUrl The API's history root, e.g. "/api/history"
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * One vessel's reports between `from` and `to`, oldest first
+   */
+  async getTrack(mmsi: string, from: Date, to: Date, limit?: number): Promise<HistoryResult<Vessel>> {
+    return this.query('track', { mmsi, ...this.window(from, to, limit) }, vesselRecord);
+  }
+
+  /**
+   * Every report in an area during a time window, oldest first
+   */
+  async getPositions(bounds: MapBounds, from: Date, to: Date, limit?: number): Promise<HistoryResult<Vessel>> {
+    return this.queryArea('positions', bounds, this.window(from, to, limit), vesselRecord, limit);
+  }
+
+  /**
+   * Vessels that were in an area during a time window, at their last report there
+   */
+  async getVessels(bounds: MapBounds, from: Date, to: Date, limit?: number): Promise<HistoryResult<Vessel>> {
+    return this.queryArea('vessels', bounds, this.window(from, to, limit), vesselRecord, limit);
+  }
+
+  async getIncidents(
+    bounds: MapBounds,
+    from: Date,
+    to: Date,
+    limit?: number
+  ): Promise<HistoryResult<SecurityIncident>> {
+    return this.queryArea('incidents', bounds, this.window(from, to, limit), incidentRecord, limit);
+  }
+
+  private area(bounds: MapBounds): Record<string, string> {
+    return {
+      minLat: String(bounds.minLat),
+      maxLat: String(bounds.maxLat),
+      minLon: String(bounds.minLon),
+      maxLon: String(bounds.maxLon),
+    };
+  }
+
+  private window(from: Date, to: Date, limit?: number): Record<string, string> {
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...(limit ? { limit: String(limit) } : {}),
+    };
+  }
+
+  /**
+   * Query each part of an area and merge the results, oldest first
+   */
+  private async queryArea<T extends { timestamp: Date }>(
+    endpoint: string,
+    bounds: MapBounds,
+    window: Record<string, string>,
+    parser: Parser<T>,
+    limit?: number
+  ): Promise<HistoryResult<T>> {
+    const parts = await Promise.all(
+      apiAreas(bounds).map((area) => this.query(endpoint, { ...this.area(area), ...window }, parser))
+    );
+    if (parts.length === 1) return parts[0];
+
+    const items = parts
+      .flatMap((part) => part.items)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return {
+      items: limit ? items.slice(0, limit) : items,
+      truncated: parts.some((part) => part.truncated) || (!!limit && items.length > limit),
+    };
+  }
+
+  private async query<T>(
+    endpoint: string,
+    params: Record<string, string>,
+    parser: Parser<T>
+  ): Promise<HistoryResult<T>> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${endpoint}?${new URLSearchParams(params)}`);
+      if (!response.ok) {
+        throw new Error(`History API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = historyResponse(await response.json());
+      const { records, rejected } = parseRecords(data.items, parser, 'items');
+      if (rejected.length > 0) {
+        console.warn(`[History] Dropped ${rejected.length} invalid records, e.g. ${rejected[0].message}`);
+      }
+      return { items: records, truncated: data.truncated };
+    } catch (error) {
+      throw {
+        service: 'History',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      } as ServiceError;
+    }
+  }
+}
+
+export default HistoryService;
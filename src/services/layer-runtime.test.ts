@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import LayerRuntime from './layer-runtime';
+import { flushPromises } from '../test/helpers';
+import type { MaritimeEvent, MaritimeEventType, MaritimeLayer } from '../types/maritime';
+
+const BOUNDS = { minLat: 0, maxLat: 10, minLon: 100, maxLon: 110 };
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+
+function layer(id: string, type: MaritimeEventType, updateInterval: number): MaritimeLayer {
+  return {
+    id,
+    name: id,
+    type,
+    enabled: true,
+    sources: [],
+    updateInterval,
+    dataPoints: [],
+    lastUpdated: new Date(0),
+    nextUpdate: new Date(0),
+  };
+}
+
+function port(id: string): MaritimeEvent {
+  return { id, type: 'port_status', location: { latitude: 1, longitude: 104 } } as MaritimeEvent;
+}
+
+describe('LayerRuntime', () => {
+  let runtime: LayerRuntime;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    runtime = new LayerRuntime(
+      [
+        layer('vessels', 'vessel_tracking', 60 * 1000),
+        layer('ports', 'port_status', 30 * 60 * 1000),
+        layer('policy', 'policy_update', 24 * 60 * 60 * 1000),
+      ],
+      { visibility: null, random: () => 0.5 } // no jitter
+    );
+    runtime.setBoundsSource(() => BOUNDS);
+  });
+
+  afterEach(() => {
+    runtime.stop();
+    vi.useRealTimers();
+  });
+
+  const status = (id: string) => runtime.getStatuses().find((s) => s.layer.id === id)!;
+
+  it('polls each layer on its own interval', async () => {
+    const vessels = vi.fn(async () => {});
+    const ports = vi.fn(async () => [port('sgsin')]);
+    runtime.register('vessel_tracking', vessels);
+    runtime.register('port_status', ports);
+
+    runtime.start();
+    expect(status('vessels').layer.nextUpdate).toEqual(new Date(NOW + 60 * 1000));
+
+    await vi.advanceTimersByTimeAsync(30 * 60 * 1000);
+    expect(vessels).toHaveBeenCalledTimes(30);
+    expect(ports).toHaveBeenCalledOnce();
+    expect(vessels).toHaveBeenCalledWith(BOUNDS);
+
+    expect(status('ports')).toMatchObject({ loaded: true, scheduled: true, error: null });
+    expect(status('ports').layer.dataPoints.map((e) => e.id)).toEqual(['sgsin']);
+    expect(status('ports').layer.lastUpdated).toEqual(new Date(NOW + 30 * 60 * 1000));
+    expect(status('ports').layer.nextUpdate).toEqual(new Date(NOW + 60 * 60 * 1000));
+  });
+
+  it('lists layers without a loader but never polls them', async () => {
+    runtime.start();
+    await runtime.refresh();
+
+    expect(status('policy')).toMatchObject({ hasLoader: false, loaded: false, scheduled: false });
+  });
+
+  it('refreshes only the requested layer types and restarts their schedule', async () => {
+    const vessels = vi.fn(async () => {});
+    const ports = vi.fn(async () => []);
+    runtime.register('vessel_tracking', vessels);
+    runtime.register('port_status', ports);
+    runtime.start();
+
+    await vi.advanceTimersByTimeAsync(45 * 1000);
+    await runtime.refresh(['vessel_tracking']);
+
+    expect(vessels).toHaveBeenCalledOnce();
+    expect(ports).not.toHaveBeenCalled();
+    expect(status('vessels').layer.nextUpdate).toEqual(new Date(NOW + 105 * 1000));
+  });
+
+  it('stops polling inactive layers and loads them again when reactivated', async () => {
+    const ports = vi.fn(async () => []);
+    runtime.register('port_status', ports);
+    runtime.start();
+
+    runtime.setActive('ports', false);
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(ports).not.toHaveBeenCalled();
+    expect(status('ports')).toMatchObject({ active: false, scheduled: false });
+
+    runtime.setActive('ports', true);
+    await flushPromises();
+    expect(ports).toHaveBeenCalledOnce();
+    expect(status('ports').scheduled).toBe(true);
+  });
+
+  it('backs off after a failed load and reports the error', async () => {
+    const listener = vi.fn();
+    const vessels = vi
+      .fn<[], Promise<void>>()
+      .mockRejectedValueOnce(new Error('AIS Hub API error: 503'))
+      .mockResolvedValue(undefined);
+    runtime.register('vessel_tracking', vessels);
+    runtime.subscribe(listener);
+    runtime.start();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(status('vessels')).toMatchObject({ error: 'AIS Hub API error: 503', failures: 1 });
+    expect(status('vessels').layer.nextUpdate).toEqual(new Date(NOW + 180 * 1000));
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ error: 'AIS Hub API error: 503', loading: false }),
+      true
+    );
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(vessels).toHaveBeenCalledOnce();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(status('vessels')).toMatchObject({ error: null, loaded: true, failures: 0 });
+    expect(status('vessels').layer.nextUpdate).toEqual(new Date(NOW + 240 * 1000));
+  });
+
+  it('applies a new update interval from the last load', async () => {
+    const vessels = vi.fn(async () => {});
+    runtime.register('vessel_tracking', vessels);
+    runtime.start();
+
+    await vi.advanceTimersByTimeAsync(70 * 1000);
+    runtime.setUpdateInterval('vessels', 30 * 1000);
+    expect(status('vessels').layer.nextUpdate).toEqual(new Date(NOW + 90 * 1000));
+
+    await vi.advanceTimersByTimeAsync(75 * 1000);
+    expect(vessels).toHaveBeenCalledTimes(3); // at 60s, 90s and 120s
+  });
+
+  it('cancels scheduled polls when stopped', async () => {
+    const vessels = vi.fn(async () => {});
+    runtime.register('vessel_tracking', vessels);
+    runtime.start();
+    runtime.stop();
+
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    expect(vessels).not.toHaveBeenCalled();
+    expect(status('vessels').scheduled).toBe(false);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Layer Runtime
+ * Polls every configured maritime layer (config/maritime-layers.ts) on its own
+ * `updateInterval` and reports per-layer status to subscribers.
+ * Data for a layer comes from the loader registered for its type; layers
+ * without a loader are listed but never polled. Scheduling (backoff on
+ * failures, pausing while the page is hidden) is left to PollScheduler.
+ */
+
+import PollScheduler, { type BackoffPolicy, type VisibilitySource } from '../lib/poll-scheduler';
+import { getAllMaritimeLayers } from '../config/maritime-layers';
+import type { MapBounds, MaritimeEvent, MaritimeEventType, MaritimeLayer } from '../types/maritime';
+
+/**
+ * Fetch a layer's data for the current bounds. Loaders that render through
+ * their own path (vessels, incidents, weather) resolve without data points.
+ */
+export type LayerLoader = (bounds: MapBounds) => Promise<MaritimeEvent[] | void>;
+
+export interface LayerStatus {
+  layer: MaritimeLayer;
+  hasLoader: boolean;
+  active: boolean;
+  loading: boolean;
+  loaded: boolean; // lastUpdated reflects a completed load
+  scheduled: boolean; // nextUpdate is pending
+  failures: number; // consecutive failed loads; nextUpdate is then a backed-off retry
+  error: string | null;
+}
+
+// `settled` is set when `changed` has just finished a load (successfully or not)
+type LayerListener = (statuses: LayerStatus[], changed: LayerStatus, settled: boolean) => void;
+
+interface LayerState {
+  active: boolean;
+  loaded: boolean;
+  error: string | null;
+}
+
+interface RuntimeOptions {
+  backoff?: Partial<BackoffPolicy>;
+  visibility?: VisibilitySource | null;
+  random?: () => number;
+}
+
+class LayerRuntime {
+  private layers: MaritimeLayer[];
+  private loaders: Map<MaritimeEventType, LayerLoader> = new Map();
+  private states: Map<string, LayerState> = new Map();
+  private listeners: Set<LayerListener> = new Set();
+  private scheduler: PollScheduler;
+  private getBounds: () => MapBounds | null = () => null;
+
+  constructor(layers: MaritimeLayer[] = getAllMaritimeLayers(), options: RuntimeOptions = {}) {
+    // Own copies: lastUpdated/nextUpdate/dataPoints change as layers are polled
+    this.layers = layers.map((layer) => ({ ...layer, dataPoints: [] }));
+    this.layers.forEach((layer) => {
+      this.states.set(layer.id, { active: layer.enabled, loaded: false, error: null });
+    });
+    this.scheduler = new PollScheduler({
+      ...options,
+      onChange: (id, settled) => {
+        const layer = this.layers.find((l) => l.id === id);
+        if (layer) this.notify(layer, settled);
+      },
+    });
+  }
+
+  /**
+   * Serve a layer type from `loader`
+   */
+  register(type: MaritimeEventType, loader: LayerLoader): void {
+    this.loaders.set(type, loader);
+    this.layers.filter((layer) => layer.type === type).forEach((layer) => this.addTask(layer));
+  }
+
+  /**
+   * Bounds passed to loaders; layers are skipped while this returns null
+   */
+  setBoundsSource(getBounds: () => MapBounds | null): void {
+    this.getBounds = getBounds;
+  }
+
+  /**
+   * Schedule every active layer one interval from now
+   */
+  start(): void {
+    if (this.scheduler.isRunning()) return;
+    this.scheduler.start();
+    console.log('[LayerRuntime] Polling started');
+  }
+
+  /**
+   * Cancel all scheduled polls (in-flight loads still complete)
+   */
+  stop(): void {
+    if (!this.scheduler.isRunning()) return;
+    this.scheduler.stop();
+    console.log('[LayerRuntime] Polling stopped');
+  }
+
+  isRunning(): boolean {
+    return this.scheduler.isRunning();
+  }
+
+  /**
+   * Turn a layer on (loading it now) or off (cancelling its poll)
+   */
+  setActive(layerId: string, active: boolean): void {
+    const layer = this.layers.find((l) => l.id === layerId);
+    const state = this.states.get(layerId);
+    if (!layer || !state || state.active === active) return;
+
+    state.active = active;
+    if (active) {
+      this.addTask(layer);
+      this.scheduler.runNow([layerId]);
+    } else {
+      this.scheduler.remove(layerId);
+      this.notify(layer);
+    }
+  }
+
+  /**
+   * Change a layer's polling cadence without disturbing the others
+   */
+  setUpdateInterval(layerId: string, intervalMs: number): void {
+    const layer = this.layers.find((l) => l.id === layerId);
+    if (!layer || layer.updateInterval === intervalMs) return;
+
+    layer.updateInterval = intervalMs;
+    this.scheduler.setInterval(layerId, intervalMs);
+  }
+
+  /**
+   * Load active layers now (all, or only the given types), restarting their schedules
+   */
+  async refresh(types?: MaritimeEventType[]): Promise<void> {
+    await this.scheduler.runNow(
+      this.layers
+        .filter((layer) => !types || types.includes(layer.type))
+        .map((layer) => layer.id)
+        .filter((id) => this.scheduler.has(id))
+    );
+  }
+
+  getStatuses(): LayerStatus[] {
+    return this.layers.map((layer) => this.getStatus(layer));
+  }
+
+  subscribe(listener: LayerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private addTask(layer: MaritimeLayer): void {
+    if (!this.states.get(layer.id)!.active || !this.loaders.has(layer.type)) return;
+    if (this.scheduler.has(layer.id)) return;
+
+    this.scheduler.add({
+      id: layer.id,
+      intervalMs: layer.updateInterval,
+      run: () => this.load(layer),
+    });
+  }
+
+  private async load(layer: MaritimeLayer): Promise<void> {
+    const state = this.states.get(layer.id)!;
+    const loader = this.loaders.get(layer.type);
+    const bounds = this.getBounds();
+    if (!loader || !bounds) return;
+
+    try {
+      layer.dataPoints = (await loader(bounds)) || [];
+      layer.lastUpdated = new Date();
+      state.loaded = true;
+      state.error = null;
+    } catch (error) {
+      state.error = error instanceof Error ? error.message : String(error);
+      console.error(`[LayerRuntime] ${layer.id} failed:`, state.error);
+      throw error;
+    }
+  }
+
+  private getStatus(layer: MaritimeLayer): LayerStatus {
+    const state = this.states.get(layer.id)!;
+    const task = this.scheduler.getState(layer.id);
+    if (task?.nextRun) layer.nextUpdate = task.nextRun;
+
+    return {
+      layer,
+      hasLoader: this.loaders.has(layer.type),
+      active: state.active,
+      loading: Boolean(task?.running),
+      loaded: state.loaded,
+      scheduled: Boolean(task?.nextRun),
+      failures: task?.failures || 0,
+      error: state.error,
+    };
+  }
+
+  private notify(layer: MaritimeLayer, settled = false): void {
+    const statuses = this.getStatuses();
+    const changed = statuses.find((s) => s.layer === layer)!;
+    this.listeners.forEach((listener) => listener(statuses, changed, settled));
+  }
+}
+
+export default LayerRuntime;
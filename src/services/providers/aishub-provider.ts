@@ -0,0 +1,114 @@
+/**
+ * AIS Hub Provider
+ * Vessel positions from the AIS Hub API
+ */
+
+import BaseProvider from './base-provider';
+import { date, number, object, optional, string, unknown, type Infer } from '../../lib/schema';
+import { flagFromMmsi, mapShipType } from '../../lib/nmea-decoder';
+import type { VesselProvider, RateLimitPolicy } from './types';
+import type { Vessel, MapBounds } from '../../types/maritime';
+
+const aisHubVessel = object({
+  MMSI: number({ coerce: true, min: 100000000, max: 999999999 }),
+  IMO: optional(number({ coerce: true, min: 0 })),
+  ShipName: optional(string(), ''),
+  Latitude: number({ coerce: true, min: -90, max: 90 }), // 91 = not available
+  Longitude: number({ coerce: true, min: -180, max: 180 }), // 181 = not available
+  Speed: optional(number({ coerce: true, min: 0, max: 102.2 }), 0), // 102.3 = not available
+  Course: optional(number({ coerce: true, min: 0, max: 360 }), 0),
+  Heading: optional(number({ coerce: true, min: 0 })), // 511 = not available
+  Status: optional(number({ coerce: true, min: 0, max: 15 }), 15),
+  Type: optional(number({ coerce: true, min: 0 })),
+  CallSign: optional(string(), ''),
+  Destination: optional(string(), ''),
+  Draught: optional(number({ coerce: true, min: 0 }), 0), // metres, 0 = not available
+  // Metres from the GPS antenna to bow (A), stern (B), port (C) and starboard (D)
+  A: optional(number({ coerce: true, min: 0 }), 0),
+  B: optional(number({ coerce: true, min: 0 }), 0),
+  C: optional(number({ coerce: true, min: 0 }), 0),
+  D: optional(number({ coerce: true, min: 0 }), 0),
+  Timestamp: date(),
+});
+
+const aisHubResponse = object({
+  result: optional(unknown(), []),
+  error: optional(string()),
+});
+
+type AISHubVessel = Infer<typeof aisHubVessel>;
+
+class AisHubProvider extends BaseProvider<Vessel> implements VesselProvider {
+  readonly kind = 'vessels' as const;
+  readonly rateLimit: RateLimitPolicy = this.options.rateLimit ?? {
+    minIntervalMs: 600,
+    hourlyQuota: 100,
+  };
+
+  async fetchById(mmsi: string): Promise<Vessel | null> {
+    return this.run(async () => {
+      const params = new URLSearchParams({
+        api_key: this.apiKey,
+        mmsi,
+        output: 'json',
+      });
+      const data = await this.request(`${this.source.url}vessel?${params.toString()}`);
+      return this.normalize(data)[0] || null;
+    });
+  }
+
+  normalize(raw: unknown): Vessel[] {
+    const { result } = aisHubResponse(raw);
+    return this.validRecords(result, aisHubVessel, 'result').map((v) => this.toVessel(v));
+  }
+
+  protected async fetchRaw(bounds: MapBounds): Promise<unknown> {
+    const params = new URLSearchParams({
+      api_key: this.apiKey,
+      xmin: bounds.minLon.toString(),
+      xmax: bounds.maxLon.toString(),
+      ymin: bounds.minLat.toString(),
+      ymax: bounds.maxLat.toString(),
+      output: 'json',
+    });
+    return this.request(`${this.source.url}vessels?${params.toString()}`);
+  }
+
+  private async request(url: string): Promise<unknown> {
+    const data = await this.fetchJson(url);
+    const { error } = aisHubResponse(data);
+    if (error) {
+      throw new Error(`AIS Hub error: ${error}`);
+    }
+    return data;
+  }
+
+  /**
+   * Transform an AIS Hub record to our Vessel type
+   */
+  private toVessel(v: AISHubVessel): Vessel {
+    const mmsi = String(v.MMSI);
+    return {
+      imo: v.IMO ? String(v.IMO) : '',
+      mmsi,
+      name: v.ShipName.trim() || 'Unknown Vessel',
+      type: mapShipType(v.Type),
+      flagState: flagFromMmsi(mmsi),
+      position: { latitude: v.Latitude, longitude: v.Longitude },
+      // Fall back to course over ground when the heading sensor is unavailable
+      heading: v.Heading !== undefined && v.Heading < 360 ? v.Heading : v.Course,
+      course: v.Course,
+      speed: v.Speed,
+      status: v.Status,
+      timestamp: v.Timestamp,
+      source: this.name,
+      ...(v.CallSign.trim() ? { callSign: v.CallSign.trim() } : {}),
+      ...(v.A + v.B > 0 ? { length: v.A + v.B } : {}),
+      ...(v.C + v.D > 0 ? { beam: v.C + v.D } : {}),
+      ...(v.Draught > 0 ? { draught: v.Draught } : {}),
+      ...(v.Destination.trim() ? { destination: v.Destination.trim() } : {}),
+    };
+  }
+}
+
+export default AisHubProvider;
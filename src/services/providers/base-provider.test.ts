@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AisHubProvider from './aishub-provider';
+import OpenWeatherProvider from './openweather-provider';
+import { feedSource, flushPromises, jsonResponse, mockFetch } from '../../test/helpers';
+
+const BOUNDS = { minLat: 1, maxLat: 2, minLon: 103, maxLon: 104 };
+
+const WEATHER_BODY = {
+  coord: { lon: 0, lat: 0 },
+  weather: [],
+  main: { temp: 20, feels_like: 20, temp_min: 20, temp_max: 20, pressure: 1013, humidity: 50 },
+  visibility: 10000,
+  wind: { speed: 3, deg: 90 },
+  clouds: { all: 0 },
+  timestamp: 0,
+  name: '',
+  sys: { country: '', sunrise: 0, sunset: 0 },
+};
+
+describe('BaseProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits out the minimum interval between requests', async () => {
+    const fetchMock = mockFetch(() => ({ result: [] }));
+    const provider = new AisHubProvider(feedSource());
+
+    const first = provider.fetchByBounds(BOUNDS);
+    const second = provider.fetchByBounds(BOUNDS);
+    await flushPromises();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(599);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await Promise.all([first, second]);
+  });
+
+  it('holds requests beyond the window quota until the window frees up', async () => {
+    const fetchMock = mockFetch(() => WEATHER_BODY);
+    const provider = new OpenWeatherProvider(feedSource({ category: 'weather_alert' }));
+
+    for (let i = 0; i < 60; i++) {
+      await provider.fetchByBounds(BOUNDS);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(60);
+
+    const held = provider.fetchByBounds(BOUNDS);
+    await flushPromises();
+    expect(fetchMock).toHaveBeenCalledTimes(60);
+
+    // Window is 60s from the first request, plus a 100ms margin
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(fetchMock).toHaveBeenCalledTimes(60);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetchMock).toHaveBeenCalledTimes(61);
+    await held;
+  });
+
+  it('tracks health across successes and failures', async () => {
+    let failing = false;
+    mockFetch(() => (failing ? jsonResponse({}, 500) : { result: [] }));
+    const provider = new AisHubProvider(feedSource());
+
+    expect(provider.getHealth().status).toBe('unknown');
+
+    await provider.fetchByBounds(BOUNDS);
+    expect(provider.getHealth()).toMatchObject({ status: 'ok', consecutiveFailures: 0, requests: 1 });
+
+    failing = true;
+    for (let i = 1; i <= 3; i++) {
+      await vi.advanceTimersByTimeAsync(600);
+      await expect(provider.fetchByBounds(BOUNDS)).rejects.toMatchObject({ service: 'Test Feed' });
+      expect(provider.getHealth().status).toBe(i < 3 ? 'degraded' : 'down');
+    }
+    expect(provider.getHealth()).toMatchObject({
+      consecutiveFailures: 3,
+      lastError: 'Test Feed API error: 500 Error',
+    });
+
+    failing = false;
+    await vi.advanceTimersByTimeAsync(600);
+    await provider.fetchByBounds(BOUNDS);
+    expect(provider.getHealth()).toMatchObject({ status: 'ok', consecutiveFailures: 0, requests: 5 });
+  });
+
+  it('requests through an injected transport under the injected rate limit', async () => {
+    const fetchMock = mockFetch(() => ({ result: [] }));
+    const transport = vi.fn(async (_url: string) => ({ result: [] }));
+    const provider = new AisHubProvider(feedSource(), { fetchJson: transport, rateLimit: {} });
+
+    await Promise.all([provider.fetchByBounds(BOUNDS), provider.fetchByBounds(BOUNDS)]);
+
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(transport.mock.calls[0][0]).toContain('https://api.test/vessels?');
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(provider.rateLimit).toEqual({});
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Base Provider
+ * Shared rate limiting, health tracking and error shaping for provider adapters
+ */
+
+import { SchemaError, parseRecords, type Parser } from '../../lib/schema';
+import type { FeedSource, MapBounds, ServiceError } from '../../types/maritime';
+import type { ProviderHealth, ProviderKind, ProviderOptions, RateLimitPolicy } from './types';
+
+abstract class BaseProvider<T> {
+  readonly id: string;
+  readonly name: string;
+  readonly source: FeedSource;
+  abstract readonly kind: ProviderKind;
+  abstract readonly rateLimit: RateLimitPolicy;
+  protected readonly options: ProviderOptions;
+
+  private requestTimestamps: number[] = [];
+  private lastRequestTime = 0;
+  private health: ProviderHealth = {
+    status: 'unknown',
+    lastSuccess: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    latencyMs: null,
+    requests: 0,
+  };
+
+  constructor(source: FeedSource, options: ProviderOptions = {}) {
+    this.id = source.id;
+    this.name = source.name;
+    this.source = source;
+    this.options = options;
+  }
+
+  async fetchByBounds(bounds: MapBounds): Promise<T[]> {
+    return this.run(async () => this.normalize(await this.fetchRaw(bounds), bounds));
+  }
+
+  abstract normalize(raw: unknown, bounds?: MapBounds): T[];
+
+  /**
+   * Vendor request for a bounding box, returning the raw response body
+   */
+  protected abstract fetchRaw(bounds: MapBounds): Promise<unknown>;
+
+  getHealth(): ProviderHealth {
+    return { ...this.health };
+  }
+
+  protected get apiKey(): string {
+    return this.source.auth?.credentials || '';
+  }
+
+  /**
+   * Run a request under the rate limit, recording health and shaping errors
+   */
+  protected async run<R>(request: () => Promise<R>): Promise<R> {
+    await this.enforceRateLimit();
+
+    const started = Date.now();
+    this.health.requests++;
+    try {
+      const result = await request();
+      this.health = {
+        ...this.health,
+        status: 'ok',
+        lastSuccess: new Date(),
+        consecutiveFailures: 0,
+        latencyMs: Date.now() - started,
+      };
+      return result;
+    } catch (error) {
+      const message =
+        error instanceof SchemaError
+          ? `Invalid ${this.name} response: ${error.message}`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      const failures = this.health.consecutiveFailures + 1;
+      this.health = {
+        ...this.health,
+        status: failures >= 3 ? 'down' : 'degraded',
+        lastError: message,
+        consecutiveFailures: failures,
+      };
+      console.error(`[${this.name}] Request failed:`, message);
+      throw {
+        service: this.name,
+        message,
+        timestamp: new Date().toISOString(),
+      } as ServiceError;
+    }
+  }
+
+  /**
+   * Validate a list of vendor records, dropping and logging invalid ones.
+   * Throws when there were records but none of them could be used.
+   */
+  protected validRecords<R>(value: unknown, parser: Parser<R>, path: string): R[] {
+    const { records, rejected } = parseRecords(value, parser, path);
+    if (rejected.length > 0) {
+      if (records.length === 0) throw rejected[0];
+      console.warn(
+        `[${this.name}] Dropped ${rejected.length} invalid records, e.g. ${rejected[0].message}`
+      );
+    }
+    return records;
+  }
+
+  /**
+   * GET a JSON document (through the injected transport, if any)
+   */
+  protected async fetchJson(url: string): Promise<unknown> {
+    if (this.options.fetchJson) return this.options.fetchJson(url);
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Wait as needed to respect the minimum interval and the request window
+   */
+  private async enforceRateLimit(): Promise<void> {
+    const { maxRequests, windowMs, minIntervalMs } = this.rateLimit;
+    let wait = 0;
+
+    if (minIntervalMs) {
+      wait = Math.max(wait, this.lastRequestTime + minIntervalMs - Date.now());
+    }
+
+    if (maxRequests && windowMs) {
+      const now = Date.now();
+      this.requestTimestamps = this.requestTimestamps.filter((t) => now - t < windowMs);
+      if (this.requestTimestamps.length >= maxRequests) {
+        wait = Math.max(wait, windowMs - (now - this.requestTimestamps[0]) + 100);
+        console.log(`[${this.name}] Rate limit reached, waiting ${wait}ms`);
+      }
+    }
+
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+
+    this.lastRequestTime = Date.now();
+    this.requestTimestamps.push(this.lastRequestTime);
+  }
+}
+
+export default BaseProvider;
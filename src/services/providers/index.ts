@@ -0,0 +1,20 @@
+/**
+ * Built-in data providers
+ * New vendors register a factory here and are enabled through config/feed-sources.ts
+ */
+
+import ProviderRegistry from './registry';
+import AisHubProvider from './aishub-provider';
+import OpenWeatherProvider from './openweather-provider';
+import ReCaapProvider from './recaap-provider';
+import { createSimulatedProvider } from './simulated-providers';
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register('aishub', (source) => new AisHubProvider(source));
+providerRegistry.register('openweather', (source) => new OpenWeatherProvider(source));
+providerRegistry.register('recaap', (source) => new ReCaapProvider(source));
+providerRegistry.register('simulation', createSimulatedProvider);
+
+export { ProviderRegistry };
+export type * from './types';
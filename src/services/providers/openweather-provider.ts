@@ -0,0 +1,147 @@
+/**
+ * OpenWeather Provider
+ * Current conditions (for the centre of the requested bounds) and forecasts
+ */
+
+import BaseProvider from './base-provider';
+import {
+  array,
+  date,
+  number,
+  object,
+  optional,
+  string,
+  unknown,
+  type Infer,
+} from '../../lib/schema';
+import type { WeatherProvider, RateLimitPolicy } from './types';
+import type { WeatherData, MapBounds } from '../../types/maritime';
+
+const openWeatherConditions = object({
+  coord: optional(object({ lon: number(), lat: number() })),
+  weather: optional(array(object({ description: optional(string(), 'unknown') })), []),
+  main: object({
+    temp: number(),
+    feels_like: optional(number()),
+    pressure: number({ min: 0 }),
+    humidity: number({ min: 0, max: 100 }),
+  }),
+  visibility: optional(number({ min: 0 }), 10000),
+  wind: object({
+    speed: number({ min: 0 }),
+    deg: optional(number(), 0),
+    gust: optional(number({ min: 0 }), 0),
+  }),
+  clouds: optional(object({ all: number({ min: 0, max: 100 }) }), { all: 0 }),
+  rain: optional(object({ '1h': optional(number({ min: 0 }), 0) })),
+  waves: optional(object({ height: number({ min: 0 }) })),
+  dt: optional(date({ unit: 's' })),
+  timestamp: optional(date({ unit: 's' })),
+  name: optional(string(), ''),
+  sys: optional(object({ country: optional(string(), '') })),
+});
+
+const forecastResponse = object({
+  list: unknown(),
+  city: optional(object({ name: optional(string(), ''), country: optional(string(), '') })),
+});
+
+type OpenWeatherConditions = Infer<typeof openWeatherConditions>;
+
+class OpenWeatherProvider extends BaseProvider<WeatherData> implements WeatherProvider {
+  readonly kind = 'weather' as const;
+  readonly rateLimit: RateLimitPolicy = this.options.rateLimit ?? {
+    maxRequests: 60, // 60 calls/min
+    windowMs: 60 * 1000,
+  };
+
+  async fetchForecast(latitude: number, longitude: number, days: number): Promise<WeatherData[]> {
+    return this.run(async () => {
+      const data = forecastResponse(
+        await this.fetchJson(`${this.source.url}forecast?${this.params(latitude, longitude)}`)
+      );
+      const location = this.locationName(data.city?.name, data.city?.country, latitude, longitude);
+
+      return this.validRecords(data.list, openWeatherConditions, 'list')
+        .filter((f) => f.dt)
+        .slice(0, days * 8) // 8 forecasts per day (every 3 hours)
+        .map((f) => ({
+          ...this.toWeather(f, latitude, longitude, location),
+          id: `forecast_${latitude}_${longitude}_${f.dt!.getTime() / 1000}`,
+          timestamp: f.dt!,
+        }));
+    });
+  }
+
+  normalize(raw: unknown, bounds?: MapBounds): WeatherData[] {
+    const data = openWeatherConditions(raw);
+    const latitude = bounds ? (bounds.minLat + bounds.maxLat) / 2 : data.coord?.lat ?? 0;
+    const longitude = bounds ? (bounds.minLon + bounds.maxLon) / 2 : data.coord?.lon ?? 0;
+    const location = this.locationName(data.name, data.sys?.country, latitude, longitude);
+
+    return [
+      {
+        ...this.toWeather(data, latitude, longitude, location),
+        id: `weather_${latitude}_${longitude}`,
+        timestamp: data.dt ?? data.timestamp ?? new Date(),
+      },
+    ];
+  }
+
+  protected async fetchRaw(bounds: MapBounds): Promise<unknown> {
+    const latitude = (bounds.minLat + bounds.maxLat) / 2;
+    const longitude = (bounds.minLon + bounds.maxLon) / 2;
+    return this.fetchJson(`${this.source.url}weather?${this.params(latitude, longitude)}`);
+  }
+
+  private params(latitude: number, longitude: number): string {
+    return new URLSearchParams({
+      lat: latitude.toString(),
+      lon: longitude.toString(),
+      appid: this.apiKey,
+      units: 'metric',
+    }).toString();
+  }
+
+  /**
+   * "Name, CC", or the coordinates when OpenWeather has no place name (open sea)
+   */
+  private locationName(
+    name: string | undefined,
+    country: string | undefined,
+    latitude: number,
+    longitude: number
+  ): string {
+    return (
+      [name, country].filter(Boolean).join(', ') || `${latitude.toFixed(2)}, ${longitude.toFixed(2)}`
+    );
+  }
+
+  private toWeather(
+    data: OpenWeatherConditions,
+    latitude: number,
+    longitude: number,
+    location: string
+  ): Omit<WeatherData, 'id' | 'timestamp'> {
+    return {
+      latitude,
+      longitude,
+      temperature: data.main.temp,
+      feelsLike: data.main.feels_like ?? data.main.temp,
+      humidity: data.main.humidity,
+      pressure: data.main.pressure,
+      windSpeed: data.wind.speed,
+      windDirection: data.wind.deg,
+      windGust: data.wind.gust,
+      description: data.weather[0]?.description || 'unknown',
+      clouds: data.clouds.all,
+      visibility: data.visibility,
+      rain: data.rain?.['1h'] || 0,
+      waves: data.waves?.height || 0,
+      location,
+      source: this.name,
+    };
+  }
+}
+
+export default OpenWeatherProvider;
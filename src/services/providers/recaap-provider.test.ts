@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { determineSeverity } from './recaap-provider';
+
+describe('determineSeverity', () => {
+  it.each([
+    ['Vessel attacked by pirates', 'critical'],
+    ['Armed robbers boarded the vessel', 'critical'],
+    ['Crew taken hostage', 'critical'],
+    ['Perpetrators opened fire at the bridge', 'critical'],
+    ['Boarding by four perpetrators', 'high'],
+    ['Robbery of engine spares', 'high'],
+    ['Attempted theft from the stern', 'high'],
+    ['Suspicious craft sighted', 'medium'],
+    ['Skiff made an approach to the tanker', 'medium'],
+    ['Unauthorised persons sighted on deck', 'low'],
+  ] as const)('classifies "%s" as %s', (description, severity) => {
+    expect(determineSeverity(description)).toBe(severity);
+  });
+
+  it('prefers the most severe keyword', () => {
+    expect(determineSeverity('Attempted boarding by armed men')).toBe('critical');
+    expect(determineSeverity('Suspicious approach followed by a robbery')).toBe('high');
+  });
+
+  it('is case-insensitive', () => {
+    expect(determineSeverity('ARMED ROBBERY')).toBe('critical');
+  });
+
+  it('treats a missing description as low severity', () => {
+    expect(determineSeverity('')).toBe('low');
+    expect(determineSeverity(undefined as unknown as string)).toBe('low');
+  });
+});
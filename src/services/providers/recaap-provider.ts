@@ -0,0 +1,93 @@
+/**
+ * ReCAAP Provider
+ * Piracy and armed robbery incidents from ReCAAP ISC (Southeast Asia)
+ */
+
+import BaseProvider from './base-provider';
+import { date, number, object, optional, string, unknown, type Infer } from '../../lib/schema';
+import type { IncidentProvider, RateLimitPolicy } from './types';
+import type { SecurityIncident } from '../../types/maritime';
+
+const reCaapIncident = object({
+  id: string({ coerce: true, nonEmpty: true }),
+  subRegionName: optional(string(), ''),
+  description: optional(string(), ''),
+  remarks: optional(string(), ''),
+  latitude: number({ coerce: true, min: -90, max: 90 }),
+  longitude: number({ coerce: true, min: -180, max: 180 }),
+  date: date(),
+});
+
+const reCaapResponse = object({
+  data: optional(unknown(), []),
+});
+
+type ReCaapIncident = Infer<typeof reCaapIncident>;
+
+/**
+ * Determine incident severity from description
+ */
+export function determineSeverity(
+  description: string
+): 'critical' | 'high' | 'medium' | 'low' {
+  const text = (description || '').toLowerCase();
+
+  if (
+    text.includes('attack') ||
+    text.includes('armed') ||
+    text.includes('hostage') ||
+    text.includes('fire')
+  ) {
+    return 'critical';
+  }
+  if (
+    text.includes('boarding') ||
+    text.includes('robbery') ||
+    text.includes('attempted')
+  ) {
+    return 'high';
+  }
+  if (text.includes('suspicious') || text.includes('approach')) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+class ReCaapProvider extends BaseProvider<SecurityIncident> implements IncidentProvider {
+  readonly kind = 'incidents' as const;
+  readonly rateLimit: RateLimitPolicy = this.options.rateLimit ?? {
+    minIntervalMs: 1000,
+  };
+
+  normalize(raw: unknown): SecurityIncident[] {
+    const { data } = reCaapResponse(raw);
+    return this.validRecords(data, reCaapIncident, 'data')
+      .slice(0, 100) // Last 100 incidents
+      .map((incident) => this.toIncident(incident));
+  }
+
+  /**
+   * The feed is global; bounds are applied by the caller
+   */
+  protected async fetchRaw(): Promise<unknown> {
+    return this.fetchJson(this.source.url);
+  }
+
+  private toIncident(incident: ReCaapIncident): SecurityIncident {
+    return {
+      id: `recaap_${incident.id}`,
+      type: incident.subRegionName || 'security',
+      description: incident.description || incident.remarks,
+      location: `${incident.latitude}, ${incident.longitude}`,
+      latitude: incident.latitude,
+      longitude: incident.longitude,
+      date: incident.date,
+      severity: determineSeverity(incident.description),
+      status: 'reported',
+      source: this.name,
+      timestamp: incident.date,
+    };
+  }
+}
+
+export default ReCaapProvider;
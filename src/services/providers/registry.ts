@@ -0,0 +1,102 @@
+/**
+ * Provider Registry
+ * Maps provider adapter ids to factories and instantiates providers from FeedSource configs
+ */
+
+import type { FeedSource, MaritimeEventType } from '../../types/maritime';
+import type {
+  AnyProvider,
+  IncidentProvider,
+  ProviderFactory,
+  ProviderHealth,
+  ProviderKind,
+  VesselProvider,
+  WeatherProvider,
+} from './types';
+
+interface ProvidersByKind {
+  vessels: VesselProvider;
+  weather: WeatherProvider;
+  incidents: IncidentProvider;
+}
+
+// Feed categories served by each provider kind
+const CATEGORY_KINDS: Partial<Record<MaritimeEventType, ProviderKind>> = {
+  vessel_tracking: 'vessels',
+  weather_alert: 'weather',
+  piracy_incident: 'incidents',
+};
+
+class ProviderRegistry {
+  private factories: Map<string, ProviderFactory> = new Map();
+  private providers: AnyProvider[] = [];
+
+  /**
+   * Register an adapter under the id FeedSource.provider refers to
+   */
+  register(providerId: string, factory: ProviderFactory): void {
+    this.factories.set(providerId, factory);
+  }
+
+  hasFactory(providerId: string): boolean {
+    return this.factories.has(providerId);
+  }
+
+  /**
+   * Instantiate providers for the enabled feed sources, replacing any previous set
+   */
+  configure(sources: FeedSource[]): void {
+    this.providers = [];
+
+    [...sources]
+      .filter((source) => source.enabled)
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+      .forEach((source) => {
+        const factory = this.factories.get(source.provider);
+        if (!factory) {
+          console.warn(`[ProviderRegistry] No provider registered for "${source.provider}" (${source.id})`);
+          return;
+        }
+
+        const provider = factory(source);
+        const expected = CATEGORY_KINDS[source.category];
+        if (expected && provider.kind !== expected) {
+          console.warn(
+            `[ProviderRegistry] ${source.id}: provider "${source.provider}" serves ${provider.kind}, not ${source.category}`
+          );
+          return;
+        }
+
+        this.providers.push(provider);
+      });
+
+    console.log(
+      `[ProviderRegistry] Configured ${this.providers.length} providers: ` +
+        this.providers.map((p) => p.id).join(', ')
+    );
+  }
+
+  /**
+   * Providers of one kind, in priority order
+   */
+  getProviders<K extends ProviderKind>(kind: K): ProvidersByKind[K][] {
+    return this.providers.filter((p) => p.kind === kind) as ProvidersByKind[K][];
+  }
+
+  getProvider(id: string): AnyProvider | null {
+    return this.providers.find((p) => p.id === id) || null;
+  }
+
+  /**
+   * Health of every configured provider, keyed by id
+   */
+  getHealth(): Record<string, ProviderHealth> {
+    const health: Record<string, ProviderHealth> = {};
+    this.providers.forEach((p) => {
+      health[p.id] = p.getHealth();
+    });
+    return health;
+  }
+}
+
+export default ProviderRegistry;
@@ -0,0 +1,45 @@
+/**
+ * Simulated Providers
+ * The AIS Hub, OpenWeather and ReCAAP adapters with the offline simulation
+ * injected as their transport, so mock mode runs the same parsing code as live data.
+ * Feed sources use urls of the form `sim://<seed>/<vendor>/`.
+ */
+
+import AisHubProvider from './aishub-provider';
+import OpenWeatherProvider from './openweather-provider';
+import ReCaapProvider from './recaap-provider';
+import { getSimulation, respondToFixture } from '../../lib/fixture-responses';
+import type { AnyProvider, ProviderOptions } from './types';
+import type { FeedSource } from '../../types/maritime';
+
+/**
+ * Resolve a `sim://` url against the simulation for its seed
+ */
+async function simulatedFetch(name: string, url: string): Promise<unknown> {
+  const parsed = new URL(url);
+  const seed = parseInt(parsed.host, 10);
+  const response = respondToFixture(getSimulation(isNaN(seed) ? undefined : seed), parsed);
+  if (response.status !== 200) {
+    throw new Error(`${name} API error: ${response.status}`);
+  }
+  return response.body;
+}
+
+/**
+ * Factory for the `simulation` provider id; the feed category picks the adapter.
+ * The simulation has no rate limits.
+ */
+export function createSimulatedProvider(source: FeedSource): AnyProvider {
+  const options: ProviderOptions = {
+    fetchJson: (url) => simulatedFetch(source.name, url),
+    rateLimit: {},
+  };
+  switch (source.category) {
+    case 'weather_alert':
+      return new OpenWeatherProvider(source, options);
+    case 'piracy_incident':
+      return new ReCaapProvider(source, options);
+    default:
+      return new AisHubProvider(source, options);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Data Provider Types
+ * Common contract for vendor adapters (AIS, weather, security feeds)
+ */
+
+import type {
+  Vessel,
+  WeatherData,
+  SecurityIncident,
+  MapBounds,
+  FeedSource,
+} from '../../types/maritime';
+
+export type ProviderKind = 'vessels' | 'weather' | 'incidents';
+
+export interface RateLimitPolicy {
+  maxRequests?: number; // requests allowed per window
+  windowMs?: number;
+  minIntervalMs?: number; // minimum spacing between requests
+  hourlyQuota?: number; // vendor budget; not enforced here, callers plan their requests within it
+}
+
+/**
+ * Overrides for running an adapter somewhere other than the browser against the vendor
+ */
+export interface ProviderOptions {
+  fetchJson?: (url: string) => Promise<unknown>; // replaces the HTTP GET, e.g. with the simulation or proxy
+  rateLimit?: RateLimitPolicy; // replaces the adapter's own policy
+}
+
+export interface ProviderHealth {
+  status: 'ok' | 'degraded' | 'down' | 'unknown';
+  lastSuccess: Date | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  latencyMs: number | null;
+  requests: number;
+}
+
+export interface DataProvider<T> {
+  readonly id: string;
+  readonly name: string;
+  readonly kind: ProviderKind;
+  readonly source: FeedSource;
+  readonly rateLimit: RateLimitPolicy;
+
+  /**
+   * Fetch records in a bounding box, normalized to the shared types
+   */
+  fetchByBounds(bounds: MapBounds): Promise<T[]>;
+
+  /**
+   * Convert a raw vendor response into the shared types
+   */
+  normalize(raw: unknown, bounds?: MapBounds): T[];
+
+  getHealth(): ProviderHealth;
+}
+
+export interface VesselProvider extends DataProvider<Vessel> {
+  readonly kind: 'vessels';
+  fetchById?(mmsi: string): Promise<Vessel | null>;
+}
+
+export interface WeatherProvider extends DataProvider<WeatherData> {
+  readonly kind: 'weather';
+  fetchForecast?(latitude: number, longitude: number, days: number): Promise<WeatherData[]>;
+}
+
+export interface IncidentProvider extends DataProvider<SecurityIncident> {
+  readonly kind: 'incidents';
+}
+
+export type AnyProvider = VesselProvider | WeatherProvider | IncidentProvider;
+
+export type ProviderFactory = (source: FeedSource) => AnyProvider;
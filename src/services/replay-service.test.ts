@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import ReplayService from './replay-service';
+
+const START = '2026-03-01T09:00:00.000Z';
+
+function report(mmsi: string) {
+  return {
+    mmsi,
+    position: { latitude: 1.2, longitude: 103.8 },
+    timestamp: START,
+    source: 'AIS Hub',
+  };
+}
+
+describe('ReplayService.parseSession', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('keeps valid frames in time order and drops invalid frames and records', () => {
+    const session = new ReplayService().parseSession(
+      JSON.stringify({
+        name: 'Strait watch',
+        frames: [
+          { timestamp: '2026-03-01T09:10:00Z', vessels: [report('111111111'), { mmsi: '' }] },
+          { timestamp: 'not a date', vessels: [report('222222222')] },
+          null,
+          { timestamp: START, weather: 'none' },
+        ],
+      })
+    );
+
+    expect(session.name).toBe('Strait watch');
+    expect(session.frames.map((f) => f.timestamp.toISOString())).toEqual([START, '2026-03-01T09:10:00.000Z']);
+    expect(session.frames[0]).toMatchObject({ vessels: [], weather: [], incidents: [] });
+    expect(session.frames[1].vessels.map((v) => v.mmsi)).toEqual(['111111111']);
+    expect(console.warn).toHaveBeenCalledWith('[ReplayService] Dropped 3 invalid records from the session');
+  });
+
+  it('rejects files without usable frames', () => {
+    const service = new ReplayService();
+
+    expect(() => service.parseSession('{"frames": []}')).toThrow('no frames');
+    expect(() => service.parseSession('{"frames": [{"timestamp": null}]}')).toThrow('no valid frame timestamps');
+    expect(() => service.parseSession('[]')).toThrow('session: expected an object');
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Replay Service
+ * Plays back a recorded session (vessels, weather, incidents with timestamps)
+ * on its own clock at 1x-100x speed, with seeking and jump-to-event
+ */
+
+import { date, object, optional, parseRecords, unknown, type Parser } from '../lib/schema';
+import { incidentRecord, vesselRecord, weatherRecord } from '../lib/domain-schemas';
+import type { Vessel, WeatherData, SecurityIncident } from '../types/maritime';
+
+export interface SessionFrame {
+  timestamp: Date;
+  vessels: Vessel[];
+  weather: WeatherData[];
+  incidents: SecurityIncident[];
+}
+
+export interface RecordedSession {
+  id: string;
+  name: string;
+  startedAt: Date;
+  endedAt: Date;
+  frames: SessionFrame[]; // oldest first
+}
+
+export interface ReplayEvent {
+  id: string;
+  timestamp: Date;
+  label: string;
+  severity?: string;
+}
+
+export interface ReplayStatus {
+  loaded: boolean;
+  playing: boolean;
+  speed: number;
+  currentTime: Date | null;
+  startTime: Date | null;
+  endTime: Date | null;
+}
+
+export interface ReplayUpdate {
+  status: ReplayStatus;
+  frame: SessionFrame | null; // frame in effect at the replay clock
+  passed: SessionFrame[]; // frames reached since the previous update, oldest first
+  seeked: boolean; // clock jumped; consumers should rebuild derived state
+}
+
+type ReplayListener = (update: ReplayUpdate) => void;
+
+const sessionFile = object({
+  id: optional(unknown()),
+  name: optional(unknown()),
+  frames: optional(unknown(), []),
+});
+
+// Record lists are checked one record at a time, so a bad vessel does not drop its frame
+const sessionFrame = object({
+  timestamp: date(),
+  vessels: optional(unknown(), []),
+  weather: optional(unknown(), []),
+  incidents: optional(unknown(), []),
+});
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+
+class ReplayService {
+  private session: RecordedSession | null = null;
+  private events: ReplayEvent[] = [];
+  private listeners: Set<ReplayListener> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private tickInterval = 250; // ms of wall time between clock updates
+  private clock = 0; // replay time, ms since epoch
+  private lastTick = 0;
+  private frameIndex = -1;
+  private speed = 1;
+  private playing = false;
+
+  /**
+   * Parse an exported session (JSON), validating its records and restoring their dates.
+   * Records and frames that fail validation are dropped rather than failing the whole session.
+   */
+  parseSession(text: string): RecordedSession {
+    const raw = sessionFile(JSON.parse(text), 'session');
+    if (!Array.isArray(raw.frames) || raw.frames.length === 0) {
+      throw new Error('Recorded session has no frames');
+    }
+
+    let rejected = 0;
+    const records = <T>(value: unknown, parser: Parser<T>, path: string): T[] => {
+      if (!Array.isArray(value)) return [];
+      const result = parseRecords(value, parser, path);
+      rejected += result.rejected.length;
+      return result.records;
+    };
+    const frame: Parser<SessionFrame> = (value, path = '') => {
+      const f = sessionFrame(value, path);
+      return {
+        timestamp: f.timestamp,
+        vessels: records(f.vessels, vesselRecord, `${path}.vessels`),
+        weather: records(f.weather, weatherRecord, `${path}.weather`),
+        incidents: records(f.incidents, incidentRecord, `${path}.incidents`),
+      };
+    };
+
+    const parsed = parseRecords(raw.frames, frame, 'frames');
+    rejected += parsed.rejected.length;
+    const frames = parsed.records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (rejected > 0) {
+      console.warn(`[ReplayService] Dropped ${rejected} invalid records from the session`);
+    }
+
+    if (frames.length === 0) {
+      throw new Error('Recorded session has no valid frame timestamps');
+    }
+
+    return {
+      id: String(raw.id || `session_${frames[0].timestamp.getTime()}`),
+      name: String(raw.name || 'Recorded session'),
+      startedAt: frames[0].timestamp,
+      endedAt: frames[frames.length - 1].timestamp,
+      frames,
+    };
+  }
+
+  /**
+   * Load a session and position the clock at its start (paused)
+   */
+  load(session: RecordedSession): void {
+    this.pause();
+    this.session = session;
+    this.events = this.collectEvents(session);
+    this.clock = session.startedAt.getTime();
+    this.frameIndex = -1;
+    console.log(
+      `[Replay] Loaded "${session.name}": ${session.frames.length} frames, ${this.events.length} events`
+    );
+    this.advance(true);
+  }
+
+  /**
+   * Unload the session and stop playback
+   */
+  unload(): void {
+    this.pause();
+    this.session = null;
+    this.events = [];
+    this.frameIndex = -1;
+  }
+
+  play(): void {
+    if (!this.session || this.playing) return;
+
+    // Restart from the beginning when play is pressed at the end
+    if (this.clock >= this.session.endedAt.getTime()) {
+      this.seek(this.session.startedAt.getTime());
+    }
+
+    this.playing = true;
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), this.tickInterval);
+    this.notify(this.currentFrame(), [], false);
+  }
+
+  pause(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.playing) {
+      this.playing = false;
+      this.notify(this.currentFrame(), [], false);
+    }
+  }
+
+  toggle(): void {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  /**
+   * Set playback speed (clamped to 1x-100x)
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(1, Math.min(100, speed || 1));
+    this.notify(this.currentFrame(), [], false);
+  }
+
+  /**
+   * Move the replay clock to a time within the session
+   */
+  seek(time: number): void {
+    if (!this.session) return;
+
+    this.clock = Math.max(
+      this.session.startedAt.getTime(),
+      Math.min(this.session.endedAt.getTime(), time)
+    );
+    this.frameIndex = -1;
+    this.advance(true);
+  }
+
+  /**
+   * Seek to an event's timestamp
+   */
+  jumpToEvent(id: string): void {
+    const event = this.events.find((e) => e.id === id);
+    if (event) {
+      this.seek(event.timestamp.getTime());
+    }
+  }
+
+  getStatus(): ReplayStatus {
+    return {
+      loaded: this.session !== null,
+      playing: this.playing,
+      speed: this.speed,
+      currentTime: this.session ? new Date(this.clock) : null,
+      startTime: this.session?.startedAt || null,
+      endTime: this.session?.endedAt || null,
+    };
+  }
+
+  getEvents(): ReplayEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Frames up to (and including) the given time, oldest first
+   */
+  getFramesUntil(time: number): SessionFrame[] {
+    if (!this.session) return [];
+    return this.session.frames.filter((f) => f.timestamp.getTime() <= time);
+  }
+
+  /**
+   * Subscribe to clock and frame updates
+   */
+  subscribe(listener: ReplayListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Advance the clock by elapsed wall time times the playback speed
+   */
+  private tick(): void {
+    if (!this.session) return;
+
+    const now = Date.now();
+    this.clock += (now - this.lastTick) * this.speed;
+    this.lastTick = now;
+
+    if (this.clock >= this.session.endedAt.getTime()) {
+      this.clock = this.session.endedAt.getTime();
+      this.advance(false);
+      this.pause();
+      return;
+    }
+
+    this.advance(false);
+  }
+
+  /**
+   * Move the frame cursor up to the clock and notify listeners
+   */
+  private advance(seeked: boolean): void {
+    if (!this.session) return;
+
+    const frames = this.session.frames;
+    const passed: SessionFrame[] = [];
+    while (
+      this.frameIndex + 1 < frames.length &&
+      frames[this.frameIndex + 1].timestamp.getTime() <= this.clock
+    ) {
+      this.frameIndex++;
+      passed.push(frames[this.frameIndex]);
+    }
+
+    this.notify(this.currentFrame(), passed, seeked);
+  }
+
+  private currentFrame(): SessionFrame | null {
+    return this.session && this.frameIndex >= 0 ? this.session.frames[this.frameIndex] : null;
+  }
+
+  /**
+   * Distinct incidents across the session, in time order
+   */
+  private collectEvents(session: RecordedSession): ReplayEvent[] {
+    const events: Map<string, ReplayEvent> = new Map();
+
+    session.frames.forEach((frame) => {
+      frame.incidents.forEach((incident) => {
+        if (events.has(incident.id)) return;
+        events.set(incident.id, {
+          id: incident.id,
+          timestamp: incident.timestamp,
+          label: incident.type || 'Incident',
+          severity: incident.severity,
+        });
+      });
+    });
+
+    return Array.from(events.values()).sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+    );
+  }
+
+  private notify(frame: SessionFrame | null, passed: SessionFrame[], seeked: boolean): void {
+    const update: ReplayUpdate = { status: this.getStatus(), frame, passed, seeked };
+    this.listeners.forEach((listener) => listener(update));
+  }
+}
+
+export default ReplayService;
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SecurityMonitorService from './security-monitor';
+import ReCaapProvider from './providers/recaap-provider';
+import { feedSource, jsonResponse, mockFetch } from '../test/helpers';
+
+const RECAAP_PAYLOAD = {
+  data: [
+    {
+      id: 101,
+      subRegionName: 'Singapore Strait',
+      description: 'Armed robbers boarded the anchored tanker',
+      latitude: '1.2',
+      longitude: '104.0',
+      date: '2026-02-27T22:15:00Z',
+    },
+    {
+      id: 102,
+      description: '',
+      remarks: 'Crew sighted a suspicious boat approaching',
+      latitude: '5.5',
+      longitude: '119.5',
+      date: '2026-02-28T03:00:00Z',
+    },
+    {
+      id: 103,
+      subRegionName: 'South China Sea',
+      description: 'Position not reported',
+      latitude: 'n/a',
+      longitude: '',
+      date: '2026-02-28T05:00:00Z',
+    },
+  ],
+};
+
+function recaap() {
+  return new ReCaapProvider(
+    feedSource({
+      id: 'recaap',
+      name: 'ReCAAP ISC',
+      provider: 'recaap',
+      category: 'piracy_incident',
+      url: 'https://api.test/Incidents',
+      auth: undefined,
+    })
+  );
+}
+
+describe('SecurityMonitorService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps ReCAAP incidents and drops those without coordinates', async () => {
+    const fetchMock = mockFetch(() => RECAAP_PAYLOAD);
+    const monitor = new SecurityMonitorService([recaap()]);
+
+    const incidents = await monitor.getSecurityIncidents();
+
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/Incidents');
+    expect(incidents).toHaveLength(2);
+    expect(incidents[0]).toEqual({
+      id: 'recaap_101',
+      type: 'Singapore Strait',
+      description: 'Armed robbers boarded the anchored tanker',
+      location: '1.2, 104',
+      latitude: 1.2,
+      longitude: 104,
+      date: new Date('2026-02-27T22:15:00Z'),
+      severity: 'critical',
+      status: 'reported',
+      source: 'ReCAAP ISC',
+      timestamp: new Date('2026-02-27T22:15:00Z'),
+    });
+    // Falls back to remarks and a generic type
+    expect(incidents[1]).toMatchObject({
+      type: 'security',
+      description: 'Crew sighted a suspicious boat approaching',
+    });
+  });
+
+  it('filters cached incidents by bounds', async () => {
+    const fetchMock = mockFetch(() => RECAAP_PAYLOAD);
+    const monitor = new SecurityMonitorService([recaap()]);
+
+    const singapore = await monitor.getSecurityIncidents({
+      minLat: 0,
+      maxLat: 2,
+      minLon: 103,
+      maxLon: 105,
+    });
+    const all = await monitor.getSecurityIncidents();
+
+    expect(singapore.map((i) => i.id)).toEqual(['recaap_101']);
+    expect(all).toHaveLength(2);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it('refetches after the 30 minute cache expires', async () => {
+    const fetchMock = mockFetch(() => RECAAP_PAYLOAD);
+    const monitor = new SecurityMonitorService([recaap()]);
+
+    await monitor.getSecurityIncidents();
+    vi.advanceTimersByTime(29 * 60 * 1000);
+    await monitor.getSecurityIncidents();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60 * 1000);
+    await monitor.getSecurityIncidents();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns stale cached incidents when the feed fails', async () => {
+    let available = true;
+    mockFetch(() => (available ? RECAAP_PAYLOAD : jsonResponse({}, 502)));
+    const monitor = new SecurityMonitorService([recaap()]);
+
+    await monitor.getSecurityIncidents();
+    available = false;
+    vi.advanceTimersByTime(31 * 60 * 1000);
+
+    const incidents = await monitor.getSecurityIncidents();
+
+    expect(incidents).toHaveLength(2);
+  });
+
+  it('rejects when the feed fails with nothing cached', async () => {
+    mockFetch(() => jsonResponse({}, 502));
+    const monitor = new SecurityMonitorService([recaap()]);
+
+    await expect(monitor.getSecurityIncidents()).rejects.toThrow();
+  });
+});
@@ -1,68 +1,66 @@
 /**
  * Maritime Security Monitoring Service
  * Monitors security incidents, piracy alerts, and suspicious vessel activity
- * Sources: ReCAAP ISC (Southeast Asia), vessel analysis
+ * Sources: configured incident providers (e.g. ReCAAP ISC), vessel analysis
  */
 
-import type { SecurityIncident, CacheEntry, ServiceError } from '../types/maritime';
-
-interface ReCAAP_Incident {
-  id: string;
-  title: string;
-  description: string;
-  date: string;
-  location: string;
-  latitude: number;
-  longitude: number;
-  type: string;
-  status: string;
-  details: string;
-  link: string;
-}
-
-interface ParsedFeed {
-  incidents: SecurityIncident[];
-  lastUpdated: string;
-  source: string;
-}
+import { distanceNm } from '../lib/geo';
+import { riskEngine, type RiskContext } from '../lib/risk-engine';
+import { HIGH_RISK_ZONES } from '../config/risk-rules';
+import DataCache, { type CacheStats } from '../lib/cache';
+import type {
+  SecurityIncident,
+  Vessel,
+  DarkPeriod,
+  MapBounds,
+  RiskLevel,
+} from '../types/maritime';
+import type { IncidentProvider } from './providers';
+
+const WORLD_BOUNDS = { minLat: -90, maxLat: 90, minLon: -180, maxLon: 180 };
 
 class SecurityMonitorService {
-  private recaapFeedUrl = 'https://www.recaap.org/services/api/Incidents';
-  private cache: Map<string, CacheEntry> = new Map();
-  private cacheTimeout = 30 * 60 * 1000; // 30 minutes
+  private providers: IncidentProvider[];
+  // Incidents stay fresh for 30 minutes and are served for a day while the feeds fail
+  private cache = new DataCache<SecurityIncident[]>({
+    name: 'incidents',
+    max: 10,
+    ttlMs: 30 * 60 * 1000,
+    staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+    persist: true,
+  });
   private suspiciousPatterns = {
-    minSpeed: 0.5,
-    maxSpeed: 30,
     anomalousCourse: 180, // significant course changes
-    noSignalTimeout: 12 * 60 * 60 * 1000, // 12 hours
+    darkPeriodThreshold: 2 * 60 * 60 * 1000, // gap between reports counted as going dark
+    maxPlausibleSpeed: 40, // knots; faster across a gap is physically impossible
   };
+  private lastReports: Map<
+    string,
+    { latitude: number; longitude: number; timestamp: number; name: string }
+  > = new Map();
+  private darkPeriods: DarkPeriod[] = [];
+  private maxDarkPeriods = 500;
 
-  constructor() {
+  /**
+   * @param providers Incident providers; results from all of them are combined
+   */
+  constructor(providers: IncidentProvider[] = []) {
+    this.providers = providers;
     console.log('[SecurityMonitor] Service initialized');
   }
 
   /**
-   * Fetch piracy and security incidents from ReCAAP
+   * Fetch piracy and security incidents from all incident providers.
+   * Rejects when every provider fails and nothing is cached, so callers can back off.
    */
   async getSecurityIncidents(
     bounds?: { minLat: number; maxLat: number; minLon: number; maxLon: number }
   ): Promise<SecurityIncident[]> {
     const cacheKey = 'security_incidents';
 
-    // Check cache
-    if (this.isCacheValid(cacheKey)) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        console.log('[SecurityMonitor] Returning cached incidents');
-        return cached.data as SecurityIncident[];
-      }
-    }
-
-    try {
-      const incidents = await this.fetchReCAAP_Incidents();
-
-      // Filter by bounds if provided
-      const filtered = bounds
+    // Filter by bounds if provided
+    const withinBounds = (incidents: SecurityIncident[]) =>
+      bounds
         ? incidents.filter(
             (i) =>
               i.latitude >= bounds.minLat &&
@@ -72,69 +70,155 @@ class SecurityMonitorService {
           )
         : incidents;
 
-      // Cache results
-      this.cache.set(cacheKey, {
-        data: filtered,
-        timestamp: Date.now(),
-      });
-
-      console.log(`[SecurityMonitor] Retrieved ${filtered.length} security incidents`);
-      return filtered;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error('[SecurityMonitor] Error fetching incidents:', message);
-
-      // Return cached data if available, even if stale
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        console.log('[SecurityMonitor] Returning stale cache due to error');
-        return cached.data as SecurityIncident[];
-      }
+    const incidents = (await this.cache.fetch(cacheKey, () => this.fetchIncidents(bounds))) || [];
+    return withinBounds(incidents);
+  }
 
-      return [];
+  /**
+   * Combine the results of every incident provider; rejects only if all of them fail
+   */
+  private async fetchIncidents(bounds?: MapBounds): Promise<SecurityIncident[]> {
+    const results = await Promise.allSettled(
+      this.providers.map((provider) => provider.fetchByBounds(bounds || WORLD_BOUNDS))
+    );
+    const failed = results.filter((r) => r.status === 'rejected');
+    if (this.providers.length > 0 && failed.length === this.providers.length) {
+      throw new Error((failed[0] as PromiseRejectedResult).reason?.message || 'All incident providers failed');
     }
+
+    const incidents = results.flatMap((r) => (r.status === 'fulfilled' ? r.value : []));
+    console.log(`[SecurityMonitor] Retrieved ${incidents.length} security incidents`);
+    return incidents;
   }
 
   /**
-   * Detect suspicious vessel patterns
+   * Detect suspicious vessel patterns using the configurable risk rules
    */
   async detectSuspiciousActivity(
-    vessel: any // Vessel type
-  ): Promise<{ suspicious: boolean; reasons: string[] }> {
-    const reasons: string[] = [];
+    vessel: Vessel,
+    context: RiskContext = {}
+  ): Promise<{ suspicious: boolean; reasons: string[]; score: number; level: RiskLevel }> {
+    const assessment = riskEngine.assess(vessel, {
+      darkPeriods: this.getDarkPeriods(String(vessel.mmsi)),
+      ...context,
+    });
 
-    // Check for speed anomalies
-    if (
-      vessel.speed < this.suspiciousPatterns.minSpeed ||
-      vessel.speed > this.suspiciousPatterns.maxSpeed
-    ) {
-      reasons.push(`Unusual speed: ${vessel.speed} knots`);
-    }
+    return {
+      suspicious: assessment.reasons.length > 0,
+      reasons: assessment.reasons.map((r) => r.reason),
+      score: assessment.score,
+      level: assessment.level,
+    };
+  }
 
-    // Check for missing vessel identity
-    if (!vessel.name || vessel.name === 'Unknown Vessel') {
-      reasons.push('No vessel identity found');
-    }
+  /**
+   * Compare each vessel's report with its previous one and record gaps
+   * longer than the dark-period threshold. Returns the newly detected gaps.
+   */
+  trackAisGaps(vessels: Vessel[]): DarkPeriod[] {
+    const detected: DarkPeriod[] = [];
+
+    vessels.forEach((vessel) => {
+      if (!vessel.position) return;
+
+      const mmsi = String(vessel.mmsi);
+      const timestamp = new Date(vessel.timestamp).getTime();
+      if (isNaN(timestamp)) return;
+
+      const previous = this.lastReports.get(mmsi);
+      const { latitude, longitude } = vessel.position;
+
+      // Ignore repeated or out-of-order reports
+      if (previous && timestamp <= previous.timestamp) return;
+
+      if (previous && timestamp - previous.timestamp >= this.suspiciousPatterns.darkPeriodThreshold) {
+        const hours = (timestamp - previous.timestamp) / (60 * 60 * 1000);
+        const distance = distanceNm(previous.latitude, previous.longitude, latitude, longitude);
+        const impliedSpeed = distance / hours;
+
+        const gap: DarkPeriod = {
+          id: `dark_${mmsi}_${previous.timestamp}`,
+          mmsi,
+          vesselName: vessel.name || previous.name,
+          wentDarkAt: new Date(previous.timestamp),
+          lastPosition: { latitude: previous.latitude, longitude: previous.longitude },
+          reappearedAt: new Date(timestamp),
+          reappearedPosition: { latitude, longitude },
+          durationMinutes: Math.round(hours * 60),
+          distanceNm: distance,
+          impliedSpeed,
+          impossible: impliedSpeed > this.suspiciousPatterns.maxPlausibleSpeed,
+        };
+        detected.push(gap);
+        console.log(
+          `[SecurityMonitor] ${gap.vesselName} (${mmsi}) was dark for ${hours.toFixed(1)}h`
+        );
+      }
 
-    // Check for unusual behavior (stopped in open ocean)
-    if (vessel.speed === 0 && this.isOpenOcean(vessel.latitude, vessel.longitude)) {
-      reasons.push('Stopped in open ocean');
-    }
+      this.lastReports.set(mmsi, { latitude, longitude, timestamp, name: vessel.name });
+    });
 
-    // Check for AIS manipulation (common in illegal activities)
-    if (vessel.status === 14 || vessel.status === 15) {
-      reasons.push('Vessel status indicates fishing or unusual activity');
+    if (detected.length > 0) {
+      this.darkPeriods = [...this.darkPeriods, ...detected].slice(-this.maxDarkPeriods);
     }
+    return detected;
+  }
 
-    // Check for old transponder data
-    if (vessel.timestamp && this.isDataStale(vessel.timestamp)) {
-      reasons.push('Stale AIS data (possible transponder disabled)');
-    }
+  /**
+   * Recorded dark periods, optionally for a single vessel
+   */
+  getDarkPeriods(mmsi?: string): DarkPeriod[] {
+    return mmsi ? this.darkPeriods.filter((g) => g.mmsi === mmsi) : [...this.darkPeriods];
+  }
 
-    return {
-      suspicious: reasons.length > 0,
-      reasons,
-    };
+  /**
+   * Vessels whose last report is older than the dark-period threshold
+   */
+  getDarkVessels(now: number = Date.now()): Array<{ mmsi: string; name: string; since: Date }> {
+    const dark: Array<{ mmsi: string; name: string; since: Date }> = [];
+    this.lastReports.forEach((report, mmsi) => {
+      if (now - report.timestamp >= this.suspiciousPatterns.darkPeriodThreshold) {
+        dark.push({ mmsi, name: report.name, since: new Date(report.timestamp) });
+      }
+    });
+    return dark;
+  }
+
+  /**
+   * Dark periods as security incidents located where the vessel reappeared
+   */
+  getDarkPeriodIncidents(
+    bounds?: { minLat: number; maxLat: number; minLon: number; maxLon: number }
+  ): SecurityIncident[] {
+    return this.darkPeriods
+      .filter(
+        (g) =>
+          !bounds ||
+          (g.reappearedPosition.latitude >= bounds.minLat &&
+            g.reappearedPosition.latitude <= bounds.maxLat &&
+            g.reappearedPosition.longitude >= bounds.minLon &&
+            g.reappearedPosition.longitude <= bounds.maxLon)
+      )
+      .map((g) => {
+        const hours = (g.durationMinutes / 60).toFixed(1);
+        const description =
+          `${g.vesselName} went dark for ${hours}h and reappeared ${g.distanceNm.toFixed(0)} nm away ` +
+          `(${g.impliedSpeed.toFixed(1)} kn implied${g.impossible ? ' - impossible' : ''})`;
+
+        return {
+          id: g.id,
+          type: 'ais_dark_period',
+          description,
+          location: `${g.reappearedPosition.latitude.toFixed(4)}, ${g.reappearedPosition.longitude.toFixed(4)}`,
+          latitude: g.reappearedPosition.latitude,
+          longitude: g.reappearedPosition.longitude,
+          date: g.reappearedAt,
+          severity: g.impossible ? 'critical' : g.durationMinutes >= 12 * 60 ? 'high' : 'medium',
+          status: 'reported',
+          source: 'AIS gap analysis',
+          timestamp: g.reappearedAt,
+        } as SecurityIncident;
+      });
   }
 
   /**
@@ -150,32 +234,8 @@ class SecurityMonitorService {
   > {
     const incidents = await this.getSecurityIncidents();
 
-    // Known high-risk zones
-    const riskZones = [
-      {
-        name: 'Gulf of Aden',
-        bounds: { minLat: 10, maxLat: 17, minLon: 40, maxLon: 55 },
-        riskLevel: 'high' as const,
-      },
-      {
-        name: 'Strait of Malacca',
-        bounds: { minLat: 0, maxLat: 6, minLon: 95, maxLon: 105 },
-        riskLevel: 'high' as const,
-      },
-      {
-        name: 'Singapore Strait',
-        bounds: { minLat: 1, maxLat: 2, minLon: 103, maxLon: 105 },
-        riskLevel: 'medium' as const,
-      },
-      {
-        name: 'Bay of Bengal',
-        bounds: { minLat: 5, maxLat: 23, minLon: 80, maxLon: 95 },
-        riskLevel: 'medium' as const,
-      },
-    ];
-
     // Count incidents per zone
-    return riskZones.map((zone) => ({
+    return HIGH_RISK_ZONES.map((zone) => ({
       ...zone,
       incidents: incidents.filter(
         (i) =>
@@ -187,102 +247,6 @@ class SecurityMonitorService {
     }));
   }
 
-  /**
-   * Fetch and parse ReCAAP RSS feed
-   */
-  private async fetchReCAAP_Incidents(): Promise<SecurityIncident[]> {
-    try {
-      const response = await fetch(this.recaapFeedUrl);
-
-      if (!response.ok) {
-        throw new Error(`ReCAAP API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      // Parse ReCAAP API response
-      const incidents: SecurityIncident[] = (data.data || [])
-        .slice(0, 100) // Last 100 incidents
-        .map((incident: any) => ({
-          id: `recaap_${incident.id}`,
-          type: incident.subRegionName || 'security',
-          description: incident.description || incident.remarks,
-          location: `${incident.latitude}, ${incident.longitude}`,
-          latitude: parseFloat(incident.latitude),
-          longitude: parseFloat(incident.longitude),
-          date: incident.date,
-          severity: this.determineSeverity(incident.description),
-          status: 'reported',
-          source: 'ReCAAP ISC',
-          timestamp: new Date(incident.date).toISOString(),
-        }))
-        .filter((i: SecurityIncident) => !isNaN(i.latitude) && !isNaN(i.longitude));
-
-      return incidents;
-    } catch (error) {
-      console.error('[SecurityMonitor] Error fetching ReCAAP data:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Determine incident severity from description
-   */
-  private determineSeverity(
-    description: string
-  ): 'critical' | 'high' | 'medium' | 'low' {
-    const text = description.toLowerCase();
-
-    if (
-      text.includes('attack') ||
-      text.includes('armed') ||
-      text.includes('hostage') ||
-      text.includes('fire')
-    ) {
-      return 'critical';
-    }
-    if (
-      text.includes('boarding') ||
-      text.includes('robbery') ||
-      text.includes('attempted')
-    ) {
-      return 'high';
-    }
-    if (text.includes('suspicious') || text.includes('approach')) {
-      return 'medium';
-    }
-    return 'low';
-  }
-
-  /**
-   * Check if location is in open ocean
-   */
-  private isOpenOcean(lat: number, lon: number): boolean {
-    const nearCoast = Math.abs(lat % 10) < 2 && Math.abs(lon % 10) < 2;
-    return !nearCoast;
-  }
-
-  /**
-   * Check if vessel data is stale
-   */
-  private isDataStale(timestamp: string): boolean {
-    const vesselTime = new Date(timestamp).getTime();
-    const now = Date.now();
-    const staleness = now - vesselTime;
-    return staleness > 12 * 60 * 60 * 1000; // 12 hours
-  }
-
-  /**
-   * Check if cache entry is still valid
-   */
-  private isCacheValid(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) return false;
-
-    const age = Date.now() - entry.timestamp;
-    return age < this.cacheTimeout;
-  }
-
   /**
    * Clear cache
    */
@@ -294,11 +258,8 @@ class SecurityMonitorService {
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; entries: string[] } {
-    return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys()),
-    };
+  getCacheStats(): CacheStats[] {
+    return [this.cache.getStats()];
   }
 }
 
@@ -0,0 +1,276 @@
+/**
+ * Session Recorder
+ * Opt-in capture of every vessel, weather and incident batch to IndexedDB,
+ * with age/size retention and gzip export of a time window as a replayable session
+ */
+
+import {
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  iterateCursor,
+} from '../lib/indexed-db';
+import { gzipText } from '../lib/compression';
+import type { MapBounds } from '../types/maritime';
+import type { SessionFrame } from './replay-service';
+
+export type SnapshotKind = 'vessels' | 'weather' | 'incidents';
+
+interface SnapshotRecord {
+  id?: number;
+  timestamp: number;
+  kind: SnapshotKind;
+  bounds: MapBounds | null;
+  data: unknown[];
+  size: number; // approximate bytes (serialized length)
+}
+
+export interface RecorderStats {
+  enabled: boolean;
+  snapshots: number;
+  bytes: number;
+  oldest: Date | null;
+  newest: Date | null;
+}
+
+const DB_NAME = 'maritime-monitor-sessions';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+class SessionRecorder {
+  private db: Promise<IDBDatabase> | null = null;
+  private enabled = false;
+  private retention = {
+    maxAge: 72 * 60 * 60 * 1000, // 72 hours
+    maxBytes: 200 * 1024 * 1024, // 200 MB
+    checkEvery: 20, // writes between retention passes
+  };
+  private writesSinceCheck = 0;
+
+  constructor(options: { maxAgeHours?: number; maxMegabytes?: number } = {}) {
+    if (options.maxAgeHours !== undefined) {
+      this.retention.maxAge = options.maxAgeHours * 60 * 60 * 1000;
+    }
+    if (options.maxMegabytes !== undefined) {
+      this.retention.maxBytes = options.maxMegabytes * 1024 * 1024;
+    }
+  }
+
+  /**
+   * Turn recording on or off (off by default)
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    console.log(`[SessionRecorder] Recording ${enabled ? 'started' : 'stopped'}`);
+    if (enabled) {
+      this.enforceRetention().catch((error) =>
+        console.error('[SessionRecorder] Retention failed:', error)
+      );
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Update retention limits
+   */
+  setRetention(maxAgeHours: number, maxMegabytes: number): void {
+    this.retention.maxAge = maxAgeHours * 60 * 60 * 1000;
+    this.retention.maxBytes = maxMegabytes * 1024 * 1024;
+  }
+
+  /**
+   * Save a batch returned by a service. No-op while recording is off.
+   */
+  async record(
+    kind: SnapshotKind,
+    data: unknown[],
+    bounds: MapBounds | null = null,
+    timestamp: number = Date.now()
+  ): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      const payload = JSON.stringify(data);
+      const record: SnapshotRecord = {
+        timestamp,
+        kind,
+        bounds,
+        data: JSON.parse(payload), // plain clone without class instances or functions
+        size: payload.length,
+      };
+
+      const db = await this.open();
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).add(record);
+      await transactionDone(tx);
+
+      if (++this.writesSinceCheck >= this.retention.checkEvery) {
+        this.writesSinceCheck = 0;
+        await this.enforceRetention();
+      }
+    } catch (error) {
+      console.error(`[SessionRecorder] Error recording ${kind}:`, error);
+    }
+  }
+
+  /**
+   * Snapshots in a time window, oldest first
+   */
+  async getSnapshots(from: number, to: number): Promise<SnapshotRecord[]> {
+    const db = await this.open();
+    const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('timestamp');
+    return promisifyRequest(index.getAll(IDBKeyRange.bound(from, to)));
+  }
+
+  /**
+   * Build replay frames for a time window. Each frame carries the latest
+   * vessel, weather and incident batches known at its timestamp.
+   */
+  async buildFrames(from: number, to: number): Promise<SessionFrame[]> {
+    const snapshots = await this.getSnapshots(from, to);
+    const latest: Record<SnapshotKind, unknown[]> = { vessels: [], weather: [], incidents: [] };
+    const frames: SessionFrame[] = [];
+
+    snapshots.forEach((snapshot) => {
+      latest[snapshot.kind] = snapshot.data;
+      const frame: SessionFrame = {
+        timestamp: new Date(snapshot.timestamp),
+        vessels: latest.vessels as SessionFrame['vessels'],
+        weather: latest.weather as SessionFrame['weather'],
+        incidents: latest.incidents as SessionFrame['incidents'],
+      };
+
+      // Batches fetched together share one frame
+      const last = frames[frames.length - 1];
+      if (last && snapshot.timestamp - last.timestamp.getTime() < 1000) {
+        frames[frames.length - 1] = { ...frame, timestamp: last.timestamp };
+      } else {
+        frames.push(frame);
+      }
+    });
+
+    return frames;
+  }
+
+  /**
+   * Export a time window as a gzip-compressed session the replay mode can load
+   */
+  async exportWindow(from: number, to: number, name?: string): Promise<Blob> {
+    const frames = await this.buildFrames(from, to);
+    if (frames.length === 0) {
+      throw new Error('No recorded snapshots in the selected window');
+    }
+
+    const session = {
+      version: 1,
+      id: `session_${from}_${to}`,
+      name: name || `Maritime Monitor ${new Date(from).toISOString()}`,
+      startedAt: frames[0].timestamp,
+      endedAt: frames[frames.length - 1].timestamp,
+      frames,
+    };
+
+    console.log(`[SessionRecorder] Exporting ${frames.length} frames`);
+    return gzipText(JSON.stringify(session));
+  }
+
+  /**
+   * Drop snapshots older than the retention age, then the oldest ones until
+   * the total size fits the byte limit
+   */
+  async enforceRetention(): Promise<void> {
+    const db = await this.open();
+    const cutoff = Date.now() - this.retention.maxAge;
+
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const index = tx.objectStore(STORE_NAME).index('timestamp');
+
+    let removed = 0;
+    await iterateCursor<SnapshotRecord>(
+      index.openCursor(IDBKeyRange.upperBound(cutoff, true)),
+      (_, cursor) => {
+        cursor.delete();
+        removed++;
+      }
+    );
+
+    // Newest first, keep records while they fit in the byte budget
+    let total = 0;
+    await iterateCursor<SnapshotRecord>(index.openCursor(null, 'prev'), (record, cursor) => {
+      total += record.size;
+      if (total > this.retention.maxBytes) {
+        cursor.delete();
+        removed++;
+      }
+    });
+
+    await transactionDone(tx);
+    if (removed > 0) {
+      console.log(`[SessionRecorder] Retention removed ${removed} snapshots`);
+    }
+  }
+
+  async getStats(): Promise<RecorderStats> {
+    const stats: RecorderStats = {
+      enabled: this.enabled,
+      snapshots: 0,
+      bytes: 0,
+      oldest: null,
+      newest: null,
+    };
+
+    const db = await this.open();
+    const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('timestamp');
+    await iterateCursor<SnapshotRecord>(index.openCursor(), (record) => {
+      stats.snapshots++;
+      stats.bytes += record.size;
+      stats.oldest = stats.oldest || new Date(record.timestamp);
+      stats.newest = new Date(record.timestamp);
+    });
+
+    return stats;
+  }
+
+  /**
+   * Delete all recorded snapshots
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await transactionDone(tx);
+    console.log('[SessionRecorder] Cleared');
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (!this.db) return;
+    const db = await this.db.catch(() => null);
+    db?.close();
+    this.db = null;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('timestamp', 'timestamp');
+        }
+      });
+      // Allow a retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+}
+
+export default SessionRecorder;
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import StreamClient from './stream-client';
+import { vessel } from '../test/helpers';
+import type { MapBounds } from '../types/maritime';
+
+const WORLD: MapBounds = { minLat: -90, maxLat: 90, minLon: -180, maxLon: 180 };
+const STRAIT: MapBounds = { minLat: 0, maxLat: 2, minLon: 103, maxLon: 105 };
+
+// Minimal stand-in for the browser WebSocket
+class FakeSocket {
+  readyState = 0;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string) {}
+
+  receive(message: Record<string, unknown>): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  drop(): void {
+    this.onclose?.();
+  }
+}
+
+// Serialized by the fake socket as the server would send it
+function report(mmsi: string, latitude = 1.2, longitude = 103.8) {
+  return vessel({ mmsi, position: { latitude, longitude } });
+}
+
+function snapshots(seq: number, vessels: unknown[] = []) {
+  return [
+    { type: 'snapshot', epoch: 'e1', seq, kind: 'vessels', items: vessels },
+    { type: 'snapshot', epoch: 'e1', seq, kind: 'weather', items: [] },
+    { type: 'snapshot', epoch: 'e1', seq, kind: 'incidents', items: [] },
+  ];
+}
+
+describe('StreamClient', () => {
+  let sockets: FakeSocket[];
+  let client: StreamClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    sockets = [];
+    client = new StreamClient({
+      reconnectDelay: 1000,
+      createSocket: (url) => {
+        const socket = new FakeSocket(url);
+        sockets.push(socket);
+        return socket as unknown as WebSocket;
+      },
+    });
+  });
+
+  afterEach(() => {
+    client.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('keeps the current records from snapshots and deltas, revived and filtered by bounds', () => {
+    const changed = vi.fn();
+    client.subscribe(changed);
+    client.connect('ws://maritime.test/api/stream');
+
+    snapshots(4, [report('111111111'), report('222222222', 25, 55)]).forEach((m) => sockets[0].receive(m));
+    sockets[0].receive({
+      type: 'delta',
+      epoch: 'e1',
+      seq: 5,
+      kind: 'vessels',
+      upserts: [report('333333333', 1.3, 104)],
+      removals: ['111111111'],
+    });
+
+    expect(client.getVessels(STRAIT).map((v) => v.mmsi)).toEqual(['333333333']);
+    expect(client.getVessels(WORLD)).toHaveLength(2);
+    expect(client.getVessels(STRAIT)[0].timestamp).toBeInstanceOf(Date);
+    expect(client.getPosition()).toEqual({ epoch: 'e1', seq: 5 });
+    expect(changed.mock.calls.map(([kind]) => kind)).toEqual(['vessels', 'weather', 'incidents', 'vessels']);
+  });
+
+  it('reconnects after a drop, asking to resume from the last sequence', () => {
+    client.connect('ws://maritime.test/api/stream');
+    snapshots(7).forEach((m) => sockets[0].receive(m));
+
+    sockets[0].drop();
+    vi.advanceTimersByTime(999);
+    expect(sockets).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+
+    const url = new URL(sockets[1].url);
+    expect(url.searchParams.get('epoch')).toBe('e1');
+    expect(url.searchParams.get('since')).toBe('7');
+
+    // Backs off while the server stays away
+    sockets[1].drop();
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(3);
+  });
+
+  it('resyncs when a delta is missed instead of applying it out of order', () => {
+    client.connect('ws://maritime.test/api/stream');
+    snapshots(1).forEach((m) => sockets[0].receive(m));
+
+    sockets[0].receive({ type: 'delta', epoch: 'e1', seq: 3, kind: 'vessels', upserts: [report('111111111')] });
+
+    expect(client.getVessels(WORLD)).toEqual([]);
+    expect(sockets[0].closed).toBe(true);
+    expect(new URL(sockets[1].url).searchParams.get('since')).toBe('1');
+  });
+
+  it('drops invalid records and stops reconnecting once disconnected', () => {
+    client.connect('ws://maritime.test/api/stream');
+    snapshots(1, [report('111111111'), { mmsi: '', position: null }]).forEach((m) => sockets[0].receive(m));
+    sockets[0].receive({ type: 'unknown' });
+
+    expect(client.getVessels(WORLD)).toHaveLength(1);
+
+    client.disconnect();
+    vi.advanceTimersByTime(60000);
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].closed).toBe(true);
+  });
+});
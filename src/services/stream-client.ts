@@ -0,0 +1,243 @@
+/**
+ * Stream Client
+ * Vessels, weather and incidents pushed by the server's ingestion worker
+ * (server/stream-hub.ts) over a WebSocket, in place of polling the vendors
+ * from every tab. Keeps the current set of each kind, applying numbered deltas
+ * in order. After a drop it reconnects with the last epoch and sequence seen,
+ * so the server can replay what was missed (or send fresh snapshots).
+ */
+
+import { array, number, object, oneOf, optional, parseRecords, string, unknown, type Parser } from '../lib/schema';
+import { incidentRecord, vesselRecord, weatherRecord } from '../lib/domain-schemas';
+import type { MapBounds, SecurityIncident, Vessel, WeatherData } from '../types/maritime';
+
+export type StreamKind = 'vessels' | 'weather' | 'incidents';
+
+type StreamListener = (kind: StreamKind) => void;
+
+interface StreamClientOptions {
+  reconnectDelay?: number; // ms before the first reconnect; doubles per failed attempt
+  maxReconnectDelay?: number;
+  createSocket?: (url: string) => WebSocket;
+}
+
+const streamMessage = object({
+  type: oneOf('snapshot', 'delta'),
+  epoch: string({ nonEmpty: true }),
+  seq: number({ min: 0 }),
+  kind: oneOf('vessels', 'weather', 'incidents'),
+  items: optional(unknown(), []), // snapshot
+  upserts: optional(unknown(), []), // delta
+  removals: optional(array(string()), []),
+});
+
+interface KindStore<T> {
+  parser: Parser<T>;
+  key: (record: T) => string;
+  records: Map<string, T>;
+}
+
+function inBounds(latitude: number, longitude: number, bounds: MapBounds): boolean {
+  return (
+    latitude >= bounds.minLat &&
+    latitude <= bounds.maxLat &&
+    longitude >= bounds.minLon &&
+    longitude <= bounds.maxLon
+  );
+}
+
+class StreamClient {
+  private listeners: Set<StreamListener> = new Set();
+  private vessels: KindStore<Vessel> = { parser: vesselRecord, key: (v) => v.mmsi, records: new Map() };
+  private weather: KindStore<WeatherData> = { parser: weatherRecord, key: (w) => w.id, records: new Map() };
+  private incidents: KindStore<SecurityIncident> = {
+    parser: incidentRecord,
+    key: (i) => i.id,
+    records: new Map(),
+  };
+  private epoch: string | null = null;
+  private seq = 0;
+  private socket: WebSocket | null = null;
+  private socketUrl: string | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private attempts = 0;
+  private createSocket: (url: string) => WebSocket;
+
+  constructor(options: StreamClientOptions = {}) {
+    this.reconnectDelay = options.reconnectDelay ?? 2000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 60000;
+    this.createSocket = options.createSocket || ((url) => new WebSocket(url));
+  }
+
+  /**
+   * Called with the kind whose records changed
+   */
+  subscribe(listener: StreamListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connect to an absolute ws(s):// url (or reconnect, resuming from the
+   * last sequence received)
+   */
+  connect(url: string): void {
+    this.disconnect();
+    this.socketUrl = url;
+    this.openSocket();
+  }
+
+  /**
+   * Close the stream and stop reconnecting; received data is kept
+   */
+  disconnect(): void {
+    this.socketUrl = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Position of the stream: the last sequence applied within the server's epoch
+   */
+  getPosition(): { epoch: string | null; seq: number } {
+    return { epoch: this.epoch, seq: this.seq };
+  }
+
+  getVessels(bounds: MapBounds): Vessel[] {
+    return Array.from(this.vessels.records.values()).filter((v) =>
+      inBounds(v.position.latitude, v.position.longitude, bounds)
+    );
+  }
+
+  getWeather(bounds: MapBounds): WeatherData[] {
+    return Array.from(this.weather.records.values()).filter((w) =>
+      inBounds(w.latitude, w.longitude, bounds)
+    );
+  }
+
+  getIncidents(bounds: MapBounds): SecurityIncident[] {
+    return Array.from(this.incidents.records.values()).filter((i) =>
+      inBounds(i.latitude, i.longitude, bounds)
+    );
+  }
+
+  private openSocket(): void {
+    if (!this.socketUrl) return;
+
+    const url = new URL(this.socketUrl);
+    if (this.epoch) {
+      url.searchParams.set('epoch', this.epoch);
+      url.searchParams.set('since', String(this.seq));
+    }
+
+    const socket = this.createSocket(url.toString());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      console.log(`[Stream] Connected to ${this.socketUrl}`);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      if (this.socket !== socket || typeof event.data !== 'string') return;
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = () => {
+      console.error('[Stream] Connection error');
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.socketUrl || this.reconnectTimer) return;
+    const delay = Math.min(this.reconnectDelay * 2 ** this.attempts, this.maxReconnectDelay);
+    this.attempts++;
+    console.warn(`[Stream] Disconnected, reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  /**
+   * Drop the current socket and reconnect from the last applied sequence
+   */
+  private resync(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.openSocket();
+  }
+
+  private handleMessage(text: string): void {
+    let message: ReturnType<typeof streamMessage>;
+    try {
+      message = streamMessage(JSON.parse(text));
+    } catch (error) {
+      console.warn('[Stream] Ignoring invalid message:', error instanceof Error ? error.message : error);
+      return;
+    }
+
+    if (message.type === 'snapshot') {
+      this.epoch = message.epoch;
+      this.seq = message.seq;
+      this.apply(message.kind, message.items, [], true);
+      return;
+    }
+
+    if (message.epoch !== this.epoch || message.seq > this.seq + 1) {
+      // Missed deltas (or the server restarted): ask for what is missing
+      console.warn(`[Stream] Out of sequence (${message.epoch}/${message.seq}), resyncing`);
+      this.resync();
+      return;
+    }
+    if (message.seq <= this.seq) return; // already applied
+
+    this.seq = message.seq;
+    this.apply(message.kind, message.upserts, message.removals, false);
+  }
+
+  private apply(kind: StreamKind, items: unknown, removals: string[], replace: boolean): void {
+    const store = this[kind] as KindStore<Vessel | WeatherData | SecurityIncident>;
+    let records: Array<Vessel | WeatherData | SecurityIncident> = [];
+    try {
+      const result = parseRecords(items, store.parser, kind);
+      records = result.records;
+      if (result.rejected.length > 0) {
+        console.warn(
+          `[Stream] Dropped ${result.rejected.length} invalid ${kind}, e.g. ${result.rejected[0].message}`
+        );
+      }
+    } catch (error) {
+      console.warn(`[Stream] Invalid ${kind} update:`, error instanceof Error ? error.message : error);
+    }
+
+    if (replace) store.records.clear();
+    removals.forEach((key) => store.records.delete(key));
+    records.forEach((record) => store.records.set(store.key(record), record));
+    this.listeners.forEach((listener) => listener(kind));
+  }
+}
+
+export default StreamClient;
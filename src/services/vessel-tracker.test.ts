@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import VesselTrackerService from './vessel-tracker';
+import AisHubProvider from './providers/aishub-provider';
+import { feedSource, jsonResponse, mockFetch } from '../test/helpers';
+
+const BOUNDS = { minLat: 1, maxLat: 2, minLon: 103, maxLon: 104 };
+
+const AIS_HUB_PAYLOAD = {
+  result: [
+    {
+      MMSI: 563000001,
+      ShipName: 'OCEAN PIONEER',
+      Latitude: 1.25,
+      Longitude: 103.8,
+      Speed: 12.5,
+      Course: 90,
+      Status: 0,
+      Timestamp: '2026-03-01T10:00:00Z',
+    },
+    {
+      MMSI: 563000002,
+      ShipName: '',
+      Latitude: 1.3,
+      Longitude: 103.9,
+      Speed: 0,
+      Course: 0,
+      Status: 1,
+      Timestamp: '2026-03-01T10:01:00Z',
+    },
+  ],
+};
+
+// Skip request debouncing; tested on its own below
+const IMMEDIATE = { debounceMs: 0 };
+
+function aisHub(id = 'ais-hub', priority = 0) {
+  return new AisHubProvider(feedSource({ id, name: 'AIS Hub', provider: 'aishub', priority }));
+}
+
+describe('VesselTrackerService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T10:05:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps the AIS Hub response to vessels', async () => {
+    const fetchMock = mockFetch(() => AIS_HUB_PAYLOAD);
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    const vessels = await tracker.getVesselsInBounds(BOUNDS);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/vessels');
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      api_key: 'test-key',
+      xmin: '103',
+      xmax: '104',
+      ymin: '1',
+      ymax: '2',
+      output: 'json',
+    });
+
+    expect(vessels).toHaveLength(2);
+    expect(vessels[0]).toMatchObject({
+      imo: '',
+      mmsi: '563000001',
+      name: 'OCEAN PIONEER',
+      type: 'other',
+      flagState: 'SG',
+      position: { latitude: 1.25, longitude: 103.8 },
+      heading: 90,
+      speed: 12.5,
+      course: 90,
+      status: 0,
+      timestamp: new Date('2026-03-01T10:00:00Z'),
+      source: 'AIS Hub',
+      sources: ['ais-hub'],
+    });
+    expect(vessels[1].name).toBe('Unknown Vessel');
+  });
+
+  it('drops malformed vessel records instead of plotting NaN', async () => {
+    mockFetch(() => ({
+      result: [
+        ...AIS_HUB_PAYLOAD.result,
+        { ...AIS_HUB_PAYLOAD.result[0], MMSI: 563000003, Latitude: 'n/a' },
+        { ...AIS_HUB_PAYLOAD.result[0], MMSI: 563000004, Timestamp: 'yesterday' },
+      ],
+    }));
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    const vessels = await tracker.getVesselsInBounds(BOUNDS);
+
+    expect(vessels.map((v) => v.mmsi)).toEqual(['563000001', '563000002']);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('result[2].Latitude: expected a number between -90 and 90, got "n/a"')
+    );
+  });
+
+  it('rejects a response with no valid records', async () => {
+    mockFetch(() => ({ result: [{ MMSI: 'abc' }] }));
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    await expect(tracker.getVesselsInBounds(BOUNDS)).rejects.toMatchObject({
+      message: expect.stringMatching(/^Invalid AIS Hub response: result\[0\]\.MMSI/),
+    });
+  });
+
+  it('fetches the viewport as grid tiles and reuses fresh ones', async () => {
+    const fetchMock = mockFetch(() => AIS_HUB_PAYLOAD);
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    // Snapped to the 1° tile 1-2N 103-104E
+    await tracker.getVesselsInBounds({ minLat: 1.1, maxLat: 1.9, minLon: 103.2, maxLon: 103.9 });
+    await tracker.getVesselsInBounds({ minLat: 1.15, maxLat: 1.95, minLon: 103.25, maxLon: 103.95 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // Panning north only requests the tile that came into view
+    vi.advanceTimersByTime(1000); // clear the provider's minimum request interval
+    await tracker.getVesselsInBounds({ ...BOUNDS, maxLat: 2.5 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(fetchMock.mock.calls[1][0] as string).searchParams.get('ymin')).toBe('2');
+
+    vi.advanceTimersByTime(5 * 60 * 1000);
+    await tracker.getVesselsInBounds(BOUNDS);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(tracker.getQuotaUsage()).toMatchObject({ used: 3, limit: 100, remaining: 97 });
+  });
+
+  it('returns only vessels inside the viewport', async () => {
+    mockFetch(() => AIS_HUB_PAYLOAD);
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    const vessels = await tracker.getVesselsInBounds({ ...BOUNDS, maxLon: 103.85 });
+
+    expect(vessels.map((v) => v.mmsi)).toEqual(['563000001']);
+  });
+
+  it('debounces requests while the map is panned', async () => {
+    const fetchMock = mockFetch(() => AIS_HUB_PAYLOAD);
+    const tracker = new VesselTrackerService([aisHub()], { debounceMs: 300 });
+
+    const first = tracker.getVesselsInBounds({ ...BOUNDS, minLon: 90, maxLon: 91 });
+    await vi.advanceTimersByTimeAsync(200);
+    const last = tracker.getVesselsInBounds(BOUNDS);
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('xmin')).toBe('103');
+    expect(await first).toHaveLength(2);
+    expect(await last).toHaveLength(2);
+  });
+
+  it('bypasses the cache when asked to', async () => {
+    const fetchMock = mockFetch(() => AIS_HUB_PAYLOAD);
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    await tracker.getVesselsInBounds(BOUNDS);
+    vi.advanceTimersByTime(1000); // clear the provider's minimum request interval
+    await tracker.getVesselsInBounds(BOUNDS, false);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with a ServiceError when every provider fails', async () => {
+    mockFetch(() => jsonResponse({}, 503));
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    await expect(tracker.getVesselsInBounds(BOUNDS)).rejects.toMatchObject({
+      service: 'AIS Hub',
+      message: expect.stringContaining('503'),
+    });
+  });
+
+  it('rejects when AIS Hub reports an error in the body', async () => {
+    mockFetch(() => ({ result: [], error: 'Invalid API key' }));
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    await expect(tracker.getVesselsInBounds(BOUNDS)).rejects.toMatchObject({
+      message: 'AIS Hub error: Invalid API key',
+    });
+  });
+
+  it('fuses reports of the same ship from several providers', async () => {
+    mockFetch((url) =>
+      url.startsWith('https://api.test/')
+        ? AIS_HUB_PAYLOAD
+        : {
+            result: [{ ...AIS_HUB_PAYLOAD.result[0], Latitude: 1.26, Timestamp: '2026-03-01T10:04:00Z' }],
+          }
+    );
+    const secondary = new AisHubProvider(
+      feedSource({ id: 'backup', name: 'Backup AIS', url: 'https://backup.test/', priority: 1 })
+    );
+    const tracker = new VesselTrackerService([aisHub(), secondary], IMMEDIATE);
+
+    const vessels = await tracker.getVesselsInBounds(BOUNDS);
+
+    expect(vessels).toHaveLength(2);
+    const fused = vessels.find((v) => v.mmsi === '563000001')!;
+    expect(fused.sources).toEqual(['ais-hub', 'backup']);
+    expect(fused.timestamp).toEqual(new Date('2026-03-01T10:04:00Z'));
+  });
+
+  it('returns vessel details by MMSI and caches them', async () => {
+    const fetchMock = mockFetch(() => ({
+      result: [
+        {
+          ...AIS_HUB_PAYLOAD.result[0],
+          CallSign: '9V1234 ',
+          A: 150,
+          B: 50,
+          C: 16,
+          D: 16,
+          Draught: 11.2,
+          Destination: 'ROTTERDAM',
+        },
+      ],
+    }));
+    const tracker = new VesselTrackerService([aisHub()], IMMEDIATE);
+
+    const vessel = await tracker.getVesselDetails('563000001');
+    await tracker.getVesselDetails('563000001');
+
+    expect(vessel).toMatchObject({
+      mmsi: '563000001',
+      name: 'OCEAN PIONEER',
+      callSign: '9V1234',
+      length: 200,
+      beam: 32,
+      draught: 11.2,
+      destination: 'ROTTERDAM',
+    });
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(new URL(fetchMock.mock.calls[0][0] as string).searchParams.get('mmsi')).toBe('563000001');
+  });
+});
@@ -1,177 +1,179 @@
 /**
- * AIS Hub Vessel Tracking Service
- * Fetches real-time vessel positions and ship data from AIS Hub API
- * Includes caching, error handling, and rate-limit management
+ * Vessel Tracking Service
+ * Fetches real-time vessel positions and ship data from the configured vessel providers
+ * and fuses them (with the local receiver) into one record per ship. Positions are
+ * requested and cached per map tile (see TilePlanner) to stay within provider quotas.
  */
 
-import type { Vessel, CacheEntry, ServiceError } from '../types/maritime';
+import type { Vessel, MapBounds, ServiceError } from '../types/maritime';
+import type AisReceiverService from './ais-receiver';
+import type { VesselProvider } from './providers';
+import { geography } from './geography-service';
+import { fuseReports, type SourcedReport } from '../lib/vessel-fusion';
+import TilePlanner, { type QuotaUsage, type Tile } from '../lib/tile-planner';
+import DataCache, { type CacheStats } from '../lib/cache';
 
-interface AISHubVessel {
-  MMSI: number;
-  ShipName: string;
-  Longitude: number;
-  Latitude: number;
-  Speed: number;
-  Course: number;
-  Status: number;
-  Timestamp: string;
-}
+const RECEIVER_SOURCE = 'ais-receiver';
+const MINUTE = 60 * 1000;
 
-interface AISHubResponse {
-  result: AISHubVessel[];
-  api_key?: string;
-  error?: string;
+interface TrackerOptions {
+  tileSize?: number; // degrees
+  debounceMs?: number; // coalesce requests while the map is panned
 }
 
 class VesselTrackerService {
-  private apiKey: string;
-  private baseUrl = 'https://www.aishub.net/api/v2/';
-  private cache: Map<string, CacheEntry> = new Map();
-  private cacheTimeout = 5 * 60 * 1000; // 5 minutes
-  private requestQueue: Promise<any>[] = [];
-  private rateLimitDelay = 600; // ms between requests (100 req/hour = ~600ms)
-  private lastRequestTime = 0;
+  private providers: VesselProvider[];
+  private details = new DataCache<Vessel>({
+    name: 'vessel-details',
+    max: 500,
+    ttlMs: 5 * MINUTE,
+    staleWhileRevalidateMs: 55 * MINUTE,
+    persist: true,
+  });
+  // Expired tiles keep serving while over quota, for up to an hour
+  private tileCache = new DataCache<Vessel[]>({
+    name: 'vessel-tiles',
+    max: 256,
+    ttlMs: 5 * MINUTE,
+    staleWhileRevalidateMs: 60 * MINUTE,
+    persist: true,
+  });
+  private tiles: TilePlanner<Vessel>;
+  private receiver: AisReceiverService | null = null;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    if (!apiKey) {
-      console.warn('[VesselTracker] No API key provided. Service will be limited.');
+  /**
+   * @param providers Vessel providers, queried together and fused by MMSI/IMO
+   */
+  constructor(providers: VesselProvider[], options: TrackerOptions = {}) {
+    this.providers = providers;
+    if (providers.length === 0) {
+      console.warn('[VesselTracker] No vessel providers configured. Service will be limited.');
     }
+
+    // Plan within the tightest hourly quota among the providers
+    const quotas = providers
+      .map((p) => p.rateLimit.hourlyQuota)
+      .filter((q): q is number => q !== undefined);
+    this.tiles = new TilePlanner((tile) => this.fetchTile(tile), {
+      tileSize: options.tileSize,
+      debounceMs: options.debounceMs,
+      cache: this.tileCache,
+      quota: { maxRequests: quotas.length > 0 ? Math.min(...quotas) : Infinity, windowMs: 60 * MINUTE },
+    });
+  }
+
+  /**
+   * Attach a local AIS receiver whose decoded vessels are merged into results.
+   * Without any vessel provider the receiver becomes the only source.
+   */
+  attachReceiver(receiver: AisReceiverService | null): void {
+    this.receiver = receiver;
   }
 
   /**
    * Fetch vessels in a bounding box
    * @param bounds Object with minLat, maxLat, minLon, maxLon
-   * @param useCache Whether to use cached data if available
+   * @param useCache Whether to use cached tiles if still fresh
    */
   async getVesselsInBounds(
     bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number },
     useCache = true
   ): Promise<Vessel[]> {
-    const cacheKey = `vessels_${bounds.minLat}_${bounds.maxLat}_${bounds.minLon}_${bounds.maxLon}`;
-
-    // Check cache
-    if (useCache && this.isCacheValid(cacheKey)) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        console.log('[VesselTracker] Returning cached vessels');
-        return cached.data as Vessel[];
-      }
+    if (this.receiver && this.providers.length === 0) {
+      return this.mergeReceiverVessels([], bounds);
+    }
+    if (this.providers.length === 0) {
+      throw {
+        service: 'VesselTracker',
+        message: 'No vessel providers configured',
+        timestamp: new Date().toISOString(),
+      } as ServiceError;
     }
 
-    try {
-      // Rate limiting
-      await this.enforceRateLimit();
-
-      const params = new URLSearchParams({
-        api_key: this.apiKey,
-        xmin: bounds.minLon.toString(),
-        xmax: bounds.maxLon.toString(),
-        ymin: bounds.minLat.toString(),
-        ymax: bounds.maxLat.toString(),
-        output: 'json',
-      });
-
-      const url = `${this.baseUrl}vessels?${params.toString()}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`AIS Hub API error: ${response.status} ${response.statusText}`);
+    // Requests made while panning resolve with the viewport finally loaded
+    const loaded = await this.tiles.load(bounds, !useCache);
+    const view = loaded.bounds;
+
+    // Tiles overlap the viewport; keep the vessels inside it, newest fix per ship
+    const latest = new Map<string, Vessel>();
+    loaded.items.flat().forEach((vessel) => {
+      const { latitude, longitude } = vessel.position;
+      if (
+        latitude < view.minLat ||
+        latitude > view.maxLat ||
+        longitude < view.minLon ||
+        longitude > view.maxLon
+      ) {
+        return;
       }
+      const seen = latest.get(vessel.mmsi);
+      if (!seen || seen.timestamp < vessel.timestamp) latest.set(vessel.mmsi, vessel);
+    });
 
-      const data: AISHubResponse = await response.json();
-
-      if (data.error) {
-        throw new Error(`AIS Hub error: ${data.error}`);
-      }
+    return this.mergeReceiverVessels(Array.from(latest.values()), view);
+  }
 
-      // Transform AIS Hub format to our Vessel type
-      const vessels: Vessel[] = (data.result || []).map((v) => ({
-        id: `vessel_${v.MMSI}`,
-        mmsi: v.MMSI,
-        name: v.ShipName || 'Unknown Vessel',
-        latitude: v.Latitude,
-        longitude: v.Longitude,
-        speed: v.Speed || 0,
-        course: v.Course || 0,
-        status: v.Status || 0,
-        timestamp: v.Timestamp,
-        source: 'AIS Hub',
-        type: 'commercial',
-      }));
+  /**
+   * Tile requests made in the current quota window (per provider)
+   */
+  getQuotaUsage(): QuotaUsage {
+    return this.tiles.getQuotaUsage();
+  }
 
-      // Update cache
-      this.cache.set(cacheKey, {
-        data: vessels,
-        timestamp: Date.now(),
-      });
+  /**
+   * Query every provider for one tile and fuse their reports
+   */
+  private async fetchTile(tile: Tile): Promise<Vessel[]> {
+    const bounds: MapBounds = tile.bounds;
+    const results = await Promise.allSettled(
+      this.providers.map((provider) => provider.fetchByBounds(bounds))
+    );
+
+    const reports: SourcedReport[] = [];
+    let lastError: ServiceError | null = null;
+    results.forEach((result, i) => {
+      const provider = this.providers[i];
+      if (result.status === 'fulfilled') {
+        result.value.forEach((vessel) =>
+          reports.push({ vessel, sourceId: provider.id, priority: provider.source.priority ?? 0 })
+        );
+      } else {
+        lastError = result.reason as ServiceError;
+        console.warn(`[VesselTracker] ${provider.name} failed: ${lastError.message}`);
+      }
+    });
 
-      console.log(`[VesselTracker] Fetched ${vessels.length} vessels`);
-      return vessels;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error('[VesselTracker] Error fetching vessels:', message);
-      throw {
-        service: 'AIS Hub',
-        message,
-        timestamp: new Date().toISOString(),
-      } as ServiceError;
+    if (results.every((r) => r.status === 'rejected')) {
+      throw lastError;
     }
+
+    const vessels = fuseReports(reports);
+    console.log(
+      `[VesselTracker] Fetched ${vessels.length} vessels for tile ${tile.key} from ` +
+        `${reports.length} reports (${this.providers.length} providers)`
+    );
+    return vessels;
   }
 
   /**
    * Fetch detailed vessel information
    */
-  async getVesselDetails(mmsi: number): Promise<Vessel | null> {
-    const cacheKey = `vessel_detail_${mmsi}`;
+  async getVesselDetails(mmsi: string): Promise<Vessel | null> {
+    return this.details.fetch(mmsi, () => this.fetchVesselDetails(mmsi));
+  }
 
-    if (this.isCacheValid(cacheKey)) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) return cached.data as Vessel;
+  private async fetchVesselDetails(mmsi: string): Promise<Vessel | null> {
+    for (const provider of this.providers) {
+      if (!provider.fetchById) continue;
+      try {
+        const vessel = await provider.fetchById(mmsi);
+        if (vessel) return vessel;
+      } catch (error) {
+        console.error('[VesselTracker] Error fetching vessel details:', error);
+      }
     }
 
-    try {
-      await this.enforceRateLimit();
-
-      const params = new URLSearchParams({
-        api_key: this.apiKey,
-        mmsi: mmsi.toString(),
-        output: 'json',
-      });
-
-      const url = `${this.baseUrl}vessel?${params.toString()}`;
-      const response = await fetch(url);
-
-      if (!response.ok) return null;
-
-      const data: AISHubResponse = await response.json();
-      if (!data.result || data.result.length === 0) return null;
-
-      const v = data.result[0];
-      const vessel: Vessel = {
-        id: `vessel_${v.MMSI}`,
-        mmsi: v.MMSI,
-        name: v.ShipName || 'Unknown Vessel',
-        latitude: v.Latitude,
-        longitude: v.Longitude,
-        speed: v.Speed || 0,
-        course: v.Course || 0,
-        status: v.Status || 0,
-        timestamp: v.Timestamp,
-        source: 'AIS Hub',
-        type: 'commercial',
-      };
-
-      this.cache.set(cacheKey, {
-        data: vessel,
-        timestamp: Date.now(),
-      });
-
-      return vessel;
-    } catch (error) {
-      console.error('[VesselTracker] Error fetching vessel details:', error);
-      return null;
-    }
+    return null;
   }
 
   /**
@@ -189,7 +191,7 @@ class VesselTrackerService {
     return vessels.filter((v) => {
       // Flag vessels with no name, stopped in open ocean, or unusual patterns
       const hasNoName = !v.name || v.name === 'Unknown Vessel';
-      const isStopped = v.speed === 0 && this.isOpenOcean(v.latitude, v.longitude);
+      const isStopped = v.speed === 0 && geography.isOpenOcean(v.position.latitude, v.position.longitude);
       const hasNoSignal = !v.timestamp || this.isDataStale(v.timestamp);
 
       return hasNoName || isStopped || hasNoSignal;
@@ -197,46 +199,27 @@ class VesselTrackerService {
   }
 
   /**
-   * Rate limiting to respect API limits (100 req/hour)
-   */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.rateLimitDelay) {
-      const delayNeeded = this.rateLimitDelay - timeSinceLastRequest;
-      await new Promise((resolve) => setTimeout(resolve, delayNeeded));
-    }
-
-    this.lastRequestTime = Date.now();
-  }
-
-  /**
-   * Check if cache entry is still valid
-   */
-  private isCacheValid(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) return false;
-
-    const age = Date.now() - entry.timestamp;
-    return age < this.cacheTimeout;
-  }
-
-  /**
-   * Check if location is in open ocean (rough heuristic)
+   * Fuse provider (or server stream) results with receiver vessels; the
+   * receiver's static data takes precedence and the freshest position wins
    */
-  private isOpenOcean(lat: number, lon: number): boolean {
-    // Rough check: if not near major coastlines/ports
-    // In production, use a coastline database
-    const nearCoast = Math.abs(lat % 10) < 2 && Math.abs(lon % 10) < 2;
-    return !nearCoast;
+  mergeReceiverVessels(
+    vessels: Vessel[],
+    bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number }
+  ): Vessel[] {
+    if (!this.receiver) return vessels;
+
+    const local = this.receiver.getVesselsInBounds(bounds);
+    return fuseReports([
+      ...vessels.map((vessel) => ({ vessel, sourceId: 'providers', priority: 0 })),
+      ...local.map((vessel) => ({ vessel, sourceId: RECEIVER_SOURCE, priority: -1 })),
+    ]);
   }
 
   /**
    * Check if vessel data is stale
    */
-  private isDataStale(timestamp: string): boolean {
-    const vesselTime = new Date(timestamp).getTime();
+  private isDataStale(timestamp: Date): boolean {
+    const vesselTime = timestamp.getTime();
     const now = Date.now();
     const staleness = now - vesselTime;
     return staleness > 30 * 60 * 1000; // 30 minutes
@@ -246,18 +229,16 @@ class VesselTrackerService {
    * Clear cache
    */
   clearCache(): void {
-    this.cache.clear();
+    this.details.clear();
+    this.tiles.clear();
     console.log('[VesselTracker] Cache cleared');
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; entries: string[] } {
-    return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys()),
-    };
+  getCacheStats(): CacheStats[] {
+    return [this.details.getStats(), this.tileCache.getStats()];
   }
 }
 
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WeatherService from './weather-service';
+import OpenWeatherProvider from './providers/openweather-provider';
+import { feedSource, jsonResponse, mockFetch } from '../test/helpers';
+
+function openWeatherBody(overrides: Record<string, unknown> = {}) {
+  return {
+    coord: { lon: 103.8, lat: 1.3 },
+    weather: [{ id: 501, main: 'Rain', description: 'moderate rain', icon: '10d' }],
+    main: { temp: 28.4, feels_like: 32.1, temp_min: 27, temp_max: 29, pressure: 1008, humidity: 84 },
+    visibility: 8000,
+    wind: { speed: 11.2, deg: 220, gust: 16.5 },
+    clouds: { all: 90 },
+    rain: { '1h': 6.2 },
+    waves: { height: 2.4, period: 7, direction: 210 },
+    timestamp: 1772359200,
+    name: 'Singapore',
+    sys: { country: 'SG', sunrise: 0, sunset: 0 },
+    ...overrides,
+  };
+}
+
+function openWeather(id = 'openweather', url = 'https://api.test/') {
+  return new OpenWeatherProvider(
+    feedSource({ id, name: 'OpenWeather', provider: 'openweather', category: 'weather_alert', url })
+  );
+}
+
+describe('WeatherService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('maps OpenWeather current conditions', async () => {
+    const fetchMock = mockFetch(() => openWeatherBody());
+    const service = new WeatherService([openWeather()]);
+
+    const weather = await service.getCurrentWeather(1.3, 103.8);
+
+    const url = new URL(fetchMock.mock.calls[0][0] as string);
+    expect(url.pathname).toBe('/weather');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      lat: '1.3',
+      lon: '103.8',
+      appid: 'test-key',
+      units: 'metric',
+    });
+
+    expect(weather).toEqual({
+      id: 'weather_1.3_103.8',
+      latitude: 1.3,
+      longitude: 103.8,
+      temperature: 28.4,
+      feelsLike: 32.1,
+      humidity: 84,
+      pressure: 1008,
+      windSpeed: 11.2,
+      windDirection: 220,
+      windGust: 16.5,
+      description: 'moderate rain',
+      clouds: 90,
+      visibility: 8000,
+      rain: 6.2,
+      waves: 2.4,
+      location: 'Singapore, SG',
+      source: 'OpenWeather',
+      timestamp: new Date(1772359200 * 1000),
+    });
+  });
+
+  it('defaults missing optional fields to zero', async () => {
+    mockFetch(() => {
+      const body = openWeatherBody({ wind: { speed: 3, deg: 90 } });
+      delete (body as Partial<typeof body>).rain;
+      delete (body as Partial<typeof body>).waves;
+      return body;
+    });
+    const service = new WeatherService([openWeather()]);
+
+    const weather = await service.getCurrentWeather(1.3, 103.8);
+
+    expect(weather).toMatchObject({ windGust: 0, rain: 0, waves: 0 });
+  });
+
+  it('caches current weather for ten minutes', async () => {
+    const fetchMock = mockFetch(() => openWeatherBody());
+    const service = new WeatherService([openWeather()]);
+
+    await service.getCurrentWeather(1.3, 103.8);
+    vi.advanceTimersByTime(9 * 60 * 1000);
+    await service.getCurrentWeather(1.3, 103.8);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60 * 1000);
+    await service.getCurrentWeather(1.3, 103.8);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the next provider when one fails', async () => {
+    mockFetch((url) =>
+      url.startsWith('https://primary.test/') ? jsonResponse({}, 500) : openWeatherBody()
+    );
+    const service = new WeatherService([
+      openWeather('primary', 'https://primary.test/'),
+      openWeather('secondary', 'https://secondary.test/'),
+    ]);
+
+    const weather = await service.getCurrentWeather(1.3, 103.8);
+
+    expect(weather?.location).toBe('Singapore, SG');
+  });
+
+  it('maps the forecast, eight entries per day', async () => {
+    const fetchMock = mockFetch(() => ({
+      list: Array.from({ length: 40 }, (_, i) => ({
+        ...openWeatherBody(),
+        dt: 1772366400 + i * 10800,
+      })),
+      city: { name: 'Singapore', country: 'SG', coord: { lat: 1.3, lon: 103.8 } },
+    }));
+    const service = new WeatherService([openWeather()]);
+
+    const forecast = await service.getWeatherForecast(1.3, 103.8, 2);
+
+    expect(new URL(fetchMock.mock.calls[0][0] as string).pathname).toBe('/forecast');
+    expect(forecast).toHaveLength(16);
+    expect(forecast[0]).toMatchObject({
+      id: 'forecast_1.3_103.8_1772366400',
+      timestamp: new Date(1772366400 * 1000),
+      location: 'Singapore, SG',
+      windSpeed: 11.2,
+    });
+  });
+
+  it('derives alerts from severe conditions', async () => {
+    mockFetch(() => openWeatherBody());
+    const service = new WeatherService([openWeather()]);
+
+    const alerts = await service.getWeatherAlerts(1.3, 103.8);
+
+    expect(alerts).toEqual([
+      'High winds: 11.2 m/s',
+      'Severe wind gusts: 16.5 m/s',
+      'Heavy rainfall: 6.2 mm/h',
+      'High sea state: 2.4 m waves',
+    ]);
+  });
+});
@@ -1,52 +1,39 @@
 /**
- * OpenWeather Maritime Weather Service
+ * Maritime Weather Service
  * Fetches weather data for maritime zones including wind, waves, and forecasts
- * Includes caching and multi-location support
+ * from the configured weather providers. Includes caching and multi-location support
  */
 
-import type { WeatherData, CacheEntry, ServiceError } from '../types/maritime';
+import type { WeatherData, ServiceError } from '../types/maritime';
+import type { WeatherProvider } from './providers';
+import DataCache, { type CacheStats } from '../lib/cache';
 
-interface OpenWeatherResponse {
-  coord: { lon: number; lat: number };
-  weather: { id: number; main: string; description: string; icon: string }[];
-  main: {
-    temp: number;
-    feels_like: number;
-    temp_min: number;
-    temp_max: number;
-    pressure: number;
-    humidity: number;
-  };
-  visibility: number;
-  wind: { speed: number; deg: number; gust?: number };
-  clouds: { all: number };
-  rain?: { '1h'?: number };
-  snow?: { '1h'?: number };
-  waves?: { height: number; period: number; direction: number };
-  timestamp: number;
-  name: string;
-  sys: { country: string; sunrise: number; sunset: number };
-}
-
-interface ForecastResponse {
-  list: Array<OpenWeatherResponse & { dt: number }>;
-  city: { name: string; country: string; coord: { lat: number; lon: number } };
-}
+const MINUTE = 60 * 1000;
 
 class WeatherService {
-  private apiKey: string;
-  private baseUrl = 'https://api.openweathermap.org/data/2.5/';
-  private cache: Map<string, CacheEntry> = new Map();
-  private cacheTimeout = 10 * 60 * 1000; // 10 minutes
-  private requestCount = 0;
-  private rateLimitWindow = 60 * 1000; // 1 minute
-  private rateLimitMax = 60; // 60 calls/min
-  private requestTimestamps: number[] = [];
+  private providers: WeatherProvider[];
+  private current = new DataCache<WeatherData>({
+    name: 'weather',
+    max: 200,
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: 50 * MINUTE,
+    persist: true,
+  });
+  private forecasts = new DataCache<WeatherData[]>({
+    name: 'forecast',
+    max: 50,
+    ttlMs: 60 * MINUTE,
+    staleWhileRevalidateMs: 3 * 60 * MINUTE,
+    persist: true,
+  });
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    if (!apiKey) {
-      console.warn('[WeatherService] No API key provided. Service will be limited.');
+  /**
+   * @param providers Weather providers, tried in order until one succeeds
+   */
+  constructor(providers: WeatherProvider[]) {
+    this.providers = providers;
+    if (providers.length === 0) {
+      console.warn('[WeatherService] No weather providers configured. Service will be limited.');
     }
   }
 
@@ -54,72 +41,30 @@ class WeatherService {
    * Fetch current weather for a location
    */
   async getCurrentWeather(latitude: number, longitude: number): Promise<WeatherData | null> {
-    const cacheKey = `weather_current_${latitude}_${longitude}`;
+    return this.current.fetch(`${latitude}_${longitude}`, () =>
+      this.fetchCurrentWeather(latitude, longitude)
+    );
+  }
 
-    // Check cache
-    if (this.isCacheValid(cacheKey)) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        console.log('[WeatherService] Returning cached weather');
-        return cached.data as WeatherData;
+  /**
+   * Fetch current weather for a location from the first provider that has it
+   */
+  private async fetchCurrentWeather(latitude: number, longitude: number): Promise<WeatherData | null> {
+    const point = { minLat: latitude, maxLat: latitude, minLon: longitude, maxLon: longitude };
+    let lastError: ServiceError | null = null;
+
+    for (const provider of this.providers) {
+      try {
+        const [weather] = await provider.fetchByBounds(point);
+        if (weather) return weather;
+      } catch (error) {
+        lastError = error as ServiceError;
+        console.warn(`[WeatherService] ${provider.name} failed: ${lastError.message}`);
       }
     }
 
-    try {
-      await this.checkRateLimit();
-
-      const params = new URLSearchParams({
-        lat: latitude.toString(),
-        lon: longitude.toString(),
-        appid: this.apiKey,
-        units: 'metric',
-      });
-
-      const url = `${this.baseUrl}weather?${params.toString()}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`OpenWeather API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data: OpenWeatherResponse = await response.json();
-
-      const weather: WeatherData = {
-        id: `weather_${latitude}_${longitude}`,
-        latitude,
-        longitude,
-        temperature: data.main.temp,
-        feelsLike: data.main.feels_like,
-        humidity: data.main.humidity,
-        pressure: data.main.pressure,
-        windSpeed: data.wind.speed,
-        windDirection: data.wind.deg,
-        windGust: data.wind.gust || 0,
-        description: data.weather[0]?.description || 'unknown',
-        clouds: data.clouds.all,
-        visibility: data.visibility,
-        rain: data.rain?.['1h'] || 0,
-        waves: data.waves?.height || 0,
-        timestamp: new Date(data.timestamp * 1000).toISOString(),
-        location: `${data.name}, ${data.sys.country}`,
-        source: 'OpenWeather',
-      };
-
-      this.cache.set(cacheKey, {
-        data: weather,
-        timestamp: Date.now(),
-      });
-
-      return weather;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error('[WeatherService] Error fetching weather:', message);
-      throw {
-        service: 'OpenWeather',
-        message,
-        timestamp: new Date().toISOString(),
-      } as ServiceError;
-    }
+    if (lastError) throw lastError;
+    return null;
   }
 
   /**
@@ -130,73 +75,25 @@ class WeatherService {
     longitude: number,
     days = 5
   ): Promise<WeatherData[]> {
-    const cacheKey = `weather_forecast_${latitude}_${longitude}_${days}`;
-
-    if (this.isCacheValid(cacheKey)) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached.data as WeatherData[];
-      }
-    }
-
-    try {
-      await this.checkRateLimit();
-
-      const params = new URLSearchParams({
-        lat: latitude.toString(),
-        lon: longitude.toString(),
-        appid: this.apiKey,
-        units: 'metric',
-      });
-
-      const url = `${this.baseUrl}forecast?${params.toString()}`;
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        throw new Error(`OpenWeather forecast error: ${response.status}`);
-      }
-
-      const data: ForecastResponse = await response.json();
-
-      const forecasts: WeatherData[] = (data.list || [])
-        .slice(0, days * 8) // 8 forecasts per day (every 3 hours)
-        .map((f) => ({
-          id: `forecast_${latitude}_${longitude}_${f.dt}`,
-          latitude,
-          longitude,
-          temperature: f.main.temp,
-          feelsLike: f.main.feels_like,
-          humidity: f.main.humidity,
-          pressure: f.main.pressure,
-          windSpeed: f.wind.speed,
-          windDirection: f.wind.deg,
-          windGust: f.wind.gust || 0,
-          description: f.weather[0]?.description || 'unknown',
-          clouds: f.clouds.all,
-          visibility: f.visibility,
-          rain: f.rain?.['1h'] || 0,
-          waves: f.waves?.height || 0,
-          timestamp: new Date(f.dt * 1000).toISOString(),
-          location: `${data.city.name}, ${data.city.country}`,
-          source: 'OpenWeather',
-        }));
-
-      this.cache.set(cacheKey, {
-        data: forecasts,
-        timestamp: Date.now(),
-      });
+    const forecasts = await this.forecasts.fetch(`${latitude}_${longitude}_${days}`, () =>
+      this.fetchForecast(latitude, longitude, days)
+    );
+    return forecasts || [];
+  }
 
-      console.log(`[WeatherService] Fetched ${forecasts.length} forecast entries`);
-      return forecasts;
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.error('[WeatherService] Error fetching forecast:', message);
+  private async fetchForecast(latitude: number, longitude: number, days: number): Promise<WeatherData[]> {
+    const provider = this.providers.find((p) => p.fetchForecast);
+    if (!provider?.fetchForecast) {
       throw {
-        service: 'OpenWeather',
-        message,
+        service: 'WeatherService',
+        message: 'No weather provider supports forecasts',
         timestamp: new Date().toISOString(),
       } as ServiceError;
     }
+
+    const forecasts = await provider.fetchForecast(latitude, longitude, days);
+    console.log(`[WeatherService] Fetched ${forecasts.length} forecast entries`);
+    return forecasts;
   }
 
   /**
@@ -228,54 +125,20 @@ class WeatherService {
     return alerts;
   }
 
-  /**
-   * Check rate limiting (60 calls/min)
-   */
-  private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-
-    // Remove old timestamps outside the window
-    this.requestTimestamps = this.requestTimestamps.filter(
-      (t) => now - t < this.rateLimitWindow
-    );
-
-    if (this.requestTimestamps.length >= this.rateLimitMax) {
-      const oldestRequest = this.requestTimestamps[0];
-      const waitTime = this.rateLimitWindow - (now - oldestRequest) + 100;
-      console.log(`[WeatherService] Rate limit approaching, waiting ${waitTime}ms`);
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
-    }
-
-    this.requestTimestamps.push(Date.now());
-  }
-
-  /**
-   * Check if cache entry is still valid
-   */
-  private isCacheValid(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) return false;
-
-    const age = Date.now() - entry.timestamp;
-    return age < this.cacheTimeout;
-  }
-
   /**
    * Clear cache
    */
   clearCache(): void {
-    this.cache.clear();
+    this.current.clear();
+    this.forecasts.clear();
     console.log('[WeatherService] Cache cleared');
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats(): { size: number; entries: string[] } {
-    return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys()),
-    };
+  getCacheStats(): CacheStats[] {
+    return [this.current.getStats(), this.forecasts.getStats()];
   }
 }
 
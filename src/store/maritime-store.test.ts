@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import MaritimeStore from './maritime-store';
+import { incident, vessel } from '../test/helpers';
+import type { RiskAssessment, Vessel, WeatherData } from '../types/maritime';
+
+const NOW = new Date('2026-03-01T12:00:00Z').getTime();
+
+function report(overrides: Partial<Vessel> = {}): Vessel {
+  return vessel({
+    name: 'OCEAN PIONEER',
+    type: 'general_cargo',
+    speed: 12,
+    position: { latitude: 1.25, longitude: 103.8 },
+    timestamp: new Date(NOW - 5 * 60 * 1000),
+    source: 'ais',
+    ...overrides,
+  });
+}
+
+function risk(mmsi: string, level: RiskAssessment['level']): RiskAssessment {
+  return { mmsi, score: 0, level, reasons: [], evaluatedAt: new Date(NOW) };
+}
+
+describe('MaritimeStore', () => {
+  let store: MaritimeStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = new MaritimeStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getFilteredVessels', () => {
+    beforeEach(() => {
+      store.setVessels([
+        report({ mmsi: '1', type: 'general_cargo' }),
+        report({ mmsi: '2', type: 'tanker' }),
+        report({ mmsi: '3', type: 'fishing', timestamp: new Date(NOW - 3 * 60 * 60 * 1000) }),
+      ]);
+    });
+
+    const mmsis = () => store.getFilteredVessels().map((v) => v.mmsi);
+
+    it('drops vessels older than the time range', () => {
+      expect(mmsis()).toEqual(['1', '2']);
+
+      store.setTimeRangeFilter(4 * 60);
+      expect(mmsis()).toEqual(['1', '2', '3']);
+    });
+
+    it('filters by vessel type', () => {
+      store.setVesselTypeFilter(['tanker', 'fishing']);
+      expect(mmsis()).toEqual(['2']);
+    });
+
+    it('filters by risk level, counting unscored vessels as low', () => {
+      store.setRiskAssessments({ '1': risk('1', 'high') });
+
+      store.setRiskLevelFilter('high');
+      expect(mmsis()).toEqual(['1']);
+
+      store.setRiskLevelFilter('low');
+      expect(mmsis()).toEqual(['2']);
+    });
+
+    it('measures the time range from the replay clock while replaying', () => {
+      // Vessel 3 reported 3h ago: outside a 60 minute window live, inside it at replay time
+      store.setReplayTime(new Date(NOW - 2.5 * 60 * 60 * 1000));
+      expect(mmsis()).toContain('3');
+
+      store.setReplayTime(null);
+      expect(mmsis()).not.toContain('3');
+    });
+  });
+
+  describe('addVessels', () => {
+    it('merges reports of the same ship, keeping the freshest position', () => {
+      store.addVessels([report({ name: 'OCEAN PIONEER' })], 'ais-hub');
+      store.addVessels(
+        [
+          report({
+            name: 'Unknown Vessel',
+            position: { latitude: 1.26, longitude: 103.81 },
+            timestamp: new Date(NOW - 60 * 1000),
+          }),
+          report({ mmsi: '563000002', name: 'CORAL SPIRIT' }),
+        ],
+        'receiver'
+      );
+
+      const { vessels } = store.getState();
+      expect(vessels).toHaveLength(2);
+
+      const merged = vessels.find((v) => v.mmsi === '563000001')!;
+      expect(merged.name).toBe('OCEAN PIONEER');
+      expect(merged.position).toEqual({ latitude: 1.26, longitude: 103.81 });
+      expect(merged.sources).toEqual(['ais-hub', 'receiver']);
+    });
+
+    it('clears a position conflict once its sources agree again', () => {
+      const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60 * 1000);
+      store.addVessels([report({ timestamp: minutesAgo(10) })], 'ais-hub');
+      store.addVessels(
+        [report({ position: { latitude: 1.45, longitude: 103.8 }, timestamp: minutesAgo(9) })],
+        'receiver'
+      );
+      expect(store.getState().vessels[0].conflicts).toMatchObject([{ type: 'position' }]);
+
+      store.addVessels(
+        [report({ position: { latitude: 1.451, longitude: 103.8 }, timestamp: minutesAgo(1) })],
+        'ais-hub'
+      );
+      expect(store.getState().vessels[0].conflicts).toBeUndefined();
+    });
+
+    it('keeps static data from a higher-priority source when a lower one reports', () => {
+      store.addVessels([report({ name: 'OCEAN PIONEER' })], 'receiver', -1);
+      store.addVessels([report({ name: 'OCEAN PIONEER II', timestamp: new Date(NOW) })], 'ais-hub', 5);
+
+      expect(store.getState().vessels[0]).toMatchObject({ name: 'OCEAN PIONEER', sources: ['receiver', 'ais-hub'] });
+    });
+
+    it('records each new fix in the track history', () => {
+      store.addVessels([report({ timestamp: new Date(NOW - 10 * 60 * 1000) })]);
+      store.addVessels([
+        report({ position: { latitude: 1.3, longitude: 103.9 }, timestamp: new Date(NOW - 60 * 1000) }),
+      ]);
+
+      expect(store.getVesselTrack('563000001').map((p) => p.latitude)).toEqual([1.25, 1.3]);
+    });
+
+    it('inserts late fixes in time order and skips repeated ones', () => {
+      const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60 * 1000);
+      store.setVessels([report({ timestamp: minutesAgo(10) })]);
+      store.setVessels([report({ position: { latitude: 1.3, longitude: 103.9 }, timestamp: minutesAgo(2) })]);
+      store.setVessels([report({ position: { latitude: 1.28, longitude: 103.85 }, timestamp: minutesAgo(6) })]);
+      store.setVessels([report({ position: { latitude: 1.5, longitude: 104 }, timestamp: minutesAgo(6) })]);
+
+      expect(store.getVesselTrack('563000001').map((p) => p.latitude)).toEqual([1.25, 1.28, 1.3]);
+    });
+
+    it('merges stored reports into the tracks in time order', () => {
+      const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60 * 1000);
+      store.setVessels([report({ timestamp: minutesAgo(5) })]);
+
+      store.mergeHistory([
+        report({ position: { latitude: 1.1, longitude: 103.6 }, timestamp: minutesAgo(30) }),
+        report({ position: { latitude: 1.9, longitude: 103.6 }, timestamp: minutesAgo(5) }), // same fix as live
+        report({ position: { latitude: 1.2, longitude: 103.7 }, timestamp: minutesAgo(15) }),
+        report({ mmsi: '563000002', timestamp: minutesAgo(48 * 60) }), // beyond trackMaxAge
+      ]);
+
+      expect(store.getVesselTrack('563000001').map((p) => p.latitude)).toEqual([1.1, 1.2, 1.25]);
+      expect(store.getVesselTrack('563000002')).toEqual([]);
+    });
+  });
+
+  describe('incidents and weather', () => {
+    it('replaces incidents with the same id and appends new ones', () => {
+      store.setIncidents([incident({ id: 'a', severity: 'low' }), incident({ id: 'b', severity: 'high' })]);
+      store.addIncidents([incident({ id: 'a', severity: 'critical' }), incident({ id: 'c', severity: 'medium' })]);
+
+      const { incidents } = store.getState();
+      expect(incidents.map((i) => `${i.id}:${i.severity}`)).toEqual(['a:critical', 'b:high', 'c:medium']);
+      expect(store.getCriticalIncidents().map((i) => i.id)).toEqual(['a']);
+      expect(store.getHighRiskIncidents().map((i) => i.id)).toEqual(['a', 'b']);
+    });
+
+    it('replaces weather with the same id and appends new ones', () => {
+      store.setWeather([{ id: 'w1', windSpeed: 5 } as WeatherData]);
+      store.addWeather([{ id: 'w1', windSpeed: 12 } as WeatherData, { id: 'w2', windSpeed: 3 } as WeatherData]);
+
+      expect(store.getState().weather.map((w) => `${w.id}:${w.windSpeed}`)).toEqual(['w1:12', 'w2:3']);
+    });
+  });
+
+  it('counts high-risk vessels and critical incidents in the stats', () => {
+    store.setVessels([report({ mmsi: '1' }), report({ mmsi: '2' })]);
+    store.setRiskAssessments({ '1': risk('1', 'high'), '2': risk('2', 'medium') });
+    store.setIncidents([incident({ id: 'a', severity: 'critical' }), incident({ id: 'b', severity: 'high' })]);
+
+    expect(store.getStats()).toMatchObject({
+      vesselCount: 2,
+      highRiskVesselCount: 1,
+      incidentCount: 2,
+      criticalIncidentCount: 1,
+    });
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.setLoading(true);
+    unsubscribe();
+    store.setLoading(false);
+
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener.mock.calls[0][0].loading).toBe(true);
+  });
+});
@@ -9,7 +9,11 @@ import type {
   WeatherData,
   SecurityIncident,
   MapBounds,
+  TrackPoint,
+  RendezvousEvent,
+  RiskAssessment,
 } from '../types/maritime';
+import { fuseReports } from '../lib/vessel-fusion';
 
 export interface AppState {
   // Data
@@ -17,6 +21,9 @@ export interface AppState {
   weather: WeatherData[];
   incidents: SecurityIncident[];
   alerts: string[];
+  vesselHistory: Record<string, TrackPoint[]>; // keyed by MMSI, oldest first
+  rendezvous: RendezvousEvent[];
+  riskAssessments: Record<string, RiskAssessment>; // keyed by MMSI
 
   // UI State
   mapBounds: MapBounds | null;
@@ -28,8 +35,12 @@ export interface AppState {
     security: boolean;
     humanitarian: boolean;
     policy: boolean;
+    trade: boolean;
+    ports: boolean;
+    trails: boolean;
   };
   viewMode: 'map' | 'list' | 'dashboard';
+  replayTime: Date | null; // replay clock; null while live
 
   // Loading/Error
   loading: boolean;
@@ -47,16 +58,41 @@ export interface AppState {
   preferences: {
     darkMode: boolean;
     autoRefresh: boolean;
-    refreshInterval: number; // seconds
+    refreshInterval: number; // seconds between vessel polls; other layers keep their configured interval
     notifications: boolean;
+    trackMaxPoints: number; // per vessel
+    trackMaxAge: number; // minutes
+    trackHours: number; // hours of track shown for the selected vessel
+    deadReckoning: boolean; // project positions between AIS updates
+    projectionLimit: number; // minutes before a projection is flagged stale
+    recordSession: boolean; // save fetched batches to IndexedDB
+    recordRetentionHours: number;
+    recordMaxMegabytes: number;
   };
 }
 
 type StateListener = (state: AppState) => void;
 
+/**
+ * Track point for a vessel's fix, or null when it has no usable position/time
+ */
+export function toTrackPoint(v: Vessel): TrackPoint | null {
+  if (!v.position) return null;
+  const point: TrackPoint = {
+    latitude: v.position.latitude,
+    longitude: v.position.longitude,
+    speed: v.speed,
+    heading: v.heading,
+    course: v.course,
+    timestamp: new Date(v.timestamp),
+  };
+  return isNaN(point.timestamp.getTime()) ? null : point;
+}
+
 class MaritimeStore {
   private state: AppState;
   private listeners: Set<StateListener> = new Set();
+  private sourcePriorities: Map<string, number> = new Map(); // last priority given to addVessels per source
 
   constructor() {
     this.state = this.getInitialState();
@@ -72,6 +108,9 @@ class MaritimeStore {
       weather: [],
       incidents: [],
       alerts: [],
+      vesselHistory: {},
+      rendezvous: [],
+      riskAssessments: {},
       mapBounds: null,
       selectedVessel: null,
       selectedIncident: null,
@@ -81,8 +120,12 @@ class MaritimeStore {
         security: true,
         humanitarian: false,
         policy: false,
+        trade: false,
+        ports: false,
+        trails: true,
       },
       viewMode: 'map',
+      replayTime: null,
       loading: false,
       error: null,
       lastUpdated: null,
@@ -96,6 +139,14 @@ class MaritimeStore {
         autoRefresh: true,
         refreshInterval: 30,
         notifications: true,
+        trackMaxPoints: 500,
+        trackMaxAge: 24 * 60,
+        trackHours: 6,
+        deadReckoning: true,
+        projectionLimit: 15,
+        recordSession: false,
+        recordRetentionHours: 72,
+        recordMaxMegabytes: 200,
       },
     };
   }
@@ -141,26 +192,36 @@ class MaritimeStore {
   setVessels(vessels: Vessel[]): void {
     this.updateState({
       vessels,
-      lastUpdated: new Date(),
+      vesselHistory: this.recordHistory(vessels),
+      lastUpdated: new Date(this.now()),
     });
   }
 
-  addVessels(vessels: Vessel[]): void {
-    const merged = [...this.state.vessels];
-    vessels.forEach((newVessel) => {
-      const index = merged.findIndex((v) => v.id === newVessel.id);
-      if (index >= 0) {
-        merged[index] = newVessel;
-      } else {
-        merged.push(newVessel);
-      }
-    });
+  /**
+   * Merge vessels into the current set by MMSI/IMO, keeping the freshest
+   * position and the contributing sources of each ship
+   * @param sourceId Source of the incoming batch (used when vessels carry no `sources`)
+   * @param priority Of the batch's static data; vessels already held keep their sources' priority
+   */
+  addVessels(vessels: Vessel[], sourceId = 'default', priority = 0): void {
+    this.sourcePriorities.set(sourceId, priority);
+    const priorityOf = (vessel: Vessel) =>
+      Math.min(...(vessel.sources || [String(vessel.source)]).map((s) => this.sourcePriorities.get(s) ?? 0));
+
+    const merged = fuseReports([
+      ...this.state.vessels.map((vessel) => ({
+        vessel,
+        sourceId: String(vessel.source),
+        priority: priorityOf(vessel),
+      })),
+      ...vessels.map((vessel) => ({ vessel, sourceId, priority })),
+    ]);
     this.setVessels(merged);
   }
 
-  removeVessel(vesselId: string): void {
+  removeVessel(mmsi: string): void {
     this.updateState({
-      vessels: this.state.vessels.filter((v) => v.id !== vesselId),
+      vessels: this.state.vessels.filter((v) => String(v.mmsi) !== mmsi),
     });
   }
 
@@ -168,6 +229,129 @@ class MaritimeStore {
     this.updateState({ selectedVessel: vessel });
   }
 
+  // ============================================================
+  // Track History
+  // ============================================================
+
+  /**
+   * Track points for a vessel, optionally limited to the last N hours
+   */
+  getVesselTrack(mmsi: string, hours?: number): TrackPoint[] {
+    const track = this.state.vesselHistory[String(mmsi)] || [];
+    if (hours === undefined) return track;
+
+    const since = this.now() - hours * 60 * 60 * 1000;
+    return track.filter((p) => p.timestamp.getTime() >= since);
+  }
+
+  clearHistory(): void {
+    this.updateState({ vesselHistory: {} });
+  }
+
+  /**
+   * Replace history with one rebuilt from vessel snapshots (oldest first)
+   */
+  rebuildHistory(snapshots: Vessel[][]): void {
+    const vesselHistory = snapshots.reduce(
+      (history, vessels) => this.recordHistory(vessels, history),
+      {} as Record<string, TrackPoint[]>
+    );
+    this.updateState({ vesselHistory });
+  }
+
+  /**
+   * Merge stored position reports (from the history API) into the tracks,
+   * in time order; a live point with the same timestamp wins
+   */
+  mergeHistory(reports: Vessel[]): void {
+    const history = { ...this.state.vesselHistory };
+    const stored: Record<string, TrackPoint[]> = {};
+    reports.forEach((v) => {
+      const point = toTrackPoint(v);
+      if (point) (stored[String(v.mmsi)] ||= []).push(point);
+    });
+
+    Object.entries(stored).forEach(([mmsi, points]) => {
+      const byTime = new Map<number, TrackPoint>();
+      [...points, ...(history[mmsi] || [])].forEach((p) => byTime.set(p.timestamp.getTime(), p));
+      history[mmsi] = Array.from(byTime.values()).sort(
+        (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+      );
+    });
+    this.updateState({ vesselHistory: this.pruneHistory(history) });
+  }
+
+  setTrackRetention(maxPoints: number, maxAgeMinutes: number): void {
+    this.setPreferences({ trackMaxPoints: maxPoints, trackMaxAge: maxAgeMinutes });
+    this.updateState({ vesselHistory: this.pruneHistory(this.state.vesselHistory) });
+  }
+
+  /**
+   * Add the latest fix of each vessel to its history and apply retention.
+   * A late fix is inserted at its own time; one already recorded for that time is skipped.
+   */
+  private recordHistory(
+    vessels: Vessel[],
+    base: Record<string, TrackPoint[]> = this.state.vesselHistory
+  ): Record<string, TrackPoint[]> {
+    const history = { ...base };
+
+    vessels.forEach((v) => {
+      const point = toTrackPoint(v);
+      if (!point) return;
+
+      const key = String(v.mmsi);
+      const track = history[key] || [];
+      const last = track[track.length - 1];
+      const time = point.timestamp.getTime();
+
+      if (!last || time > last.timestamp.getTime()) {
+        history[key] = [...track, point];
+      } else if (!track.some((p) => p.timestamp.getTime() === time)) {
+        const index = track.findIndex((p) => p.timestamp.getTime() > time);
+        history[key] = [...track.slice(0, index), point, ...track.slice(index)];
+      }
+    });
+
+    return this.pruneHistory(history);
+  }
+
+  /**
+   * Drop points older than trackMaxAge and keep at most trackMaxPoints per vessel
+   */
+  private pruneHistory(history: Record<string, TrackPoint[]>): Record<string, TrackPoint[]> {
+    const { trackMaxPoints, trackMaxAge } = this.state.preferences;
+    const cutoff = this.now() - trackMaxAge * 60 * 1000;
+    const pruned: Record<string, TrackPoint[]> = {};
+
+    Object.entries(history).forEach(([mmsi, track]) => {
+      const kept = track
+        .filter((p) => p.timestamp.getTime() >= cutoff)
+        .slice(-trackMaxPoints);
+      if (kept.length > 0) {
+        pruned[mmsi] = kept;
+      }
+    });
+
+    return pruned;
+  }
+
+  setRendezvous(rendezvous: RendezvousEvent[]): void {
+    this.updateState({ rendezvous });
+  }
+
+  // ============================================================
+  // Risk Management
+  // ============================================================
+
+  setRiskAssessments(riskAssessments: Record<string, RiskAssessment>): void {
+    this.updateState({ riskAssessments });
+  }
+
+  getVesselRisk(mmsi: string): RiskAssessment | null {
+    return this.state.riskAssessments[mmsi] || null;
+  }
+
   // ============================================================
   // Weather Management
   // ============================================================
@@ -320,6 +504,28 @@ class MaritimeStore {
     });
   }
 
+  // ============================================================
+  // Replay Clock
+  // ============================================================
+
+  /**
+   * Enter replay at the given time, move the replay clock, or return to live (null)
+   */
+  setReplayTime(time: Date | null): void {
+    this.updateState({ replayTime: time });
+  }
+
+  isReplaying(): boolean {
+    return this.state.replayTime !== null;
+  }
+
+  /**
+   * Current time in ms: the replay clock during replay, otherwise wall time
+   */
+  now(): number {
+    return this.state.replayTime ? this.state.replayTime.getTime() : Date.now();
+  }
+
   // ============================================================
   // Preferences Management
   // ============================================================
@@ -348,6 +554,10 @@ class MaritimeStore {
     this.setPreferences({ notifications: enabled });
   }
 
+  setSessionRecording(enabled: boolean): void {
+    this.setPreferences({ recordSession: enabled });
+  }
+
   // ============================================================
   // Computed Selectors
   // ============================================================
@@ -357,12 +567,9 @@ class MaritimeStore {
   }
 
   getHighRiskVessels(): Vessel[] {
-    return this.state.vessels.filter((v) => {
-      // Heuristics for high-risk vessels
-      const hasNoName = !v.name || v.name === 'Unknown Vessel';
-      const isStopped = v.speed === 0;
-      return hasNoName || isStopped;
-    });
+    return this.state.vessels.filter(
+      (v) => this.getVesselRisk(String(v.mmsi))?.level === 'high'
+    );
   }
 
   getCriticalIncidents(): SecurityIncident[] {
@@ -385,8 +592,16 @@ class MaritimeStore {
       );
     }
 
-    // Apply time range filter
-    const now = Date.now();
+    // Apply risk level filter (unscored vessels count as low risk)
+    const { riskLevel } = this.state.filters;
+    if (riskLevel !== 'all') {
+      filtered = filtered.filter(
+        (v) => (this.getVesselRisk(String(v.mmsi))?.level || 'low') === riskLevel
+      );
+    }
+
+    // Apply time range filter (relative to the replay clock during replay)
+    const now = this.now();
     const timeThreshold = now - this.state.filters.timeRange * 60 * 1000;
     filtered = filtered.filter(
       (v) => new Date(v.timestamp).getTime() > timeThreshold
@@ -433,18 +648,23 @@ class MaritimeStore {
 
   reset(): void {
     this.state = this.getInitialState();
+    this.sourcePriorities.clear();
     this.notifyListeners();
   }
 
   getStats(): {
     vesselCount: number;
+    highRiskVesselCount: number;
     incidentCount: number;
+    criticalIncidentCount: number;
     alertCount: number;
     lastUpdated: Date | null;
   } {
     return {
       vesselCount: this.state.vessels.length,
+      highRiskVesselCount: this.getHighRiskVessels().length,
       incidentCount: this.state.incidents.length,
+      criticalIncidentCount: this.getCriticalIncidents().length,
       alertCount: this.state.alerts.length,
       lastUpdated: this.state.lastUpdated,
     };
@@ -0,0 +1,95 @@
+/**
+ * Test helpers
+ * Mocked fetch and small factories shared by the unit tests
+ */
+
+import { vi } from 'vitest';
+import type { FeedSource, SecurityIncident, Vessel } from '../types/maritime';
+
+type FetchHandler = (url: string) => unknown | Response | Promise<unknown | Response>;
+
+/**
+ * Replace global fetch; the handler returns a JSON body or a full Response
+ */
+export function mockFetch(handler: FetchHandler) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+    const result = await handler(String(input));
+    return result instanceof Response ? result : jsonResponse(result);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function feedSource(overrides: Partial<FeedSource> = {}): FeedSource {
+  return {
+    id: 'test-feed',
+    name: 'Test Feed',
+    provider: 'test',
+    url: 'https://api.test/',
+    type: 'api',
+    category: 'vessel_tracking',
+    updateInterval: 60000,
+    enabled: true,
+    priority: 0,
+    auth: { type: 'apikey', credentials: 'test-key' },
+    ...overrides,
+  };
+}
+
+/**
+ * A tanker in the Singapore Strait; the name follows the MMSI unless given
+ */
+export function vessel(overrides: Partial<Vessel> = {}): Vessel {
+  const mmsi = overrides.mmsi ?? '563000001';
+  return {
+    imo: '',
+    mmsi,
+    name: `Vessel ${mmsi}`,
+    type: 'tanker',
+    flagState: 'SG',
+    position: { latitude: 1.2, longitude: 103.8 },
+    heading: 90,
+    speed: 10,
+    timestamp: new Date('2026-03-01T10:00:00Z'),
+    source: 'AIS Hub',
+    ...overrides,
+  };
+}
+
+/**
+ * A boarding in the Singapore Strait, reported on the day it happened unless given
+ */
+export function incident(overrides: Partial<SecurityIncident> = {}): SecurityIncident {
+  const date = overrides.date ?? new Date('2026-02-28T00:00:00Z');
+  return {
+    id: 'recaap_1',
+    type: 'Singapore Strait',
+    description: 'Boarding',
+    location: '1.2, 103.8',
+    latitude: 1.2,
+    longitude: 103.8,
+    date,
+    severity: 'high',
+    status: 'reported',
+    source: 'ReCAAP ISC',
+    timestamp: date,
+    ...overrides,
+  };
+}
+
+/**
+ * Let pending promise callbacks run without advancing fake timers
+ */
+export async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+}
@@ -35,22 +35,132 @@ export interface Coordinates {
   longitude: number;
 }
 
+export interface MapBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
 export interface Vessel {
-  imo: string;
+  imo: string; // empty when unknown
   mmsi: string;
   name: string;
   type: VesselType;
   flagState: string;
   position: Coordinates;
   heading: number; // 0-359 degrees
+  course?: number; // course over ground, 0-359 degrees
   speed: number; // knots
-  timestamp: Date;
-  source: 'ais' | 'marinetraffic' | 'other';
+  status?: number; // AIS navigational status (0 under way, 1 at anchor, 5 moored, ...)
+  timestamp: Date; // time of the position report
+  source: string; // feed that produced the report, e.g. 'AIS Hub' or 'ais' for our receivers
+  callSign?: string;
+  length?: number; // metres, bow to stern
+  beam?: number; // metres
+  draught?: number; // metres, as last reported
   destination?: string;
   eta?: Date;
   captain?: string;
   crew?: number;
   cargo?: string;
+  sources?: string[]; // feeds that contributed to this record
+  conflicts?: VesselConflict[];
+}
+
+export interface VesselConflict {
+  type: 'position' | 'identity';
+  sources: string[];
+  detail: string;
+  detectedAt: Date;
+}
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  speed: number; // knots
+  heading: number; // 0-359 degrees
+  course?: number; // course over ground, 0-359 degrees
+  timestamp: Date;
+}
+
+export interface PortCall {
+  port: string; // port name
+  unlocode: string;
+  arrival: Date; // first report inside the port area
+  departure: Date | null; // first report after leaving; null while still in port
+}
+
+export interface DarkPeriod {
+  id: string;
+  mmsi: string;
+  vesselName: string;
+  wentDarkAt: Date; // last report before the gap
+  lastPosition: Coordinates;
+  reappearedAt: Date; // first report after the gap
+  reappearedPosition: Coordinates;
+  durationMinutes: number;
+  distanceNm: number;
+  impliedSpeed: number; // knots needed to cover the distance during the gap
+  impossible: boolean; // implied speed beyond what the vessel could physically do
+}
+
+export interface RendezvousEvent {
+  id: string;
+  mmsiA: string;
+  mmsiB: string;
+  vesselNameA: string;
+  vesselNameB: string;
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  location: Coordinates; // centroid of the encounter
+  minDistanceNm: number;
+  inPortArea: boolean;
+}
+
+export interface WeatherData {
+  id: string;
+  latitude: number;
+  longitude: number;
+  temperature: number; // °C
+  feelsLike: number; // °C
+  humidity: number; // %
+  pressure: number; // hPa
+  windSpeed: number; // m/s
+  windDirection: number; // degrees the wind blows from
+  windGust: number; // m/s, 0 when not reported
+  description: string;
+  clouds: number; // % cover
+  visibility: number; // metres
+  rain: number; // mm in the last hour
+  waves: number; // significant wave height in metres, 0 when not reported
+  location: string;
+  source: string;
+  timestamp: Date; // observation or forecast time
+}
+
+export interface SecurityIncident {
+  id: string;
+  type: string; // sub-region or incident category
+  description: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  date: Date; // when the incident happened
+  severity: AlertSeverity;
+  status: 'reported' | 'ongoing' | 'resolved';
+  source: string;
+  timestamp: Date; // when it was reported
+}
+
+/**
+ * Error shape thrown by services and providers
+ */
+export interface ServiceError {
+  service: string;
+  message: string;
+  timestamp: string; // ISO time of the failure
 }
 
 export interface PiracyIncident {
@@ -174,18 +284,83 @@ export interface MaritimeEvent {
 }
 
 export interface FeedSource {
+  id: string;
   name: string;
+  provider: string; // registered provider adapter, e.g. 'aishub'
   url: string;
   type: 'rss' | 'api' | 'webhook';
   category: MaritimeEventType;
   updateInterval: number; // milliseconds
   enabled: boolean;
+  priority?: number; // lower is tried first among sources of the same category
   auth?: {
     type: 'apikey' | 'oauth' | 'basic';
     credentials?: string;
   };
 }
 
+export type GeofenceShape = 'polygon' | 'circle' | 'corridor';
+
+export interface Geofence {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+  coordinates: [number, number][]; // [lat, lon]; polygon ring, corridor centerline or circle center
+  radius?: number; // nautical miles (circle) or corridor half-width
+  dwellThreshold: number; // minutes inside before a dwell alert
+  createdAt: Date;
+}
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceEvent {
+  type: GeofenceEventType;
+  geofenceId: string;
+  geofenceName: string;
+  mmsi: string;
+  vesselName: string;
+  timestamp: Date;
+}
+
+export type RiskLevel = 'high' | 'medium' | 'low';
+
+export type RiskOperator =
+  | 'eq'
+  | 'neq'
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte'
+  | 'in'
+  | 'notIn'
+  | 'exists'
+  | 'missing'
+  | 'matches';
+
+// JSON-serialisable condition tree evaluated against a vessel's facts
+export type RiskCondition =
+  | { all: RiskCondition[] }
+  | { any: RiskCondition[] }
+  | { not: RiskCondition }
+  | { fact: string; op: RiskOperator; value?: string | number | boolean | Array<string | number> };
+
+export interface RiskRule {
+  id: string;
+  name: string;
+  reason: string; // shown when the rule matches; {fact} placeholders are filled in
+  weight: number; // points added to the score (0-100)
+  enabled: boolean;
+  condition: RiskCondition;
+}
+
+export interface RiskAssessment {
+  mmsi: string;
+  score: number; // 0-100
+  level: RiskLevel;
+  reasons: Array<{ ruleId: string; reason: string; weight: number }>;
+  evaluatedAt: Date;
+}
+
 export interface MapConfig {
   center: Coordinates;
   zoom: number;
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AIS_HUB_API_KEY?: string;
+  readonly VITE_OPENWEATHER_API_KEY?: string;
+  readonly VITE_AIS_RECEIVER_WS_URL?: string;
+  readonly VITE_DATA_MODE?: string;
+  readonly VITE_MOCK_SEED?: string;
+  readonly VITE_API_PROXY_URL?: string;
+  readonly VITE_STREAM?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
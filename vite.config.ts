@@ -1,27 +1,76 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest" />
+import { defineConfig, loadEnv, type Connect, type Plugin } from 'vite';
+import { getSimulation, respondToFixture } from './src/lib/fixture-responses';
 
-export default defineConfig({
-  server: {
-    port: 5173,
-    host: '0.0.0.0',
-    hmr: {
-      protocol: 'ws',
-      host: 'localhost',
+/**
+ * Local stand-in for the AIS Hub, OpenWeather and ReCAAP APIs under /__fixtures,
+ * served from the deterministic simulation (VITE_MOCK_SEED picks the world).
+ * Used with VITE_DATA_MODE=fixtures; also handy for curl-ing sample payloads.
+ */
+function fixtureServer(seed: number): Plugin {
+  const handler: Connect.NextHandleFunction = (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const { status, body } = respondToFixture(getSimulation(seed), url);
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  return {
+    name: 'maritime-fixtures',
+    configureServer(server) {
+      server.middlewares.use('/__fixtures', handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/__fixtures', handler);
+    },
+  };
+}
+
+// Vendor keys the client reads only when it calls the vendors directly
+const CLIENT_KEYS = ['VITE_AIS_HUB_API_KEY', 'VITE_OPENWEATHER_API_KEY'];
+
+export default defineConfig(({ mode, isSsrBuild }) => {
+  const env = loadEnv(mode, process.cwd(), 'VITE_');
+
+  // Through the API proxy the keys stay on the server: keep them out of the bundle
+  const blankedKeys = env.VITE_API_PROXY_URL
+    ? Object.fromEntries(CLIENT_KEYS.map((key) => [`import.meta.env.${key}`, '""']))
+    : {};
+
+  return {
+    server: {
       port: 5173,
+      host: '0.0.0.0',
+      hmr: {
+        protocol: 'ws',
+        host: 'localhost',
+        port: 5173,
+      },
+      // API proxy server (server/) for VITE_API_PROXY_URL=/api, including its WebSocket stream
+      proxy: {
+        '/api': { target: env.VITE_API_PROXY_TARGET || 'http://localhost:3000', ws: true },
+      },
+    },
+    // `npm run build:server` bundles server/ (with the shared src/ modules) for Node
+    build: isSsrBuild
+      ? { target: 'node18', outDir: 'dist-server', minify: false, sourcemap: false }
+      : { target: 'ES2020', minify: 'esbuild', sourcemap: false },
+    plugins: [fixtureServer(parseInt(env.VITE_MOCK_SEED || '1', 10) || 1)],
+    resolve: {
+      alias: {
+        '@': '/src',
+      },
+    },
+    define: {
+      'process.env.NODE_ENV': '"development"',
+      ...blankedKeys,
     },
-  },
-  build: {
-    target: 'ES2020',
-    minify: 'terser',
-    sourcemap: false,
-  },
-  plugins: [],
-  resolve: {
-    alias: {
-      '@': '/src',
+    test: {
+      environment: 'node',
+      include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+      restoreMocks: true,
+      unstubGlobals: true,
     },
-  },
-  define: {
-    'process.env.NODE_ENV': '"development"',
-  },
+  };
 });